@@ -0,0 +1,35 @@
+import { hashBlob } from '@/lib/assets'
+import { ASSET_ID_PATTERN, assetHeaders, assetType } from '@/lib/deckStorage'
+import { deckStorage } from '@/lib/serverStorage'
+
+// ---------- Assets ----------
+// Images used by stored decks, addressed by the same content hash as the browser's asset store, so
+// a deck opened on another machine can fetch what it is missing.
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+type Context = { params: Promise<{ id: string }> }
+
+const MAX_ASSET_BYTES = 20 * 1024 * 1024
+
+export async function GET(_request: Request, { params }: Context) {
+  const { id } = await params
+  if (!ASSET_ID_PATTERN.test(id)) return new Response('Bad request', { status: 400 })
+  const asset = await deckStorage().getAsset(id)
+  if (!asset) return new Response('Not found', { status: 404 })
+  return new Response(asset.bytes, { headers: assetHeaders(asset.type) })
+}
+
+export async function PUT(request: Request, { params }: Context) {
+  const { id } = await params
+  if (!ASSET_ID_PATTERN.test(id)) return new Response('Bad request', { status: 400 })
+  const bytes = new Uint8Array(await request.arrayBuffer())
+  if (bytes.byteLength > MAX_ASSET_BYTES) return new Response('Too large', { status: 413 })
+  const type = assetType(bytes)
+  if (!type) return new Response('Unsupported media type', { status: 415 })
+  // The id has to match the content, or one upload could replace another deck's image.
+  if ((await hashBlob(new Blob([bytes]))) !== id) return new Response('Hash mismatch', { status: 422 })
+  await deckStorage().putAsset(id, bytes, type)
+  return new Response(null, { status: 204 })
+}
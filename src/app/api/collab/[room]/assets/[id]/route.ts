@@ -0,0 +1,36 @@
+import { hashBlob } from '@/lib/assets'
+import { ROOM_PATTERN } from '@/lib/collab'
+import { ASSET_ID_PATTERN, assetHeaders, assetType } from '@/lib/deckStorage'
+import { addAsset, getRoom } from '@/lib/collabRooms'
+
+// ---------- Shared images ----------
+// Image bytes stay out of the document (shapes only carry the asset id), so a room keeps a copy of
+// each image a member uploads for the others to fetch into their own asset store.
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+type Context = { params: Promise<{ room: string; id: string }> }
+
+const MAX_ASSET_BYTES = 20 * 1024 * 1024
+
+export async function GET(_request: Request, { params }: Context) {
+  const { room, id } = await params
+  if (!ROOM_PATTERN.test(room) || !ASSET_ID_PATTERN.test(id)) return new Response('Bad request', { status: 400 })
+  const asset = getRoom(room).assets.get(id)
+  if (!asset) return new Response('Not found', { status: 404 })
+  return new Response(asset.bytes, { headers: assetHeaders(asset.type) })
+}
+
+export async function PUT(request: Request, { params }: Context) {
+  const { room, id } = await params
+  if (!ROOM_PATTERN.test(room) || !ASSET_ID_PATTERN.test(id)) return new Response('Bad request', { status: 400 })
+  const bytes = await request.arrayBuffer()
+  if (bytes.byteLength > MAX_ASSET_BYTES) return new Response('Too large', { status: 413 })
+  const type = assetType(new Uint8Array(bytes))
+  if (!type) return new Response('Unsupported media type', { status: 415 })
+  // The id has to match the content, or one member could swap another's image.
+  if ((await hashBlob(new Blob([bytes]))) !== id) return new Response('Hash mismatch', { status: 422 })
+  if (!addAsset(getRoom(room), id, bytes, type)) return new Response('Room is full', { status: 413 })
+  return new Response(null, { status: 204 })
+}
@@ -0,0 +1,68 @@
+import { ROOM_PATTERN, isCollabOp, isPresence, type CollabEvent, type CollabPost } from '@/lib/collab'
+import { getRoom, join, leave, publishOps, publishPresence } from '@/lib/collabRooms'
+
+// ---------- Collaboration sync ----------
+// GET opens a server-sent event stream for one client: the room's document first, then every
+// change and presence update from the others. POST carries the client's own operations and
+// presence. Route handlers can't accept WebSocket upgrades, and the two halves together do the
+// same job over plain HTTP.
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+type Context = { params: Promise<{ room: string }> }
+
+// Proxies drop streams that stay silent; a comment line now and then keeps this one open.
+const KEEPALIVE_MS = 20000
+
+export async function GET(request: Request, { params }: Context) {
+  const { room: roomId } = await params
+  const client = new URL(request.url).searchParams.get('client')
+  if (!ROOM_PATTERN.test(roomId) || !client) return new Response('Bad request', { status: 400 })
+  const room = getRoom(roomId)
+  const encoder = new TextEncoder()
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text))
+        } catch {
+          // The stream closed between the disconnect and the abort event.
+        }
+      }
+      join(room, client, (event: CollabEvent) => write(`data: ${JSON.stringify(event)}\n\n`))
+      const keepalive = setInterval(() => write(': keepalive\n\n'), KEEPALIVE_MS)
+      request.signal.addEventListener('abort', () => {
+        clearInterval(keepalive)
+        leave(room, client)
+        try {
+          controller.close()
+        } catch {
+          // Already closed.
+        }
+      })
+    },
+  })
+  return new Response(stream, {
+    headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache, no-transform', Connection: 'keep-alive' },
+  })
+}
+
+export async function POST(request: Request, { params }: Context) {
+  const { room: roomId } = await params
+  if (!ROOM_PATTERN.test(roomId)) return new Response('Bad request', { status: 400 })
+  let body: CollabPost
+  try {
+    body = await request.json()
+  } catch {
+    return new Response('Bad request', { status: 400 })
+  }
+  if (typeof body?.client !== 'string') return new Response('Bad request', { status: 400 })
+  if (body.ops !== undefined && (!Array.isArray(body.ops) || !body.ops.every(isCollabOp))) return new Response('Bad operations', { status: 400 })
+  const presence = body.presence === undefined ? undefined : { ...body.presence, client: body.client }
+  if (presence !== undefined && !isPresence(presence)) return new Response('Bad presence', { status: 400 })
+  const room = getRoom(roomId)
+  if (body.ops) publishOps(room, body.client, body.ops)
+  if (presence) publishPresence(room, presence)
+  return new Response(null, { status: 204 })
+}
@@ -0,0 +1,65 @@
+import { DECK_ID_PATTERN, MAX_THUMBNAIL_LENGTH, MAX_TITLE_LENGTH, metaOf } from '@/lib/deckStorage'
+import { deckTitle, parseDocument, toDocument } from '@/lib/document'
+import { deckStorage } from '@/lib/serverStorage'
+
+// ---------- Deck ----------
+// GET returns the deck with its metadata. PUT replaces it; with `baseRevision` the save is refused
+// with 409 and the stored deck if someone else saved since that revision. PATCH renames it with
+// `title`, leaving its content and revision alone. DELETE removes it.
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+type Context = { params: Promise<{ id: string }> }
+
+const notFound = () => new Response('Not found', { status: 404 })
+
+export async function GET(_request: Request, { params }: Context) {
+  const { id } = await params
+  if (!DECK_ID_PATTERN.test(id)) return notFound()
+  const stored = await deckStorage().get(id)
+  if (!stored) return notFound()
+  return Response.json({ ...metaOf(stored), document: toDocument(stored.deck) })
+}
+
+export async function PUT(request: Request, { params }: Context) {
+  const { id } = await params
+  if (!DECK_ID_PATTERN.test(id)) return notFound()
+  let body: { document?: unknown; title?: unknown; baseRevision?: unknown; thumbnail?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return new Response('Bad request', { status: 400 })
+  }
+  const parsed = parseDocument(body?.document, 'This deck could not be saved')
+  if (!parsed.ok) return Response.json({ error: parsed.error }, { status: 422 })
+  const title = typeof body.title === 'string' && body.title.trim() ? body.title.trim().slice(0, MAX_TITLE_LENGTH) : deckTitle(parsed.deck) || 'Untitled'
+  const baseRevision = typeof body.baseRevision === 'number' ? body.baseRevision : undefined
+  const thumbnail = typeof body.thumbnail === 'string' && body.thumbnail.startsWith('data:image/') ? body.thumbnail : undefined
+  if (thumbnail && thumbnail.length > MAX_THUMBNAIL_LENGTH) return new Response('Thumbnail too large', { status: 413 })
+  const result = await deckStorage().update(id, parsed.deck, { title, thumbnail }, baseRevision)
+  if (result.ok) return Response.json(result.meta)
+  if (result.reason === 'not-found') return notFound()
+  return Response.json({ ...metaOf(result.current), document: toDocument(result.current.deck) }, { status: 409 })
+}
+
+export async function PATCH(request: Request, { params }: Context) {
+  const { id } = await params
+  if (!DECK_ID_PATTERN.test(id)) return notFound()
+  let body: { title?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return new Response('Bad request', { status: 400 })
+  }
+  const title = typeof body?.title === 'string' ? body.title.trim().slice(0, MAX_TITLE_LENGTH) : ''
+  if (!title) return new Response('A deck needs a title', { status: 400 })
+  const meta = await deckStorage().rename(id, title)
+  return meta ? Response.json(meta) : notFound()
+}
+
+export async function DELETE(_request: Request, { params }: Context) {
+  const { id } = await params
+  if (!DECK_ID_PATTERN.test(id)) return notFound()
+  return (await deckStorage().remove(id)) ? new Response(null, { status: 204 }) : notFound()
+}
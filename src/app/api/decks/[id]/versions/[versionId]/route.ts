@@ -0,0 +1,29 @@
+import { DECK_ID_PATTERN } from '@/lib/deckStorage'
+import { toDocument } from '@/lib/document'
+import { deckStorage } from '@/lib/serverStorage'
+import { VERSION_ID_PATTERN } from '@/lib/versions'
+
+// ---------- Version ----------
+// GET returns one saved version with its document; DELETE removes it.
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+type Context = { params: Promise<{ id: string; versionId: string }> }
+
+const notFound = () => new Response('Not found', { status: 404 })
+
+export async function GET(_request: Request, { params }: Context) {
+  const { id, versionId } = await params
+  if (!DECK_ID_PATTERN.test(id) || !VERSION_ID_PATTERN.test(versionId)) return notFound()
+  const version = await deckStorage().getVersion(id, versionId)
+  if (!version) return notFound()
+  const { deck, ...meta } = version
+  return Response.json({ ...meta, document: toDocument(deck) })
+}
+
+export async function DELETE(_request: Request, { params }: Context) {
+  const { id, versionId } = await params
+  if (!DECK_ID_PATTERN.test(id) || !VERSION_ID_PATTERN.test(versionId)) return notFound()
+  return (await deckStorage().removeVersion(id, versionId)) ? new Response(null, { status: 204 }) : notFound()
+}
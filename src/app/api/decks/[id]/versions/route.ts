@@ -0,0 +1,42 @@
+import { DECK_ID_PATTERN, MAX_THUMBNAIL_LENGTH } from '@/lib/deckStorage'
+import { parseDocument } from '@/lib/document'
+import { deckStorage } from '@/lib/serverStorage'
+
+// ---------- Versions ----------
+// GET lists a deck's saved versions, newest first. POST saves `document` as a new version with a
+// `name`, whether it is an automatic snapshot (`auto`) and a `thumbnail` data URL.
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+type Context = { params: Promise<{ id: string }> }
+
+const MAX_NAME_LENGTH = 100
+
+const notFound = () => new Response('Not found', { status: 404 })
+
+export async function GET(_request: Request, { params }: Context) {
+  const { id } = await params
+  if (!DECK_ID_PATTERN.test(id)) return notFound()
+  const versions = await deckStorage().listVersions(id)
+  return versions ? Response.json({ versions }) : notFound()
+}
+
+export async function POST(request: Request, { params }: Context) {
+  const { id } = await params
+  if (!DECK_ID_PATTERN.test(id)) return notFound()
+  let body: { document?: unknown; name?: unknown; auto?: unknown; thumbnail?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return new Response('Bad request', { status: 400 })
+  }
+  const parsed = parseDocument(body?.document, 'This version could not be saved')
+  if (!parsed.ok) return Response.json({ error: parsed.error }, { status: 422 })
+  const name = typeof body.name === 'string' ? body.name.trim().slice(0, MAX_NAME_LENGTH) : ''
+  const thumbnail = typeof body.thumbnail === 'string' && body.thumbnail.startsWith('data:image/') ? body.thumbnail : ''
+  if (!name) return new Response('A version needs a name', { status: 400 })
+  if (thumbnail.length > MAX_THUMBNAIL_LENGTH) return new Response('Thumbnail too large', { status: 413 })
+  const meta = await deckStorage().createVersion(id, { name, auto: body.auto === true, thumbnail }, parsed.deck)
+  return meta ? Response.json(meta, { status: 201 }) : notFound()
+}
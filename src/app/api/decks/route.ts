@@ -0,0 +1,37 @@
+import { createDeck } from '@/lib/deck'
+import { MAX_THUMBNAIL_LENGTH, MAX_TITLE_LENGTH } from '@/lib/deckStorage'
+import { deckTitle, parseDocument, toDocument } from '@/lib/document'
+import { deckStorage } from '@/lib/serverStorage'
+
+// ---------- Decks ----------
+// GET lists stored decks, most recently changed first. POST creates one from `document` (any
+// version of the document envelope) or, without it, a blank deck. A `title` names the deck for
+// good; without one it follows the deck's first text. `thumbnail` is a data URL of the first slide.
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  return Response.json({ decks: await deckStorage().list() })
+}
+
+export async function POST(request: Request) {
+  let body: { document?: unknown; title?: unknown; thumbnail?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return new Response('Bad request', { status: 400 })
+  }
+  let deck = createDeck()
+  if (body?.document !== undefined) {
+    const parsed = parseDocument(body.document, 'This deck could not be saved')
+    if (!parsed.ok) return Response.json({ error: parsed.error }, { status: 422 })
+    deck = parsed.deck
+  }
+  const custom = typeof body.title === 'string' ? body.title.trim().slice(0, MAX_TITLE_LENGTH) : ''
+  const thumbnail = typeof body.thumbnail === 'string' && body.thumbnail.startsWith('data:image/') ? body.thumbnail : undefined
+  if (thumbnail && thumbnail.length > MAX_THUMBNAIL_LENGTH) return new Response('Thumbnail too large', { status: 413 })
+  const details = custom ? { title: custom, customTitle: true, thumbnail } : { title: deckTitle(deck) || 'Untitled', thumbnail }
+  const meta = await deckStorage().create(deck, details)
+  return Response.json({ ...meta, document: toDocument(deck) }, { status: 201 })
+}
@@ -1,258 +1,932 @@
 'use client'
 
 import React, { JSX, useCallback, useEffect, useMemo, useRef, useState } from 'react'
-import { Stage, Layer, Rect, Circle, Text as KonvaText, Image as KonvaImage, Transformer, Line } from 'react-konva'
+import { Stage, Layer, Group, Rect, Circle, Image as KonvaImage, Transformer, Line } from 'react-konva'
 import type { KonvaEventObject } from 'konva/lib/Node'
 import Konva from 'konva'
+import Link from 'next/link'
+import {
+  DEFAULT_TRANSITION, IMAGE_MASKS, THEME_FONTS, TRANSITION_KINDS, createDeck, duplicateSlide, moveItem, slideSize, uid,
+  findPath, findShape, flattenShapes, groupShapes, mapShapeTree, mapSiblingLists, removeShapes, scaleShape, ungroupShape,
+  type ArrowHead, type ArrowShape, type CircleShape, type ConnectorShape, type Deck, type GroupShape, type ImageMask, type ImageShape, type LineShape, type RectShape,
+  type Shape, type ShapeUpdater, type SlideSize, type SlideTransition, type StrokeShape, type TextRun, type TextShape, type Theme, type ThemeColor, type TransitionKind,
+} from '@/lib/deck'
+import {
+  ANCHORS, anchorOffset, canBind, detachConnectors, endpointsInSlide, modelAnchorResolver,
+  nearestAnchor, shapeMatrix, withEndpoint, type AnchorResolver, type EndpointName,
+} from '@/lib/connectors'
+import { DEFAULT_MASK_RADIUS, cropTo, uncroppedBox } from '@/lib/imageEffects'
+import { applyStyle, pickStyle, type ShapeStyle } from '@/lib/style'
+import {
+  applyTheme, deckMasters, deckTheme, fillLook, findLayout, followingLayout, layoutShapes, lineLook, placeholderPrompt,
+  resolveThemeRefs, slideFromLayout, textLook, unbind,
+} from '@/lib/theme'
+import { resizeDeck, type SlideFit } from '@/lib/slideSize'
+import { applyMatrix, invertMatrix, localBox, unionBox, type Box } from '@/lib/geometry'
+import { ALIGN_REFERENCES, alignShapes, distributeShapes, type AlignEdge, type AlignReference } from '@/lib/align'
+import { useAssetImage, useResizeObserver } from '@/lib/hooks'
+import { assetIdsIn, collectGarbage, loadAssetImage, migrateImageSources, putAsset } from '@/lib/assets'
+import { deckFileName, exportDeckFile, importDeckFile, loadDeck, saveDeck, type DocumentError } from '@/lib/document'
+import { rasterizeSlide, slideToSvg } from '@/lib/svgExport'
+import { deckToPdf } from '@/lib/pdfExport'
+import { PPTX_EXTENSION, deckToPptx, pptxToDeck } from '@/lib/pptx'
+import { slideTimeline } from '@/lib/builds'
+import { EMPTY_HISTORY, HISTORY_LS_KEY, loadHistories, record, saveHistories, shapeLabel, shapesLabel, storedHistoryAssets, travel, updateLabel, type SlideHistory } from '@/lib/history'
+import { DEFAULT_SNAP_TARGETS, SNAP_DISTANCE, snapMove, snapPoint, type SnapTargets } from '@/lib/snapping'
+import { ROOM_PATTERN, type Presence } from '@/lib/collab'
+import { useCollab } from '@/lib/collabClient'
+import { DECK_ID_PATTERN } from '@/lib/deckStorage'
+import { CLIPBOARD_TYPE, PASTE_OFFSET, cloneShapes, copyShapes, imageShapeAt, insertCopies, readClipboardShapes, textShapeAt, toClipboard } from '@/lib/clipboard'
+import { carriesFiles, dropKind, imageBlob, readFile } from '@/lib/fileDrop'
+import { cachedDeckAssets, createServerDeck, serverVersionStore, useDeckAutosave, type SaveStatus } from '@/lib/deckSync'
+import { localVersionAssets, localVersionStore } from '@/lib/versionStore'
+import { AUTO_SNAPSHOT_INTERVAL, type VersionMeta } from '@/lib/versions'
+import { SlideSorter } from '@/components/SlideSorter'
+import { DocumentErrorReport } from '@/components/DocumentErrorReport'
+import { Presenter } from '@/components/Presenter'
+import { AnimatedSlide, playBuildSequence } from '@/components/BuildPlayer'
+import { BuildList, BuildTimeline } from '@/components/BuildInspector'
+import { clearSnapGuides, drawSnapGuides } from '@/components/SnapGuides'
+import { HistoryPanel } from '@/components/HistoryPanel'
+import { VersionsPanel } from '@/components/VersionsPanel'
+import { drawPresence } from '@/components/PresenceOverlay'
+import { RichText } from '@/components/RichText'
+import { ImageView } from '@/components/ImageView'
+import { LinePath } from '@/components/LinePath'
+import { blendProps, styleProps } from '@/components/shapeStyle'
+import { StyleEditor } from '@/components/StyleEditor'
+import { ThemeEditor, ThemeSwatches } from '@/components/ThemeEditor'
+import { SlideSizeEditor } from '@/components/SlideSizeEditor'
+import { RichTextEditor, type TextEditPlacement } from '@/components/RichTextEditor'
+import { DEFAULT_FONT_FAMILY, DEFAULT_LINE_HEIGHT, FONT_FAMILIES, layoutRichText, normalizeRuns, runsToPlainText, textRuns } from '@/lib/richText'
 
-type BaseShape = {
-  id: string
-  x: number
-  y: number
-  rotation: number
-  name?: string
-  locked?: boolean
-  hidden?: boolean
-}
-
-type RectShape = BaseShape & {
-  kind: 'rect'
-  width: number
-  height: number
-  fill: string
-  stroke?: string
-  strokeWidth?: number
-  cornerRadius?: number
-}
-
-type CircleShape = BaseShape & {
-  kind: 'circle'
-  radius: number
-  fill: string
-  stroke?: string
-  strokeWidth?: number
-}
-
-type TextShape = BaseShape & {
-  kind: 'text'
-  text: string
-  fontSize: number
-  width?: number
-  fill: string
-}
-
-type ImageShape = BaseShape & {
-  kind: 'image'
-  width: number
-  height: number
-  src: string
-}
-
-type Shape = RectShape | CircleShape | TextShape | ImageShape
-
-type ShapeUpdater = (prev: Shape[]) => Shape[]
- 
-const SLIDE_W = 1920
-const SLIDE_H = 1080
-
-// Local storage key
-const LS_KEY = 'single-slide-mvp'
 
 // ---------- Helpers ----------
 
-function uid(prefix = 'id'): string {
-  return `${prefix}_${Math.random().toString(36).slice(2, 9)}`
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  a.click()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
 }
 
-function useResizeObserver<T extends HTMLElement>() {
-  const ref = useRef<T | null>(null)
-  const [size, setSize] = useState({ width: 0, height: 0 })
-  useEffect(() => {
-    if (!ref.current) return
-    const el = ref.current
-    const ro = new ResizeObserver((entries) => {
-      const cr = entries[0].contentRect
-      setSize({ width: cr.width, height: cr.height })
-    })
-    ro.observe(el)
-    setSize({ width: el.clientWidth, height: el.clientHeight })
-    return () => ro.disconnect()
-  }, [])
-  return { ref, size }
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v))
+const marqueeRect = (m: { x0: number; y0: number; x1: number; y1: number }) => ({
+  x: Math.min(m.x0, m.x1),
+  y: Math.min(m.y0, m.y1),
+  width: Math.abs(m.x1 - m.x0),
+  height: Math.abs(m.y1 - m.y0),
+})
+// Fields where keys and clipboard events belong to the text being typed.
+const isTypingTarget = (target: EventTarget | null) => {
+  const el = target as HTMLElement | null
+  return !!el && (el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName))
 }
- 
-const imageCache = new Map<string, HTMLImageElement>()
-async function loadImage(src: string): Promise<HTMLImageElement> {
-  if (imageCache.has(src)) return imageCache.get(src) as HTMLImageElement
-  return new Promise((resolve, reject) => {
-    const img = new Image()
-    img.crossOrigin = 'anonymous'
-    img.onload = () => {
-      imageCache.set(src, img)
-      resolve(img)
-    }
-    img.onerror = reject
-    img.src = src
-  })
+const isStroke = (s: Shape): s is StrokeShape => s.kind === 'line' || s.kind === 'arrow' || s.kind === 'connector'
+const ARROW_HEADS: ArrowHead[] = ['none', 'triangle', 'open', 'circle', 'diamond']
+// Endpoints dropped this close (in slide units) to an anchor bind to it.
+const BIND_RADIUS = 32
+const SAVE_STATUS_LABELS: Record<SaveStatus, string> = {
+  saved: 'Saved',
+  saving: 'Saving…',
+  offline: 'Offline · changes kept on this device',
+  conflict: 'Changed elsewhere',
+  failed: 'Not saved',
 }
-
-const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v))
+// Image settings edited with a slider; `neutral` is the value that leaves the image unchanged.
+const IMAGE_ADJUSTMENTS: { field: 'brightness' | 'contrast' | 'blur' | 'opacity'; label: string; min: number; max: number; step: number; neutral: number }[] = [
+  { field: 'brightness', label: 'Brightness', min: 0, max: 2, step: 0.05, neutral: 1 },
+  { field: 'contrast', label: 'Contrast', min: -100, max: 100, step: 1, neutral: 0 },
+  { field: 'blur', label: 'Blur', min: 0, max: 40, step: 1, neutral: 0 },
+  { field: 'opacity', label: 'Opacity', min: 0, max: 1, step: 0.05, neutral: 1 },
+]
 const toNum = (v: string, fallback: number) => {
   const n = Number(v)
   return Number.isFinite(n) ? n : fallback
 }
 
+type ImageNodeProps = {
+  s: ImageShape;
+  isPanMode: boolean;
+  onSelect: (id: string, e: KonvaEventObject<Event>) => void;
+  onDragEnd: (id: string, e: KonvaEventObject<DragEvent>) => void;
+  onCrop: (id: string) => void;
+};
+
+const ImageNode: React.FC<ImageNodeProps> = ({
+  s, isPanMode, onSelect, onDragEnd, onCrop,
+}) => (
+  <ImageView
+    s={s}
+    id={s.id}
+    draggable={!isPanMode && !s.locked}
+    listening={!s.locked}
+    onClick={(e) => onSelect(s.id, e)}
+    onTap={(e) => onSelect(s.id, e)}
+    onDblClick={() => onCrop(s.id)}
+    onDblTap={() => onCrop(s.id)}
+    onDragEnd={(e) => onDragEnd(s.id, e)}
+  />
+);
+
 // ---------- Component ----------
 
-export default function SingleSlideEditorMVP() {
+export default function SlideDeckEditor() {
   const stageRef = useRef<Konva.Stage | null>(null)
   const trRef = useRef<Konva.Transformer | null>(null)
-  const selectedNodeRef = useRef<Konva.Node | null>(null)
   const container = useResizeObserver<HTMLDivElement>()
   const lastTouchRef = useRef<{ x: number; y: number } | null>(null)
-
-  const [shapes, setShapes] = useState<Shape[]>([])
-  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const anchorDotsRef = useRef<Konva.Group | null>(null)
+  const editLayerRef = useRef<Konva.Layer | null>(null)
+  const guideLayerRef = useRef<Konva.Layer | null>(null)
+  const presenceLayerRef = useRef<Konva.Layer | null>(null)
+  // While a selection is dragged: its box at drag start (slide space), where the dragged node
+  // started (absolute), and the boxes it can snap to.
+  const dragSnapRef = useRef<{ box: Box; origin: { x: number; y: number }; others: Box[] } | null>(null)
+  const transformSnapRef = useRef<Box[] | null>(null)
+  // Endpoint being dragged, in the shape's local space; read by LinePath at draw time.
+  const endpointDragRef = useRef<{ id: string; which: EndpointName; end: { x: number; y: number } } | null>(null)
+  // Crop mode's box, its transformer and the clip that shows the image inside the box while it moves.
+  const cropRectRef = useRef<Konva.Rect | null>(null)
+  const cropTrRef = useRef<Konva.Transformer | null>(null)
+  const cropClipRef = useRef<Konva.Group | null>(null)
+  // Copies of the nodes an Alt-drag started from, left in place until the drop commits the duplicates.
+  const altDragRef = useRef<Konva.Node[] | null>(null)
+  // The clipboard data pasted last and how many PASTE_OFFSETs its next paste moves by.
+  const pasteRef = useRef<{ data: string; count: number } | null>(null)
+
+  const [deck, setDeck] = useState<Deck>(createDeck)
+  const [currentSlideId, setCurrentSlideId] = useState<string>(() => deck.slides[0].id)
+  const [loaded, setLoaded] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [groupScopeId, setGroupScopeId] = useState<string | null>(null)
+  const [expandedGroups, setExpandedGroups] = useState<string[]>([])
+  const [editingTextId, setEditingTextId] = useState<string | null>(null)
+  const [cropId, setCropId] = useState<string | null>(null)
+  const [marquee, setMarquee] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null)
   const [isPanMode, setIsPanMode] = useState(false)
   const [scale, setScale] = useState(1)
   const [offset, setOffset] = useState({ x: 0, y: 0 })
-  const [history, setHistory] = useState<Shape[][]>([])
-  const [future, setFuture] = useState<Shape[][]>([])
+  const [histories, setHistories] = useState<Record<string, SlideHistory>>({})
+  const [docError, setDocError] = useState<DocumentError | null>(null)
+  // Shows why an action failed, rather than leaving it an unhandled rejection nobody sees.
+  const reportError = (title: string, err: unknown) => setDocError({ title, issues: [{ path: '', message: (err as Error).message }] })
+  // Files dragged over the canvas, and those being read after a drop.
+  const [dropActive, setDropActive] = useState(false)
+  const [dropProgress, setDropProgress] = useState<{ name: string; loaded: number; total: number }[]>([])
 
   const [showInspector, setShowInspector] = useState(true)
-  const [gridEnabled, setGridEnabled] = useState(true)
+  const [snapTo, setSnapTo] = useState<SnapTargets>(DEFAULT_SNAP_TARGETS)
+  const [alignTo, setAlignTo] = useState<AlignReference>('selection')
+  // The look taken by "Copy style", kept in the editor rather than the system clipboard.
+  const [copiedStyle, setCopiedStyle] = useState<ShapeStyle | null>(null)
   const [gridVisible, setGridVisible] = useState(false)
   const [gridSize, setGridSize] = useState(32)
+  const [pdfNotes, setPdfNotes] = useState(false)
+  // Slide index the presentation started from; null while editing.
+  const [presentFrom, setPresentFrom] = useState<number | null>(null)
+  // Plays the current slide's builds in place of the editable canvas.
+  const [previewing, setPreviewing] = useState(false)
+  // The collaboration room this editor is in, from the page's ?room= parameter. Whoever started the
+  // room keeps saving the deck locally; people who joined through a link leave their own deck alone.
+  const [room, setRoom] = useState<{ id: string; host: boolean } | null>(null)
+  // The server-side deck being edited, from ?deck=; null for the deck kept in localStorage.
+  const [deckId, setDeckId] = useState<string | null>(null)
+  const [showVersions, setShowVersions] = useState(false)
+  const previewRef = useRef<Konva.Group | null>(null)
+
+  const currentSlide = deck.slides.find((sl) => sl.id === currentSlideId) ?? deck.slides[0]
+  const shapes = currentSlide.shapes
+  const history = histories[currentSlide.id] ?? EMPTY_HISTORY
 
   // ---------- Persistence ----------
+  // Without ?deck= the editor works on the deck kept in localStorage; with it, on a deck stored on
+  // the server, which loads and autosaves through useDeckAutosave.
   useEffect(() => {
-    const raw = localStorage.getItem(LS_KEY)
-    if (raw) {
-      try {
-        const saved = JSON.parse(raw) as { shapes: Shape[] }
-        setShapes(saved.shapes)
-      } catch {}
+    const params = new URLSearchParams(window.location.search)
+    const roomId = params.get('room')
+    if (roomId && ROOM_PATTERN.test(roomId)) setRoom({ id: roomId, host: false })
+    const id = params.get('deck')
+    if (id && DECK_ID_PATTERN.test(id)) {
+      setDeckId(id)
+      return
     }
+    const { deck: saved, error } = loadDeck()
+    if (error) setDocError(error)
+    setDeck(saved)
+    setHistories(loadHistories(saved))
+    setCurrentSlideId(saved.slides[0].id)
+    setLoaded(true)
+    // Move old inline image sources into the asset store, then drop assets that no deck, stored undo
+    // step or local version references.
+    const startedAt = Date.now()
+    migrateImageSources(saved).then((migrated) => {
+      if (migrated !== saved) setDeck((d) => (d === saved ? migrated : d))
+      return collectGarbage(new Set([...assetIdsIn(migrated.slides.map((sl) => sl.shapes)), ...cachedDeckAssets(), ...storedHistoryAssets(), ...localVersionAssets()]), startedAt)
+    })
   }, [])
+  const persist = loaded && (!room || room.host)
+  const historyKey = deckId ? `${HISTORY_LS_KEY}.${deckId}` : HISTORY_LS_KEY
   useEffect(() => {
-    localStorage.setItem(LS_KEY, JSON.stringify({ shapes }))
-  }, [shapes])
+    if (persist && !deckId) saveDeck(deck)
+  }, [deck, deckId, persist])
+  useEffect(() => {
+    if (persist) saveHistories(histories, deck, historyKey)
+  }, [histories, deck, historyKey, persist])
+  const autosave = useDeckAutosave({
+    id: deckId,
+    deck,
+    enabled: persist,
+    onLoad: (next) => {
+      setDeck(next)
+      setHistories(loadHistories(next, historyKey))
+      setCurrentSlideId((id) => (next.slides.some((sl) => sl.id === id) ? id : next.slides[0].id))
+      setLoaded(true)
+    },
+    onError: setDocError,
+  })
+
+  const setQueryParam = (name: string, value: string | null) => {
+    const url = new URL(window.location.href)
+    if (value) url.searchParams.set(name, value)
+    else url.searchParams.delete(name)
+    window.history.replaceState(null, '', url)
+  }
+
+  // Moves a local deck to the server; from then on it autosaves there.
+  const saveToServer = async () => {
+    try {
+      const meta = await createServerDeck(deck)
+      setQueryParam('deck', meta.id)
+      setDeckId(meta.id)
+    } catch (err) {
+      reportError('The deck could not be saved to the server', err)
+    }
+  }
+
+  // ---------- Collaboration ----------
+  // Remote changes replace the deck without touching the undo history, which only ever holds this
+  // user's own steps (see history.ts for how undo steps around other people's edits).
+  const peersRef = useRef<Presence[]>([])
+  const { status: collabStatus, people, color: ownColor, updatePresence } = useCollab({
+    room: room?.id ?? null,
+    deck,
+    onRemoteDeck: setDeck,
+    canApply: () => !Konva.isDragging() && !trRef.current?.isTransforming(),
+    onPeers: (peers) => {
+      peersRef.current = peers
+      if (presenceLayerRef.current) drawPresence(presenceLayerRef.current, peers, currentSlide.id, scale)
+    },
+  })
+  useEffect(() => {
+    updatePresence({ slideId: currentSlide.id, selection: selectedIds })
+  }, [updatePresence, currentSlide.id, selectedIds])
+  // Selection outlines follow the shapes' nodes, which move with every local render.
+  useEffect(() => {
+    if (presenceLayerRef.current) drawPresence(presenceLayerRef.current, peersRef.current, currentSlide.id, scale)
+  })
+
+  const trackPointer = () => {
+    const pos = stageRef.current?.getPointerPosition()
+    updatePresence({ cursor: pos ? { x: (pos.x - offset.x) / scale, y: (pos.y - offset.y) / scale } : null })
+  }
+
+  const startCollaboration = () => {
+    const id = uid('room')
+    setQueryParam('room', id)
+    setRoom({ id, host: true })
+    navigator.clipboard?.writeText(window.location.href).catch(() => {})
+  }
+  const leaveCollaboration = () => {
+    setQueryParam('room', null)
+    // A guest goes back to the deck they had before joining.
+    if (room && !room.host && !deckId) {
+      const saved = loadDeck().deck
+      setDeck(saved)
+      setHistories(loadHistories(saved))
+      setCurrentSlideId(saved.slides[0].id)
+      setSelectedIds([])
+    }
+    setRoom(null)
+  }
 
   // ---------- Fit to screen ----------
+  const size = slideSize(deck)
   const fitToScreen = useCallback(() => {
     const { width, height } = container.size
     if (!width || !height) return
-    const scaleX = width / SLIDE_W
-    const scaleY = height / SLIDE_H
+    const scaleX = width / size.width
+    const scaleY = height / size.height
     const nextScale = Math.min(scaleX, scaleY)
     setScale(nextScale)
-    setOffset({ x: (width - SLIDE_W * nextScale) / 2, y: (height - SLIDE_H * nextScale) / 2 })
-  }, [container.size])
+    setOffset({ x: (width - size.width * nextScale) / 2, y: (height - size.height * nextScale) / 2 })
+  }, [container.size, size])
 
   useEffect(() => { fitToScreen() }, [fitToScreen])
 
   // ---------- History ----------
-  const commit = useCallback((next: Shape[] | ShapeUpdater) => {
-    setShapes((prev) => {
-      const resolved = typeof next === 'function' ? (next as ShapeUpdater)(prev) : next
-      setHistory((h) => [...h.slice(-49), prev])
-      setFuture([])
-      return structuredClone(resolved)
-    })
+  const replaceShapes = useCallback((slideId: string, next: Shape[]) => {
+    setDeck((d) => ({ ...d, slides: d.slides.map((sl) => (sl.id === slideId ? { ...sl, shapes: next } : sl)) }))
   }, [])
 
-  const undo = useCallback(() => {
-    setHistory((h) => {
-      if (h.length === 0) return h
-      setFuture((f) => [shapes, ...f].slice(0, 50))
-      setShapes(h[h.length - 1])
-      return h.slice(0, -1)
+  // `label` names the step in the History panel; edits sharing a `coalesce` key in quick succession
+  // merge into one step.
+  const commit = useCallback((next: Shape[] | ShapeUpdater, label: string, coalesce?: string) => {
+    const slideId = currentSlide.id
+    const prev = currentSlide.shapes
+    const resolved = typeof next === 'function' ? (next as ShapeUpdater)(prev) : next
+    if (resolved === prev) return
+    const after = structuredClone(resolved)
+    setHistories((h) => ({ ...h, [slideId]: record(h[slideId] ?? EMPTY_HISTORY, prev, after, label, coalesce) }))
+    replaceShapes(slideId, after)
+  }, [currentSlide, replaceShapes])
+
+  // Undoes or redoes steps until `count` of them are applied.
+  const goToStep = useCallback((count: number) => {
+    const slideId = currentSlide.id
+    const h = histories[slideId] ?? EMPTY_HISTORY
+    if (count === h.past.length || count < 0 || count > h.past.length + h.future.length) return
+    const next = travel(h, currentSlide.shapes, count)
+    setHistories({ ...histories, [slideId]: next.history })
+    replaceShapes(slideId, next.shapes)
+    setSelectedIds([])
+  }, [currentSlide, histories, replaceShapes])
+
+  const undo = useCallback(() => goToStep(history.past.length - 1), [goToStep, history])
+  const redo = useCallback(() => goToStep(history.past.length + 1), [goToStep, history])
+
+  // Takes a deck-wide change that moves or restyles shapes, recording it as a step on every slide it
+  // touches. Undo on a slide then takes it back there, and the steps before it still apply.
+  const commitSlides = (next: Deck, label: string, coalesce?: string) => {
+    const before = new Map(deck.slides.map((sl) => [sl.id, sl.shapes]))
+    const slides = next.slides.map((sl) => (before.has(sl.id) && before.get(sl.id) !== sl.shapes ? { ...sl, shapes: structuredClone(sl.shapes) } : sl))
+    setHistories((h) => {
+      const out = { ...h }
+      for (const sl of slides) {
+        const prev = before.get(sl.id)
+        if (prev && prev !== sl.shapes) out[sl.id] = record(h[sl.id] ?? EMPTY_HISTORY, prev, sl.shapes, label, coalesce)
+      }
+      return out
     })
-    setSelectedId(null)
-  }, [shapes])
-
-  const redo = useCallback(() => {
-    setFuture((f) => {
-      if (f.length === 0) return f
-      setHistory((h) => [...h, shapes].slice(-50))
-      setShapes(f[0])
-      return f.slice(1)
+    setDeck({ ...next, slides })
+  }
+
+  // ---------- Theme ----------
+  const theme = deckTheme(deck)
+  const setTheme = (next: Theme) => commitSlides(applyTheme(deck, next), 'Change theme', 'theme')
+
+  // ---------- Slide size ----------
+  const setSlideSize = (next: SlideSize, fit: SlideFit) => commitSlides(resizeDeck(deck, next, fit), 'Resize slides')
+
+  // ---------- Slides ----------
+  const selectSlide = (id: string) => {
+    setCurrentSlideId(id)
+    setSelectedIds([])
+    setGroupScopeId(null)
+  }
+
+  const addSlide = (layoutId = followingLayout(deck, currentSlide.layout)) => {
+    const slide = slideFromLayout(deck, layoutId)
+    const idx = deck.slides.findIndex((sl) => sl.id === currentSlide.id)
+    setDeck((d) => ({ ...d, slides: [...d.slides.slice(0, idx + 1), slide, ...d.slides.slice(idx + 1)] }))
+    selectSlide(slide.id)
+  }
+
+  const duplicateSlideById = (id: string) => {
+    const idx = deck.slides.findIndex((sl) => sl.id === id)
+    if (idx < 0) return
+    const copy = duplicateSlide(deck.slides[idx])
+    setDeck((d) => ({ ...d, slides: [...d.slides.slice(0, idx + 1), copy, ...d.slides.slice(idx + 1)] }))
+    selectSlide(copy.id)
+  }
+
+  const deleteSlide = (id: string) => {
+    if (deck.slides.length <= 1) return
+    const idx = deck.slides.findIndex((sl) => sl.id === id)
+    const remaining = deck.slides.filter((sl) => sl.id !== id)
+    setDeck((d) => ({ ...d, slides: d.slides.filter((sl) => sl.id !== id) }))
+    setHistories((h) => {
+      const next = { ...h }
+      delete next[id]
+      return next
     })
-    setSelectedId(null)
-  }, [shapes])
+    if (id === currentSlide.id) selectSlide(remaining[Math.min(idx, remaining.length - 1)].id)
+  }
+
+  const moveSlide = (from: number, to: number) => {
+    setDeck((d) => ({ ...d, slides: moveItem(d.slides, from, to) }))
+  }
+
+  // A background picked from the theme palette follows it; any other colour is the slide's own.
+  const setSlideBackground = (background: string, backgroundRef?: ThemeColor) => {
+    const slideId = currentSlide.id
+    setDeck((d) => ({ ...d, slides: d.slides.map((sl) => (sl.id === slideId ? { ...sl, background, backgroundRef } : sl)) }))
+  }
+
+  // Moves the slide's placeholders into the layout's boxes, adding any it lacks (see lib/theme).
+  const applyLayout = (layoutId: string) => {
+    const slideId = currentSlide.id
+    const to = findLayout(deck, layoutId)
+    if (!to || layoutId === currentSlide.layout) return
+    const from = findLayout(deck, currentSlide.layout)?.layout
+    commit((prev) => layoutShapes(prev, from, to.layout, theme, size), `Apply ${to.layout.name} layout`)
+    setDeck((d) => ({ ...d, slides: d.slides.map((sl) => (sl.id === slideId ? { ...sl, layout: layoutId } : sl)) }))
+    setSelectedIds([])
+  }
+
+  const setSlideNotes = (notes: string) => {
+    const slideId = currentSlide.id
+    setDeck((d) => ({ ...d, slides: d.slides.map((sl) => (sl.id === slideId ? { ...sl, notes } : sl)) }))
+  }
+
+  const setSlideTransition = (patch: Partial<SlideTransition>) => {
+    const slideId = currentSlide.id
+    setDeck((d) => ({
+      ...d,
+      slides: d.slides.map((sl) => (sl.id === slideId ? { ...sl, transition: { ...(sl.transition ?? DEFAULT_TRANSITION), ...patch } } : sl)),
+    }))
+  }
 
   // ---------- Add shapes ----------
   const addRect = () => {
     const s: RectShape = {
-      kind: 'rect', id: uid('rect'), name: 'Rectangle', x: 200, y: 150, width: 320, height: 180, rotation: 0, fill: '#ffd166', stroke: '#111827', strokeWidth: 2, cornerRadius: 12
+      kind: 'rect', id: uid('rect'), name: 'Rectangle', x: 200, y: 150, width: 320, height: 180, rotation: 0, cornerRadius: 12, ...fillLook(theme, 'rect'),
     }
-    commit((prev) => [...prev, s]); setSelectedId(s.id)
+    commit((prev) => [...prev, s], 'Add rectangle'); setSelectedIds([s.id])
   }
   const addCircle = () => {
     const s: CircleShape = {
-      kind: 'circle', id: uid('circle'), name: 'Circle', x: 500, y: 300, radius: 100, rotation: 0, fill: '#a7f3d0', stroke: '#111827', strokeWidth: 2
+      kind: 'circle', id: uid('circle'), name: 'Circle', x: 500, y: 300, radius: 100, rotation: 0, ...fillLook(theme, 'circle'),
     }
-    commit((prev) => [...prev, s]); setSelectedId(s.id)
+    commit((prev) => [...prev, s], 'Add circle'); setSelectedIds([s.id])
   }
   const addText = () => {
     const s: TextShape = {
-      kind: 'text', id: uid('text'), name: 'Text', x: 240, y: 180, text: 'Double‑tap to edit', fontSize: 40, rotation: 0, fill: '#111827', width: 600
+      kind: 'text', id: uid('text'), name: 'Text', x: 240, y: 180, text: 'Double‑tap to edit', fontSize: 40, rotation: 0, width: 600, ...textLook(theme),
     }
-    commit((prev) => [...prev, s]); setSelectedId(s.id)
+    commit((prev) => [...prev, s], 'Add text'); setSelectedIds([s.id])
+  }
+  const addLine = (kind: 'line' | 'arrow') => {
+    const base = { id: uid(kind), x: 300, y: 300, rotation: 0, points: [0, 0, 400, 0], ...lineLook(theme) }
+    const s: LineShape | ArrowShape = kind === 'line' ? { ...base, kind, name: 'Line' } : { ...base, kind, name: 'Arrow', endHead: 'triangle' }
+    commit((prev) => [...prev, s], `Add ${kind}`); setSelectedIds([s.id])
+  }
+  // With two shapes selected the connector joins them, facing anchors picked from their relative position.
+  const addConnector = () => {
+    const [a, b] = selectedShapes.filter(canBind)
+    const resolve = modelAnchorResolver(shapes)
+    let start: ConnectorShape['start'] = { x: 300, y: 500 }
+    let end: ConnectorShape['end'] = { x: 800, y: 500 }
+    if (a && b) {
+      const ca = resolve(a.id, 'center')
+      const cb = resolve(b.id, 'center')
+      if (ca && cb) {
+        const horizontal = Math.abs(cb.x - ca.x) >= Math.abs(cb.y - ca.y)
+        const [from, to] = horizontal ? (cb.x >= ca.x ? ['right', 'left'] as const : ['left', 'right'] as const) : (cb.y >= ca.y ? ['bottom', 'top'] as const : ['top', 'bottom'] as const)
+        start = { ...(resolve(a.id, from) ?? ca), shapeId: a.id, anchor: from }
+        end = { ...(resolve(b.id, to) ?? cb), shapeId: b.id, anchor: to }
+      }
+    }
+    const s: ConnectorShape = {
+      kind: 'connector', id: uid('connector'), name: 'Connector', x: 0, y: 0, rotation: 0, start, end, routing: 'elbow',
+      endHead: 'triangle', ...lineLook(theme),
+    }
+    commit((prev) => [...prev, s], 'Add connector'); setSelectedIds([s.id]); setGroupScopeId(null)
   }
   const onImageUpload = async (file: File) => {
-    const url = URL.createObjectURL(file)
-    const img = await loadImage(url)
-    const s: ImageShape = { kind: 'image', id: uid('img'), name: 'Image', x: 260, y: 220, width: Math.min(600, img.width), height: Math.min(400, img.height), src: url, rotation: 0 }
-    commit((prev) => [...prev, s]); setSelectedId(s.id)
+    try {
+      const assetId = await putAsset(file)
+      const img = await loadAssetImage(assetId)
+      const s = imageShapeAt(assetId, img, { x: size.width / 2, y: size.height / 2 }, size)
+      commit((prev) => [...prev, s], 'Add image'); setSelectedIds([s.id])
+    } catch (err) {
+      reportError(`"${file.name}" could not be added`, err)
+    }
+  }
+  // Swaps an image's asset in place, keeping its position, width and crop and following the new aspect ratio.
+  const replaceImage = async (id: string, file: File) => {
+    try {
+      const assetId = await putAsset(file)
+      const img = await loadAssetImage(assetId)
+      commit((prev) => mapShapeTree(prev, (s) => (s.id === id && s.kind === 'image' ? { ...s, assetId, height: (s.width * img.height * (s.crop?.height ?? 1)) / (img.width * (s.crop?.width ?? 1)) } : s)), 'Replace image')
+    } catch (err) {
+      reportError(`The image could not be replaced with "${file.name}"`, err)
+    }
   }
 
   // ---------- Selection & transform ----------
+  // Clicks select at the level of the entered group (the top level when none is entered);
+  // double-clicking a group enters it so its children become selectable.
+  const scopeShape = groupScopeId ? findShape(shapes, groupScopeId) : undefined
+  const scope = scopeShape?.kind === 'group' ? scopeShape : null
+  const scopeShapes = scope ? scope.children : shapes
+  const selectedShapes = selectedIds.map((id) => findShape(shapes, id)).filter((x): x is Shape => !!x)
+  const primary = selectedShapes.length === 1 ? selectedShapes[0] : null
+  // The image in crop mode, while it is the only shape selected.
+  const cropTarget = cropId && selectedIds.length === 1 && selectedIds[0] === cropId ? findShape(shapes, cropId) : undefined
+  const cropping = cropTarget?.kind === 'image' ? cropTarget : null
+
   const deselect = (e: KonvaEventObject<MouseEvent | TouchEvent>) => {
     const clickedOnEmpty = e.target === e.target.getStage()
-    if (clickedOnEmpty) setSelectedId(null)
+    if (clickedOnEmpty) { setSelectedIds([]); setGroupScopeId(null) }
+  }
+
+  // The shape a click on `id` should pick: the ancestor just below the entered group.
+  const selectableTarget = (id: string) => {
+    const path = findPath(shapes, id)
+    const depth = scope ? path.indexOf(scope.id) + 1 : 0
+    if (scope && depth === 0) return { id: path[0], exitScope: true }
+    return { id: path[depth] ?? id, exitScope: false }
+  }
+
+  // Shift/Ctrl/Cmd-click toggles a shape in the selection; a plain click replaces it.
+  const selectShape = (id: string, additive: boolean) => {
+    if (!additive) { setSelectedIds([id]); return }
+    setSelectedIds((ids) => (ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id]))
+  }
+  const isAdditive = (e: KonvaEventObject<Event>) => {
+    const evt = e.evt as MouseEvent
+    return !!(evt.shiftKey || evt.ctrlKey || evt.metaKey)
+  }
+
+  // Selecting from the Layers tree enters whichever group holds the shape.
+  const selectFromLayers = (id: string, additive: boolean) => {
+    const path = findPath(shapes, id)
+    const parentId = path.length > 1 ? path[path.length - 2] : null
+    if (parentId !== (scope?.id ?? null)) { setGroupScopeId(parentId); selectShape(id, false); return }
+    selectShape(id, additive)
+  }
+
+  const enterGroup = (groupId: string, leafId: string) => {
+    const path = findPath(shapes, leafId)
+    const child = path[path.indexOf(groupId) + 1]
+    setGroupScopeId(groupId)
+    setSelectedIds(child ? [child] : [])
   }
 
   useEffect(() => {
     const stage = stageRef.current
     const tr = trRef.current
     if (!stage || !tr) return
-    const selectedNode = selectedId ? stage.findOne(`#${selectedId}`) : null
-    selectedNodeRef.current = selectedNode ?? null
-    tr.nodes(selectedNode ? [selectedNode] : [])
+    // Connectors are shaped by their endpoints only; a lone line or arrow gets endpoint handles instead.
+    const nodes = selectedIds
+      .filter((id) => {
+        const s = findShape(shapes, id)
+        return !!s && s.kind !== 'connector' && !(selectedIds.length === 1 && isStroke(s)) && id !== cropping?.id
+      })
+      .map((id) => stage.findOne(`#${id}`))
+      .filter((n): n is Konva.Node => !!n)
+    tr.nodes(nodes)
     tr.getLayer()?.batchDraw()
-  }, [selectedId, shapes])
+  }, [selectedIds, shapes, cropping?.id])
+
+  // Field edits are labelled by the field and coalesce per shape and field, so typing a number or
+  // dragging a colour picker is one step. Setting a theme-bound field unbinds it, unless the edit
+  // sets the bindings too.
+  const updateShape = (id: string, partial: Partial<Shape>) => updateShapes([id], partial)
+
+  const updateShapes = (ids: string[], partial: Partial<Shape>) => {
+    const fields = Object.keys(partial).sort()
+    const label = updateLabel(ids.map((id) => findShape(shapes, id)).filter((x): x is Shape => !!x), fields)
+    const rebinds = fields.includes('themeRefs')
+    const edit = (s: Shape) => {
+      const next = { ...s, ...partial } as Shape
+      return rebinds ? next : unbind(next, fields)
+    }
+    commit((prev) => mapShapeTree(prev, (s) => (ids.includes(s.id) ? edit(s) : s)), label, `update:${ids.join(',')}:${fields.join(',')}`)
+  }
+
+  const deleteSelected = (verb = 'Delete') => {
+    if (selectedIds.length === 0) return
+    commit((prev) => removeShapes(detachConnectors(prev, selectedIds), selectedIds), `${verb} ${shapesLabel(selectedShapes)}`)
+    setSelectedIds([])
+  }
+
+  // Copies land just above their originals, in the same group.
+  const duplicateSelected = () => {
+    if (selectedShapes.length === 0) return
+    const copies = cloneShapes(selectedShapes, PASTE_OFFSET, PASTE_OFFSET)
+    commit((prev) => insertCopies(prev, selectedShapes.map((s) => s.id), copies), `Duplicate ${shapesLabel(selectedShapes)}`)
+    setSelectedIds(copies.map((s) => s.id))
+  }
+
+  const copyStyle = () => {
+    if (primary) setCopiedStyle(pickStyle(primary))
+  }
+
+  const pasteStyle = () => {
+    const style = copiedStyle
+    if (!style || selectedShapes.length === 0) return
+    const ids = selectedShapes.map((s) => s.id)
+    commit((prev) => mapShapeTree(prev, (s) => (ids.includes(s.id) ? unbind(applyStyle(s, style), Object.keys(style)) : s)), `Paste style onto ${shapesLabel(selectedShapes)}`)
+  }
 
-  const updateShape = (id: string, partial: Partial<Shape>) => {
-    commit((prev) => prev.map((s) => (s.id === id ? { ...s, ...partial } as Shape : s)))
+  const nudgeSelected = (dx: number, dy: number) => {
+    const movable = selectedShapes.filter((s) => !s.locked)
+    if (movable.length === 0) return
+    // Snap the lead shape and carry the rest by the same delta so the selection keeps its layout.
+    const lead = movable[0]
+    const mx = snap(lead.x + dx) - lead.x
+    const my = snap(lead.y + dy) - lead.y
+    const ids = movable.map((s) => s.id)
+    commit((prev) => mapShapeTree(prev, (s) => (ids.includes(s.id) ? { ...s, x: s.x + mx, y: s.y + my } : s)), `Move ${shapesLabel(movable)}`, `nudge:${ids.join(',')}`)
   }
 
-  const deleteSelected = () => {
-    if (!selectedId) return
-    commit((prev) => prev.filter((s) => s.id !== selectedId))
-    setSelectedId(null)
+  // ---------- Smart guides ----------
+  // Boxes, in slide space, of the visible shapes a selection can line up with: everything except
+  // the selection itself, what it contains and the groups that contain it.
+  const snapCandidates = (ids: string[]): Box[] => {
+    const stage = stageRef.current
+    const layer = editLayerRef.current
+    if (!stage || !layer) return []
+    const excluded = new Set(ids.flatMap((id) => {
+      const s = findShape(shapes, id)
+      return [...findPath(shapes, id), ...(s ? flattenShapes([s]).map((x) => x.id) : [])]
+    }))
+    return flattenShapes(shapes)
+      .filter((s) => !excluded.has(s.id))
+      .map((s) => stage.findOne(`#${s.id}`))
+      .filter((n): n is Konva.Node => !!n && n.isVisible())
+      .map((n) => n.getClientRect({ relativeTo: layer }))
+  }
+
+  const snapOptions = (others: Box[]) => ({ targets: snapTo, gridSize, others, threshold: SNAP_DISTANCE / scale, slide: size })
+
+  // Drag events bubble up to the editing layer, which snaps whatever shape is being dragged.
+  const onShapeDragStart = (e: KonvaEventObject<DragEvent>) => {
+    const stage = stageRef.current
+    const layer = editLayerRef.current
+    const s = findShape(shapes, e.target.id())
+    if (!stage || !layer || !s) return
+    const ids = selectedIds.includes(s.id) ? selectedIds : [s.id]
+    const nodes = ids.map((id) => stage.findOne(`#${id}`)).filter((n): n is Konva.Node => !!n)
+    if (nodes.length === 0) return
+    // Alt-drag leaves a copy of each node behind; the duplicates are committed on drop.
+    if ((e.evt as DragEvent).altKey) {
+      altDragRef.current = nodes.map((n) => {
+        const ghost: Konva.Node = n.clone({ id: '', draggable: false, listening: false })
+        // Lookups by id must keep finding the real nodes.
+        if (ghost instanceof Konva.Container) ghost.find(() => true).forEach((c) => c.id(''))
+        n.getParent()?.add(ghost)
+        ghost.zIndex(n.zIndex())
+        return ghost
+      })
+    }
+    dragSnapRef.current = {
+      box: unionBox(nodes.map((n) => n.getClientRect({ relativeTo: layer }))),
+      origin: e.target.absolutePosition(),
+      others: snapCandidates(ids),
+    }
+  }
+
+  // The transformer moves the rest of the selection after this runs, so the selection's box is
+  // carried from drag start by the dragged node's own travel.
+  const onShapeDragMove = (e: KonvaEventObject<DragEvent>) => {
+    const drag = dragSnapRef.current
+    const guides = guideLayerRef.current
+    if (!drag || !guides || !findShape(shapes, e.target.id())) return
+    const pos = e.target.absolutePosition()
+    const box = { ...drag.box, x: drag.box.x + (pos.x - drag.origin.x) / scale, y: drag.box.y + (pos.y - drag.origin.y) / scale }
+    const result = snapMove(box, snapOptions(drag.others))
+    if (result.dx || result.dy) e.target.absolutePosition({ x: pos.x + result.dx * scale, y: pos.y + result.dy * scale })
+    drawSnapGuides(guides, result, scale)
+  }
+
+  // Resize handles snap their own point, and only while the selection is upright.
+  const onAnchorDragBound = (oldPos: { x: number; y: number }, pos: { x: number; y: number }) => {
+    const tr = trRef.current
+    const layer = editLayerRef.current
+    const guides = guideLayerRef.current
+    const anchor = tr?.getActiveAnchor()
+    if (!tr || !layer || !guides || !anchor || anchor === 'rotater' || Math.abs(tr.rotation() % 90) > 0.01) return pos
+    const others = transformSnapRef.current ?? (transformSnapRef.current = snapCandidates(selectedIds))
+    const toLayer = layer.getAbsoluteTransform().copy()
+    const point = toLayer.copy().invert().point(pos)
+    const axes = { x: !anchor.endsWith('center'), y: !anchor.startsWith('middle') }
+    const result = snapPoint(point, axes, snapOptions(others))
+    drawSnapGuides(guides, result, scale)
+    return toLayer.point({ x: point.x + result.dx, y: point.y + result.dy })
+  }
+
+  const endSnapping = () => {
+    dragSnapRef.current = null
+    transformSnapRef.current = null
+    clearSnapGuides(guideLayerRef.current)
+  }
+
+  // Dragging any selected node moves the whole selection (the transformer carries the others along),
+  // so every selected shape is read back in one commit. Snapping already happened during the drag.
+  const onShapeDragEnd = (id: string, e: KonvaEventObject<DragEvent>) => {
+    e.cancelBubble = true
+    endSnapping()
+    const s = findShape(shapes, id)
+    if (!s) return
+    const dx = e.target.x() - s.x
+    const dy = e.target.y() - s.y
+    const ids = selectedIds.includes(id) ? selectedIds : [id]
+    const moved = ids.map((x) => findShape(shapes, x)).filter((x): x is Shape => !!x && !x.locked)
+    if (altDragRef.current) {
+      altDragRef.current.forEach((n) => n.destroy())
+      altDragRef.current = null
+      // The originals go back and their copies take the dropped position.
+      moved.forEach((x) => stageRef.current?.findOne(`#${x.id}`)?.position({ x: x.x, y: x.y }))
+      const copies = cloneShapes(moved, dx, dy)
+      commit((prev) => insertCopies(prev, moved.map((x) => x.id), copies), `Duplicate ${shapesLabel(moved)}`)
+      setSelectedIds(copies.map((x) => x.id))
+      return
+    }
+    commit((prev) => mapShapeTree(prev, (x) => (ids.includes(x.id) && !x.locked ? { ...x, x: x.x + dx, y: x.y + dy } : x)), `Move ${shapesLabel(moved)}`)
+  }
+
+  // ---------- Grouping ----------
+  const groupSelected = () => {
+    const members = scopeShapes.filter((s) => selectedIds.includes(s.id))
+    if (members.length < 2) return
+    const group = groupShapes(members)
+    const ids = members.map((m) => m.id)
+    commit((prev) => mapSiblingLists(prev, ids, (list) => {
+      const top = Math.max(...ids.map((id) => list.findIndex((s) => s.id === id)))
+      return list.flatMap((s, i) => (i === top ? [group] : ids.includes(s.id) ? [] : [s]))
+    }), `Group ${shapesLabel(members)}`)
+    setSelectedIds([group.id])
+  }
+
+  const ungroupSelected = () => {
+    const groups = selectedShapes.filter((s): s is GroupShape => s.kind === 'group')
+    if (groups.length === 0) return
+    const ids = groups.map((g) => g.id)
+    const released = groups.flatMap((g) => g.children.map((c) => c.id))
+    commit((prev) => mapSiblingLists(prev, ids, (list) => list.flatMap((s) => (s.kind === 'group' && ids.includes(s.id) ? ungroupShape(s) : [s]))), `Ungroup ${shapesLabel(groups)}`)
+    setSelectedIds(released)
+  }
+
+  // ---------- Lines & connectors ----------
+  // Anchors are read from the live Konva nodes, so bound connectors follow shapes mid-drag and mid-transform.
+  const modelAnchor = modelAnchorResolver(shapes)
+  const liveAnchor: AnchorResolver = (shapeId, anchor) => {
+    const s = findShape(shapes, shapeId)
+    const node = stageRef.current?.findOne(`#${shapeId}`)
+    if (!s || !node) return modelAnchor(shapeId, anchor)
+    return node.getAbsoluteTransform(node.getLayer() ?? undefined).point(anchorOffset(localBox(s), anchor))
+  }
+
+  const adjustEndpoint = (s: StrokeShape) => {
+    const d = endpointDragRef.current
+    return d && d.id === s.id ? withEndpoint(s, d.which, d.end) : s
+  }
+
+  // A lone, unlocked line or connector is edited through handles on its two ends.
+  const strokeEdit = primary && isStroke(primary) && !primary.locked && !isPanMode ? primary : null
+  const endpoints = strokeEdit ? endpointsInSlide(shapes, strokeEdit) : null
+  const anchorDots = strokeEdit?.kind === 'connector'
+    ? flattenShapes(shapes)
+      .filter((s) => canBind(s) && !s.hidden)
+      .flatMap((s) => ANCHORS.map((anchor) => ({ key: `${s.id}-${anchor}`, point: modelAnchor(s.id, anchor) })))
+    : []
+
+  // Where a dragged endpoint lands: on a nearby anchor for connectors, otherwise on the grid.
+  const endpointTarget = (s: StrokeShape, p: { x: number; y: number }) => {
+    const bind = s.kind === 'connector' ? nearestAnchor(shapes, p, BIND_RADIUS, s.id) : null
+    const point = bind?.point ?? { x: snap(p.x), y: snap(p.y) }
+    const local = applyMatrix(invertMatrix(shapeMatrix(shapes, s.id)), point)
+    return { point, end: bind ? { ...local, shapeId: bind.shapeId, anchor: bind.anchor } : local }
+  }
+
+  const onEndpointDragStart = (s: StrokeShape) => {
+    if (s.kind === 'connector') anchorDotsRef.current?.visible(true)
+  }
+
+  const onEndpointDragMove = (s: StrokeShape, which: EndpointName, e: KonvaEventObject<DragEvent>) => {
+    const { point, end } = endpointTarget(s, e.target.position())
+    e.target.position(point)
+    endpointDragRef.current = { id: s.id, which, end }
+    e.target.getLayer()?.batchDraw()
+  }
+
+  const onEndpointDragEnd = (s: StrokeShape, which: EndpointName, e: KonvaEventObject<DragEvent>) => {
+    const { end } = endpointTarget(s, e.target.position())
+    endpointDragRef.current = null
+    anchorDotsRef.current?.visible(false)
+    commit((prev) => mapShapeTree(prev, (x) => (x.id === s.id && isStroke(x) ? withEndpoint(x, which, end) : x)), `Move ${shapeLabel(s)} end`)
+  }
+
+  // ---------- Text editing ----------
+  const editingText = editingTextId ? findShape(shapes, editingTextId) : undefined
+
+  const startTextEdit = (id: string) => {
+    setSelectedIds([id])
+    setEditingTextId(id)
+  }
+
+  // Screen placement of a shape's origin: the viewport transform composed with every enclosing group.
+  const textEditPlacement = (id: string): TextEditPlacement => {
+    const t = new Konva.Transform().translate(offset.x, offset.y).scale(scale, scale)
+    for (const pid of findPath(shapes, id)) {
+      const p = findShape(shapes, pid)
+      if (p) t.translate(p.x, p.y).rotate((p.rotation * Math.PI) / 180)
+    }
+    const { x, y, rotation } = t.decompose()
+    return { left: x, top: y, rotation, scale }
+  }
+
+  const commitTextEdit = (id: string, runs: TextRun[]) => {
+    setEditingTextId(null)
+    const s = findShape(shapes, id)
+    if (!s || s.kind !== 'text') return
+    if (JSON.stringify(runs) === JSON.stringify(normalizeRuns(textRuns(s)))) return
+    updateShape(id, { runs, text: runsToPlainText(runs) })
+  }
+
+  // ---------- Image cropping ----------
+  // Crop mode shows the whole image faded behind the part in use, with a box that can be dragged
+  // and resized over it. The image keeps its scale and place; only the visible part changes.
+  const cropImage = useAssetImage(cropping?.assetId ?? '')
+
+  const startCrop = (id: string) => {
+    setSelectedIds([id])
+    setCropId(id)
+  }
+
+  // The crop overlay is drawn in the image's own space, through every enclosing group.
+  const cropPlacement = (id: string) => {
+    const m = shapeMatrix(shapes, id)
+    return { x: m[4], y: m[5], rotation: (Math.atan2(m[1], m[0]) * 180) / Math.PI }
+  }
+
+  const cropBoxOf = (node: Konva.Node): Box => ({ x: node.x(), y: node.y(), width: node.width() * node.scaleX(), height: node.height() * node.scaleY() })
+
+  const previewCrop = (node: Konva.Node) => {
+    cropClipRef.current?.clip(cropBoxOf(node))
   }
 
+  const commitCrop = (s: ImageShape, node: Konva.Node) => {
+    const box = cropBoxOf(node)
+    node.setAttrs({ x: 0, y: 0, scaleX: 1, scaleY: 1 })
+    commit((prev) => mapShapeTree(prev, (x) => (x.id === s.id && x.kind === 'image' ? cropTo(x, box) : x)), `Crop ${shapeLabel(s)}`)
+  }
+
+  useEffect(() => {
+    cropTrRef.current?.nodes(cropRectRef.current ? [cropRectRef.current] : [])
+  }, [cropping])
+
+  // Bakes the transformer's scale into each node's own size fields.
+  const readTransform = (s: Shape, node: Konva.Node): Shape => {
+    const scaleX = node.scaleX(); const scaleY = node.scaleY(); node.scaleX(1); node.scaleY(1)
+    const pos = { x: node.x(), y: node.y(), rotation: node.rotation() }
+    if (s.kind === 'rect' || s.kind === 'image') return { ...s, ...pos, width: Math.max(10, s.width * scaleX), height: Math.max(10, s.height * scaleY) }
+    if (s.kind === 'circle') return { ...s, ...pos, radius: Math.max(5, s.radius * scaleX) }
+    if (s.kind === 'group') return { ...s, ...pos, children: s.children.map((c) => scaleShape(c, scaleX, scaleY)) }
+    if (isStroke(s)) return { ...scaleShape(s, scaleX, scaleY), ...pos }
+    const height = s.height ?? layoutRichText(s).contentHeight
+    return { ...s, ...pos, width: Math.max(50, (s.width ?? 300) * scaleX), height: scaleY !== 1 ? Math.max(10, height * scaleY) : s.height }
+  }
+
+  const onTransformEnd = () => {
+    const tr = trRef.current
+    if (!tr) return
+    endSnapping()
+    const nodes = tr.nodes()
+    commit((prev) => mapShapeTree(prev, (s) => {
+      const node = nodes.find((n) => n.id() === s.id)
+      return node ? readTransform(s, node) : s
+    }), `Transform ${shapesLabel(selectedShapes)}`)
+  }
+
+  const transformerAnchors = primary?.kind === 'text'
+    ? ['middle-left', 'middle-right', 'top-center', 'bottom-center']
+    : ['top-left', 'top-right', 'bottom-left', 'bottom-right']
+
   // ---------- Keyboard (desktop) ----------
+  // Re-bound every render, like the clipboard handlers, so every shortcut acts on the current state.
   useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
+      // The presenter handles its own keys.
+      if (presentFrom !== null) return
+      if (previewing) { if (e.key === 'Escape') setPreviewing(false); return }
+      // Leave typing in the inspector, notes and other fields alone.
+      if (isTypingTarget(e.target)) return
       const key = e.key
       const mod = e.ctrlKey || e.metaKey
       const delta = e.shiftKey ? 10 : 1
 
       if (mod && key.toLowerCase() === 'z') { e.preventDefault(); undo(); return }
       if (mod && key.toLowerCase() === 'y') { e.preventDefault(); redo(); return }
-      if (selectedId) {
+      if (mod && key.toLowerCase() === 'g') { e.preventDefault(); if (e.shiftKey) ungroupSelected(); else groupSelected(); return }
+      if (cropping && (key === 'Escape' || key === 'Enter')) { setCropId(null); return }
+      if (key === 'Escape' && groupScopeId) { setSelectedIds([groupScopeId]); setGroupScopeId(null); return }
+      if (selectedIds.length > 0) {
         if (key === 'Delete' || key === 'Backspace') { e.preventDefault(); deleteSelected(); return }
+        if (mod && key.toLowerCase() === 'd') { e.preventDefault(); duplicateSelected(); return }
+        // By code, since Alt changes the typed character on some layouts.
+        if (mod && e.altKey && e.code === 'KeyC') { e.preventDefault(); copyStyle(); return }
+        if (mod && e.altKey && e.code === 'KeyV') { e.preventDefault(); pasteStyle(); return }
         if (key === 'ArrowLeft' || key === 'ArrowRight' || key === 'ArrowUp' || key === 'ArrowDown') {
           e.preventDefault()
-          const s = shapes.find((x) => x.id === selectedId)
-          if (!s || s.locked) return
           const dx = key === 'ArrowLeft' ? -delta : key === 'ArrowRight' ? delta : 0
           const dy = key === 'ArrowUp' ? -delta : key === 'ArrowDown' ? delta : 0
-          const nx = gridEnabled ? Math.round((s.x + dx) / gridSize) * gridSize : s.x + dx
-          const ny = gridEnabled ? Math.round((s.y + dy) / gridSize) * gridSize : s.y + dy
-          updateShape(s.id, { x: nx, y: ny })
+          nudgeSelected(dx, dy)
         }
       }
       if (e.code === 'Space') setIsPanMode(true)
@@ -261,7 +935,118 @@ export default function SingleSlideEditorMVP() {
     window.addEventListener('keydown', onKey)
     window.addEventListener('keyup', onKeyUp)
     return () => { window.removeEventListener('keydown', onKey); window.removeEventListener('keyup', onKeyUp) }
-  }, [selectedId, shapes, undo, redo, gridEnabled, gridSize])
+  })
+
+  // ---------- Clipboard ----------
+  // Copy, cut and paste answer the browser's clipboard events, so they reach the system clipboard
+  // from the keyboard and the Edit menu alike. Repeated pastes of the same copy step down and right;
+  // a cut pastes back in place first. Images and text copied in other apps paste at the viewport centre.
+  const viewportCenter = () => ({ x: (container.size.width / 2 - offset.x) / scale, y: (container.size.height / 2 - offset.y) / scale })
+
+  // Pasted shapes bound to a theme take on this deck's.
+  const addPasted = (pasted: Shape[], label: string) => {
+    const themed = mapShapeTree(pasted, (s) => resolveThemeRefs(s, theme))
+    commit((prev) => [...prev, ...themed], label)
+    setSelectedIds(pasted.map((s) => s.id)); setGroupScopeId(null)
+  }
+
+  const pasteImage = async (file: File) => {
+    try {
+      const assetId = await putAsset(file)
+      const img = await loadAssetImage(assetId)
+      addPasted([imageShapeAt(assetId, img, viewportCenter(), size)], 'Paste image')
+    } catch (err) {
+      reportError('The pasted image could not be added', err)
+    }
+  }
+
+  // Re-bound every render so the handlers see the current selection and viewport.
+  useEffect(() => {
+    const ignore = (e: ClipboardEvent) => presentFrom !== null || previewing || isTypingTarget(e.target) || !e.clipboardData
+    const onCopy = (e: ClipboardEvent, cut: boolean) => {
+      if (ignore(e) || selectedIds.length === 0) return
+      const { data, text } = toClipboard(copyShapes(shapes, selectedIds))
+      e.preventDefault()
+      e.clipboardData?.setData(CLIPBOARD_TYPE, data)
+      e.clipboardData?.setData('text/plain', text)
+      pasteRef.current = { data, count: cut ? 0 : 1 }
+      if (cut) deleteSelected('Cut')
+    }
+    const onPaste = (e: ClipboardEvent) => {
+      const clip = e.clipboardData
+      if (ignore(e) || !clip) return
+      const data = clip.getData(CLIPBOARD_TYPE)
+      const copied = data ? readClipboardShapes(data) : null
+      if (copied) {
+        e.preventDefault()
+        const count = pasteRef.current?.data === data ? pasteRef.current.count : 1
+        pasteRef.current = { data, count: count + 1 }
+        addPasted(cloneShapes(copied, count * PASTE_OFFSET, count * PASTE_OFFSET), `Paste ${shapesLabel(copied)}`)
+        return
+      }
+      const image = Array.from(clip.files).find((f) => f.type.startsWith('image/'))
+      if (image) { e.preventDefault(); pasteImage(image); return }
+      const text = clip.getData('text/plain').replace(/\r\n?/g, '\n')
+      if (text.trim()) { e.preventDefault(); addPasted([{ ...textShapeAt(text, viewportCenter()), ...textLook(theme) }], 'Paste text') }
+    }
+    const onCopyEvent = (e: ClipboardEvent) => onCopy(e, false)
+    const onCutEvent = (e: ClipboardEvent) => onCopy(e, true)
+    document.addEventListener('copy', onCopyEvent)
+    document.addEventListener('cut', onCutEvent)
+    document.addEventListener('paste', onPaste)
+    return () => {
+      document.removeEventListener('copy', onCopyEvent)
+      document.removeEventListener('cut', onCutEvent)
+      document.removeEventListener('paste', onPaste)
+    }
+  })
+
+  // ---------- Dropping files ----------
+  // Each dropped file is centred where it was dropped, the next ones stepping down and right.
+  // Files that can't be read or decoded are skipped and listed afterwards.
+  const onCanvasDragOver = (e: React.DragEvent) => {
+    if (!carriesFiles(e.dataTransfer) || presentFrom !== null) return
+    e.preventDefault()
+    e.dataTransfer.dropEffect = 'copy'
+    setDropActive(true)
+  }
+
+  const onCanvasDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropActive(false)
+  }
+
+  const onCanvasDrop = async (e: React.DragEvent) => {
+    const stage = stageRef.current
+    if (!carriesFiles(e.dataTransfer) || !stage) return
+    e.preventDefault()
+    setDropActive(false)
+    stage.setPointersPositions(e.nativeEvent)
+    const pointer = stage.getPointerPosition() ?? { x: container.size.width / 2, y: container.size.height / 2 }
+    const at = { x: (pointer.x - offset.x) / scale, y: (pointer.y - offset.y) / scale }
+    const files = Array.from(e.dataTransfer.files)
+    const accepted = files.filter((f) => dropKind(f))
+    const issues = files.filter((f) => !dropKind(f)).map((f) => ({ path: f.name, message: 'only images and text files can be dropped on a slide' }))
+    setDropProgress(accepted.map((f) => ({ name: f.name, loaded: 0, total: f.size })))
+    const added: Shape[] = []
+    for (const [i, file] of accepted.entries()) {
+      const point = { x: at.x + added.length * PASTE_OFFSET, y: at.y + added.length * PASTE_OFFSET }
+      try {
+        const bytes = await readFile(file, (loaded) => setDropProgress((p) => p.map((x, j) => (j === i ? { ...x, loaded } : x))))
+        if (dropKind(file) === 'image') {
+          const assetId = await putAsset(imageBlob(file, bytes))
+          added.push(imageShapeAt(assetId, await loadAssetImage(assetId), point, size))
+        } else {
+          const text = new TextDecoder().decode(bytes).replace(/\r\n?/g, '\n').trimEnd()
+          if (text) added.push({ ...textShapeAt(text, point), ...textLook(theme) })
+        }
+      } catch (err) {
+        issues.push({ path: file.name, message: (err as Error).message })
+      }
+    }
+    setDropProgress([])
+    if (added.length > 0) addPasted(added, `Add ${shapesLabel(added)}`)
+    if (issues.length > 0) setDocError({ title: 'Some files could not be added', issues })
+  }
 
   // ---------- Zoom ----------
   const zoomBy = (factor: number, center?: { x: number; y: number }) => {
@@ -282,24 +1067,163 @@ export default function SingleSlideEditorMVP() {
   }
 
   // ---------- Export ----------
-  const exportPNG = () => {
-    const stage = stageRef.current
-    if (!stage) return
-    const dataURL = stage.toDataURL({ pixelRatio: 2 })
+  // Drawn from the slide itself at one pixel per slide unit, like the other exports, so zoom, pan,
+  // the grid and selection handles never end up in the image.
+  const exportPNG = async () => {
+    const url = await rasterizeSlide(currentSlide, size.width, size, 'image/png')
+    if (!url) {
+      setDocError({ title: 'The slide could not be exported as PNG', issues: [{ path: '', message: 'the browser could not draw the slide' }] })
+      return
+    }
+    const index = deck.slides.findIndex((sl) => sl.id === currentSlide.id)
     const a = document.createElement('a')
-    a.href = dataURL
-    a.download = 'slide.png'
+    a.href = url
+    a.download = `slide-${index + 1}.png`
     a.click()
   }
 
-  // ---------- Stage drag (Pan) ----------
+  const exportSVG = async () => {
+    try {
+      const svg = await slideToSvg(currentSlide, size)
+      const index = deck.slides.findIndex((sl) => sl.id === currentSlide.id)
+      downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `slide-${index + 1}.svg`)
+    } catch (err) {
+      reportError('The slide could not be exported as SVG', err)
+    }
+  }
+
+  const exportPDF = async () => {
+    try {
+      const { blob, substituted } = await deckToPdf(deck, { notes: pdfNotes })
+      downloadBlob(blob, deckFileName(deck).replace(/\.deck\.json$/, '.pdf'))
+      if (substituted.length > 0) setDocError({ title: 'Some fonts could not be embedded in the PDF', issues: substituted })
+    } catch (err) {
+      reportError('The deck could not be exported as PDF', err)
+    }
+  }
+
+  const exportPPTX = async () => {
+    try {
+      const { blob, skipped } = await deckToPptx(deck)
+      downloadBlob(blob, deckFileName(deck).replace(/\.deck\.json$/, PPTX_EXTENSION))
+      if (skipped.length > 0) setDocError({ title: 'Some elements were not exported to PowerPoint', issues: skipped })
+    } catch (err) {
+      reportError('The deck could not be exported to PowerPoint', err)
+    }
+  }
+
+  // ---------- Versions ----------
+  const versionStore = useMemo(() => (deckId ? serverVersionStore(deckId) : localVersionStore()), [deckId])
+  const latestDeckRef = useRef(deck)
+  useEffect(() => { latestDeckRef.current = deck })
+
+  // Snapshots the deck every AUTO_SNAPSHOT_INTERVAL while it keeps changing.
+  useEffect(() => {
+    if (!persist) return
+    let snapshot = latestDeckRef.current
+    const timer = window.setInterval(() => {
+      const current = latestDeckRef.current
+      if (current === snapshot) return
+      snapshot = current
+      versionStore.save(current, `Snapshot ${new Date().toLocaleString()}`, true).catch(() => {})
+    }, AUTO_SNAPSHOT_INTERVAL)
+    return () => window.clearInterval(timer)
+  }, [persist, versionStore])
+
+  // The deck as it was goes into a version first, so a restore can itself be undone.
+  const restoreVersion = async (restored: Deck, version: VersionMeta) => {
+    try {
+      await versionStore.save(deck, `Before restoring "${version.name}"`, false)
+    } catch (err) {
+      reportError('The version was not restored', err)
+      return
+    }
+    setDeck(restored)
+    setHistories({})
+    selectSlide(restored.slides[0].id)
+    setShowVersions(false)
+  }
+
+  // A fork is a new server deck, opened next to this one.
+  const forkVersion = async (forked: Deck, version: VersionMeta) => {
+    try {
+      const created = await createServerDeck(forked)
+      window.open(`/build?deck=${created.id}`, '_blank')
+    } catch (err) {
+      reportError(`"${version.name}" could not be forked`, err)
+    }
+  }
+
+  // ---------- Present ----------
+  const stopPresenting = useCallback(() => setPresentFrom(null), [])
+
+  useEffect(() => {
+    const root = previewRef.current
+    if (!previewing || !root) return
+    return playBuildSequence(root, slideTimeline(currentSlide.shapes), () => setPreviewing(false))
+  }, [previewing, currentSlide])
+
+  // ---------- Files ----------
+  const saveToFile = async () => {
+    downloadBlob(await exportDeckFile(deck), deckFileName(deck))
+  }
+
+  const openDeck = async (next: Deck) => {
+    const opened = await migrateImageSources(next)
+    setDeck(opened)
+    setHistories({})
+    selectSlide(opened.slides[0].id)
+  }
+
+  const openFile = async (file: File) => {
+    try {
+      if (file.name.toLowerCase().endsWith(PPTX_EXTENSION)) {
+        const result = await pptxToDeck(await file.arrayBuffer())
+        if (!result.ok) { setDocError(result.error); return }
+        await openDeck(result.deck)
+        if (result.dropped.length > 0) setDocError({ title: 'Some elements were not imported', issues: result.dropped })
+        return
+      }
+      const result = await importDeckFile(await file.text())
+      if (!result.ok) { setDocError(result.error); return }
+      await openDeck(result.deck)
+    } catch (err) {
+      reportError(`"${file.name}" could not be opened`, err)
+    }
+  }
+
+  // ---------- Stage drag (Pan) & marquee ----------
   const [isDraggingStage, setIsDraggingStage] = useState(false)
   const onStageMouseDown = (e: KonvaEventObject<MouseEvent | TouchEvent>) => {
-    if (isPanMode) setIsDraggingStage(true)
-    deselect(e)
+    if (isPanMode) { setIsDraggingStage(true); return }
+    const stage = e.target.getStage()
+    const pos = stage?.getPointerPosition()
+    if (e.target !== stage || !pos) return
+    if (!isAdditive(e)) { setSelectedIds([]); setGroupScopeId(null) }
+    setMarquee({ x0: pos.x, y0: pos.y, x1: pos.x, y1: pos.y })
+  }
+  const onStageMouseUp = (e: KonvaEventObject<MouseEvent | TouchEvent>) => {
+    setIsDraggingStage(false)
+    if (!marquee) return
+    setMarquee(null)
+    const stage = stageRef.current
+    const box = marqueeRect(marquee)
+    if (!stage || box.width < 2 || box.height < 2) return
+    const hits = scopeShapes
+      .filter((s) => !s.locked && !s.hidden)
+      .filter((s) => {
+        const node = stage.findOne(`#${s.id}`)
+        return !!node && Konva.Util.haveIntersection(box, node.getClientRect())
+      })
+      .map((s) => s.id)
+    setSelectedIds((ids) => (isAdditive(e) ? [...ids, ...hits.filter((id) => !ids.includes(id))] : hits))
   }
-  const onStageMouseUp = () => setIsDraggingStage(false)
-  const onStageDragMove = (e: KonvaEventObject<DragEvent>) => {
+  const onStageDragMove = (e: KonvaEventObject<MouseEvent | TouchEvent>) => {
+    if (marquee) {
+      const pos = e.target.getStage()?.getPointerPosition()
+      if (pos) setMarquee({ ...marquee, x1: pos.x, y1: pos.y })
+      return
+    }
     if (!isDraggingStage) return
     const movementX = (e.evt as MouseEvent).movementX ?? 0
     const movementY = (e.evt as MouseEvent).movementY ?? 0
@@ -307,116 +1231,110 @@ export default function SingleSlideEditorMVP() {
   }
 
   // ---------- Grid ----------
-  const snap = useCallback((n: number) => (gridEnabled ? Math.round(n / gridSize) * gridSize : n), [gridEnabled, gridSize])
-
-  const GridLayer: React.FC = () => {
-    const lines = useMemo(() => {
-      if (!gridVisible) return null
-      const vertical: JSX.Element[] = []
-      const horizontal: JSX.Element[] = []
-      for (let x = 0; x <= SLIDE_W; x += gridSize) {
-        vertical.push(
-          <Line key={`v-${x}`} points={[x, 0, x, SLIDE_H]} stroke="#e5e7eb" strokeWidth={1} listening={false} />
-        )
-      }
-      for (let y = 0; y <= SLIDE_H; y += gridSize) {
-        horizontal.push(
-          <Line key={`h-${y}`} points={[0, y, SLIDE_W, y]} stroke="#e5e7eb" strokeWidth={1} listening={false} />
-        )
-      }
-      return (
-        <>
-          {vertical}
-          {horizontal}
-        </>
+  const snap = useCallback((n: number) => (snapTo.grid ? Math.round(n / gridSize) * gridSize : n), [snapTo.grid, gridSize])
+
+  const gridLines = useMemo(() => {
+    if (!gridVisible) return null
+    const vertical: JSX.Element[] = []
+    const horizontal: JSX.Element[] = []
+    for (let x = 0; x <= size.width; x += gridSize) {
+      vertical.push(
+        <Line key={`v-${x}`} points={[x, 0, x, size.height]} stroke="#e5e7eb" strokeWidth={1} listening={false} />
       )
-    }, [gridVisible, gridSize])
-    return lines
-  }
+    }
+    for (let y = 0; y <= size.height; y += gridSize) {
+      horizontal.push(
+        <Line key={`h-${y}`} points={[0, y, size.width, y]} stroke="#e5e7eb" strokeWidth={1} listening={false} />
+      )
+    }
+    return (
+      <>
+        {vertical}
+        {horizontal}
+      </>
+    )
+  }, [gridVisible, gridSize, size])
 
   // ---------- Alignment ----------
-  const alignSelected = (dir: 'left' | 'centerX' | 'right' | 'top' | 'centerY' | 'bottom') => {
-    if (!selectedId) return
-    const s = shapes.find((x) => x.id === selectedId)
-    if (!s) return
-    const getSize = (sh: Shape) => {
-      if (sh.kind === 'rect' || sh.kind === 'image') return { w: sh.width, h: sh.height }
-      if (sh.kind === 'circle') return { w: sh.radius * 2, h: sh.radius * 2 } 
-      return { w: sh.width ?? 300, h: sh.fontSize * 1.2 }
-    }
-    const { w, h } = getSize(s)
-    let nx = s.x, ny = s.y
-    if (dir === 'left') nx = 0
-    if (dir === 'centerX') nx = (SLIDE_W - w) / 2
-    if (dir === 'right') nx = SLIDE_W - w
-    if (dir === 'top') ny = 0
-    if (dir === 'centerY') ny = (SLIDE_H - h) / 2
-    if (dir === 'bottom') ny = SLIDE_H - h
-    updateShape(s.id, { x: snap(nx), y: snap(ny) })
+  // Single shapes always align to the slide; a selection follows the Align to setting, with its
+  // first-selected shape as the key object.
+  const alignSelected = (edge: AlignEdge) => {
+    const targets = selectedShapes.filter((s) => !s.locked).map((s) => s.id)
+    if (targets.length === 0) return
+    const reference = selectedShapes.length > 1 ? alignTo : 'slide'
+    const aligned = alignShapes(shapes, targets, edge, reference, size, selectedShapes[0].id)
+    commit((prev) => mapShapeTree(prev, (s) => (aligned.has(s.id) ? { ...s, ...aligned.get(s.id) } : s)), `Align ${shapesLabel(selectedShapes)}`)
+  }
+
+  const distributeSelected = (axis: 'x' | 'y') => {
+    const placed = distributeShapes(shapes, selectedShapes.filter((s) => !s.locked).map((s) => s.id), axis)
+    commit((prev) => mapShapeTree(prev, (s) => (placed.has(s.id) ? { ...s, ...placed.get(s.id) } : s)), `Distribute ${shapesLabel(selectedShapes)}`)
   }
 
   // ---------- Layer ops ----------
-  const bringForward = (id: string) => {
-    commit((prev) => {
-      const idx = prev.findIndex((s) => s.id === id)
-      if (idx < 0 || idx === prev.length - 1) return prev
-      const next = prev.slice()
-      const tmp = next[idx]
-      next[idx] = next[idx + 1]
-      next[idx + 1] = tmp
+  // Each op moves every id in `ids` as a block within its own sibling list, keeping their relative stacking order.
+  const bringForward = (ids: string[]) => {
+    commit((prev) => mapSiblingLists(prev, ids, (list) => {
+      const next = list.slice()
+      for (let i = next.length - 2; i >= 0; i--) {
+        if (ids.includes(next[i].id) && !ids.includes(next[i + 1].id)) {
+          const tmp = next[i]
+          next[i] = next[i + 1]
+          next[i + 1] = tmp
+        }
+      }
       return next
-    })
+    }), 'Bring forward')
   }
-  const sendBackward = (id: string) => {
-    commit((prev) => {
-      const idx = prev.findIndex((s) => s.id === id)
-      if (idx <= 0) return prev
-      const next = prev.slice()
-      const tmp = next[idx]
-      next[idx] = next[idx - 1]
-      next[idx - 1] = tmp
+  const sendBackward = (ids: string[]) => {
+    commit((prev) => mapSiblingLists(prev, ids, (list) => {
+      const next = list.slice()
+      for (let i = 1; i < next.length; i++) {
+        if (ids.includes(next[i].id) && !ids.includes(next[i - 1].id)) {
+          const tmp = next[i]
+          next[i] = next[i - 1]
+          next[i - 1] = tmp
+        }
+      }
       return next
-    })
+    }), 'Send backward')
   }
-  const bringToFront = (id: string) => {
-    commit((prev) => {
-      const idx = prev.findIndex((s) => s.id === id)
-      if (idx < 0 || idx === prev.length - 1) return prev
-      const next = prev.slice()
-      const [item] = next.splice(idx, 1)
-      next.push(item)
-      return next
-    })
+  const bringToFront = (ids: string[]) => {
+    commit((prev) => mapSiblingLists(prev, ids, (list) => [...list.filter((s) => !ids.includes(s.id)), ...list.filter((s) => ids.includes(s.id))]), 'Bring to front')
   }
-  const sendToBack = (id: string) => {
-    commit((prev) => {
-      const idx = prev.findIndex((s) => s.id === id)
-      if (idx <= 0) return prev
-      const next = prev.slice()
-      const [item] = next.splice(idx, 1)
-      next.unshift(item)
-      return next
-    })
+  const sendToBack = (ids: string[]) => {
+    commit((prev) => mapSiblingLists(prev, ids, (list) => [...list.filter((s) => ids.includes(s.id)), ...list.filter((s) => !ids.includes(s.id))]), 'Send to back')
   }
 
   // ---------- UI ----------
   const hiddenFile = useRef<HTMLInputElement | null>(null)
+  const replaceFile = useRef<HTMLInputElement | null>(null)
+  const replaceTargetRef = useRef<string | null>(null)
+  const deckFile = useRef<HTMLInputElement | null>(null)
 
-  const Toolbar = () => (
+  const renderToolbar = () => (
     <div className="flex flex-wrap items-center gap-2 p-2 border-b bg-white/80 backdrop-blur sticky top-0 z-10">
+      <Link className="px-2 py-1.5 text-sm text-gray-600 hover:underline" href="/">← Decks</Link>
+      <div className="mx-1 h-6 w-px bg-gray-300" />
       <button className="px-3 py-1.5 rounded-xl border text-sm" onClick={addText}>Text</button>
       <button className="px-3 py-1.5 rounded-xl border text-sm" onClick={addRect}>Rect</button>
       <button className="px-3 py-1.5 rounded-xl border text-sm" onClick={addCircle}>Circle</button>
+      <button className="px-3 py-1.5 rounded-xl border text-sm" onClick={() => addLine('line')}>Line</button>
+      <button className="px-3 py-1.5 rounded-xl border text-sm" onClick={() => addLine('arrow')}>Arrow</button>
+      <button className="px-3 py-1.5 rounded-xl border text-sm" title="Select two shapes first to connect them" onClick={addConnector}>Connector</button>
 
       <button className="px-3 py-1.5 rounded-xl border text-sm" onClick={() => hiddenFile.current?.click()}>Image…</button>
       <input ref={hiddenFile} type="file" accept="image/*" className="hidden" onChange={(e) => {
         const f = e.target.files?.[0]; if (f) onImageUpload(f); e.currentTarget.value = ''
       }} />
+      <input ref={replaceFile} type="file" accept="image/*" className="hidden" onChange={(e) => {
+        const f = e.target.files?.[0]; const id = replaceTargetRef.current; if (f && id) replaceImage(id, f); e.currentTarget.value = ''
+      }} />
 
       <div className="mx-2 h-6 w-px bg-gray-300" />
 
-      <button className="px-3 py-1.5 rounded-xl border text-sm" onClick={undo} disabled={history.length === 0}>Undo</button>
-      <button className="px-3 py-1.5 rounded-xl border text-sm" onClick={redo} disabled={future.length === 0}>Redo</button>
+      <button className="px-3 py-1.5 rounded-xl border text-sm" onClick={undo} disabled={history.past.length === 0}>Undo</button>
+      <button className="px-3 py-1.5 rounded-xl border text-sm" onClick={redo} disabled={history.future.length === 0}>Redo</button>
       <button className={`px-3 py-1.5 rounded-xl border text-sm ${isPanMode ? 'bg-gray-900 text-white' : ''}`} onClick={() => setIsPanMode((v) => !v)}>Pan {isPanMode ? 'On' : 'Off'}</button>
       <button className="px-3 py-1.5 rounded-xl border text-sm" onClick={() => zoomBy(1.1)}>Zoom +</button>
       <button className="px-3 py-1.5 rounded-xl border text-sm" onClick={() => zoomBy(0.9)}>Zoom −</button>
@@ -424,11 +1342,14 @@ export default function SingleSlideEditorMVP() {
 
       <div className="mx-2 h-6 w-px bg-gray-300" />
 
+      <span className="text-sm">Snap to</span>
+      {(['grid', 'objects', 'slide'] as const).map((target) => (
+        <label key={target} className="flex items-center gap-1 text-sm capitalize">
+          <input type="checkbox" checked={snapTo[target]} onChange={(e) => setSnapTo((t) => ({ ...t, [target]: e.target.checked }))} /> {target}
+        </label>
+      ))}
       <label className="flex items-center gap-2 text-sm">
-        <input type="checkbox" checked={gridEnabled} onChange={(e) => setGridEnabled(e.target.checked)} /> Snap
-      </label>
-      <label className="flex items-center gap-2 text-sm">
-        <input type="checkbox" checked={gridVisible} onChange={(e) => setGridVisible(e.target.checked)} /> Grid
+        <input type="checkbox" checked={gridVisible} onChange={(e) => setGridVisible(e.target.checked)} /> Show grid
       </label>
       <label className="flex items-center gap-1 text-sm">
         Size
@@ -438,44 +1359,121 @@ export default function SingleSlideEditorMVP() {
       <div className="mx-2 h-6 w-px bg-gray-300" />
 
       <button className="px-3 py-1.5 rounded-xl border text-sm" onClick={() => setShowInspector((v) => !v)}>{showInspector ? 'Hide' : 'Show'} Inspector</button>
-      <button className="px-3 py-1.5 rounded-xl border text-sm" onClick={deleteSelected} disabled={!selectedId}>Delete</button>
+      <button className="px-3 py-1.5 rounded-xl border text-sm" onClick={() => deleteSelected()} disabled={selectedIds.length === 0}>Delete</button>
+      <button className="px-3 py-1.5 rounded-xl border text-sm" onClick={groupSelected} disabled={selectedIds.length < 2}>Group</button>
+      <button className="px-3 py-1.5 rounded-xl border text-sm" onClick={ungroupSelected} disabled={!selectedShapes.some((s) => s.kind === 'group')}>Ungroup</button>
       <button className="px-3 py-1.5 rounded-xl border text-sm" onClick={exportPNG}>Export PNG</button>
+      <button className="px-3 py-1.5 rounded-xl border text-sm" onClick={exportSVG}>Export SVG</button>
+      <button className="px-3 py-1.5 rounded-xl border text-sm" onClick={exportPDF}>Export PDF</button>
+      <label className="flex items-center gap-1 text-sm">
+        <input type="checkbox" checked={pdfNotes} onChange={(e) => setPdfNotes(e.target.checked)} /> with notes
+      </label>
+      <button className="px-3 py-1.5 rounded-xl border text-sm" onClick={exportPPTX}>Export PPTX</button>
+      <button className="px-3 py-1.5 rounded-xl border text-sm" onClick={saveToFile}>Save as file</button>
+      <button className="px-3 py-1.5 rounded-xl border text-sm" onClick={() => deckFile.current?.click()}>Open file…</button>
+      <button className="px-3 py-1.5 rounded-xl border text-sm" onClick={() => setShowVersions(true)}>Versions</button>
+      <button className="px-3 py-1.5 rounded-xl border text-sm bg-gray-900 text-white" onClick={() => setPresentFrom(deck.slides.indexOf(currentSlide))}>Present</button>
+      <input ref={deckFile} type="file" accept=".json,application/json,.pptx,application/vnd.openxmlformats-officedocument.presentationml.presentation" className="hidden" onChange={(e) => {
+        const f = e.target.files?.[0]; if (f) openFile(f); e.currentTarget.value = ''
+      }} />
+
+      <div className="mx-2 h-6 w-px bg-gray-300" />
+
+      {deckId ? (
+        <span className="flex items-center gap-2 text-sm">
+          <span className={autosave.status === 'conflict' || autosave.status === 'failed' ? 'text-red-600' : autosave.status === 'offline' ? 'text-amber-600' : 'text-gray-600'}>
+            {SAVE_STATUS_LABELS[autosave.status]}
+          </span>
+          {autosave.status === 'conflict' && (
+            <>
+              <button className="px-2 py-1 rounded-lg border text-xs" onClick={autosave.keepMine}>Keep mine</button>
+              <button className="px-2 py-1 rounded-lg border text-xs" onClick={autosave.takeTheirs}>Use theirs</button>
+            </>
+          )}
+        </span>
+      ) : (
+        <button className="px-3 py-1.5 rounded-xl border text-sm" title="Store this deck on the server and autosave it there" onClick={saveToServer}>Save to server</button>
+      )}
+      {room ? (
+        <>
+          <span className="flex items-center gap-1 text-sm" title={people.map((p) => p.name).join(', ')}>
+            <span className={`inline-block w-2 h-2 rounded-full ${collabStatus === 'live' ? 'bg-green-500' : collabStatus === 'connecting' ? 'bg-amber-400' : 'bg-gray-400'}`} />
+            {collabStatus === 'live' ? `Live · ${people.length} other${people.length === 1 ? '' : 's'}` : collabStatus === 'connecting' ? 'Connecting…' : 'Offline'}
+          </span>
+          {people.map((p) => <span key={p.client} className="inline-block w-3 h-3 rounded-full border border-white" style={{ background: p.color }} title={p.name} />)}
+          <span className="inline-block w-3 h-3 rounded-full border border-white" style={{ background: ownColor }} title="You" />
+          <button className="px-3 py-1.5 rounded-xl border text-sm" onClick={() => navigator.clipboard?.writeText(window.location.href).catch(() => {})}>Copy link</button>
+          <button className="px-3 py-1.5 rounded-xl border text-sm" onClick={leaveCollaboration}>Leave</button>
+        </>
+      ) : (
+        <button className="px-3 py-1.5 rounded-xl border text-sm" title="Start a shared session and copy its link" onClick={startCollaboration}>Collaborate</button>
+      )}
 
       <div className="ml-auto text-xs text-gray-600">Scale: {(scale * 100).toFixed(0)}%</div>
     </div>
   )
 
   // ---------- Inspector ----------
-  const SelectedInspector: React.FC = () => {
-    if (!selectedId) return <div className="text-sm text-gray-500 p-2">No selection</div>
-    const s = shapes.find((x) => x.id === selectedId)
-    if (!s) return null
-
-    const common = (
+  const renderInspector = () => {
+    const transition = currentSlide.transition ?? DEFAULT_TRANSITION
+    if (selectedShapes.length === 0) return (
       <div className="space-y-2">
-        <div className="flex items-center justify-between gap-2">
-          <label className="text-xs text-gray-600">Name</label>
-          <input className="border rounded px-2 py-1 text-sm w-40" value={s.name ?? ''} onChange={(e) => updateShape(s.id, { name: e.target.value })} />
-        </div>
+        <div className="text-sm text-gray-500 p-2">No selection</div>
+        <label className="text-xs text-gray-600">Layout
+          <select className="w-full border rounded px-2 py-1 text-sm" value={currentSlide.layout ?? ''} onChange={(e) => applyLayout(e.target.value)}>
+            {!currentSlide.layout && <option value="">None</option>}
+            {deckMasters(deck).map((m) => (
+              <optgroup key={m.id} label={m.name}>
+                {m.layouts.map((l) => <option key={l.id} value={l.id}>{l.name}</option>)}
+              </optgroup>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-600">Slide background
+          <input className="w-full" type="color" value={currentSlide.background} onChange={(e) => setSlideBackground(e.target.value)} />
+        </label>
+        <ThemeSwatches theme={theme} value={currentSlide.backgroundRef} onPick={(c) => setSlideBackground(theme.colors[c], c)} />
         <div className="grid grid-cols-2 gap-2">
-          <label className="text-xs text-gray-600">X
-            <input className="w-full border rounded px-2 py-1 text-sm" type="number" value={s.x} onChange={(e) => updateShape(s.id, { x: toNum(e.target.value, s.x) })} />
-          </label>
-          <label className="text-xs text-gray-600">Y
-            <input className="w-full border rounded px-2 py-1 text-sm" type="number" value={s.y} onChange={(e) => updateShape(s.id, { y: toNum(e.target.value, s.y) })} />
+          <label className="text-xs text-gray-600">Transition
+            <select className="w-full border rounded px-2 py-1 text-sm" value={transition.kind} onChange={(e) => setSlideTransition({ kind: e.target.value as TransitionKind })}>
+              {TRANSITION_KINDS.map((k) => <option key={k} value={k}>{k}</option>)}
+            </select>
           </label>
-          <label className="text-xs text-gray-600">Rotation
-            <input className="w-full border rounded px-2 py-1 text-sm" type="number" value={s.rotation} onChange={(e) => updateShape(s.id, { rotation: toNum(e.target.value, s.rotation) })} />
+          <label className="text-xs text-gray-600">Duration (ms)
+            <input className="w-full border rounded px-2 py-1 text-sm" type="number" min={0} max={5000} step={100} value={transition.duration} disabled={transition.kind === 'none'}
+              onChange={(e) => setSlideTransition({ duration: clamp(toNum(e.target.value, transition.duration), 0, 5000) })} />
           </label>
         </div>
+        <BuildTimeline shapes={shapes} previewing={previewing} onSelect={(id) => selectFromLayers(id, false)} onPreview={() => setPreviewing((p) => !p)} />
+        <ThemeEditor theme={theme} onChange={setTheme} />
+        <SlideSizeEditor size={size} onChange={setSlideSize} />
+      </div>
+    )
+    const ids = selectedShapes.map((x) => x.id)
+    const allLocked = selectedShapes.every((x) => x.locked)
+    const allHidden = selectedShapes.every((x) => x.hidden)
+
+    const arrange = (
+      <div className="space-y-2">
         <div className="flex items-center gap-2">
           <label className="text-xs text-gray-600 flex items-center gap-1">
-            <input type="checkbox" checked={!!s.locked} onChange={(e) => updateShape(s.id, { locked: e.target.checked })} /> Lock
+            <input type="checkbox" checked={allLocked} onChange={(e) => updateShapes(ids, { locked: e.target.checked })} /> Lock
           </label>
           <label className="text-xs text-gray-600 flex items-center gap-1">
-            <input type="checkbox" checked={!!s.hidden} onChange={(e) => updateShape(s.id, { hidden: e.target.checked })} /> Hide
+            <input type="checkbox" checked={allHidden} onChange={(e) => updateShapes(ids, { hidden: e.target.checked })} /> Hide
           </label>
+          <button className="border rounded px-2 py-0.5 text-xs ml-auto" title="Ctrl+Alt+C" disabled={!primary} onClick={copyStyle}>Copy style</button>
+          <button className="border rounded px-2 py-0.5 text-xs" title="Ctrl+Alt+V" disabled={!copiedStyle} onClick={pasteStyle}>Paste style</button>
         </div>
+        {selectedShapes.length > 1 && (
+          <label className="text-xs text-gray-600 flex items-center justify-between gap-2">Align to
+            <select className="border rounded px-2 py-1 text-xs" value={alignTo} onChange={(e) => setAlignTo(e.target.value as AlignReference)}>
+              {ALIGN_REFERENCES.map((r) => (
+                <option key={r} value={r}>{r === 'key' ? `key object (${selectedShapes[0].name ?? selectedShapes[0].kind})` : r}</option>
+              ))}
+            </select>
+          </label>
+        )}
         <div className="grid grid-cols-4 gap-1">
           <button className="border rounded px-2 py-1 text-xs" onClick={() => alignSelected('left')}>⟸ L</button>
           <button className="border rounded px-2 py-1 text-xs" onClick={() => alignSelected('centerX')}>⟷ C</button>
@@ -483,11 +1481,47 @@ export default function SingleSlideEditorMVP() {
           <button className="border rounded px-2 py-1 text-xs" onClick={() => alignSelected('top')}>⬆ T</button>
           <button className="border rounded px-2 py-1 text-xs" onClick={() => alignSelected('centerY')}>↕ M</button>
           <button className="border rounded px-2 py-1 text-xs" onClick={() => alignSelected('bottom')}>B ⬇</button>
-          <button className="border rounded px-2 py-1 text-xs" onClick={() => bringToFront(s.id)}>Front</button>
-          <button className="border rounded px-2 py-1 text-xs" onClick={() => sendToBack(s.id)}>Back</button>
-          <button className="border rounded px-2 py-1 text-xs" onClick={() => bringForward(s.id)}>Up</button>
-          <button className="border rounded px-2 py-1 text-xs" onClick={() => sendBackward(s.id)}>Down</button>
+          {selectedShapes.length > 2 && (
+            <>
+              <button className="border rounded px-2 py-1 text-xs" title="Distribute horizontally" onClick={() => distributeSelected('x')}>⇹ H</button>
+              <button className="border rounded px-2 py-1 text-xs" title="Distribute vertically" onClick={() => distributeSelected('y')}>⇳ V</button>
+            </>
+          )}
+          <button className="border rounded px-2 py-1 text-xs" onClick={() => bringToFront(ids)}>Front</button>
+          <button className="border rounded px-2 py-1 text-xs" onClick={() => sendToBack(ids)}>Back</button>
+          <button className="border rounded px-2 py-1 text-xs" onClick={() => bringForward(ids)}>Up</button>
+          <button className="border rounded px-2 py-1 text-xs" onClick={() => sendBackward(ids)}>Down</button>
+        </div>
+      </div>
+    )
+
+    if (!primary) return (
+      <div className="space-y-4">
+        <div className="text-sm text-gray-600">{selectedShapes.length} shapes selected</div>
+        {arrange}
+      </div>
+    )
+    const s = primary
+
+    const common = (
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <label className="text-xs text-gray-600">Name</label>
+          <input className="border rounded px-2 py-1 text-sm w-40" value={s.name ?? ''} onChange={(e) => updateShape(s.id, { name: e.target.value })} />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-xs text-gray-600">X
+            <input className="w-full border rounded px-2 py-1 text-sm" type="number" value={s.x} onChange={(e) => updateShape(s.id, { x: toNum(e.target.value, s.x) })} />
+          </label>
+          <label className="text-xs text-gray-600">Y
+            <input className="w-full border rounded px-2 py-1 text-sm" type="number" value={s.y} onChange={(e) => updateShape(s.id, { y: toNum(e.target.value, s.y) })} />
+          </label>
+          <label className="text-xs text-gray-600">Rotation
+            <input className="w-full border rounded px-2 py-1 text-sm" type="number" value={s.rotation} onChange={(e) => updateShape(s.id, { rotation: toNum(e.target.value, s.rotation) })} />
+          </label>
         </div>
+        {arrange}
+        <BuildList builds={s.builds ?? []} onChange={(builds) => updateShape(s.id, { builds: builds.length > 0 ? builds : undefined })} />
       </div>
     )
 
@@ -502,22 +1536,10 @@ export default function SingleSlideEditorMVP() {
               <input className="w-full border rounded px-2 py-1 text-sm" type="number" value={s.height} onChange={(e) => updateShape(s.id, { height: Math.max(1, toNum(e.target.value, s.height)) })} />
             </label>
           </div>
-          <div className="grid grid-cols-2 gap-2">
-            <label className="text-xs text-gray-600">Corner
-              <input className="w-full border rounded px-2 py-1 text-sm" type="number" value={s.cornerRadius ?? 0} onChange={(e) => updateShape(s.id, { cornerRadius: clamp(toNum(e.target.value, s.cornerRadius ?? 0), 0, 200) })} />
-            </label>
-            <label className="text-xs text-gray-600">Stroke
-              <input className="w-full border rounded px-2 py-1 text-sm" type="number" value={s.strokeWidth ?? 0} onChange={(e) => updateShape(s.id, { strokeWidth: clamp(toNum(e.target.value, s.strokeWidth ?? 0), 0, 40) })} />
-            </label>
-          </div>
-          <div className="grid grid-cols-2 gap-2">
-            <label className="text-xs text-gray-600">Fill
-              <input className="w-full" type="color" value={s.fill} onChange={(e) => updateShape(s.id, { fill: e.target.value })} />
-            </label>
-            <label className="text-xs text-gray-600">Stroke
-              <input className="w-full" type="color" value={s.stroke ?? '#000000'} onChange={(e) => updateShape(s.id, { stroke: e.target.value })} />
-            </label>
-          </div>
+          <label className="text-xs text-gray-600">Corner
+            <input className="w-full border rounded px-2 py-1 text-sm" type="number" value={s.cornerRadius ?? 0} onChange={(e) => updateShape(s.id, { cornerRadius: clamp(toNum(e.target.value, s.cornerRadius ?? 0), 0, 200) })} />
+          </label>
+          <StyleEditor s={s} theme={theme} onChange={(style) => updateShape(s.id, style)} />
         </div>
       )
       if (s.kind === 'circle') return (
@@ -525,23 +1547,26 @@ export default function SingleSlideEditorMVP() {
           <label className="text-xs text-gray-600">Radius
             <input className="w-full border rounded px-2 py-1 text-sm" type="number" value={s.radius} onChange={(e) => updateShape(s.id, { radius: Math.max(1, toNum(e.target.value, s.radius)) })} />
           </label>
-          <div className="grid grid-cols-2 gap-2">
-            <label className="text-xs text-gray-600">Fill
-              <input className="w-full" type="color" value={s.fill} onChange={(e) => updateShape(s.id, { fill: e.target.value })} />
-            </label>
-            <label className="text-xs text-gray-600">Stroke
-              <input className="w-full" type="color" value={s.stroke ?? '#000000'} onChange={(e) => updateShape(s.id, { stroke: e.target.value })} />
-            </label>
-          </div>
-          <label className="text-xs text-gray-600">Stroke width
-            <input className="w-full border rounded px-2 py-1 text-sm" type="number" value={s.strokeWidth ?? 0} onChange={(e) => updateShape(s.id, { strokeWidth: clamp(toNum(e.target.value, s.strokeWidth ?? 0), 0, 40) })} />
-          </label>
+          <StyleEditor s={s} theme={theme} onChange={(style) => updateShape(s.id, style)} />
         </div>
       )
       if (s.kind === 'text') return (
         <div className="space-y-2">
-          <label className="text-xs text-gray-600">Text
-            <textarea className="w-full border rounded px-2 py-1 text-sm" rows={3} value={s.text} onChange={(e) => updateShape(s.id, { text: e.target.value })} />
+          <div className="text-xs text-gray-600 line-clamp-3 whitespace-pre-wrap">{s.text}</div>
+          <button className="border rounded px-2 py-1 text-xs" onClick={() => startTextEdit(s.id)}>Edit text…</button>
+          <label className="text-xs text-gray-600">Font
+            <select className="w-full border rounded px-2 py-1 text-sm" value={s.themeRefs?.fontFamily ? `theme:${s.themeRefs.fontFamily}` : s.fontFamily ?? DEFAULT_FONT_FAMILY} onChange={(e) => {
+              const font = THEME_FONTS.find((f) => e.target.value === `theme:${f}`)
+              if (font) updateShape(s.id, { fontFamily: theme.fonts[font], themeRefs: { ...s.themeRefs, fontFamily: font } })
+              else updateShape(s.id, { fontFamily: e.target.value })
+            }}>
+              <optgroup label="Theme">
+                {THEME_FONTS.map((f) => <option key={f} value={`theme:${f}`}>{f === 'heading' ? 'Heading' : 'Body'} ({theme.fonts[f]})</option>)}
+              </optgroup>
+              <optgroup label="Fonts">
+                {FONT_FAMILIES.map((f) => <option key={f} value={f}>{f}</option>)}
+              </optgroup>
+            </select>
           </label>
           <div className="grid grid-cols-2 gap-2">
             <label className="text-xs text-gray-600">Font size
@@ -550,12 +1575,79 @@ export default function SingleSlideEditorMVP() {
             <label className="text-xs text-gray-600">Box width
               <input className="w-full border rounded px-2 py-1 text-sm" type="number" value={s.width ?? 300} onChange={(e) => updateShape(s.id, { width: Math.max(50, toNum(e.target.value, s.width ?? 300)) })} />
             </label>
+            <label className="text-xs text-gray-600">Line height
+              <input className="w-full border rounded px-2 py-1 text-sm" type="number" step={0.1} value={s.lineHeight ?? DEFAULT_LINE_HEIGHT} onChange={(e) => updateShape(s.id, { lineHeight: clamp(toNum(e.target.value, s.lineHeight ?? DEFAULT_LINE_HEIGHT), 0.5, 4) })} />
+            </label>
+            <label className="text-xs text-gray-600">Letter spacing
+              <input className="w-full border rounded px-2 py-1 text-sm" type="number" value={s.letterSpacing ?? 0} onChange={(e) => updateShape(s.id, { letterSpacing: clamp(toNum(e.target.value, s.letterSpacing ?? 0), -20, 100) })} />
+            </label>
           </div>
-          <label className="text-xs text-gray-600">Color
-            <input className="w-full" type="color" value={s.fill} onChange={(e) => updateShape(s.id, { fill: e.target.value })} />
-          </label>
+          <div className="grid grid-cols-4 gap-1">
+            {(['left', 'center', 'right', 'justify'] as const).map((a) => (
+              <button key={a} className={`border rounded px-2 py-1 text-xs ${(s.align ?? 'left') === a ? 'bg-gray-900 text-white' : ''}`} onClick={() => updateShape(s.id, { align: a })}>{a === 'justify' ? 'Just.' : a[0].toUpperCase() + a.slice(1)}</button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-gray-600">List
+              <select className="w-full border rounded px-2 py-1 text-sm" value={s.list ?? ''} onChange={(e) => updateShape(s.id, { list: (e.target.value || undefined) as TextShape['list'] })}>
+                <option value="">None</option>
+                <option value="bullet">Bullets</option>
+                <option value="number">Numbered</option>
+              </select>
+            </label>
+            <label className="text-xs text-gray-600">Vertical
+              <select className="w-full border rounded px-2 py-1 text-sm" value={s.verticalAlign ?? 'top'} onChange={(e) => updateShape(s.id, { verticalAlign: e.target.value as TextShape['verticalAlign'] })}>
+                <option value="top">Top</option>
+                <option value="middle">Middle</option>
+                <option value="bottom">Bottom</option>
+              </select>
+            </label>
+            <label className="text-xs text-gray-600">Box height
+              <input className="w-full border rounded px-2 py-1 text-sm" type="number" placeholder="auto" value={s.height ?? ''} onChange={(e) => updateShape(s.id, { height: e.target.value === '' ? undefined : Math.max(10, toNum(e.target.value, s.height ?? 0)) })} />
+            </label>
+          </div>
+          <StyleEditor s={s} theme={theme} onChange={(style) => updateShape(s.id, style)} />
         </div>
       )
+      if (s.kind === 'group') return (
+        <div className="space-y-2">
+          <div className="text-xs text-gray-600">{s.children.length} items · double‑click to edit inside</div>
+          <button className="border rounded px-2 py-1 text-xs" onClick={ungroupSelected}>Ungroup</button>
+        </div>
+      )
+      if (isStroke(s)) {
+        const endLabel = (e: ConnectorShape['start']) => {
+          const target = e.shapeId ? findShape(shapes, e.shapeId) : undefined
+          return target ? `${target.name ?? target.kind} (${e.anchor})` : 'free'
+        }
+        return (
+          <div className="space-y-2">
+            <StyleEditor s={s} theme={theme} onChange={(style) => updateShape(s.id, style)} />
+            <div className="grid grid-cols-2 gap-2">
+              <label className="text-xs text-gray-600">Start
+                <select className="w-full border rounded px-2 py-1 text-sm" value={s.startHead ?? 'none'} onChange={(e) => updateShape(s.id, { startHead: e.target.value as ArrowHead })}>
+                  {ARROW_HEADS.map((h) => <option key={h} value={h}>{h}</option>)}
+                </select>
+              </label>
+              <label className="text-xs text-gray-600">End
+                <select className="w-full border rounded px-2 py-1 text-sm" value={s.endHead ?? 'none'} onChange={(e) => updateShape(s.id, { endHead: e.target.value as ArrowHead })}>
+                  {ARROW_HEADS.map((h) => <option key={h} value={h}>{h}</option>)}
+                </select>
+              </label>
+            </div>
+            {s.kind === 'connector' && (
+              <>
+                <div className="grid grid-cols-3 gap-1">
+                  {(['straight', 'elbow', 'curved'] as const).map((r) => (
+                    <button key={r} className={`border rounded px-2 py-1 text-xs ${s.routing === r ? 'bg-gray-900 text-white' : ''}`} onClick={() => updateShape(s.id, { routing: r })}>{r[0].toUpperCase() + r.slice(1)}</button>
+                  ))}
+                </div>
+                <div className="text-xs text-gray-600">{endLabel(s.start)} → {endLabel(s.end)} · drag an end onto a shape to attach it</div>
+              </>
+            )}
+          </div>
+        )
+      }
       // image
       return (
         <div className="space-y-2">
@@ -567,7 +1659,32 @@ export default function SingleSlideEditorMVP() {
               <input className="w-full border rounded px-2 py-1 text-sm" type="number" value={s.height} onChange={(e) => updateShape(s.id, { height: Math.max(1, toNum(e.target.value, s.height)) })} />
             </label>
           </div>
-          <button className="border rounded px-2 py-1 text-xs" onClick={() => hiddenFile.current?.click()}>Replace image…</button>
+          <button className="border rounded px-2 py-1 text-xs" onClick={() => { replaceTargetRef.current = s.id; replaceFile.current?.click() }}>Replace image…</button>
+          <div className="flex gap-2">
+            <button className={`border rounded px-2 py-1 text-xs ${cropping ? 'bg-gray-900 text-white' : ''}`} onClick={() => (cropping ? setCropId(null) : startCrop(s.id))}>{cropping ? 'Done cropping' : 'Crop'}</button>
+            <button className="border rounded px-2 py-1 text-xs" disabled={!s.crop} onClick={() => commit((prev) => mapShapeTree(prev, (x) => (x.id === s.id && x.kind === 'image' ? cropTo(x, uncroppedBox(x)) : x)), `Reset crop of ${shapeLabel(s)}`)}>Reset crop</button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-gray-600">Mask
+              <select className="w-full border rounded px-2 py-1 text-sm" value={s.mask ?? ''} onChange={(e) => updateShape(s.id, { mask: (e.target.value || undefined) as ImageMask | undefined })}>
+                <option value="">None</option>
+                {IMAGE_MASKS.map((m) => <option key={m} value={m}>{m === 'circle' ? 'Circle' : 'Rounded'}</option>)}
+              </select>
+            </label>
+            {s.mask === 'rounded' && (
+              <label className="text-xs text-gray-600">Corner
+                <input className="w-full border rounded px-2 py-1 text-sm" type="number" value={s.maskRadius ?? DEFAULT_MASK_RADIUS} onChange={(e) => updateShape(s.id, { maskRadius: clamp(toNum(e.target.value, DEFAULT_MASK_RADIUS), 0, 1000) })} />
+              </label>
+            )}
+          </div>
+          {IMAGE_ADJUSTMENTS.map(({ field, label, min, max, step, neutral }) => (
+            <label key={field} className="flex items-center justify-between gap-2 text-xs text-gray-600">{label}
+              <input className="w-32" type="range" min={min} max={max} step={step} value={s[field] ?? neutral} onChange={(e) => updateShape(s.id, { [field]: Number(e.target.value) === neutral ? undefined : Number(e.target.value) })} />
+            </label>
+          ))}
+          <label className="flex items-center gap-2 text-xs text-gray-600">
+            <input type="checkbox" checked={!!s.grayscale} onChange={(e) => updateShape(s.id, { grayscale: e.target.checked || undefined })} /> Grayscale
+          </label>
         </div>
       )
     })()
@@ -581,269 +1698,386 @@ export default function SingleSlideEditorMVP() {
   }
 
   // ---------- Shape nodes ----------
-  const SlideBackground = () => (
-    <Rect x={0} y={0} width={SLIDE_W} height={SLIDE_H} fill="#ffffff" stroke="#e5e7eb" strokeWidth={2} cornerRadius={16} listening={false} />
-  ) 
- 
-function useHtmlImage(src: string) {
-  const [img, setImg] = useState<HTMLImageElement | null>(null);
-  useEffect(() => {
-    let cancelled = false;
-    const image = new Image();
-    image.crossOrigin = 'anonymous';
-    image.onload = () => { if (!cancelled) setImg(image); };
-    image.onerror = () => { if (!cancelled) setImg(null); };
-    image.src = src;
-    return () => { cancelled = true; };
-  }, [src]);
-  return img;
-}
-
-type ImageNodeProps = {
-  s: ImageShape;
-  isPanMode: boolean;
-  isSelected: boolean;
-  trRef: React.RefObject<Konva.Transformer | null>;
-  snap: (n: number) => number;
-  setSelectedId: (id: string) => void;
-  updateShape: (id: string, partial: Partial<Shape>) => void;
-};
-
-const ImageNode: React.FC<ImageNodeProps> = ({
-  s, isPanMode, isSelected, trRef, snap, setSelectedId, updateShape,
-}) => {
-  const img = useHtmlImage(s.src);
-
-  return (
-    <>
-      <KonvaImage
-        id={s.id}
-        x={s.x}
-        y={s.y}
-        width={s.width}
-        height={s.height}
-        rotation={s.rotation}
-        draggable={!isPanMode && !s.locked}
-        listening={!s.locked}
-        image={img ?? undefined}
-        onClick={() => setSelectedId(s.id)}
-        onTap={() => setSelectedId(s.id)}
-        onDragEnd={(e) =>
-          updateShape(s.id, { x: snap(e.target.x()), y: snap(e.target.y()) })
-        }
-        onTransformEnd={(e) => {
-          const node = e.target as Konva.Image;
-          const scaleX = node.scaleX();
-          const scaleY = node.scaleY();
-          node.scaleX(1);
-          node.scaleY(1);
-          updateShape(s.id, {
-            x: snap(node.x()),
-            y: snap(node.y()),
-            rotation: node.rotation(),
-            width: Math.max(10, s.width * scaleX),
-            height: Math.max(10, s.height * scaleY),
-          });
-        }}
-      />
-      {isSelected && (
-        <Transformer
-          ref={trRef}
-          rotateEnabled
-          enabledAnchors={['top-left', 'top-right', 'bottom-left', 'bottom-right']}
-        />
-      )}
-    </>
-  );
-};
+  const renderSlideBackground = () => (
+    <Rect x={0} y={0} width={size.width} height={size.height} fill={currentSlide.background} stroke="#e5e7eb" strokeWidth={2} cornerRadius={16} listening={false} />
+  )
 
+  const onShapeSelect = (id: string, e: KonvaEventObject<Event>) => {
+    e.cancelBubble = true
+    const target = selectableTarget(id)
+    if (target.exitScope) setGroupScopeId(null)
+    selectShape(target.id, isAdditive(e) && !target.exitScope)
+  }
 
-  const ShapeNode: React.FC<{ s: Shape }> = ({ s }) => {
-    const isSelected = selectedId === s.id
+  // `level` is true only for shapes at the selectable level (the entered group's children, or the
+  // top level); everything else renders but leaves dragging to the ancestor at that level.
+  const renderShape = (s: Shape, level: boolean): JSX.Element | null => {
     if (s.hidden) return null
+    const canDrag = level && !isPanMode && !s.locked
+
+    if (s.kind === 'group') {
+      return (
+        <Group
+          key={s.id}
+          id={s.id}
+          x={s.x}
+          y={s.y}
+          rotation={s.rotation}
+          {...blendProps(s)}
+          draggable={canDrag}
+          listening={!s.locked}
+          onDragEnd={(e) => onShapeDragEnd(s.id, e)}
+          onDblClick={(e) => { if (!level) return; e.cancelBubble = true; enterGroup(s.id, e.target.id()) }}
+          onDblTap={(e) => { if (!level) return; e.cancelBubble = true; enterGroup(s.id, e.target.id()) }}
+        >
+          {s.children.map((c) => renderShape(c, scope?.id === s.id))}
+        </Group>
+      )
+    }
 
     if (s.kind === 'rect') {
       return (
-        <>
-          <Rect
-            id={s.id}
-            x={s.x}
-            y={s.y}
-            width={s.width}
-            height={s.height}
-            cornerRadius={s.cornerRadius ?? 0}
-            fill={s.fill}
-            stroke={s.stroke}
-            strokeWidth={s.strokeWidth}
-            rotation={s.rotation}
-            draggable={!isPanMode && !s.locked}
-            listening={!s.locked}
-            onClick={() => setSelectedId(s.id)}
-            onTap={() => setSelectedId(s.id)}
-            onDragEnd={(e) => updateShape(s.id, { x: snap(e.target.x()), y: snap(e.target.y()) })}
-            onTransformEnd={(e) => {
-              const node = e.target as Konva.Rect
-              const scaleX = node.scaleX(); const scaleY = node.scaleY(); node.scaleX(1); node.scaleY(1)
-              const next = { x: snap(node.x()), y: snap(node.y()), rotation: node.rotation(), width: Math.max(10, s.width * scaleX), height: Math.max(10, s.height * scaleY) }
-              updateShape(s.id, next)
-            }}
-          />
-          {isSelected && <Transformer ref={trRef} rotateEnabled={true} enabledAnchors={[ 'top-left','top-right','bottom-left','bottom-right' ]} />}
-        </>
+        <Rect
+          key={s.id}
+          id={s.id}
+          x={s.x}
+          y={s.y}
+          width={s.width}
+          height={s.height}
+          cornerRadius={s.cornerRadius ?? 0}
+          fill={s.fill}
+          stroke={s.stroke}
+          strokeWidth={s.strokeWidth}
+          rotation={s.rotation}
+          {...styleProps(s)}
+          draggable={canDrag}
+          listening={!s.locked}
+          onClick={(e) => onShapeSelect(s.id, e)}
+          onTap={(e) => onShapeSelect(s.id, e)}
+          onDragEnd={(e) => onShapeDragEnd(s.id, e)}
+        />
       )
     }
 
     if (s.kind === 'circle') {
       return (
-        <>
-          <Circle
-            id={s.id}
-            x={s.x}
-            y={s.y}
-            radius={s.radius}
-            fill={s.fill}
-            stroke={s.stroke}
-            strokeWidth={s.strokeWidth}
-            rotation={s.rotation}
-            draggable={!isPanMode && !s.locked}
-            listening={!s.locked}
-            onClick={() => setSelectedId(s.id)}
-            onTap={() => setSelectedId(s.id)}
-            onDragEnd={(e) => updateShape(s.id, { x: snap(e.target.x()), y: snap(e.target.y()) })}
-            onTransformEnd={(e) => {
-              const node = e.target as Konva.Circle
-              const scaleX = node.scaleX(); node.scaleX(1); node.scaleY(1)
-              const nextRadius = Math.max(5, s.radius * scaleX)
-              updateShape(s.id, { x: snap(node.x()), y: snap(node.y()), rotation: node.rotation(), radius: nextRadius })
-            }}
-          />
-          {isSelected && <Transformer ref={trRef} rotateEnabled={true} enabledAnchors={[ 'top-left','top-right','bottom-left','bottom-right' ]} />}
-        </>
+        <Circle
+          key={s.id}
+          id={s.id}
+          x={s.x}
+          y={s.y}
+          radius={s.radius}
+          fill={s.fill}
+          stroke={s.stroke}
+          strokeWidth={s.strokeWidth}
+          rotation={s.rotation}
+          {...styleProps(s)}
+          draggable={canDrag}
+          listening={!s.locked}
+          onClick={(e) => onShapeSelect(s.id, e)}
+          onTap={(e) => onShapeSelect(s.id, e)}
+          onDragEnd={(e) => onShapeDragEnd(s.id, e)}
+        />
+      )
+    }
+
+    if (isStroke(s)) {
+      // A connector bound at both ends has nothing free to move.
+      const pinned = s.kind === 'connector' && !!s.start.shapeId && !!s.end.shapeId
+      return (
+        <LinePath
+          key={s.id}
+          id={s.id}
+          s={s}
+          resolve={liveAnchor}
+          adjust={adjustEndpoint}
+          draggable={canDrag && !pinned}
+          listening={!s.locked}
+          onClick={(e) => onShapeSelect(s.id, e)}
+          onTap={(e) => onShapeSelect(s.id, e)}
+          onDragEnd={(e) => onShapeDragEnd(s.id, e)}
+        />
       )
     }
 
     if (s.kind === 'text') {
       return (
-        <>
-          <KonvaText
-            id={s.id}
-            x={s.x}
-            y={s.y}
-            text={s.text}
-            fontSize={s.fontSize}
-            fill={s.fill}
-            width={s.width ?? undefined}
-            draggable={!isPanMode && !s.locked}
-            listening={!s.locked}
-            onDblClick={() => { const next = prompt('Edit text', s.text); if (next != null) updateShape(s.id, { text: next }) }}
-            onDblTap={() => { const next = prompt('Edit text', s.text); if (next != null) updateShape(s.id, { text: next }) }}
-            onClick={() => setSelectedId(s.id)}
-            onTap={() => setSelectedId(s.id)}
-            onDragEnd={(e) => updateShape(s.id, { x: snap(e.target.x()), y: snap(e.target.y()) })}
-            onTransformEnd={(e) => {
-              const node = e.target as Konva.Text
-              const scaleX = node.scaleX(); node.scaleX(1); node.scaleY(1)
-              updateShape(s.id, { x: snap(node.x()), y: snap(node.y()), rotation: node.rotation(), width: Math.max(50, (s.width ?? 300) * scaleX) })
-            }}
-          />
-          {isSelected && <Transformer ref={trRef} rotateEnabled={true} enabledAnchors={[ 'middle-left','middle-right' ]} />}
-        </>
+        <RichText
+          key={s.id}
+          id={s.id}
+          s={s.placeholder && !s.text ? placeholderPrompt(s, deck) : s}
+          visible={editingTextId !== s.id}
+          draggable={canDrag}
+          listening={!s.locked}
+          onDblClick={() => { if (level) startTextEdit(s.id) }}
+          onDblTap={() => { if (level) startTextEdit(s.id) }}
+          onClick={(e) => onShapeSelect(s.id, e)}
+          onTap={(e) => onShapeSelect(s.id, e)}
+          onDragEnd={(e) => onShapeDragEnd(s.id, e)}
+        />
       )
     }
 
     // image 
     return (
     <ImageNode
+        key={s.id}
         s={s} 
-        isPanMode={isPanMode}
-        isSelected={isSelected}
-        trRef={trRef}
-        snap={snap}
-        setSelectedId={setSelectedId}
-        updateShape={updateShape}
+        isPanMode={isPanMode || !level}
+        onSelect={onShapeSelect}
+        onDragEnd={onShapeDragEnd}
+        onCrop={(id) => { if (level) startCrop(id) }}
     />
     );
   }
 
+  // ---------- Layers tree ----------
+  // Locking or hiding a group covers its whole subtree, so descendants inherit the ancestor's flags.
+  const renderLayerRow = (s: Shape, depth: number, inheritedLocked: boolean): JSX.Element => {
+    const locked = inheritedLocked || !!s.locked
+    const expanded = expandedGroups.includes(s.id)
+    const toggleExpanded = () => setExpandedGroups((g) => (g.includes(s.id) ? g.filter((x) => x !== s.id) : [...g, s.id]))
+    return (
+      <li key={s.id}>
+        <div className={`flex items-center justify-between gap-2 text-sm px-2 py-1 rounded cursor-pointer ${selectedIds.includes(s.id) ? 'bg-gray-100' : 'hover:bg-gray-50'} ${inheritedLocked ? 'text-gray-400' : ''}`} style={{ paddingLeft: 8 + depth * 12 }} onClick={(e) => !locked && selectFromLayers(s.id, e.shiftKey || e.ctrlKey || e.metaKey)}>
+          <div className="truncate flex items-center gap-1">
+            {s.kind === 'group' && (
+              <button className="text-xs w-3" title={expanded ? 'Collapse' : 'Expand'} onClick={(e) => { e.stopPropagation(); toggleExpanded() }}>{expanded ? '▾' : '▸'}</button>
+            )}
+            {s.name ?? s.kind} <span className="text-xs text-gray-400">({s.kind})</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <button className="border rounded px-1 text-xs" title="Front" onClick={(e) => { e.stopPropagation(); bringToFront([s.id]) }}>⤴</button>
+            <button className="border rounded px-1 text-xs" title="Back" onClick={(e) => { e.stopPropagation(); sendToBack([s.id]) }}>⤵</button>
+            <button className="border rounded px-1 text-xs" title="Up" onClick={(e) => { e.stopPropagation(); bringForward([s.id]) }}>↑</button>
+            <button className="border rounded px-1 text-xs" title="Down" onClick={(e) => { e.stopPropagation(); sendBackward([s.id]) }}>↓</button>
+            <button className={`border rounded px-1 text-xs ${s.locked ? 'bg-gray-900 text-white' : ''}`} title="Lock" onClick={(e) => { e.stopPropagation(); updateShape(s.id, { locked: !s.locked }) }}>🔒</button>
+            <button className={`border rounded px-1 text-xs ${s.hidden ? 'bg-gray-900 text-white' : ''}`} title="Hide" onClick={(e) => { e.stopPropagation(); updateShape(s.id, { hidden: !s.hidden }) }}>{s.hidden ? '🙈' : '👁'}</button>
+          </div>
+        </div>
+        {s.kind === 'group' && expanded && (
+          <ol className="space-y-1 mt-1">
+            {s.children.map((c) => renderLayerRow(c, depth + 1, locked))}
+          </ol>
+        )}
+      </li>
+    )
+  }
+
   // ---------- Render ----------
   return (
     <div className="h-screen w-full flex flex-col bg-gray-50">
-      <Toolbar />
-
-      <div className="flex-1 grid grid-cols-1 md:grid-cols-[1fr_320px]">
-        {/* Canvas container */}
-        <div ref={container.ref} className="relative overflow-hidden">
-          {/* Gray pattern backdrop */}
-          <div className="absolute inset-0 bg-[radial-gradient(circle_at_1px_1px,rgba(0,0,0,0.08)_1px,transparent_0)] [background-size:12px_12px]" />
-
-          <Stage
-            ref={stageRef}
-            width={container.size.width}
-            height={container.size.height}
-            onMouseDown={onStageMouseDown}
-            onMouseUp={onStageMouseUp}
-            onTouchStart={(e) => {
-              onStageMouseDown(e as KonvaEventObject<TouchEvent>)
-              const t = e.evt as TouchEvent
-              if (t.touches.length === 1) {
-                const touch = t.touches[0]
-                lastTouchRef.current = { x: touch.clientX, y: touch.clientY }
-              }
-            }}
-            onTouchEnd={() => { lastTouchRef.current = null; onStageMouseUp() }}
-            onWheel={onWheel}
-            onMouseMove={onStageDragMove}
-            onTouchMove={(e) => {
-              if (!isPanMode) return
-              const t = e.evt as TouchEvent
-              if (t.touches.length === 1) {
-                const touch = t.touches[0]
-                const last = lastTouchRef.current
-                if (last) {
-                  setOffset((p) => ({ x: p.x + 0.6 * (touch.clientX - last.x), y: p.y + 0.6 * (touch.clientY - last.y) }))
-                }
-                lastTouchRef.current = { x: touch.clientX, y: touch.clientY }
-              }
-            }}
+      {renderToolbar()}
+
+      <div className="flex-1 min-h-0 grid grid-cols-1 md:grid-cols-[auto_1fr_320px]">
+        {/* Slide sorter */}
+        <SlideSorter
+          slides={deck.slides}
+          size={size}
+          currentId={currentSlide.id}
+          onSelect={selectSlide}
+          layouts={deckMasters(deck).flatMap((m) => m.layouts)}
+          onAdd={addSlide}
+          onDuplicate={duplicateSlideById}
+          onDelete={deleteSlide}
+          onMove={moveSlide}
+        />
+
+        <div className="flex flex-col min-h-0">
+          {/* Canvas container */}
+          <div
+            ref={container.ref}
+            className="relative overflow-hidden flex-1 min-h-0"
+            onDragEnter={onCanvasDragOver}
+            onDragOver={onCanvasDragOver}
+            onDragLeave={onCanvasDragLeave}
+            onDrop={onCanvasDrop}
           >
-            <Layer x={offset.x} y={offset.y} scaleX={scale} scaleY={scale} onClick={deselect} onTap={deselect}>
-              <SlideBackground />
-              <GridLayer />
-              {shapes.map((s) => (
-                <ShapeNode key={s.id} s={s} />
-              ))}
-            </Layer>
-          </Stage>
+            {/* Gray pattern backdrop */}
+            <div className="absolute inset-0 bg-[radial-gradient(circle_at_1px_1px,rgba(0,0,0,0.08)_1px,transparent_0)] [background-size:12px_12px]" />
+
+            <Stage
+              ref={stageRef}
+              width={container.size.width}
+              height={container.size.height}
+              onMouseDown={onStageMouseDown}
+              onMouseUp={onStageMouseUp}
+              onTouchStart={(e) => {
+                onStageMouseDown(e as KonvaEventObject<TouchEvent>)
+                const t = e.evt as TouchEvent
+                if (t.touches.length === 1) {
+                  const touch = t.touches[0]
+                  lastTouchRef.current = { x: touch.clientX, y: touch.clientY }
+                }
+              }}
+              onTouchEnd={(e) => { lastTouchRef.current = null; onStageMouseUp(e) }}
+              onWheel={onWheel}
+              onMouseMove={(e) => { onStageDragMove(e); trackPointer() }}
+              onMouseLeave={() => updatePresence({ cursor: null })}
+              onTouchMove={(e) => {
+                if (!isPanMode) { onStageDragMove(e); return }
+                const t = e.evt as TouchEvent
+                if (t.touches.length === 1) {
+                  const touch = t.touches[0]
+                  const last = lastTouchRef.current
+                  if (last) {
+                    setOffset((p) => ({ x: p.x + 0.6 * (touch.clientX - last.x), y: p.y + 0.6 * (touch.clientY - last.y) }))
+                  }
+                  lastTouchRef.current = { x: touch.clientX, y: touch.clientY }
+                }
+              }}
+            >
+              <Layer
+                ref={editLayerRef}
+                x={offset.x}
+                y={offset.y}
+                scaleX={scale}
+                scaleY={scale}
+                visible={!previewing}
+                onClick={deselect}
+                onTap={deselect}
+                onDragStart={onShapeDragStart}
+                onDragMove={onShapeDragMove}
+              >
+                {renderSlideBackground()}
+                {gridLines}
+                {shapes.map((s) => renderShape(s, !scope))}
+                <Transformer ref={trRef} rotateEnabled={true} enabledAnchors={transformerAnchors} anchorDragBoundFunc={onAnchorDragBound} onTransformEnd={onTransformEnd} />
+                {cropping && (() => {
+                  const full = uncroppedBox(cropping)
+                  return (
+                    <Group {...cropPlacement(cropping.id)}>
+                      <KonvaImage {...full} image={cropImage ?? undefined} opacity={0.35} listening={false} />
+                      <Group ref={cropClipRef} clip={{ x: 0, y: 0, width: cropping.width, height: cropping.height }} listening={false}>
+                        <KonvaImage {...full} image={cropImage ?? undefined} />
+                      </Group>
+                      <Rect
+                        ref={cropRectRef}
+                        width={cropping.width}
+                        height={cropping.height}
+                        stroke="#3b82f6"
+                        strokeWidth={2 / scale}
+                        draggable
+                        onDragMove={(e) => previewCrop(e.target)}
+                        onDragEnd={(e) => { e.cancelBubble = true; commitCrop(cropping, e.target) }}
+                        onDblClick={() => setCropId(null)}
+                        onDblTap={() => setCropId(null)}
+                      />
+                      <Transformer
+                        ref={cropTrRef}
+                        rotateEnabled={false}
+                        flipEnabled={false}
+                        keepRatio={false}
+                        ignoreStroke
+                        boundBoxFunc={(oldBox, box) => (box.width < 10 || box.height < 10 ? oldBox : box)}
+                        onTransform={() => { if (cropRectRef.current) previewCrop(cropRectRef.current) }}
+                        onTransformEnd={() => { if (cropRectRef.current) commitCrop(cropping, cropRectRef.current) }}
+                      />
+                    </Group>
+                  )
+                })()}
+                <Group ref={anchorDotsRef} visible={false} listening={false}>
+                  {anchorDots.map(({ key, point }) => point && (
+                    <Circle key={key} x={point.x} y={point.y} radius={5 / scale} fill="#3b82f6" opacity={0.6} />
+                  ))}
+                </Group>
+                {strokeEdit && endpoints && (['start', 'end'] as const).map((which) => (
+                  <Circle
+                    key={`${strokeEdit.id}-${which}`}
+                    x={endpoints[which].x}
+                    y={endpoints[which].y}
+                    radius={7 / scale}
+                    fill="#ffffff"
+                    stroke="#3b82f6"
+                    strokeWidth={2 / scale}
+                    draggable
+                    onDragStart={() => onEndpointDragStart(strokeEdit)}
+                    onDragMove={(e) => onEndpointDragMove(strokeEdit, which, e)}
+                    onDragEnd={(e) => onEndpointDragEnd(strokeEdit, which, e)}
+                  />
+                ))}
+              </Layer>
+              {previewing && (
+                <Layer x={offset.x} y={offset.y} scaleX={scale} scaleY={scale} listening={false}>
+                  <Group clipX={0} clipY={0} clipWidth={size.width} clipHeight={size.height}>
+                    <AnimatedSlide slide={currentSlide} size={size} builds="before" groupRef={previewRef} />
+                  </Group>
+                </Layer>
+              )}
+              <Layer ref={guideLayerRef} x={offset.x} y={offset.y} scaleX={scale} scaleY={scale} listening={false} />
+              <Layer ref={presenceLayerRef} x={offset.x} y={offset.y} scaleX={scale} scaleY={scale} listening={false} />
+              <Layer listening={false}>
+                {marquee && (
+                  <Rect {...marqueeRect(marquee)} fill="rgba(59,130,246,0.08)" stroke="#3b82f6" strokeWidth={1} dash={[4, 4]} />
+                )}
+              </Layer>
+            </Stage>
+
+            {editingText?.kind === 'text' && (
+              <RichTextEditor
+                key={editingText.id}
+                s={editingText}
+                placement={textEditPlacement(editingText.id)}
+                onCommit={(runs) => commitTextEdit(editingText.id, runs)}
+                onCancel={() => setEditingTextId(null)}
+              />
+            )}
+
+            {dropActive && (
+              <div className="absolute inset-2 pointer-events-none rounded-xl border-4 border-dashed border-blue-500 bg-blue-500/10 flex items-center justify-center">
+                <div className="rounded-lg bg-white px-3 py-1.5 text-sm shadow">Drop images or text files to add them here</div>
+              </div>
+            )}
+            {dropProgress.length > 0 && (
+              <div className="absolute bottom-3 left-3 w-64 rounded-lg border bg-white p-2 shadow space-y-1.5 text-xs">
+                {dropProgress.map((f, i) => (
+                  <div key={i}>
+                    <div className="truncate">{f.name}</div>
+                    <div className="h-1.5 rounded bg-gray-100">
+                      <div className="h-1.5 rounded bg-blue-500" style={{ width: `${f.total ? (100 * f.loaded) / f.total : 100}%` }} />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Speaker notes */}
+          <textarea
+            className="h-24 shrink-0 border-t bg-white p-2 text-sm resize-none outline-none"
+            placeholder="Speaker notes"
+            value={currentSlide.notes ?? ''}
+            onChange={(e) => setSlideNotes(e.target.value)}
+          />
         </div>
 
         {/* Inspector */}
         <aside className={`border-l bg-white/90 backdrop-blur p-3 ${showInspector ? 'block' : 'hidden md:block'}`}>
           <div className="font-medium text-sm mb-2">Inspector</div>
-          <SelectedInspector />
+          {renderInspector()}
 
           <div className="mt-6">
             <div className="font-medium text-sm mb-2">Layers</div>
             <ol className="space-y-1 max-h-64 overflow-auto pr-1">
-              {shapes.map((s) => (
-                <li key={s.id} className={`flex items-center justify-between gap-2 text-sm px-2 py-1 rounded cursor-pointer ${selectedId === s.id ? 'bg-gray-100' : 'hover:bg-gray-50'}`} onClick={() => !s.locked && setSelectedId(s.id)}>
-                  <div className="truncate">{s.name ?? s.kind} <span className="text-xs text-gray-400">({s.kind})</span></div>
-                  <div className="flex items-center gap-1">
-                    <button className="border rounded px-1 text-xs" title="Front" onClick={(e) => { e.stopPropagation(); bringToFront(s.id) }}>⤴</button>
-                    <button className="border rounded px-1 text-xs" title="Back" onClick={(e) => { e.stopPropagation(); sendToBack(s.id) }}>⤵</button>
-                    <button className="border rounded px-1 text-xs" title="Up" onClick={(e) => { e.stopPropagation(); bringForward(s.id) }}>↑</button>
-                    <button className="border rounded px-1 text-xs" title="Down" onClick={(e) => { e.stopPropagation(); sendBackward(s.id) }}>↓</button>
-                    <button className={`border rounded px-1 text-xs ${s.locked ? 'bg-gray-900 text-white' : ''}`} title="Lock" onClick={(e) => { e.stopPropagation(); updateShape(s.id, { locked: !s.locked }) }}>🔒</button>
-                    <button className={`border rounded px-1 text-xs ${s.hidden ? 'bg-gray-900 text-white' : ''}`} title="Hide" onClick={(e) => { e.stopPropagation(); updateShape(s.id, { hidden: !s.hidden }) }}>{s.hidden ? '🙈' : '👁'}</button>
-                  </div>
-                </li>
-              ))}
+              {shapes.map((s) => renderLayerRow(s, 0, false))}
             </ol>
           </div>
+
+          <div className="mt-6">
+            <div className="font-medium text-sm mb-2">History</div>
+            <HistoryPanel history={history} onJump={goToStep} />
+          </div>
         </aside>
       </div>
 
+      {showVersions && (
+        <VersionsPanel store={versionStore} current={deck} onRestore={restoreVersion} onFork={forkVersion} onClose={() => setShowVersions(false)} />
+      )}
+      {docError && <DocumentErrorReport error={docError} onDismiss={() => setDocError(null)} />}
+      {presentFrom !== null && <Presenter deck={deck} startIndex={presentFrom} onExit={stopPresenting} />}
+
       {/* Footer */}
-      <div className="p-2 text-center text-xs text-gray-500 border-t bg-white/80">Single‑Slide Editor · Next.js + TS + react‑konva</div>
+      <div className="p-2 text-center text-xs text-gray-500 border-t bg-white/80">Slide Deck Editor · Next.js + TS + react‑konva</div>
     </div>
   )
 }
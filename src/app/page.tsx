@@ -1,103 +1,209 @@
-import Image from "next/image";
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { slideSize, type Deck } from '@/lib/deck'
+import type { DeckMeta } from '@/lib/deckStorage'
+import { LS_KEY, loadDeck } from '@/lib/document'
+import { createServerDeck, deleteServerDeck, duplicateServerDeck, listServerDecks, renameServerDeck } from '@/lib/deckSync'
+import { DECK_TEMPLATES, type DeckTemplate } from '@/lib/templates'
+import { SlideView } from '@/components/SlideView'
+
+// ---------- Helpers ----------
+
+const CARD_W = 240
+
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 365 * 24 * 3600e3], ['month', 30 * 24 * 3600e3], ['week', 7 * 24 * 3600e3],
+  ['day', 24 * 3600e3], ['hour', 3600e3], ['minute', 60e3],
+]
+
+// "5 minutes ago", "yesterday" and so on; "just now" under a minute.
+function editedAgo(time: number, now: number): string {
+  const elapsed = now - time
+  const format = new Intl.RelativeTimeFormat(undefined, { numeric: 'auto' })
+  for (const [unit, ms] of RELATIVE_UNITS) if (elapsed >= ms) return format.format(-Math.floor(elapsed / ms), unit)
+  return 'just now'
+}
+
+// ---------- Page ----------
+// The user's decks stored on the server, newest first, plus the one kept in this browser, and a
+// gallery of starter decks. Opening a deck goes to the editor with ?deck=.
 
 export default function Home() {
+  const router = useRouter()
+  const [decks, setDecks] = useState<DeckMeta[] | null>(null)
+  const [localDeck, setLocalDeck] = useState<Deck | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [now, setNow] = useState(() => Date.now())
+
+  const refresh = useCallback(() => {
+    listServerDecks().then(setDecks, (err: Error) => { setDecks([]); setError(err.message) })
+    setNow(Date.now())
+  }, [])
+  useEffect(() => {
+    refresh()
+    if (localStorage.getItem(LS_KEY)) setLocalDeck(loadDeck().deck)
+  }, [refresh])
+
+  // Runs a request, showing its error instead of throwing.
+  const attempt = async <T,>(task: () => Promise<T>): Promise<T | null> => {
+    setBusy(true)
+    setError(null)
+    try {
+      return await task()
+    } catch (err) {
+      setError((err as Error).message)
+      return null
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const open = (id: string) => router.push(`/build?deck=${id}`)
+
+  const createFrom = async (template: DeckTemplate) => {
+    const meta = await attempt(() => createServerDeck(template.build()))
+    if (meta) open(meta.id)
+  }
+  const rename = async (meta: DeckMeta, title: string) => {
+    const renamed = await attempt(() => renameServerDeck(meta.id, title))
+    if (renamed) setDecks((list) => list?.map((d) => (d.id === renamed.id ? renamed : d)) ?? null)
+  }
+  const duplicate = async (meta: DeckMeta) => {
+    if (await attempt(() => duplicateServerDeck(meta, `${meta.title} copy`))) refresh()
+  }
+  const remove = async (meta: DeckMeta) => {
+    if ((await attempt(() => deleteServerDeck(meta.id))) !== null) setDecks((list) => list?.filter((d) => d.id !== meta.id) ?? null)
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-50 p-6 md:p-10 space-y-10">
+      <header className="flex items-center gap-3">
+        <h1 className="text-2xl font-semibold">Decks</h1>
+        <button className="ml-auto px-3 py-1.5 rounded-xl border text-sm bg-gray-900 text-white" disabled={busy} onClick={() => createFrom(DECK_TEMPLATES[0])}>New deck</button>
+      </header>
+      {error && (
+        <div className="flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+          <button className="ml-auto text-xs underline" onClick={() => setError(null)}>Dismiss</button>
+        </div>
+      )}
+
+      <section className="space-y-3">
+        <h2 className="text-sm font-medium text-gray-600">New from template</h2>
+        <ul className="flex gap-4 overflow-x-auto pb-2">
+          {DECK_TEMPLATES.map((t) => <TemplateCard key={t.id} template={t} disabled={busy} onPick={() => createFrom(t)} />)}
+        </ul>
+      </section>
+
+      <section className="space-y-3">
+        <h2 className="text-sm font-medium text-gray-600">Your decks</h2>
+        {decks === null ? (
+          <div className="text-sm text-gray-500">Loading…</div>
+        ) : (
+          <ul className="grid gap-4" style={{ gridTemplateColumns: `repeat(auto-fill, minmax(${CARD_W}px, 1fr))` }}>
+            {localDeck && (
+              <li className="rounded-xl border bg-white p-2 space-y-2">
+                <Link href="/build" className="block border rounded overflow-hidden">
+                  <SlideView slide={localDeck.slides[0]} size={slideSize(localDeck)} width={CARD_W} />
+                </Link>
+                <div className="text-sm font-medium">On this device</div>
+                <div className="text-xs text-gray-500">Kept in this browser · {localDeck.slides.length} slide{localDeck.slides.length === 1 ? '' : 's'}</div>
+              </li>
+            )}
+            {decks.map((d) => (
+              <DeckCard key={d.id} meta={d} now={now} disabled={busy} onRename={(title) => rename(d, title)} onDuplicate={() => duplicate(d)} onDelete={() => remove(d)} />
+            ))}
+            {decks.length === 0 && !localDeck && <li className="text-sm text-gray-500">No decks yet. Start one from a template above.</li>}
+          </ul>
+        )}
+      </section>
+    </main>
+  )
+}
+
+// ---------- Cards ----------
+
+type TemplateCardProps = {
+  template: DeckTemplate
+  disabled: boolean
+  onPick: () => void
+}
+
+const TemplateCard: React.FC<TemplateCardProps> = ({ template, disabled, onPick }) => {
+  // Built once for the preview; picking the template builds a fresh copy with its own ids.
+  const [preview] = useState(() => template.build())
   return (
-    <div className="font-sans grid grid-rows-[20px_1fr_20px] items-center justify-items-center min-h-screen p-8 pb-20 gap-16 sm:p-20">
-      <main className="flex flex-col gap-[32px] row-start-2 items-center sm:items-start">
-        <Image
-          className="dark:invert"
-          src="/next.svg"
-          alt="Next.js logo"
-          width={180}
-          height={38}
-          priority
+    <li className="shrink-0" style={{ width: CARD_W }}>
+      <button className="w-full text-left rounded-xl border bg-white p-2 space-y-1 hover:ring-2 hover:ring-gray-900 disabled:opacity-50" disabled={disabled} onClick={onPick}>
+        <div className="border rounded overflow-hidden pointer-events-none">
+          <SlideView slide={preview.slides[0]} size={slideSize(preview)} width={CARD_W - 18} />
+        </div>
+        <div className="text-sm font-medium">{template.name}</div>
+        <div className="text-xs text-gray-500">{template.description}</div>
+      </button>
+    </li>
+  )
+}
+
+type DeckCardProps = {
+  meta: DeckMeta
+  now: number
+  disabled: boolean
+  onRename: (title: string) => void
+  onDuplicate: () => void
+  onDelete: () => void
+}
+
+const DeckCard: React.FC<DeckCardProps> = ({ meta, now, disabled, onRename, onDuplicate, onDelete }) => {
+  const [title, setTitle] = useState<string | null>(null)
+  const [confirming, setConfirming] = useState(false)
+  const href = `/build?deck=${meta.id}`
+
+  const finishRename = () => {
+    const next = title?.trim()
+    setTitle(null)
+    if (next && next !== meta.title) onRename(next)
+  }
+
+  return (
+    <li className="rounded-xl border bg-white p-2 space-y-2">
+      <Link href={href} className="block border rounded overflow-hidden bg-gray-100 aspect-video">
+        {/* eslint-disable-next-line @next/next/no-img-element -- a data URL, nothing to optimise */}
+        {meta.thumbnail && <img src={meta.thumbnail} alt="" className="w-full h-full object-contain" />}
+      </Link>
+      {title !== null ? (
+        <input
+          className="w-full border rounded px-2 py-1 text-sm"
+          autoFocus
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onBlur={finishRename}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') finishRename()
+            if (e.key === 'Escape') setTitle(null)
+          }}
         />
-        <ol className="font-mono list-inside list-decimal text-sm/6 text-center sm:text-left">
-          <li className="mb-2 tracking-[-.01em]">
-            Get started by editing{" "}
-            <code className="bg-black/[.05] dark:bg-white/[.06] font-mono font-semibold px-1 py-0.5 rounded">
-              src/app/page.tsx
-            </code>
-            .
-          </li>
-          <li className="tracking-[-.01em]">
-            Save and see your changes instantly.
-          </li>
-        </ol>
-
-        <div className="flex gap-4 items-center flex-col sm:flex-row">
-          <a
-            className="rounded-full border border-solid border-transparent transition-colors flex items-center justify-center bg-foreground text-background gap-2 hover:bg-[#383838] dark:hover:bg-[#ccc] font-medium text-sm sm:text-base h-10 sm:h-12 px-4 sm:px-5 sm:w-auto"
-            href="https://vercel.com/new?utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-            target="_blank"
-            rel="noopener noreferrer"
-          >
-            <Image
-              className="dark:invert"
-              src="/vercel.svg"
-              alt="Vercel logomark"
-              width={20}
-              height={20}
-            />
-            Deploy now
-          </a>
-          <a
-            className="rounded-full border border-solid border-black/[.08] dark:border-white/[.145] transition-colors flex items-center justify-center hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] hover:border-transparent font-medium text-sm sm:text-base h-10 sm:h-12 px-4 sm:px-5 w-full sm:w-auto md:w-[158px]"
-            href="https://nextjs.org/docs?utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-            target="_blank"
-            rel="noopener noreferrer"
-          >
-            Read our docs
-          </a>
+      ) : (
+        <Link href={href} className="block text-sm font-medium truncate hover:underline">{meta.title}</Link>
+      )}
+      <div className="text-xs text-gray-500" title={new Date(meta.updatedAt).toLocaleString()}>Edited {editedAgo(meta.updatedAt, now)}</div>
+      {confirming ? (
+        <div className="flex items-center gap-1 text-xs">
+          <span className="text-red-700">Delete for good?</span>
+          <button className="ml-auto border rounded px-2 py-0.5 bg-red-600 text-white" disabled={disabled} onClick={() => { setConfirming(false); onDelete() }}>Delete</button>
+          <button className="border rounded px-2 py-0.5" onClick={() => setConfirming(false)}>Cancel</button>
+        </div>
+      ) : (
+        <div className="flex gap-1">
+          <button className="border rounded px-2 py-0.5 text-xs" disabled={disabled} onClick={() => setTitle(meta.title)}>Rename</button>
+          <button className="border rounded px-2 py-0.5 text-xs" disabled={disabled} onClick={onDuplicate}>Duplicate</button>
+          <button className="border rounded px-2 py-0.5 text-xs ml-auto" disabled={disabled} onClick={() => setConfirming(true)}>Delete</button>
         </div>
-      </main>
-      <footer className="row-start-3 flex gap-[24px] flex-wrap items-center justify-center">
-        <a
-          className="flex items-center gap-2 hover:underline hover:underline-offset-4"
-          href="https://nextjs.org/learn?utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-          target="_blank"
-          rel="noopener noreferrer"
-        >
-          <Image
-            aria-hidden
-            src="/file.svg"
-            alt="File icon"
-            width={16}
-            height={16}
-          />
-          Learn
-        </a>
-        <a
-          className="flex items-center gap-2 hover:underline hover:underline-offset-4"
-          href="https://vercel.com/templates?framework=next.js&utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-          target="_blank"
-          rel="noopener noreferrer"
-        >
-          <Image
-            aria-hidden
-            src="/window.svg"
-            alt="Window icon"
-            width={16}
-            height={16}
-          />
-          Examples
-        </a>
-        <a
-          className="flex items-center gap-2 hover:underline hover:underline-offset-4"
-          href="https://nextjs.org?utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-          target="_blank"
-          rel="noopener noreferrer"
-        >
-          <Image
-            aria-hidden
-            src="/globe.svg"
-            alt="Globe icon"
-            width={16}
-            height={16}
-          />
-          Go to nextjs.org →
-        </a>
-      </footer>
-    </div>
-  );
+      )}
+    </li>
+  )
 }
@@ -0,0 +1,110 @@
+'use client'
+
+import React from 'react'
+import { findShape, moveItem, type BuildAnimation, type BuildEasing, type BuildEdge, type BuildEffect, type BuildTrigger, type Shape } from '@/lib/deck'
+import { BUILD_EASINGS, BUILD_EDGES, BUILD_EFFECTS, BUILD_TRIGGERS, createBuild, hasEdge, slideTimeline } from '@/lib/builds'
+
+const MAX_MS = 10000
+
+const toMs = (value: string, fallback: number) => {
+  const n = Number(value)
+  return Number.isFinite(n) ? Math.max(0, Math.min(MAX_MS, n)) : fallback
+}
+
+type BuildListProps = {
+  builds: BuildAnimation[]
+  onChange: (builds: BuildAnimation[]) => void
+}
+
+// Edits one shape's builds, in the order they play.
+export const BuildList: React.FC<BuildListProps> = ({ builds, onChange }) => {
+  const update = (i: number, patch: Partial<BuildAnimation>) => onChange(builds.map((b, j) => (j === i ? { ...b, ...patch } : b)))
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-600">Builds</span>
+        <div className="flex gap-1">
+          <button className="border rounded px-2 py-0.5 text-xs" onClick={() => onChange([...builds, createBuild('entrance')])}>+ In</button>
+          <button className="border rounded px-2 py-0.5 text-xs" onClick={() => onChange([...builds, createBuild('exit')])}>+ Out</button>
+        </div>
+      </div>
+      {builds.map((b, i) => (
+        <div key={i} className="rounded border p-2 space-y-1">
+          <div className="flex items-center justify-between text-xs">
+            <span className="font-medium">{i + 1}. {b.type === 'entrance' ? 'Build in' : 'Build out'}</span>
+            <div className="flex gap-1">
+              <button className="border rounded px-1" title="Earlier" disabled={i === 0} onClick={() => onChange(moveItem(builds, i, i - 1))}>↑</button>
+              <button className="border rounded px-1" title="Later" disabled={i === builds.length - 1} onClick={() => onChange(moveItem(builds, i, i + 1))}>↓</button>
+              <button className="border rounded px-1" title="Remove" onClick={() => onChange(builds.filter((_, j) => j !== i))}>✕</button>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-1">
+            <label className="text-xs text-gray-600">Effect
+              <select className="w-full border rounded px-1 py-0.5 text-xs" value={b.effect} onChange={(e) => update(i, { effect: e.target.value as BuildEffect })}>
+                {BUILD_EFFECTS.map((x) => <option key={x} value={x}>{x}</option>)}
+              </select>
+            </label>
+            <label className="text-xs text-gray-600">Edge
+              <select className="w-full border rounded px-1 py-0.5 text-xs" value={b.edge} disabled={!hasEdge(b.effect)} onChange={(e) => update(i, { edge: e.target.value as BuildEdge })}>
+                {BUILD_EDGES.map((x) => <option key={x} value={x}>{x}</option>)}
+              </select>
+            </label>
+            <label className="text-xs text-gray-600">Start
+              <select className="w-full border rounded px-1 py-0.5 text-xs" value={b.trigger} onChange={(e) => update(i, { trigger: e.target.value as BuildTrigger })}>
+                {BUILD_TRIGGERS.map((x) => <option key={x} value={x}>{x}</option>)}
+              </select>
+            </label>
+            <label className="text-xs text-gray-600">Easing
+              <select className="w-full border rounded px-1 py-0.5 text-xs" value={b.easing} onChange={(e) => update(i, { easing: e.target.value as BuildEasing })}>
+                {BUILD_EASINGS.map((x) => <option key={x} value={x}>{x}</option>)}
+              </select>
+            </label>
+            <label className="text-xs text-gray-600">Duration (ms)
+              <input className="w-full border rounded px-1 py-0.5 text-xs" type="number" min={0} max={MAX_MS} step={100} value={b.duration} onChange={(e) => update(i, { duration: toMs(e.target.value, b.duration) })} />
+            </label>
+            <label className="text-xs text-gray-600">Delay (ms)
+              <input className="w-full border rounded px-1 py-0.5 text-xs" type="number" min={0} max={MAX_MS} step={100} value={b.delay} onChange={(e) => update(i, { delay: toMs(e.target.value, b.delay) })} />
+            </label>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+type BuildTimelineProps = {
+  shapes: Shape[]
+  previewing: boolean
+  onSelect: (id: string) => void
+  onPreview: () => void
+}
+
+// The slide's builds as they will play: one row per click, listing what runs in that step.
+export const BuildTimeline: React.FC<BuildTimelineProps> = ({ shapes, previewing, onSelect, onPreview }) => {
+  const steps = slideTimeline(shapes)
+  if (steps.every((step) => step.builds.length === 0)) return null
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-600">Build order</span>
+        <button className="border rounded px-2 py-0.5 text-xs" onClick={onPreview}>{previewing ? '■ Stop' : '▶ Preview'}</button>
+      </div>
+      <ol className="space-y-1 text-xs">
+        {steps.map((step, i) => step.builds.length > 0 && (
+          <li key={i} className="rounded bg-gray-50 px-2 py-1">
+            <div className="text-gray-500">{i === 0 ? 'With slide' : `Click ${i}`} · {step.duration} ms</div>
+            {step.builds.map(({ shapeId, build, start }, j) => {
+              const s = findShape(shapes, shapeId)
+              return (
+                <button key={j} className="block w-full text-left truncate hover:underline" onClick={() => onSelect(shapeId)}>
+                  {start > 0 && <span className="text-gray-400">+{start} </span>}
+                  {s?.name ?? s?.kind} — {build.type === 'entrance' ? 'in' : 'out'}, {build.effect}{hasEdge(build.effect) ? ` ${build.edge}` : ''}
+                </button>
+              )
+            })}
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
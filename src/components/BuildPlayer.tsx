@@ -0,0 +1,138 @@
+'use client'
+
+import React from 'react'
+import { Group, Rect } from 'react-konva'
+import Konva from 'konva'
+import type { BuildAnimation, BuildEasing, Slide, SlideSize } from '@/lib/deck'
+import { modelAnchorResolver } from '@/lib/connectors'
+import { buildNodeId, type BuildState, type BuildStep } from '@/lib/builds'
+import { StaticShape } from './SlideView'
+
+// Pause between on-click steps when a preview plays the whole timeline by itself.
+const PREVIEW_CLICK_PAUSE = 600
+// Size a shape collapses to instead of zero: a zero scale can't be inverted and Konva treats a
+// zero-sized clip as no clip at all.
+const COLLAPSED = 0.01
+
+const EASINGS: Record<BuildEasing, (t: number, b: number, c: number, d: number) => number> = {
+  linear: Konva.Easings.Linear,
+  'ease-in': Konva.Easings.EaseIn,
+  'ease-out': Konva.Easings.EaseOut,
+  'ease-in-out': Konva.Easings.EaseInOut,
+}
+
+type AnimatedSlideProps = {
+  slide: Slide
+  // The deck's slide size.
+  size: SlideSize
+  builds: BuildState
+  groupRef?: React.Ref<Konva.Group>
+}
+
+// Read-only slide whose shapes can be built. It is drawn around its centre so a zoom transition
+// scales from the middle; at rest that is the identity transform.
+export const AnimatedSlide: React.FC<AnimatedSlideProps> = ({ slide, size, builds, groupRef }) => {
+  const resolve = modelAnchorResolver(slide.shapes)
+  const { width, height } = size
+  return (
+    <Group ref={groupRef} x={width / 2} y={height / 2} offsetX={width / 2} offsetY={height / 2}>
+      <Rect x={0} y={0} width={width} height={height} fill={slide.background} />
+      {slide.shapes.map((s) => (
+        <StaticShape key={s.id} s={s} resolve={resolve} builds={builds} />
+      ))}
+    </Group>
+  )
+}
+
+// ---------- Poses ----------
+
+type Pose = Konva.ContainerConfig
+
+const REST: Pose = { x: 0, y: 0, scaleX: 1, scaleY: 1, opacity: 1 }
+const NO_CLIP: Pose = { clipX: undefined, clipY: undefined, clipWidth: undefined, clipHeight: undefined }
+
+// Where a build hides its shape (faded out, past a slide edge, shrunk to its centre or clipped down
+// to an edge) and where it rests. Entrances tween hidden → rest, exits rest → hidden. Wrappers sit
+// at the identity transform inside the shape's parent, so poses are in parent coordinates.
+function poses(node: Konva.Group, root: Konva.Container, b: BuildAnimation): { hidden: Pose; rest: Pose } {
+  node.setAttrs({ ...REST, ...NO_CLIP })
+  const parent = node.getParent() ?? root
+  const box = node.getClientRect({ relativeTo: parent })
+  if (b.effect === 'fade') return { hidden: { opacity: 0 }, rest: REST }
+  if (b.effect === 'scale') {
+    const cx = box.x + box.width / 2
+    const cy = box.y + box.height / 2
+    return { hidden: { scaleX: COLLAPSED, scaleY: COLLAPSED, x: (1 - COLLAPSED) * cx, y: (1 - COLLAPSED) * cy }, rest: REST }
+  }
+  if (b.effect === 'wipe') {
+    const rest = { clipX: box.x, clipY: box.y, clipWidth: box.width, clipHeight: box.height }
+    const hidden = b.edge === 'left' ? { ...rest, clipWidth: COLLAPSED }
+      : b.edge === 'right' ? { ...rest, clipX: box.x + box.width, clipWidth: COLLAPSED }
+        : b.edge === 'top' ? { ...rest, clipHeight: COLLAPSED }
+          : { ...rest, clipY: box.y + box.height, clipHeight: COLLAPSED }
+    return { hidden, rest }
+  }
+  // Fly: just past the slide edge, measured on the slide and converted into the parent's space. The
+  // root's offset is the slide centre, so it gives the slide size.
+  const onSlide = node.getClientRect({ relativeTo: root })
+  const offset = b.edge === 'left' ? { x: -(onSlide.x + onSlide.width), y: 0 }
+    : b.edge === 'right' ? { x: root.offsetX() * 2 - onSlide.x, y: 0 }
+      : b.edge === 'top' ? { x: 0, y: -(onSlide.y + onSlide.height) }
+        : { x: 0, y: root.offsetY() * 2 - onSlide.y }
+  const toParent = parent.getAbsoluteTransform(root).copy().invert()
+  const origin = toParent.point({ x: 0, y: 0 })
+  const moved = toParent.point(offset)
+  return { hidden: { x: moved.x - origin.x, y: moved.y - origin.y }, rest: REST }
+}
+
+function endpoints(node: Konva.Group, root: Konva.Container, b: BuildAnimation): [Pose, Pose] {
+  const { hidden, rest } = poses(node, root, b)
+  return b.type === 'entrance' ? [{ opacity: 1, ...hidden }, rest] : [rest, { opacity: 1, ...hidden }]
+}
+
+// ---------- Playback ----------
+
+// Plays one step of a slide timeline on `root` (an AnimatedSlide group). Returns a function that
+// jumps every build in the step to its end state, for when the presenter moves on early.
+export function playBuildStep(root: Konva.Container, step: BuildStep): () => void {
+  const tweens: Konva.Tween[] = []
+  const pending: { timer: number; node: Konva.Group; build: BuildAnimation }[] = []
+  for (const { shapeId, build, start } of step.builds) {
+    const node = root.findOne<Konva.Group>(`#${buildNodeId(shapeId)}`)
+    if (!node) continue
+    const entry = {
+      node, build,
+      timer: window.setTimeout(() => {
+        pending.splice(pending.indexOf(entry), 1)
+        const [from, to] = endpoints(node, root, build)
+        node.setAttrs(from)
+        const tween = new Konva.Tween({ node, duration: build.duration / 1000, easing: EASINGS[build.easing], ...to })
+        tweens.push(tween)
+        tween.play()
+      }, start),
+    }
+    pending.push(entry)
+  }
+  return () => {
+    tweens.forEach((t) => { t.finish(); t.destroy() })
+    for (const { timer, node, build } of pending) {
+      window.clearTimeout(timer)
+      node.setAttrs(endpoints(node, root, build)[1])
+    }
+    pending.length = 0
+  }
+}
+
+// Plays a whole timeline unattended, as the editor's preview does; on-click steps follow after a pause.
+export function playBuildSequence(root: Konva.Container, steps: BuildStep[], onDone: () => void): () => void {
+  let finish: (() => void) | null = null
+  let timer = 0
+  const run = (i: number) => {
+    finish?.()
+    if (i >= steps.length) { finish = null; onDone(); return }
+    finish = playBuildStep(root, steps[i])
+    timer = window.setTimeout(() => run(i + 1), steps[i].duration + (i + 1 < steps.length ? PREVIEW_CLICK_PAUSE : 0))
+  }
+  run(0)
+  return () => { window.clearTimeout(timer); finish?.() }
+}
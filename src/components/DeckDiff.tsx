@@ -0,0 +1,129 @@
+'use client'
+
+import React, { useMemo } from 'react'
+import { Stage, Layer, Rect } from 'react-konva'
+import { slideSize, type Deck, type Shape, type Slide, type SlideSize } from '@/lib/deck'
+import { modelAnchorResolver } from '@/lib/connectors'
+import { slideBounds } from '@/lib/align'
+import { shapeLabel } from '@/lib/history'
+import { sameSize } from '@/lib/slideSize'
+import { diffDecks, type ShapeChange, type ShapeChangeKind } from '@/lib/versions'
+import { StaticShape } from './SlideView'
+
+const SLIDE_WIDTH = 360
+
+export const CHANGE_COLORS: Record<ShapeChangeKind, string> = {
+  added: '#16a34a',
+  removed: '#dc2626',
+  moved: '#2563eb',
+  restyled: '#d97706',
+}
+
+// The kind a change is outlined as when it is several at once.
+const mainKind = (c: ShapeChange): ShapeChangeKind => (c.kinds.includes('moved') ? 'moved' : c.kinds[0])
+
+type DiffSlideProps = {
+  slide: Slide
+  size: SlideSize
+  changes: ShapeChange[]
+  side: 'before' | 'after'
+}
+
+// A slide with its changed shapes outlined. Removed shapes only show on the before side and added
+// ones on the after side; the before position of a moved shape is dashed.
+const DiffSlide: React.FC<DiffSlideProps> = ({ slide, size, changes, side }) => {
+  const scale = SLIDE_WIDTH / size.width
+  const resolve = modelAnchorResolver(slide.shapes)
+  const outlines = changes.flatMap((c) => {
+    if (side === 'before' ? c.kinds.includes('added') : c.kinds.includes('removed')) return []
+    const box = slideBounds(slide.shapes, c.id)
+    return box ? [{ id: c.id, box, kind: mainKind(c) }] : []
+  })
+  return (
+    <Stage width={SLIDE_WIDTH} height={size.height * scale} listening={false}>
+      <Layer scaleX={scale} scaleY={scale}>
+        <Rect x={0} y={0} width={size.width} height={size.height} fill={slide.background} />
+        {slide.shapes.map((s) => <StaticShape key={s.id} s={s} resolve={resolve} />)}
+        {outlines.map(({ id, box, kind }) => (
+          <Rect
+            key={id}
+            x={box.x - 8} y={box.y - 8} width={box.width + 16} height={box.height + 16}
+            stroke={CHANGE_COLORS[kind]} strokeWidth={6} dash={side === 'before' && kind === 'moved' ? [18, 12] : undefined}
+          />
+        ))}
+      </Layer>
+    </Stage>
+  )
+}
+
+type DeckDiffProps = {
+  before: Deck
+  after: Deck
+  beforeLabel: string
+  afterLabel: string
+}
+
+// Every slide that differs between two decks, side by side, with what changed on it.
+export const DeckDiff: React.FC<DeckDiffProps> = ({ before, after, beforeLabel, afterLabel }) => {
+  const diffs = useMemo(() => diffDecks(before, after), [before, after])
+  const changed = diffs.filter((d) => d.status !== 'unchanged')
+  const slideName = (id: string) => {
+    const i = after.slides.findIndex((sl) => sl.id === id)
+    return i >= 0 ? `Slide ${i + 1}` : `Slide ${before.slides.findIndex((sl) => sl.id === id) + 1} of ${beforeLabel}`
+  }
+  const beforeSize = slideSize(before)
+  const afterSize = slideSize(after)
+  const resized = !sameSize(beforeSize, afterSize)
+  const blank = (size: SlideSize) => (
+    <div className="flex items-center justify-center border border-dashed rounded text-xs text-gray-400" style={{ width: SLIDE_WIDTH, height: (size.height * SLIDE_WIDTH) / size.width }}>
+      No slide
+    </div>
+  )
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-3 text-xs">
+        {(Object.keys(CHANGE_COLORS) as ShapeChangeKind[]).map((k) => (
+          <span key={k} className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-sm border-2" style={{ borderColor: CHANGE_COLORS[k] }} /> {k}
+          </span>
+        ))}
+        <span className="text-gray-500">{diffs.length - changed.length} unchanged slide{diffs.length - changed.length === 1 ? '' : 's'}</span>
+      </div>
+      {resized && (
+        <div className="text-sm text-gray-600">Slide size changed from {beforeSize.width} × {beforeSize.height} to {afterSize.width} × {afterSize.height}</div>
+      )}
+      {changed.length === 0 && !resized && <div className="text-sm text-gray-500">The two versions are the same.</div>}
+      {changed.map((d) => {
+        // On an added or removed slide every shape would be outlined; the slide's label says it all.
+        const shapes = d.status === 'changed' ? d.shapes : []
+        return (
+          <section key={d.slideId} className="space-y-2">
+            <div className="text-sm font-medium">
+              {slideName(d.slideId)}
+              {d.status !== 'changed' && <span className="ml-2 text-xs" style={{ color: CHANGE_COLORS[d.status === 'added' ? 'added' : 'removed'] }}>{d.status}</span>}
+            </div>
+            <div className="flex gap-3">
+              <figure className="space-y-1">
+                {d.before ? <DiffSlide slide={d.before} size={beforeSize} changes={shapes} side="before" /> : blank(beforeSize)}
+                <figcaption className="text-xs text-gray-500">{beforeLabel}</figcaption>
+              </figure>
+              <figure className="space-y-1">
+                {d.after ? <DiffSlide slide={d.after} size={afterSize} changes={shapes} side="after" /> : blank(afterSize)}
+                <figcaption className="text-xs text-gray-500">{afterLabel}</figcaption>
+              </figure>
+            </div>
+            <ul className="text-xs space-y-0.5">
+              {d.fields.length > 0 && <li className="text-gray-600">Slide {d.fields.join(', ')} changed</li>}
+              {shapes.map((c) => (
+                <li key={c.id} className="flex items-center gap-1">
+                  <span className="inline-block w-2 h-2 rounded-full" style={{ background: CHANGE_COLORS[mainKind(c)] }} />
+                  {shapeLabel((c.after ?? c.before) as Shape)}: {c.kinds.join(', ')}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )
+      })}
+    </div>
+  )
+}
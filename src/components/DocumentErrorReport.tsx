@@ -0,0 +1,39 @@
+'use client'
+
+import React from 'react'
+import type { DocumentError } from '@/lib/document'
+
+const MAX_ISSUES = 50
+
+type DocumentErrorReportProps = {
+  error: DocumentError
+  onDismiss: () => void
+}
+
+// Lists every problem found while loading a document, with the JSON path of each.
+export const DocumentErrorReport: React.FC<DocumentErrorReportProps> = ({ error, onDismiss }) => {
+  const shown = error.issues.slice(0, MAX_ISSUES)
+  const hidden = error.issues.length - shown.length
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4" onClick={onDismiss}>
+      <div role="alertdialog" aria-labelledby="document-error-title" className="w-full max-w-xl rounded-xl border bg-white shadow-lg p-4 space-y-3" onClick={(e) => e.stopPropagation()}>
+        <div id="document-error-title" className="font-medium">{error.title}</div>
+        <div className="text-sm text-gray-600">
+          {error.issues.length === 1 ? '1 problem was found:' : `${error.issues.length} problems were found:`}
+        </div>
+        <ul className="max-h-80 overflow-auto space-y-1 text-sm">
+          {shown.map((issue, i) => (
+            <li key={i} className="rounded bg-gray-50 px-2 py-1">
+              {issue.path && <code className="text-xs text-gray-500 break-all">{issue.path}</code>}
+              <div>{issue.message}</div>
+            </li>
+          ))}
+        </ul>
+        {hidden > 0 && <div className="text-xs text-gray-500">…and {hidden} more</div>}
+        <div className="flex justify-end">
+          <button className="px-3 py-1.5 rounded-xl border text-sm" onClick={onDismiss}>Close</button>
+        </div>
+      </div>
+    </div>
+  )
+}
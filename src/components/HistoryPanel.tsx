@@ -0,0 +1,33 @@
+'use client'
+
+import React from 'react'
+import type { SlideHistory } from '@/lib/history'
+
+type HistoryPanelProps = {
+  history: SlideHistory
+  // Jumps to the point where `count` steps are applied.
+  onJump: (count: number) => void
+}
+
+// The current slide's steps, oldest first. Undone steps stay listed, dimmed, until a new edit
+// replaces them.
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onJump }) => {
+  const steps = [...history.past, ...history.future]
+  const applied = history.past.length
+  const row = (count: number, label: string) => (
+    <li key={count}>
+      <button
+        className={`w-full text-left text-sm px-2 py-1 rounded truncate ${count === applied ? 'bg-gray-100 font-medium' : 'hover:bg-gray-50'} ${count > applied ? 'text-gray-400' : ''}`}
+        onClick={() => onJump(count)}
+      >
+        {label}
+      </button>
+    </li>
+  )
+  return (
+    <ol className="space-y-0.5 max-h-48 overflow-auto pr-1">
+      {row(0, 'Start')}
+      {steps.map((step, i) => row(i + 1, step.label))}
+    </ol>
+  )
+}
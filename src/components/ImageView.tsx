@@ -0,0 +1,49 @@
+'use client'
+
+import React, { useEffect, useRef } from 'react'
+import { Group, Image as KonvaImage, type KonvaNodeEvents } from 'react-konva'
+import Konva from 'konva'
+import type { ImageShape } from '@/lib/deck'
+import { useAssetImage } from '@/lib/hooks'
+import { cropPixels, hasImageFilters, traceMask } from '@/lib/imageEffects'
+import { blendProps } from './shapeStyle'
+
+// Filters run in the order lib/imageEffects bakes them for export.
+const FILTERS = [Konva.Filters.Blur, Konva.Filters.Brightness, Konva.Filters.Contrast, Konva.Filters.Grayscale]
+
+type ImageViewProps = KonvaNodeEvents & Omit<Konva.ContainerConfig, 'x' | 'y' | 'rotation' | 'opacity' | 'globalCompositeOperation' | 'clipFunc' | 'filters'> & { s: ImageShape }
+
+// An image shape with its crop, mask, filters, opacity and blending. The group carries the shape's place and
+// any props passed in, so it is the node to select, drag and transform. Filters need a cached
+// bitmap, which is redrawn whenever the image or its settings change.
+export const ImageView: React.FC<ImageViewProps> = ({ s, ...groupProps }) => {
+  const img = useAssetImage(s.assetId)
+  const ref = useRef<Konva.Group | null>(null)
+  const filtered = hasImageFilters(s)
+  const crop = img ? cropPixels(s.crop, img.naturalWidth, img.naturalHeight) : undefined
+
+  useEffect(() => {
+    const node = ref.current
+    if (!node) return
+    if (filtered && img) node.cache()
+    else node.clearCache()
+  }, [filtered, img, s.width, s.height, s.crop, s.mask, s.maskRadius, s.blur, s.brightness, s.contrast, s.grayscale])
+
+  return (
+    <Group
+      {...groupProps}
+      ref={ref}
+      x={s.x}
+      y={s.y}
+      rotation={s.rotation}
+      {...blendProps(s)}
+      clipFunc={s.mask ? (ctx) => traceMask(ctx, s, s.width, s.height) : undefined}
+      filters={filtered ? FILTERS : undefined}
+      blurRadius={(s.blur ?? 0) * Konva.pixelRatio}
+      brightness={s.brightness ?? 1}
+      contrast={s.contrast ?? 0}
+    >
+      <KonvaImage width={s.width} height={s.height} image={img ?? undefined} crop={crop} />
+    </Group>
+  )
+}
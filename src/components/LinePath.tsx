@@ -0,0 +1,69 @@
+'use client'
+
+import React from 'react'
+import { Shape as KonvaShape, type KonvaNodeEvents } from 'react-konva'
+import type Konva from 'konva'
+import type { StrokeShape } from '@/lib/deck'
+import { drawHeads, pathHeads, strokePath, tracePath, type AnchorResolver } from '@/lib/connectors'
+import { pairs } from '@/lib/geometry'
+import { styleProps } from './shapeStyle'
+
+type LinePathProps = KonvaNodeEvents & Omit<Konva.ShapeConfig, 'sceneFunc' | 'hitFunc'> & {
+  s: StrokeShape
+  // Resolves connector anchors in slide space; required for bound connector ends to follow their shapes.
+  resolve?: AnchorResolver
+  // Applied at draw time, so in-progress edits (endpoint drags) render without a React update.
+  adjust?: (s: StrokeShape) => StrokeShape
+}
+
+const noAnchors: AnchorResolver = () => null
+
+// Draws lines, arrows and connectors with their arrowheads. The path is recomputed on every draw, so a
+// connector bound to a shape re-routes as soon as that shape's node moves, without a React render.
+export const LinePath: React.FC<LinePathProps> = ({ s, resolve, adjust, ...rest }) => {
+  // Slide space is the layer's space, so undoing the node's transform up to the layer gives local points.
+  const pathFor = (node: Konva.Shape) => {
+    const toLocal = node.getAbsoluteTransform(node.getLayer() ?? undefined).copy().invert()
+    return strokePath(adjust ? adjust(s) : s, resolve ?? noAnchors, (p) => toLocal.point(p))
+  }
+  // A plain Konva.Shape reports a width × height box at its origin; report the path's extent instead,
+  // as Konva.Line does, so the transformer and marquee see the real bounds.
+  const bindSelfRect = (node: Konva.Shape | null) => {
+    if (!node) return
+    node.getSelfRect = () => {
+      const pts = pairs(pathFor(node).points)
+      const xs = pts.map((p) => p.x)
+      const ys = pts.map((p) => p.y)
+      const x = Math.min(...xs)
+      const y = Math.min(...ys)
+      return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y }
+    }
+  }
+  return (
+    <KonvaShape
+      ref={bindSelfRect}
+      x={s.x}
+      y={s.y}
+      rotation={s.rotation}
+      stroke={s.stroke}
+      strokeWidth={s.strokeWidth}
+      hitStrokeWidth={Math.max(12, s.strokeWidth)}
+      lineCap="round"
+      lineJoin="round"
+      {...styleProps(s)}
+      sceneFunc={(ctx, shape) => {
+        const path = pathFor(shape)
+        ctx.beginPath()
+        tracePath(ctx, path)
+        ctx.strokeShape(shape)
+        drawHeads(ctx, pathHeads(path, s), s.stroke, s.strokeWidth)
+      }}
+      hitFunc={(ctx, shape) => {
+        ctx.beginPath()
+        tracePath(ctx, pathFor(shape))
+        ctx.strokeShape(shape)
+      }}
+      {...rest}
+    />
+  )
+}
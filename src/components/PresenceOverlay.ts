@@ -0,0 +1,38 @@
+import Konva from 'konva'
+import type { Presence } from '@/lib/collab'
+
+const FONT_SIZE = 11
+// Pointer outline, tip at the origin, in screen pixels.
+const POINTER = [0, 0, 0, 16, 4.5, 12, 7.5, 18.5, 10, 17.5, 7, 11, 12.5, 11]
+
+// Draws collaborators' pointers and selections on an overlay layer that shares the editor layer's
+// slide transform. Peers send pointer positions many times a second, so this works on Konva nodes
+// directly, like the snap guides. Selections are outlined from the shapes' drawn nodes, which keeps
+// rotated and grouped shapes accurate. Only peers looking at `slideId` are shown.
+export function drawPresence(layer: Konva.Layer, peers: Presence[], slideId: string, scale: number) {
+  if (!layer.hasChildren() && peers.length === 0) return
+  layer.destroyChildren()
+  const stage = layer.getStage()
+  for (const peer of peers) {
+    if (peer.slideId !== slideId) continue
+    for (const id of peer.selection) {
+      const node = stage?.findOne(`#${id}`)
+      if (!node) continue
+      const box = node.getClientRect({ relativeTo: layer })
+      const pad = 3 / scale
+      layer.add(new Konva.Rect({
+        x: box.x - pad, y: box.y - pad, width: box.width + 2 * pad, height: box.height + 2 * pad,
+        stroke: peer.color, strokeWidth: 2 / scale, dash: [6 / scale, 3 / scale],
+      }))
+    }
+    if (!peer.cursor) continue
+    const pointer = new Konva.Group({ x: peer.cursor.x, y: peer.cursor.y, scaleX: 1 / scale, scaleY: 1 / scale })
+    pointer.add(new Konva.Line({ points: POINTER, closed: true, fill: peer.color, stroke: '#ffffff', strokeWidth: 1 }))
+    const label = new Konva.Label({ x: 10, y: 20 })
+    label.add(new Konva.Tag({ fill: peer.color, cornerRadius: 3 }))
+    label.add(new Konva.Text({ text: peer.name, fontSize: FONT_SIZE, padding: 3, fill: '#ffffff' }))
+    pointer.add(label)
+    layer.add(pointer)
+  }
+  layer.batchDraw()
+}
@@ -0,0 +1,186 @@
+'use client'
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { Stage, Layer, Group } from 'react-konva'
+import Konva from 'konva'
+import { DEFAULT_TRANSITION, slideSize, type Deck, type SlideTransition } from '@/lib/deck'
+import { assetIdsIn, loadAssetImage } from '@/lib/assets'
+import { slideTimeline, type BuildState, type BuildStep } from '@/lib/builds'
+import { useResizeObserver } from '@/lib/hooks'
+import { AnimatedSlide, playBuildStep } from './BuildPlayer'
+
+// Horizontal travel, in screen pixels, for a pointer drag to count as a swipe rather than a click.
+const SWIPE_DISTANCE = 50
+
+const NEXT_KEYS = ['ArrowRight', 'ArrowDown', 'PageDown', ' ', 'Enter', 'n']
+const PREVIOUS_KEYS = ['ArrowLeft', 'ArrowUp', 'PageUp', 'Backspace', 'p']
+
+// The slide being shown and, while a transition runs, the one it replaces. `step` counts the
+// timeline steps already shown: a slide entered forwards starts before its builds at 0, one stepped
+// back onto starts after all of them and never replays them. The leaving slide keeps the build
+// state it was drawn with, so whatever its builds left on screen stays there while it goes.
+type View = { index: number; leaving: number | null; leavingFrom: BuildState; direction: 1 | -1; step: number; from: BuildState }
+
+type PresenterProps = {
+  deck: Deck
+  startIndex: number
+  onExit: () => void
+}
+
+function moveTo(v: View, target: number, timelines: BuildStep[][]): View {
+  const index = Math.max(0, Math.min(timelines.length - 1, target))
+  if (index === v.index) return v
+  return index > v.index
+    ? { index, leaving: v.index, leavingFrom: v.from, direction: 1, step: 0, from: 'before' }
+    : { index, leaving: v.index, leavingFrom: v.from, direction: -1, step: timelines[index].length, from: 'after' }
+}
+
+// Slides are drawn around their centre so zoom scales from the middle of the slide; a node's offset
+// is that centre.
+function resetNode(node: Konva.Group) {
+  node.setAttrs({ x: node.offsetX(), y: node.offsetY(), scaleX: 1, scaleY: 1, opacity: 1 })
+}
+
+// Animates `enter` in over `leave`; returns a cleanup that jumps to the end state.
+function playTransition(transition: SlideTransition, enter: Konva.Group, leave: Konva.Group | null, direction: 1 | -1, done: () => void): () => void {
+  resetNode(enter)
+  if (leave) resetNode(leave)
+  if (transition.kind === 'none' || !leave || transition.duration <= 0) { done(); return () => {} }
+
+  const tweens: Konva.Tween[] = []
+  const tween = (node: Konva.Group, attrs: Konva.NodeConfig) => {
+    tweens.push(new Konva.Tween({ node, duration: transition.duration / 1000, easing: Konva.Easings.EaseInOut, ...attrs }))
+  }
+  if (transition.kind === 'fade') {
+    enter.opacity(0)
+    tween(enter, { opacity: 1 })
+  } else if (transition.kind === 'push') {
+    const center = enter.offsetX()
+    enter.x(center + direction * center * 2)
+    tween(enter, { x: center })
+    tween(leave, { x: center - direction * center * 2 })
+  } else {
+    enter.setAttrs({ opacity: 0, scaleX: 0.6, scaleY: 0.6 })
+    tween(enter, { opacity: 1, scaleX: 1, scaleY: 1 })
+    tween(leave, { opacity: 0 })
+  }
+  tweens[0].onFinish = done
+  tweens.forEach((t) => t.play())
+  return () => tweens.forEach((t) => { t.finish(); t.destroy() })
+}
+
+// Full-screen, read-only player. The stage doesn't listen for events, so nothing on a slide can be
+// selected or dragged; navigation is handled on the surrounding element and the window.
+export const Presenter: React.FC<PresenterProps> = ({ deck, startIndex, onExit }) => {
+  const container = useResizeObserver<HTMLDivElement>()
+  const enterRef = useRef<Konva.Group | null>(null)
+  const leaveRef = useRef<Konva.Group | null>(null)
+  const pointerRef = useRef<{ x: number; y: number } | null>(null)
+  const timelines = useMemo(() => deck.slides.map((s) => slideTimeline(s.shapes)), [deck.slides])
+  const [view, setView] = useState<View>({ index: startIndex, leaving: null, leavingFrom: 'before', direction: 1, step: 0, from: 'before' })
+
+  const go = useCallback((target: (index: number) => number) => {
+    setView((v) => moveTo(v, target(v.index), timelines))
+  }, [timelines])
+
+  // Next runs the slide's next build step and only moves on once they have all run.
+  const next = useCallback(() => {
+    setView((v) => (v.from === 'before' && v.step < timelines[v.index].length
+      ? { ...v, step: v.step + 1 }
+      : moveTo(v, v.index + 1, timelines)))
+  }, [timelines])
+
+  // ---------- Transitions ----------
+  useEffect(() => {
+    const enter = enterRef.current
+    if (!enter || view.leaving === null) return
+    const transition = deck.slides[view.index].transition ?? DEFAULT_TRANSITION
+    return playTransition(transition, enter, leaveRef.current, view.direction, () => {
+      setView((v) => (v === view ? { ...v, leaving: null } : v))
+    })
+  }, [view, deck.slides])
+
+  // ---------- Builds ----------
+  // Step 0 (the builds that need no click) starts once the slide has finished coming in; each later
+  // step is played as `step` reaches it. Moving on early jumps the running step to its end.
+  useEffect(() => {
+    const root = enterRef.current
+    if (!root || view.leaving !== null || view.from === 'after') return
+    if (view.step === 0) { setView((v) => (v === view ? { ...v, step: 1 } : v)); return }
+    return playBuildStep(root, timelines[view.index][view.step - 1])
+  }, [view, timelines])
+
+  // Decode the next slide's images ahead of time so they are ready when it slides in.
+  useEffect(() => {
+    const next = deck.slides[view.index + 1]
+    if (next) assetIdsIn([next.shapes]).forEach((id) => { loadAssetImage(id).catch(() => {}) })
+  }, [view.index, deck.slides])
+
+  // ---------- Keyboard ----------
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (NEXT_KEYS.includes(e.key)) { e.preventDefault(); next() }
+      else if (PREVIOUS_KEYS.includes(e.key)) { e.preventDefault(); go((i) => i - 1) }
+      else if (e.key === 'Home') { e.preventDefault(); go(() => 0) }
+      else if (e.key === 'End') { e.preventDefault(); go(() => Infinity) }
+      else if (e.key === 'Escape') onExit()
+    }
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  }, [go, next, onExit])
+
+  // ---------- Full screen ----------
+  useEffect(() => {
+    // Browsers may refuse full screen; the player still covers the window.
+    const el = container.ref.current
+    if (el?.requestFullscreen) el.requestFullscreen().catch(() => {})
+    const onChange = () => { if (!document.fullscreenElement) onExit() }
+    document.addEventListener('fullscreenchange', onChange)
+    return () => {
+      document.removeEventListener('fullscreenchange', onChange)
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => {})
+    }
+  }, [container.ref, onExit])
+
+  // ---------- Click & swipe ----------
+  const onPointerUp = (e: React.PointerEvent) => {
+    const start = pointerRef.current
+    pointerRef.current = null
+    if (!start) return
+    const dx = e.clientX - start.x
+    if (Math.abs(dx) > SWIPE_DISTANCE && Math.abs(dx) > Math.abs(e.clientY - start.y)) go((i) => i + (dx < 0 ? 1 : -1))
+    else if (e.button === 0) next()
+  }
+
+  const { width, height } = container.size
+  const size = slideSize(deck)
+  const scale = Math.min(width / size.width, height / size.height) || 0
+  // One keyed list, so the slide being left keeps its nodes (and whatever its builds did to them).
+  const shown = [
+    ...(view.leaving === null ? [] : [{ slide: deck.slides[view.leaving], builds: view.leavingFrom, ref: leaveRef }]),
+    { slide: deck.slides[view.index], builds: view.from, ref: enterRef },
+  ]
+
+  return (
+    <div
+      ref={container.ref}
+      className="fixed inset-0 z-50 bg-black select-none touch-none cursor-pointer"
+      onPointerDown={(e) => { pointerRef.current = { x: e.clientX, y: e.clientY } }}
+      onPointerUp={onPointerUp}
+      onPointerCancel={() => { pointerRef.current = null }}
+      onContextMenu={(e) => { e.preventDefault(); go((i) => i - 1) }}
+    >
+      {scale > 0 && (
+        <Stage width={width} height={height} listening={false}>
+          <Layer x={(width - size.width * scale) / 2} y={(height - size.height * scale) / 2} scaleX={scale} scaleY={scale}>
+            <Group clipX={0} clipY={0} clipWidth={size.width} clipHeight={size.height}>
+              {shown.map(({ slide, builds, ref }) => (
+                <AnimatedSlide key={slide.id} slide={slide} size={size} builds={builds} groupRef={ref} />
+              ))}
+            </Group>
+          </Layer>
+        </Stage>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,36 @@
+'use client'
+
+import React from 'react'
+import { Shape as KonvaShape, type KonvaNodeEvents } from 'react-konva'
+import type Konva from 'konva'
+import type { TextShape } from '@/lib/deck'
+import { drawRichText, layoutRichText } from '@/lib/richText'
+import { styleProps } from './shapeStyle'
+
+type RichTextProps = KonvaNodeEvents & Omit<Konva.ShapeConfig, 'sceneFunc' | 'hitFunc' | 'width' | 'height'> & {
+  s: TextShape
+}
+
+// Draws a text shape's styled runs. The hit region is the whole text box so empty space between
+// words stays clickable.
+export const RichText: React.FC<RichTextProps> = ({ s, ...rest }) => {
+  const layout = layoutRichText(s)
+  return (
+    <KonvaShape
+      x={s.x}
+      y={s.y}
+      rotation={s.rotation}
+      width={layout.width}
+      height={layout.height}
+      {...styleProps(s)}
+      sceneFunc={(ctx) => drawRichText(ctx, layout, s.letterSpacing ?? 0)}
+      hitFunc={(ctx, shape) => {
+        ctx.beginPath()
+        ctx.rect(0, 0, shape.width(), shape.height())
+        ctx.closePath()
+        ctx.fillStrokeShape(shape)
+      }}
+      {...rest}
+    />
+  )
+}
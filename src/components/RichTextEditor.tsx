@@ -0,0 +1,157 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import type { TextRun, TextShape } from '@/lib/deck'
+import { DEFAULT_FONT_FAMILY, DEFAULT_LINE_HEIGHT, LIST_INDENT, htmlToRuns, runsToDom } from '@/lib/richText'
+
+export type TextEditPlacement = {
+  left: number
+  top: number
+  rotation: number
+  scale: number
+}
+
+type RichTextEditorProps = {
+  s: TextShape
+  placement: TextEditPlacement
+  onCommit: (runs: TextRun[]) => void
+  onCancel: () => void
+}
+
+// HTML overlay laid exactly over the canvas text while it is being edited. Character styling goes
+// through the browser's editing commands; the result is read back into runs on commit.
+export const RichTextEditor: React.FC<RichTextEditorProps> = ({ s, placement, onCommit, onCancel }) => {
+  const wrapperRef = useRef<HTMLDivElement | null>(null)
+  const editorRef = useRef<HTMLDivElement | null>(null)
+  const rangeRef = useRef<Range | null>(null)
+  const doneRef = useRef(false)
+  const initialRef = useRef(s)
+  const [fontSize, setFontSize] = useState(s.fontSize)
+  const [color, setColor] = useState(s.fill)
+
+  useEffect(() => {
+    const el = editorRef.current
+    if (!el) return
+    runsToDom(el, initialRef.current)
+    el.focus()
+    const range = document.createRange()
+    range.selectNodeContents(el)
+    window.getSelection()?.removeAllRanges()
+    window.getSelection()?.addRange(range)
+
+    // Remember the last selection inside the editor so toolbar inputs that take focus can restore it.
+    const onSelectionChange = () => {
+      const sel = window.getSelection()
+      if (sel && sel.rangeCount > 0 && el.contains(sel.anchorNode)) rangeRef.current = sel.getRangeAt(0).cloneRange()
+    }
+    document.addEventListener('selectionchange', onSelectionChange)
+    return () => document.removeEventListener('selectionchange', onSelectionChange)
+  }, [])
+
+  const restoreSelection = () => {
+    editorRef.current?.focus()
+    const sel = window.getSelection()
+    if (!sel || !rangeRef.current) return
+    sel.removeAllRanges()
+    sel.addRange(rangeRef.current)
+  }
+
+  const exec = (command: string, value?: string) => {
+    restoreSelection()
+    document.execCommand('styleWithCSS', false, 'true')
+    document.execCommand(command, false, value)
+  }
+
+  // execCommand only knows the legacy 1–7 sizes, so mark the selection with size 7 and swap in px.
+  const applyFontSize = (px: number) => {
+    const el = editorRef.current
+    if (!el) return
+    restoreSelection()
+    document.execCommand('styleWithCSS', false, 'false')
+    document.execCommand('fontSize', false, '7')
+    el.querySelectorAll('font[size="7"]').forEach((font) => {
+      const span = document.createElement('span')
+      span.style.fontSize = `${px}px`
+      span.innerHTML = font.innerHTML
+      font.replaceWith(span)
+    })
+  }
+
+  const finish = () => {
+    if (doneRef.current || !editorRef.current) return
+    doneRef.current = true
+    onCommit(htmlToRuns(editorRef.current, s))
+  }
+
+  const cancel = () => {
+    doneRef.current = true
+    onCancel()
+  }
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    // Keep the editor's global shortcuts (delete, nudge, undo) away from the text being typed.
+    e.stopPropagation()
+    if (e.key === 'Escape') { e.preventDefault(); cancel() }
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) { e.preventDefault(); finish() }
+  }
+
+  const keepFocus = (e: React.MouseEvent) => e.preventDefault()
+  const btn = 'border rounded px-2 py-0.5 text-xs bg-white'
+
+  return (
+    <div
+      ref={wrapperRef}
+      className="absolute left-0 top-0 z-20"
+      onBlur={(e) => { if (!wrapperRef.current?.contains(e.relatedTarget as Node | null)) finish() }}
+      onKeyDown={onKeyDown}
+    >
+      <div
+        className="absolute flex items-center gap-1 p-1 rounded-lg border bg-white/95 shadow text-xs whitespace-nowrap"
+        style={{ left: placement.left, top: Math.max(0, placement.top - 40) }}
+      >
+        <button className={`${btn} font-bold`} onMouseDown={keepFocus} onClick={() => exec('bold')}>B</button>
+        <button className={`${btn} italic`} onMouseDown={keepFocus} onClick={() => exec('italic')}>I</button>
+        <button className={`${btn} underline`} onMouseDown={keepFocus} onClick={() => exec('underline')}>U</button>
+        <input type="color" value={color} onChange={(e) => { setColor(e.target.value); exec('foreColor', e.target.value) }} />
+        <input
+          className="w-14 border rounded px-1 py-0.5"
+          type="number"
+          min={4}
+          value={fontSize}
+          onChange={(e) => setFontSize(Number(e.target.value) || fontSize)}
+          onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); applyFontSize(fontSize) } }}
+        />
+        <button className={btn} onMouseDown={keepFocus} onClick={() => applyFontSize(fontSize)}>Size</button>
+        <button className={btn} onMouseDown={keepFocus} onClick={finish}>Done</button>
+      </div>
+      <div
+        ref={editorRef}
+        contentEditable
+        suppressContentEditableWarning
+        className="absolute outline outline-1 outline-blue-500 [&>div]:list-item"
+        style={{
+          left: placement.left,
+          top: placement.top,
+          transformOrigin: '0 0',
+          transform: `rotate(${placement.rotation}deg) scale(${placement.scale})`,
+          width: s.width ?? 'auto',
+          minHeight: s.height,
+          minWidth: 20,
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: s.verticalAlign === 'middle' ? 'center' : s.verticalAlign === 'bottom' ? 'flex-end' : 'flex-start',
+          fontFamily: s.fontFamily ?? DEFAULT_FONT_FAMILY,
+          fontSize: s.fontSize,
+          color: s.fill,
+          lineHeight: s.lineHeight ?? DEFAULT_LINE_HEIGHT,
+          letterSpacing: s.letterSpacing ?? 0,
+          textAlign: s.align ?? 'left',
+          whiteSpace: 'pre-wrap',
+          overflowWrap: 'break-word',
+          paddingLeft: s.list ? s.fontSize * LIST_INDENT : 0,
+          listStyleType: s.list === 'number' ? 'decimal' : s.list === 'bullet' ? 'disc' : 'none',
+        }}
+      />
+    </div>
+  )
+}
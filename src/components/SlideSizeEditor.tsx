@@ -0,0 +1,54 @@
+'use client'
+
+import React, { useState } from 'react'
+import type { SlideSize } from '@/lib/deck'
+import { MAX_SLIDE_SIDE, MIN_SLIDE_SIDE, SLIDE_FITS, SLIDE_SIZE_PRESETS, clampSlideSize, sameSize, sizePreset, type SlideFit } from '@/lib/slideSize'
+
+const CUSTOM = 'custom'
+
+type SlideSizeEditorProps = {
+  size: SlideSize
+  onChange: (size: SlideSize, fit: SlideFit) => void
+}
+
+// The deck's slide size, from a preset or typed in. A new size is only applied once the user says
+// what should happen to the content already on the slides.
+export const SlideSizeEditor: React.FC<SlideSizeEditorProps> = ({ size, onChange }) => {
+  const [pending, setPending] = useState<SlideSize | null>(null)
+  const shown = pending ?? size
+  const next = clampSlideSize(shown)
+  const changed = pending !== null && !sameSize(next, size)
+  const apply = (fit: SlideFit) => { setPending(null); onChange(next, fit) }
+  return (
+    <div className="space-y-2">
+      <label className="text-xs text-gray-600">Slide size
+        <select className="w-full border rounded px-2 py-1 text-sm" value={sizePreset(shown)?.id ?? CUSTOM} onChange={(e) => {
+          const preset = SLIDE_SIZE_PRESETS.find((p) => p.id === e.target.value)
+          if (preset) setPending(preset.size)
+        }}>
+          {SLIDE_SIZE_PRESETS.map((p) => <option key={p.id} value={p.id}>{p.name} ({p.size.width} × {p.size.height})</option>)}
+          <option value={CUSTOM} disabled>Custom</option>
+        </select>
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        {(['width', 'height'] as const).map((side) => (
+          <label key={side} className="text-xs text-gray-600">{side === 'width' ? 'Width' : 'Height'}
+            <input className="w-full border rounded px-2 py-1 text-sm" type="number" min={MIN_SLIDE_SIDE} max={MAX_SLIDE_SIDE} value={shown[side]}
+              onChange={(e) => setPending({ ...shown, [side]: Number(e.target.value) })} />
+          </label>
+        ))}
+      </div>
+      {changed && (
+        <div className="space-y-1">
+          <div className="text-xs text-gray-600">Resize to {next.width} × {next.height}. Existing content:</div>
+          <div className="flex flex-wrap gap-1">
+            {SLIDE_FITS.map(({ fit, label }) => (
+              <button key={fit} className="border rounded px-2 py-0.5 text-xs" onClick={() => apply(fit)}>{label}</button>
+            ))}
+            <button className="border rounded px-2 py-0.5 text-xs ml-auto" onClick={() => setPending(null)}>Cancel</button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
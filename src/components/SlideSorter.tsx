@@ -0,0 +1,64 @@
+'use client'
+
+import React, { useState } from 'react'
+import type { Slide, SlideLayout, SlideSize } from '@/lib/deck'
+import { SlideView } from './SlideView'
+
+type SlideSorterProps = {
+  slides: Slide[]
+  size: SlideSize
+  currentId: string
+  layouts: SlideLayout[]
+  onSelect: (id: string) => void
+  // Adds a slide after the current one, with the given layout or the one that usually follows.
+  onAdd: (layoutId?: string) => void
+  onDuplicate: (id: string) => void
+  onDelete: (id: string) => void
+  onMove: (from: number, to: number) => void
+}
+
+const THUMB_W = 144
+
+export const SlideSorter: React.FC<SlideSorterProps> = ({
+  slides, size, currentId, layouts, onSelect, onAdd, onDuplicate, onDelete, onMove,
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
+
+  const endDrag = () => { setDragIndex(null); setDropIndex(null) }
+
+  return (
+    <nav className="border-r bg-white/90 p-2 flex md:flex-col gap-2 overflow-auto">
+      <ol className="flex md:flex-col gap-2">
+        {slides.map((slide, i) => (
+          <li
+            key={slide.id}
+            draggable
+            onDragStart={(e) => { setDragIndex(i); e.dataTransfer.effectAllowed = 'move' }}
+            onDragOver={(e) => { if (dragIndex === null) return; e.preventDefault(); setDropIndex(i) }}
+            onDrop={(e) => { e.preventDefault(); if (dragIndex !== null) onMove(dragIndex, i); endDrag() }}
+            onDragEnd={endDrag}
+            onClick={() => onSelect(slide.id)}
+            className={`group relative flex gap-1 cursor-pointer rounded-lg p-1 ${slide.id === currentId ? 'ring-2 ring-gray-900' : 'hover:bg-gray-100'} ${dropIndex === i && dragIndex !== i ? 'outline-dashed outline-2 outline-gray-400' : ''} ${dragIndex === i ? 'opacity-50' : ''}`}
+          >
+            <div className="text-xs text-gray-500 w-4 text-right">{i + 1}</div>
+            <div className="border rounded overflow-hidden bg-white" style={{ width: THUMB_W }}>
+              <SlideView slide={slide} size={size} width={THUMB_W} />
+            </div>
+            <div className="absolute right-2 top-2 hidden group-hover:flex gap-1">
+              <button className="border rounded px-1 text-xs bg-white" title="Duplicate" onClick={(e) => { e.stopPropagation(); onDuplicate(slide.id) }}>⧉</button>
+              <button className="border rounded px-1 text-xs bg-white" title="Delete" disabled={slides.length <= 1} onClick={(e) => { e.stopPropagation(); onDelete(slide.id) }}>✕</button>
+            </div>
+          </li>
+        ))}
+      </ol>
+      <div className="flex gap-1 shrink-0">
+        <button className="flex-1 px-3 py-1.5 rounded-xl border text-sm" onClick={() => onAdd()}>+ Slide</button>
+        <select className="w-8 rounded-xl border text-sm" title="New slide with layout" value="" onChange={(e) => { if (e.target.value) onAdd(e.target.value) }}>
+          <option value="" disabled>Layout</option>
+          {layouts.map((l) => <option key={l.id} value={l.id}>{l.name}</option>)}
+        </select>
+      </div>
+    </nav>
+  )
+}
@@ -0,0 +1,76 @@
+'use client'
+
+import React from 'react'
+import { Stage, Layer, Group, Rect, Circle } from 'react-konva'
+import type { Shape, Slide, SlideSize } from '@/lib/deck'
+import { modelAnchorResolver, type AnchorResolver } from '@/lib/connectors'
+import { buildNodeId, visibleAfterBuilds, visibleBeforeBuilds, type BuildState } from '@/lib/builds'
+import { ImageView } from './ImageView'
+import { LinePath } from './LinePath'
+import { RichText } from './RichText'
+import { blendProps, styleProps } from './shapeStyle'
+
+// Read-only rendering of a slide, used for thumbnails and anywhere nothing should be interactive.
+
+type StaticShapeProps = {
+  s: Shape
+  // Places bound connector ends; thumbnails resolve them from the slide model.
+  resolve: AnchorResolver
+  // When set, shapes with builds are wrapped in a node the build player animates.
+  builds?: BuildState
+}
+
+export const StaticShape: React.FC<StaticShapeProps> = ({ s, resolve, builds }) => {
+  if (s.hidden) return null
+  const node = staticNode(s, resolve, builds)
+  if (!builds || !s.builds?.length) return node
+  const visible = builds === 'before' ? visibleBeforeBuilds(s) : visibleAfterBuilds(s)
+  return <Group id={buildNodeId(s.id)} opacity={visible ? 1 : 0}>{node}</Group>
+}
+
+function staticNode(s: Shape, resolve: AnchorResolver, builds: BuildState | undefined) {
+  if (s.kind === 'rect') {
+    return <Rect x={s.x} y={s.y} width={s.width} height={s.height} cornerRadius={s.cornerRadius ?? 0} fill={s.fill} stroke={s.stroke} strokeWidth={s.strokeWidth} rotation={s.rotation} {...styleProps(s)} />
+  }
+  if (s.kind === 'circle') {
+    return <Circle x={s.x} y={s.y} radius={s.radius} fill={s.fill} stroke={s.stroke} strokeWidth={s.strokeWidth} rotation={s.rotation} {...styleProps(s)} />
+  }
+  if (s.kind === 'text') {
+    return <RichText s={s} />
+  }
+  if (s.kind === 'line' || s.kind === 'arrow' || s.kind === 'connector') {
+    return <LinePath s={s} resolve={resolve} />
+  }
+  if (s.kind === 'group') {
+    return (
+      <Group x={s.x} y={s.y} rotation={s.rotation} {...blendProps(s)}>
+        {s.children.map((c) => (
+          <StaticShape key={c.id} s={c} resolve={resolve} builds={builds} />
+        ))}
+      </Group>
+    )
+  }
+  return <ImageView s={s} />
+}
+
+type SlideViewProps = {
+  slide: Slide
+  // The deck's slide size; the view is `width` pixels wide and as tall as that makes it.
+  size: SlideSize
+  width: number
+}
+
+export const SlideView: React.FC<SlideViewProps> = ({ slide, size, width }) => {
+  const scale = width / size.width
+  const resolve = modelAnchorResolver(slide.shapes)
+  return (
+    <Stage width={width} height={size.height * scale} listening={false}>
+      <Layer scaleX={scale} scaleY={scale}>
+        <Rect x={0} y={0} width={size.width} height={size.height} fill={slide.background} />
+        {slide.shapes.map((s) => (
+          <StaticShape key={s.id} s={s} resolve={resolve} />
+        ))}
+      </Layer>
+    </Stage>
+  )
+}
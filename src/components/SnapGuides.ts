@@ -0,0 +1,40 @@
+import Konva from 'konva'
+import type { SnapResult } from '@/lib/snapping'
+
+const GUIDE_COLOR = '#ec4899'
+const TICK = 4
+const FONT_SIZE = 11
+
+// Draws smart guides onto an overlay layer that shares the editor layer's slide transform.
+// Called on every drag move, so it works on Konva nodes directly rather than through React.
+// Sizes are divided by the zoom so lines and labels stay the same on screen.
+export function drawSnapGuides(layer: Konva.Layer, snap: SnapResult, scale: number) {
+  layer.destroyChildren()
+  const width = 1 / scale
+  for (const g of snap.guides) {
+    const points = g.axis === 'x' ? [g.at, g.from, g.at, g.to] : [g.from, g.at, g.to, g.at]
+    layer.add(new Konva.Line({ points, stroke: GUIDE_COLOR, strokeWidth: width, dash: [4 / scale, 3 / scale] }))
+  }
+  for (const gap of snap.gaps) {
+    const tick = TICK / scale
+    const along = (a: number, c: number) => (gap.axis === 'x' ? [a, c] : [c, a])
+    layer.add(new Konva.Line({ points: [...along(gap.from, gap.at), ...along(gap.to, gap.at)], stroke: GUIDE_COLOR, strokeWidth: width }))
+    for (const end of [gap.from, gap.to]) {
+      layer.add(new Konva.Line({ points: [...along(end, gap.at - tick), ...along(end, gap.at + tick)], stroke: GUIDE_COLOR, strokeWidth: width }))
+    }
+    const [x, y] = along((gap.from + gap.to) / 2, gap.at)
+    const label = new Konva.Label({ x, y })
+    label.add(new Konva.Tag({ fill: GUIDE_COLOR, cornerRadius: 3 / scale, pointerDirection: 'none' }))
+    label.add(new Konva.Text({ text: String(Math.round(gap.to - gap.from)), fontSize: FONT_SIZE / scale, padding: 2 / scale, fill: '#ffffff' }))
+    label.offsetX(label.width() / 2)
+    label.offsetY(label.height() / 2)
+    layer.add(label)
+  }
+  layer.batchDraw()
+}
+
+export function clearSnapGuides(layer: Konva.Layer | null) {
+  if (!layer || !layer.hasChildren()) return
+  layer.destroyChildren()
+  layer.batchDraw()
+}
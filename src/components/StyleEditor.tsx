@@ -0,0 +1,154 @@
+'use client'
+
+import React from 'react'
+import {
+  BLEND_MODES, DASH_STYLES, type BaseShape, type BlendMode, type CircleShape, type DashStyle, type Gradient, type RectShape,
+  type StrokeShape, type TextShape, type Theme, type ThemeColor,
+} from '@/lib/deck'
+import { DEFAULT_SHADOW, blendModeLabel, defaultGradient, type ShapeStyle } from '@/lib/style'
+import { ThemeSwatches } from './ThemeEditor'
+
+const MAX_STROKE = 40
+
+const toNumber = (value: string, fallback: number, min: number, max: number) => {
+  const n = Number(value)
+  return Number.isFinite(n) ? Math.max(min, Math.min(max, n)) : fallback
+}
+
+// A style edit; picking a theme colour sets the binding along with the colour.
+type StylePatch = ShapeStyle & Pick<BaseShape, 'themeRefs'>
+
+type StyleEditorProps = {
+  s: RectShape | CircleShape | TextShape | StrokeShape
+  theme: Theme
+  onChange: (style: StylePatch) => void
+}
+
+// Fill, stroke, opacity, shadow and blending, shared by every inspector section that styles a shape.
+// Only the controls the shape's kind can use are shown: text has a colour but no outline, lines have
+// an outline but no fill.
+export const StyleEditor: React.FC<StyleEditorProps> = ({ s, theme, onChange }) => {
+  const filled = s.kind === 'rect' || s.kind === 'circle'
+  const stroked = s.kind !== 'text'
+  const shadow = s.shadow
+  const bind = (field: 'fill' | 'stroke') => (color: ThemeColor) => onChange({ [field]: theme.colors[color], themeRefs: { ...s.themeRefs, [field]: color } })
+  return (
+    <div className="space-y-2">
+      {s.kind === 'text' && (
+        <label className="text-xs text-gray-600">Color
+          <input className="w-full" type="color" value={s.fill} onChange={(e) => onChange({ fill: e.target.value })} />
+        </label>
+      )}
+      {filled && <FillEditor fill={s.fill} gradient={s.fillGradient} onChange={onChange} />}
+      {(s.kind === 'text' || (filled && !s.fillGradient)) && <ThemeSwatches theme={theme} value={s.themeRefs?.fill} onPick={bind('fill')} />}
+      {stroked && (
+        <div className="grid grid-cols-3 gap-2">
+          <label className="text-xs text-gray-600">Stroke
+            <input className="w-full" type="color" value={s.stroke ?? '#000000'} onChange={(e) => onChange({ stroke: e.target.value })} />
+          </label>
+          <label className="text-xs text-gray-600">Width
+            <input className="w-full border rounded px-2 py-1 text-sm" type="number" value={s.strokeWidth ?? 0}
+              onChange={(e) => onChange({ strokeWidth: toNumber(e.target.value, s.strokeWidth ?? 0, filled ? 0 : 1, MAX_STROKE) })} />
+          </label>
+          <label className="text-xs text-gray-600">Dash
+            <select className="w-full border rounded px-2 py-1 text-sm" value={s.dash ?? 'solid'} onChange={(e) => onChange({ dash: e.target.value === 'solid' ? undefined : e.target.value as DashStyle })}>
+              {DASH_STYLES.map((d) => <option key={d} value={d}>{d}</option>)}
+            </select>
+          </label>
+        </div>
+      )}
+      {stroked && <ThemeSwatches theme={theme} value={s.themeRefs?.stroke} onPick={bind('stroke')} />}
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-gray-600">Opacity
+          <input className="w-full" type="range" min={0} max={1} step={0.05} value={s.opacity ?? 1} onChange={(e) => onChange({ opacity: Number(e.target.value) === 1 ? undefined : Number(e.target.value) })} />
+        </label>
+        <label className="text-xs text-gray-600">Blend
+          <select className="w-full border rounded px-2 py-1 text-sm" value={s.blendMode ?? ''} onChange={(e) => onChange({ blendMode: (e.target.value || undefined) as BlendMode | undefined })}>
+            <option value="">Normal</option>
+            {BLEND_MODES.map((m) => <option key={m} value={m}>{blendModeLabel(m)}</option>)}
+          </select>
+        </label>
+      </div>
+      <label className="flex items-center gap-2 text-xs text-gray-600">
+        <input type="checkbox" checked={!!shadow} onChange={(e) => onChange({ shadow: e.target.checked ? DEFAULT_SHADOW : undefined })} /> Shadow
+      </label>
+      {shadow && (
+        <div className="grid grid-cols-3 gap-2">
+          <label className="text-xs text-gray-600">Color
+            <input className="w-full" type="color" value={shadow.color} onChange={(e) => onChange({ shadow: { ...shadow, color: e.target.value } })} />
+          </label>
+          <label className="text-xs text-gray-600">Blur
+            <input className="w-full border rounded px-2 py-1 text-sm" type="number" value={shadow.blur} onChange={(e) => onChange({ shadow: { ...shadow, blur: toNumber(e.target.value, shadow.blur, 0, 200) } })} />
+          </label>
+          <label className="text-xs text-gray-600">Opacity
+            <input className="w-full border rounded px-2 py-1 text-sm" type="number" min={0} max={1} step={0.05} value={shadow.opacity} onChange={(e) => onChange({ shadow: { ...shadow, opacity: toNumber(e.target.value, shadow.opacity, 0, 1) } })} />
+          </label>
+          <label className="text-xs text-gray-600">Offset X
+            <input className="w-full border rounded px-2 py-1 text-sm" type="number" value={shadow.offsetX} onChange={(e) => onChange({ shadow: { ...shadow, offsetX: toNumber(e.target.value, shadow.offsetX, -500, 500) } })} />
+          </label>
+          <label className="text-xs text-gray-600">Offset Y
+            <input className="w-full border rounded px-2 py-1 text-sm" type="number" value={shadow.offsetY} onChange={(e) => onChange({ shadow: { ...shadow, offsetY: toNumber(e.target.value, shadow.offsetY, -500, 500) } })} />
+          </label>
+        </div>
+      )}
+    </div>
+  )
+}
+
+type FillEditorProps = {
+  fill: string
+  gradient?: Gradient
+  onChange: (style: ShapeStyle) => void
+}
+
+// A solid colour, or a linear or radial gradient with its stops. The solid colour follows the first
+// stop, so formats that can't draw gradients still get a sensible fill.
+const FillEditor: React.FC<FillEditorProps> = ({ fill, gradient, onChange }) => {
+  const setGradient = (g: Gradient) => onChange({ fillGradient: g, fill: g.stops[0]?.color ?? fill })
+  const setStop = (i: number, patch: Partial<Gradient['stops'][number]>) => {
+    if (gradient) setGradient({ ...gradient, stops: gradient.stops.map((stop, j) => (j === i ? { ...stop, ...patch } : stop)) })
+  }
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-gray-600">Fill
+          <select className="w-full border rounded px-2 py-1 text-sm" value={gradient?.kind ?? 'solid'} onChange={(e) => {
+            const kind = e.target.value
+            if (kind === 'solid') onChange({ fillGradient: undefined })
+            else setGradient(gradient ? { ...gradient, kind: kind as Gradient['kind'] } : defaultGradient(fill, kind as Gradient['kind']))
+          }}>
+            <option value="solid">Solid</option>
+            <option value="linear">Linear gradient</option>
+            <option value="radial">Radial gradient</option>
+          </select>
+        </label>
+        {!gradient && (
+          <label className="text-xs text-gray-600">Color
+            <input className="w-full" type="color" value={fill} onChange={(e) => onChange({ fill: e.target.value })} />
+          </label>
+        )}
+        {gradient?.kind === 'linear' && (
+          <label className="text-xs text-gray-600">Angle
+            <input className="w-full border rounded px-2 py-1 text-sm" type="number" step={15} value={gradient.angle} onChange={(e) => setGradient({ ...gradient, angle: toNumber(e.target.value, gradient.angle, -360, 360) })} />
+          </label>
+        )}
+      </div>
+      {gradient && (
+        <div className="space-y-1">
+          {gradient.stops.map((stop, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <input type="color" value={stop.color} onChange={(e) => setStop(i, { color: e.target.value })} />
+              <input className="flex-1" type="range" min={0} max={1} step={0.01} value={stop.offset} onChange={(e) => setStop(i, { offset: Number(e.target.value) })} />
+              <button className="border rounded px-1 text-xs" title="Remove stop" disabled={gradient.stops.length <= 2}
+                onClick={() => setGradient({ ...gradient, stops: gradient.stops.filter((_, j) => j !== i) })}>✕</button>
+            </div>
+          ))}
+          <button className="border rounded px-2 py-0.5 text-xs" onClick={() => {
+            const last = gradient.stops[gradient.stops.length - 1]
+            setGradient({ ...gradient, stops: [...gradient.stops, { offset: 1, color: last?.color ?? fill }] })
+          }}>+ Stop</button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+'use client'
+
+import React from 'react'
+import { THEME_COLORS, THEME_FONTS, type Theme, type ThemeColor } from '@/lib/deck'
+import { THEME_PRESETS, themeColorLabel } from '@/lib/theme'
+import { FONT_FAMILIES } from '@/lib/richText'
+
+const CUSTOM_THEME_NAME = 'Custom'
+
+type ThemeSwatchesProps = {
+  theme: Theme
+  // The colour the field is bound to, highlighted.
+  value?: ThemeColor
+  onPick: (color: ThemeColor) => void
+}
+
+// The theme palette as buttons that bind a field to one of its colours.
+export const ThemeSwatches: React.FC<ThemeSwatchesProps> = ({ theme, value, onPick }) => (
+  <div className="flex gap-1">
+    {THEME_COLORS.map((c) => (
+      <button
+        key={c}
+        title={themeColorLabel(c)}
+        className={`w-5 h-5 rounded border ${value === c ? 'ring-2 ring-offset-1 ring-gray-900' : ''}`}
+        style={{ background: theme.colors[c] }}
+        onClick={() => onPick(c)}
+      />
+    ))}
+  </div>
+)
+
+type ThemeEditorProps = {
+  theme: Theme
+  onChange: (theme: Theme) => void
+}
+
+// Preset, palette and fonts of the deck theme. Editing a preset's colours or fonts makes it a
+// custom theme.
+export const ThemeEditor: React.FC<ThemeEditorProps> = ({ theme, onChange }) => {
+  const isPreset = THEME_PRESETS.some((p) => p.name === theme.name)
+  const edit = (patch: Partial<Theme>) => onChange({ ...theme, ...patch, name: CUSTOM_THEME_NAME })
+  return (
+    <div className="space-y-2">
+      <label className="text-xs text-gray-600">Theme
+        <select className="w-full border rounded px-2 py-1 text-sm" value={theme.name} onChange={(e) => {
+          const preset = THEME_PRESETS.find((p) => p.name === e.target.value)
+          if (preset) onChange(preset)
+        }}>
+          {THEME_PRESETS.map((p) => <option key={p.name} value={p.name}>{p.name}</option>)}
+          {!isPreset && <option value={theme.name}>{theme.name}</option>}
+        </select>
+      </label>
+      <div className="grid grid-cols-3 gap-2">
+        {THEME_COLORS.map((c) => (
+          <label key={c} className="text-xs text-gray-600">{themeColorLabel(c)}
+            <input className="w-full" type="color" value={theme.colors[c]} onChange={(e) => edit({ colors: { ...theme.colors, [c]: e.target.value } })} />
+          </label>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {THEME_FONTS.map((f) => (
+          <label key={f} className="text-xs text-gray-600">{f === 'heading' ? 'Heading font' : 'Body font'}
+            <select className="w-full border rounded px-2 py-1 text-sm" value={theme.fonts[f]} onChange={(e) => edit({ fonts: { ...theme.fonts, [f]: e.target.value } })}>
+              {FONT_FAMILIES.map((family) => <option key={family} value={family}>{family}</option>)}
+            </select>
+          </label>
+        ))}
+      </div>
+    </div>
+  )
+}
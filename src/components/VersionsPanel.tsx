@@ -0,0 +1,144 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import type { Deck } from '@/lib/deck'
+import type { VersionStore } from '@/lib/versionStore'
+import type { VersionMeta } from '@/lib/versions'
+import { DeckDiff } from './DeckDiff'
+
+type VersionsPanelProps = {
+  store: VersionStore
+  current: Deck
+  onRestore: (deck: Deck, version: VersionMeta) => void
+  onFork: (deck: Deck, version: VersionMeta) => void
+  onClose: () => void
+}
+
+// One side of a comparison: a saved version, or the deck as it is now (id CURRENT).
+type Side = { id: string; label: string; deck: Deck }
+
+const CURRENT = 'current'
+
+// Saved versions of the deck, newest first, with a form to save a new one. Any version can be
+// restored, forked into a new deck, or compared with the current deck or another version.
+export const VersionsPanel: React.FC<VersionsPanelProps> = ({ store, current, onRestore, onFork, onClose }) => {
+  const [versions, setVersions] = useState<VersionMeta[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [compare, setCompare] = useState<{ before: Side; after: Side } | null>(null)
+
+  const refresh = useCallback(() => {
+    store.list().then(setVersions, (err: Error) => setError(err.message))
+  }, [store])
+  useEffect(() => { refresh() }, [refresh])
+
+  // Runs a store operation, showing its error instead of throwing.
+  const attempt = async <T,>(task: () => Promise<T>): Promise<T | null> => {
+    setBusy(true)
+    setError(null)
+    try {
+      return await task()
+    } catch (err) {
+      setError((err as Error).message)
+      return null
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const load = (v: VersionMeta) => attempt(async () => {
+    const deck = await store.get(v.id)
+    if (!deck) throw new Error(`Version "${v.name}" could not be loaded.`)
+    return deck
+  })
+
+  const saveVersion = async () => {
+    if (!name.trim()) return
+    if (await attempt(() => store.save(current, name.trim(), false))) {
+      setName('')
+      refresh()
+    }
+  }
+
+  const sideFor = async (id: string): Promise<Side | null> => {
+    if (id === CURRENT) return { id, label: 'Current', deck: current }
+    const v = versions?.find((x) => x.id === id)
+    const deck = v && (await load(v))
+    return v && deck ? { id, label: v.name, deck } : null
+  }
+
+  const startCompare = async (v: VersionMeta) => {
+    const before = await sideFor(v.id)
+    if (before) setCompare({ before, after: { id: CURRENT, label: 'Current', deck: current } })
+  }
+
+  const changeCompared = async (which: 'before' | 'after', id: string) => {
+    const side = await sideFor(id)
+    if (side && compare) setCompare({ ...compare, [which]: side })
+  }
+
+  const sidePicker = (which: 'before' | 'after') => (
+    <select className="border rounded px-2 py-1 text-sm" value={compare?.[which].id} onChange={(e) => changeCompared(which, e.target.value)}>
+      <option value={CURRENT}>Current</option>
+      {versions?.map((v) => <option key={v.id} value={v.id}>{v.name}</option>)}
+    </select>
+  )
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4" onClick={onClose}>
+      <div role="dialog" aria-labelledby="versions-title" className="w-full max-w-4xl max-h-full overflow-auto rounded-xl border bg-white shadow-lg p-4 space-y-3" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-2">
+          <div id="versions-title" className="font-medium">{compare ? 'Compare versions' : 'Versions'}</div>
+          {compare && (
+            <div className="flex items-center gap-2 text-sm">
+              {sidePicker('before')} → {sidePicker('after')}
+              <button className="px-3 py-1.5 rounded-xl border text-sm" onClick={() => setCompare(null)}>Back</button>
+            </div>
+          )}
+          <button className="ml-auto px-3 py-1.5 rounded-xl border text-sm" onClick={onClose}>Close</button>
+        </div>
+        {error && <div className="rounded bg-red-50 px-2 py-1 text-sm text-red-700">{error}</div>}
+
+        {compare ? (
+          <DeckDiff before={compare.before.deck} after={compare.after.deck} beforeLabel={compare.before.label} afterLabel={compare.after.label} />
+        ) : (
+          <>
+            <form className="flex gap-2" onSubmit={(e) => { e.preventDefault(); saveVersion() }}>
+              <input className="flex-1 border rounded px-2 py-1 text-sm" placeholder="Name this version, e.g. Sent to client v2" value={name} onChange={(e) => setName(e.target.value)} />
+              <button className="px-3 py-1.5 rounded-xl border text-sm bg-gray-900 text-white" type="submit" disabled={busy || !name.trim()}>Save version</button>
+            </form>
+            {versions === null && !error && <div className="text-sm text-gray-500">Loading…</div>}
+            {versions?.length === 0 && <div className="text-sm text-gray-500">No versions yet. Automatic snapshots are taken while you edit.</div>}
+            <ul className="space-y-2">
+              {versions?.map((v) => (
+                <li key={v.id} className="flex items-center gap-3 rounded-lg border p-2">
+                  {v.thumbnail ? (
+                    // A small data URL; there is nothing for next/image to optimize.
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img src={v.thumbnail} alt="" className="w-32 rounded border" />
+                  ) : (
+                    <div className="w-32 aspect-video rounded border bg-gray-50" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium truncate">{v.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {new Date(v.createdAt).toLocaleString()} · {v.slideCount} slide{v.slideCount === 1 ? '' : 's'}
+                      {v.auto && <span className="ml-2 rounded bg-gray-100 px-1">auto</span>}
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    <button className="border rounded px-2 py-1 text-xs" disabled={busy} onClick={() => startCompare(v)}>Compare</button>
+                    <button className="border rounded px-2 py-1 text-xs" disabled={busy} onClick={async () => { const deck = await load(v); if (deck) onRestore(deck, v) }}>Restore</button>
+                    <button className="border rounded px-2 py-1 text-xs" disabled={busy} onClick={async () => { const deck = await load(v); if (deck) onFork(deck, v) }}>Fork</button>
+                    <button className="border rounded px-2 py-1 text-xs" disabled={busy} title="Delete" onClick={async () => { await attempt(() => store.remove(v.id)); refresh() }}>✕</button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
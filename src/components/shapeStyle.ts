@@ -0,0 +1,43 @@
+import type Konva from 'konva'
+import type { Gradient, Shape } from '@/lib/deck'
+import { dashArray, gradientGeometry, gradientStops } from '@/lib/style'
+import { localBox, type Box } from '@/lib/geometry'
+
+// Konva attributes for a shape's style (see lib/style). Every attribute is always present, so
+// clearing a setting in the model resets it on a node react-konva is updating in place.
+
+// Opacity and blending, which groups and images take too.
+export function blendProps(s: Shape): Konva.NodeConfig {
+  return { opacity: s.opacity ?? 1, globalCompositeOperation: s.blendMode ?? 'source-over' }
+}
+
+export function styleProps(s: Shape): Konva.ShapeConfig {
+  const shadow = s.shadow
+  const props: Konva.ShapeConfig = {
+    ...blendProps(s),
+    shadowEnabled: !!shadow,
+    shadowColor: shadow?.color,
+    shadowBlur: shadow?.blur ?? 0,
+    shadowOffsetX: shadow?.offsetX ?? 0,
+    shadowOffsetY: shadow?.offsetY ?? 0,
+    shadowOpacity: shadow?.opacity ?? 1,
+  }
+  if (s.kind === 'rect' || s.kind === 'circle') return { ...props, ...gradientProps(s.fillGradient, localBox(s)), dash: dashArray(s.dash, s.strokeWidth ?? 0) }
+  if (s.kind === 'line' || s.kind === 'arrow' || s.kind === 'connector') return { ...props, dash: dashArray(s.dash, s.strokeWidth) }
+  return props
+}
+
+function gradientProps(g: Gradient | undefined, box: Box): Konva.ShapeConfig {
+  if (!g) return { fillPriority: 'color' }
+  const { start, end, radius } = gradientGeometry(g, box)
+  const stops = gradientStops(g).flatMap((stop) => [stop.offset, stop.color])
+  if (g.kind === 'radial') {
+    return {
+      fillPriority: 'radial-gradient',
+      fillRadialGradientStartPoint: start, fillRadialGradientEndPoint: end,
+      fillRadialGradientStartRadius: 0, fillRadialGradientEndRadius: radius,
+      fillRadialGradientColorStops: stops,
+    }
+  }
+  return { fillPriority: 'linear-gradient', fillLinearGradientStartPoint: start, fillLinearGradientEndPoint: end, fillLinearGradientColorStops: stops }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { alignShapes, distributeShapes, slideBounds } from './align'
+import { group, rect } from './testShapes'
+
+const slide = { width: 1920, height: 1080 }
+
+describe('alignShapes', () => {
+  it('lines shapes up on the selection bounds', () => {
+    const moves = alignShapes([rect('a', 10, 0), rect('b', 200, 40, { width: 50 })], ['a', 'b'], 'right', 'selection', slide)
+    expect(moves.get('a')).toEqual({ x: 150, y: 0 })
+    expect(moves.get('b')).toEqual({ x: 200, y: 40 })
+  })
+
+  it('leaves the key shape where it is', () => {
+    const moves = alignShapes([rect('a', 10, 0), rect('b', 200, 40)], ['a', 'b'], 'top', 'key', slide, 'b')
+    expect([...moves.keys()]).toEqual(['a'])
+    expect(moves.get('a')).toEqual({ x: 10, y: 40 })
+  })
+
+  it('centres on the slide by what is drawn, rotation included', () => {
+    // Turned a quarter about its top-left corner, the 100×50 box covers x -50…0.
+    const moves = alignShapes([rect('a', 0, 0, { rotation: 90 })], ['a'], 'centerX', 'slide', slide)
+    expect(moves.get('a')?.x).toBeCloseTo(985)
+  })
+
+  it('moves shapes inside a group in the group’s own space', () => {
+    const shapes = [group('g', [rect('a', 10, 10)], 100, 100)]
+    expect(slideBounds(shapes, 'a')).toMatchObject({ x: 110, y: 110 })
+    expect(alignShapes(shapes, ['a'], 'left', 'slide', slide).get('a')).toEqual({ x: -100, y: 10 })
+  })
+})
+
+describe('distributeShapes', () => {
+  it('spaces shapes evenly between the outer ones', () => {
+    const moves = distributeShapes([rect('a'), rect('b', 130), rect('c', 400)], ['a', 'b', 'c'], 'x')
+    expect([...moves.values()].map((p) => p.x)).toEqual([0, 200, 400])
+  })
+
+  it('measures the span to the edge that reaches furthest', () => {
+    // b starts before c but ends after it, so the span runs to b's far edge.
+    const shapes = [rect('a'), rect('b', 200, 0, { width: 400 }), rect('c', 300, 0, { width: 50 })]
+    const moves = distributeShapes(shapes, ['a', 'b', 'c'], 'x')
+    expect(moves.get('a')?.x).toBe(0)
+    expect(moves.get('b')?.x).toBe(125)
+    expect(moves.get('c')?.x).toBe(550)
+  })
+
+  it('needs at least three shapes', () => {
+    expect(distributeShapes([rect('a'), rect('b', 300)], ['a', 'b'], 'y').size).toBe(0)
+  })
+})
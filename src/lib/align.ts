@@ -0,0 +1,82 @@
+import { findPath, findShape, type Shape, type SlideSize } from './deck'
+import { shapeMatrix } from './connectors'
+import { IDENTITY, applyMatrix, invertMatrix, localBox, transformedBox, unionBox, type Box, type Point } from './geometry'
+
+// ---------- Align & distribute ----------
+// Works on each shape's rotated bounds in slide space, so nested and rotated shapes line up by what
+// is actually drawn. Results are new x/y positions in each shape's own parent space.
+
+export type AlignEdge = 'left' | 'centerX' | 'right' | 'top' | 'centerY' | 'bottom'
+
+// What shapes are aligned against: the slide, the selection's overall bounds, or one key shape
+// that stays put.
+export type AlignReference = 'slide' | 'selection' | 'key'
+
+export const ALIGN_REFERENCES: AlignReference[] = ['slide', 'selection', 'key']
+
+export function slideBounds(shapes: Shape[], id: string): Box | null {
+  const s = findShape(shapes, id)
+  return s ? transformedBox(shapeMatrix(shapes, id), localBox(s)) : null
+}
+
+// Turns a move in slide space into the new x/y of a shape inside possibly rotated groups.
+function moved(shapes: Shape[], s: Shape, dx: number, dy: number): Point {
+  const parentId = findPath(shapes, s.id).slice(-2, -1)[0]
+  const toParent = invertMatrix(parentId ? shapeMatrix(shapes, parentId) : IDENTITY)
+  const origin = applyMatrix(toParent, { x: 0, y: 0 })
+  const d = applyMatrix(toParent, { x: dx, y: dy })
+  return { x: s.x + d.x - origin.x, y: s.y + d.y - origin.y }
+}
+
+function boundsOf(shapes: Shape[], ids: string[]): { s: Shape; box: Box }[] {
+  return ids.flatMap((id) => {
+    const s = findShape(shapes, id)
+    const box = slideBounds(shapes, id)
+    return s && box ? [{ s, box }] : []
+  })
+}
+
+// `slide` is the size of the slide the shapes are on, for aligning to the slide.
+export function alignShapes(shapes: Shape[], ids: string[], edge: AlignEdge, reference: AlignReference, slide: SlideSize, keyId?: string): Map<string, Point> {
+  const items = boundsOf(shapes, ids)
+  const target = reference === 'slide' ? { x: 0, y: 0, ...slide }
+    : reference === 'key' ? (keyId && slideBounds(shapes, keyId))
+      : items.length > 0 ? unionBox(items.map((i) => i.box)) : null
+  const out = new Map<string, Point>()
+  if (!target) return out
+  for (const { s, box } of items) {
+    if (reference === 'key' && s.id === keyId) continue
+    let dx = 0
+    let dy = 0
+    if (edge === 'left') dx = target.x - box.x
+    if (edge === 'centerX') dx = target.x + target.width / 2 - (box.x + box.width / 2)
+    if (edge === 'right') dx = target.x + target.width - (box.x + box.width)
+    if (edge === 'top') dy = target.y - box.y
+    if (edge === 'centerY') dy = target.y + target.height / 2 - (box.y + box.height / 2)
+    if (edge === 'bottom') dy = target.y + target.height - (box.y + box.height)
+    out.set(s.id, moved(shapes, s, dx, dy))
+  }
+  return out
+}
+
+// Spaces shapes with equal gaps, in the order of their near edges, between the selection's near
+// and far edges. The far edge is whichever shape reaches furthest, which need not be the one that
+// starts last.
+export function distributeShapes(shapes: Shape[], ids: string[], axis: 'x' | 'y'): Map<string, Point> {
+  const items = boundsOf(shapes, ids)
+  const out = new Map<string, Point>()
+  if (items.length < 3) return out
+  const start = (b: Box) => (axis === 'x' ? b.x : b.y)
+  const size = (b: Box) => (axis === 'x' ? b.width : b.height)
+  items.sort((a, b) => start(a.box) - start(b.box))
+  const first = items[0].box
+  const span = Math.max(...items.map((i) => start(i.box) + size(i.box))) - start(first)
+  const gap = (span - items.reduce((n, i) => n + size(i.box), 0)) / (items.length - 1)
+  let cursor = start(first)
+  for (const { s, box } of items) {
+    const d = cursor - start(box)
+    out.set(s.id, moved(shapes, s, axis === 'x' ? d : 0, axis === 'y' ? d : 0))
+    cursor += size(box) + gap
+  }
+  return out
+}
@@ -0,0 +1,213 @@
+import { flattenShapes, mapShapeTree, type Deck, type ImageShape, type Shape } from './deck'
+
+// ---------- Asset store ----------
+// Image bytes live in IndexedDB, keyed by a hash of their content, so identical uploads share one
+// record and documents only carry the asset id.
+
+const DB_NAME = 'slide-deck-assets'
+const STORE = 'assets'
+
+export type AssetRecord = {
+  id: string
+  blob: Blob
+  // Last time the asset was stored; garbage collection spares anything stored during the current session.
+  storedAt: number
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, 1)
+      req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: 'id' })
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => reject(req.error)
+    })
+  }
+  return dbPromise
+}
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb()
+  return promisify(fn(db.transaction(STORE, mode).objectStore(STORE)))
+}
+
+export async function hashBlob(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer())
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+// Stores `blob` and returns its asset id. Identical content maps to the same id, so re-uploading an
+// image only refreshes the existing record.
+export async function putAsset(blob: Blob): Promise<string> {
+  const id = await hashBlob(blob)
+  const record: AssetRecord = { id, blob, storedAt: Date.now() }
+  await withStore('readwrite', (store) => store.put(record))
+  return id
+}
+
+export async function getAsset(id: string): Promise<Blob | undefined> {
+  const record = await withStore<AssetRecord | undefined>('readonly', (store) => store.get(id))
+  return record?.blob
+}
+
+// ---------- Object URLs & decoded images ----------
+
+const urlCache = new Map<string, Promise<string>>()
+const imageCache = new Map<string, Promise<HTMLImageElement>>()
+const loadedImages = new Map<string, HTMLImageElement>()
+
+export function assetUrl(id: string): Promise<string> {
+  let url = urlCache.get(id)
+  if (!url) {
+    url = getAsset(id).then((blob) => {
+      if (!blob) throw new Error(`Missing asset ${id}`)
+      return URL.createObjectURL(blob)
+    })
+    url.catch(() => urlCache.delete(id))
+    urlCache.set(id, url)
+  }
+  return url
+}
+
+export function loadAssetImage(id: string): Promise<HTMLImageElement> {
+  let image = imageCache.get(id)
+  if (!image) {
+    image = assetUrl(id).then((url) => new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image()
+      img.onload = () => { loadedImages.set(id, img); resolve(img) }
+      img.onerror = () => reject(new Error('this browser could not decode the image'))
+      img.src = url
+    }))
+    image.catch(() => imageCache.delete(id))
+    imageCache.set(id, image)
+  }
+  return image
+}
+
+// The asset as a data: URL, for exports that must be self-contained.
+export async function assetDataUrl(id: string): Promise<string | null> {
+  const blob = await getAsset(id)
+  if (!blob) return null
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+// The decoded image if it is already loaded, so remounted nodes can draw without a blank frame.
+export function cachedAssetImage(id: string): HTMLImageElement | null {
+  return loadedImages.get(id) ?? null
+}
+
+// ---------- Garbage collection ----------
+
+export function assetIdsIn(shapeLists: Shape[][]): Set<string> {
+  const ids = new Set<string>()
+  for (const list of shapeLists) {
+    for (const s of flattenShapes(list)) if (s.kind === 'image' && s.assetId) ids.add(s.assetId)
+  }
+  return ids
+}
+
+// Deletes every asset not in `keep` that was last stored before `before`; returns how many were removed.
+export async function collectGarbage(keep: Set<string>, before = Date.now()): Promise<number> {
+  const records = await withStore<AssetRecord[]>('readonly', (store) => store.getAll())
+  const unused = records.filter((r) => !keep.has(r.id) && r.storedAt < before).map((r) => r.id)
+  if (unused.length === 0) return 0
+  const db = await openDb()
+  const tx = db.transaction(STORE, 'readwrite')
+  unused.forEach((id) => tx.objectStore(STORE).delete(id))
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+  })
+  for (const id of unused) {
+    urlCache.get(id)?.then((url) => URL.revokeObjectURL(url), () => {})
+    urlCache.delete(id)
+    imageCache.delete(id)
+    loadedImages.delete(id)
+  }
+  return unused.length
+}
+
+// ---------- Server copies ----------
+// Documents on a server only carry asset ids, so the images travel separately: uploaded before
+// a document that uses them is sent, fetched into the local store when one arrives. `urlFor` maps
+// an asset id to its URL on the server; `synced` remembers ids already dealt with.
+
+const deckAssetIds = (deck: Deck) => assetIdsIn(deck.slides.map((sl) => sl.shapes))
+
+// An upload the server answered with an error. A refusal (a file type it doesn't store, a file too
+// large) comes back the same however often it is retried, so callers report it instead.
+export class AssetUploadError extends Error {
+  constructor(readonly status: number) {
+    super(status === 415 ? 'An image in the deck is a file type the server does not store (415)'
+      : status === 413 ? 'An image in the deck is too large for the server (413)'
+        : `Uploading an image failed (${status})`)
+  }
+
+  get refused(): boolean {
+    return this.status >= 400 && this.status < 500
+  }
+}
+
+export async function uploadAssets(deck: Deck, urlFor: (id: string) => string, synced: Set<string>) {
+  for (const id of deckAssetIds(deck)) {
+    if (synced.has(id)) continue
+    const blob = await getAsset(id)
+    if (blob) {
+      const res = await fetch(urlFor(id), { method: 'PUT', headers: { 'Content-Type': blob.type || 'application/octet-stream' }, body: blob })
+      if (!res.ok) throw new AssetUploadError(res.status)
+    }
+    synced.add(id)
+  }
+}
+
+export async function downloadAssets(deck: Deck, urlFor: (id: string) => string, synced: Set<string>) {
+  for (const id of deckAssetIds(deck)) {
+    if (synced.has(id)) continue
+    if (!(await getAsset(id))) {
+      const res = await fetch(urlFor(id))
+      if (res.ok) await putAsset(await res.blob())
+    }
+    synced.add(id)
+  }
+}
+
+// ---------- Migration ----------
+
+// Documents saved before the asset store kept a `src` URL on image shapes. Sources that can still be
+// fetched (data: and remote URLs) move into the store; dead blob: URLs are left without an asset.
+export async function migrateImageSources(deck: Deck): Promise<Deck> {
+  const legacySrc = (s: Shape) => {
+    const src = (s as Shape & { src?: unknown }).src
+    return s.kind === 'image' && !s.assetId && typeof src === 'string' ? src : null
+  }
+  const legacy = deck.slides.flatMap((sl) => flattenShapes(sl.shapes)).filter((s) => legacySrc(s))
+  if (legacy.length === 0) return deck
+  const ids = new Map<string, string>()
+  for (const s of legacy) {
+    try {
+      const res = await fetch(legacySrc(s) as string)
+      if (res.ok) ids.set(s.id, await putAsset(await res.blob()))
+    } catch {}
+  }
+  const migrate = (s: Shape): Shape => {
+    if (s.kind !== 'image' || !ids.has(s.id)) return s
+    const next: ImageShape & { src?: string } = { ...s, assetId: ids.get(s.id) as string }
+    delete next.src
+    return next
+  }
+  return { ...deck, slides: deck.slides.map((sl) => ({ ...sl, shapes: mapShapeTree(sl.shapes, migrate) })) }
+}
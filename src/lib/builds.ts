@@ -0,0 +1,72 @@
+import type { BuildAnimation, BuildEasing, BuildEdge, BuildEffect, BuildTrigger, Shape } from './deck'
+
+// ---------- Build animations ----------
+// Each shape carries its own ordered list of builds; a slide's timeline walks the shapes in paint
+// order and splits their builds into steps at every on-click trigger. Builds in a step run one
+// after another, each starting `delay` ms after the previous one ends.
+
+export const BUILD_EFFECTS: BuildEffect[] = ['fade', 'fly', 'scale', 'wipe']
+export const BUILD_EDGES: BuildEdge[] = ['left', 'right', 'top', 'bottom']
+export const BUILD_EASINGS: BuildEasing[] = ['linear', 'ease-in', 'ease-out', 'ease-in-out']
+export const BUILD_TRIGGERS: BuildTrigger[] = ['on-click', 'after-previous']
+
+// Fly and wipe are the only effects with a direction.
+export const hasEdge = (effect: BuildEffect) => effect === 'fly' || effect === 'wipe'
+
+export function createBuild(type: BuildAnimation['type']): BuildAnimation {
+  return { type, effect: 'fade', edge: 'left', duration: 500, delay: 0, easing: 'ease-out', trigger: 'on-click' }
+}
+
+export type ScheduledBuild = {
+  shapeId: string
+  build: BuildAnimation
+  // Milliseconds after the step starts.
+  start: number
+}
+
+export type BuildStep = {
+  builds: ScheduledBuild[]
+  duration: number
+}
+
+// Shapes hidden in the editor are never presented, so neither are their builds.
+function presentedShapes(shapes: Shape[]): Shape[] {
+  return shapes.flatMap((s) => (s.hidden ? [] : s.kind === 'group' ? [s, ...presentedShapes(s.children)] : [s]))
+}
+
+// Step 0 holds the builds that run as soon as the slide appears and may be empty; every later step
+// starts with an on-click build.
+export function slideTimeline(shapes: Shape[]): BuildStep[] {
+  const steps: BuildStep[] = [{ builds: [], duration: 0 }]
+  let cursor = 0
+  for (const s of presentedShapes(shapes)) {
+    for (const build of s.builds ?? []) {
+      if (build.trigger === 'on-click') {
+        steps.push({ builds: [], duration: 0 })
+        cursor = 0
+      }
+      const step = steps[steps.length - 1]
+      const start = cursor + build.delay
+      step.builds.push({ shapeId: s.id, build, start })
+      cursor = start + build.duration
+      step.duration = Math.max(step.duration, cursor)
+    }
+  }
+  return steps
+}
+
+// A shape whose first build is an entrance waits off-stage; one whose last build is an exit ends there.
+export function visibleBeforeBuilds(s: Shape): boolean {
+  return s.builds?.[0]?.type !== 'entrance'
+}
+
+export function visibleAfterBuilds(s: Shape): boolean {
+  return s.builds?.[s.builds.length - 1]?.type !== 'exit'
+}
+
+// Which end of the timeline a slide is drawn at: before any build (entering forwards) or after all
+// of them (stepping back onto it).
+export type BuildState = 'before' | 'after'
+
+// Id of the wrapper node that build animations move, fade and clip, leaving the shape's own node alone.
+export const buildNodeId = (shapeId: string) => `build-${shapeId}`
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import type { ConnectorShape, Shape } from './deck'
+import { cloneShapes, copyShapes, insertCopies, readClipboardShapes, toClipboard } from './clipboard'
+import { connector, group, rect, text } from './testShapes'
+
+describe('copyShapes', () => {
+  it('lifts shapes copied out of a group into slide space', () => {
+    expect(copyShapes([group('g1', [rect('a', 10, 10), rect('b')], 100, 50)], ['a'])).toEqual([rect('a', 110, 60)])
+  })
+
+  it('frees connector ends bound to shapes left behind', () => {
+    const [copied] = copyShapes([rect('a'), rect('b', 300), connector('c1', 'a', 'b')], ['a', 'c1']).filter((s) => s.kind === 'connector')
+    expect(copied).toMatchObject({ start: { shapeId: 'a' }, end: { x: 300, y: 25 } })
+    expect((copied as ConnectorShape).end.shapeId).toBeUndefined()
+  })
+
+  it('keeps the copied shapes in stacking order', () => {
+    expect(copyShapes([rect('a'), rect('b'), rect('c')], ['c', 'a']).map((s) => s.id)).toEqual(['a', 'c'])
+  })
+})
+
+describe('cloneShapes', () => {
+  it('gives copies fresh ids and moves them by the offset', () => {
+    const [copy] = cloneShapes([rect('a', 10, 20)], 20, 20)
+    expect(copy.id).not.toBe('a')
+    expect(copy).toMatchObject({ kind: 'rect', x: 30, y: 40 })
+  })
+
+  it('keeps connectors between copies bound to the copies', () => {
+    const copies = cloneShapes([rect('a'), rect('b', 300), connector('c1', 'a', 'b')], 0, 0)
+    const [a, b, c] = copies as [Shape, Shape, ConnectorShape]
+    expect([c.start.shapeId, c.end.shapeId]).toEqual([a.id, b.id])
+  })
+
+  it('turns a copied placeholder into ordinary text', () => {
+    expect(cloneShapes([text('t1', 'Title', { placeholder: 'title' })], 0, 0)[0]).toMatchObject({ placeholder: undefined })
+  })
+})
+
+describe('clipboard data', () => {
+  it('round-trips shapes and carries their text', () => {
+    const hello = text('t1', 'Hello')
+    const { data, text: plain } = toClipboard([rect('a'), hello])
+    expect(readClipboardShapes(data)).toEqual([rect('a'), hello])
+    expect(plain).toBe('Hello')
+  })
+
+  it('ignores data from elsewhere', () => {
+    expect(readClipboardShapes('not json')).toBeNull()
+    expect(readClipboardShapes('{"hello":1}')).toBeNull()
+  })
+
+  it('puts each copy just above its original', () => {
+    expect(insertCopies([rect('a'), rect('b')], ['a'], [rect('a2')]).map((s) => s.id)).toEqual(['a', 'a2', 'b'])
+  })
+})
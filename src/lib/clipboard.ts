@@ -0,0 +1,86 @@
+import { createSlide, findPath, findShape, flattenShapes, mapSiblingLists, uid, ungroupShape, withFreshIds, type GroupShape, type ImageShape, type Shape, type SlideSize, type TextShape } from './deck'
+import { freeConnectorEnds } from './connectors'
+import { parseDocument, toDocument } from './document'
+import { DEFAULT_LINE_HEIGHT } from './richText'
+
+// ---------- Clipboard ----------
+// Copied shapes travel through the system clipboard as a deck document with one slide, under a
+// custom MIME type, so they paste into any tab or deck of the editor and go through the same
+// migrations and validation as a saved file. Images only carry their asset id; the asset store is
+// shared by every tab of the app. Plain text of the copied text shapes goes alongside for other apps.
+
+export const CLIPBOARD_TYPE = 'application/x-slide-deck+json'
+
+// Pasted and duplicated shapes land this far (slide units) down and right of their source.
+export const PASTE_OFFSET = 20
+
+// The shapes `ids` picks, lifted into slide space: shapes copied out of a group take on its
+// transform, and connector ends bound to shapes that are not copied stay where they are drawn.
+export function copyShapes(shapes: Shape[], ids: string[]): Shape[] {
+  const copied = new Set(flattenShapes(ids.map((id) => findShape(shapes, id)).filter((s): s is Shape => !!s)).map((s) => s.id))
+  const freed = freeConnectorEnds(shapes, (id) => !copied.has(id))
+  const order = flattenShapes(freed).map((s) => s.id)
+  return ids
+    .filter((id) => findShape(freed, id))
+    .sort((a, b) => order.indexOf(a) - order.indexOf(b))
+    .map((id) => {
+      const path = findPath(freed, id)
+      let s = findShape(freed, id) as Shape
+      for (const groupId of path.slice(0, -1).reverse()) s = ungroupShape({ ...(findShape(freed, groupId) as GroupShape), children: [s] })[0]
+      return s
+    })
+}
+
+// What a copy puts on the clipboard: the document under CLIPBOARD_TYPE and the plain text.
+export function toClipboard(shapes: Shape[]): { data: string; text: string } {
+  const text = flattenShapes(shapes).filter((s): s is TextShape => s.kind === 'text').map((s) => s.text).join('\n')
+  return { data: JSON.stringify(toDocument({ slides: [createSlide(shapes)] })), text }
+}
+
+// The shapes in clipboard data, or null if it isn't a readable copy from this editor.
+export function readClipboardShapes(data: string): Shape[] | null {
+  try {
+    const parsed = parseDocument(JSON.parse(data))
+    return parsed.ok ? parsed.deck.slides[0].shapes : null
+  } catch {
+    return null
+  }
+}
+
+// Copies of `shapes` with fresh ids, moved by (dx, dy). Connectors between the copies stay bound to
+// each other; a copied placeholder is ordinary text, so the slide's layout keeps one box per slot.
+export function cloneShapes(shapes: Shape[], dx: number, dy: number): Shape[] {
+  return withFreshIds(structuredClone(shapes)).map((s) => {
+    const moved = { ...s, x: s.x + dx, y: s.y + dy }
+    return moved.kind === 'text' && moved.placeholder ? { ...moved, placeholder: undefined } : moved
+  })
+}
+
+// Inserts each copy just above the shape it was made from. `copies[i]` is the copy of `ids[i]`.
+export function insertCopies(shapes: Shape[], ids: string[], copies: Shape[]): Shape[] {
+  return mapSiblingLists(shapes, ids, (list) => list.flatMap((s) => (ids.includes(s.id) ? [s, copies[ids.indexOf(s.id)]] : [s])))
+}
+
+// ---------- Pasting from other apps ----------
+
+// Browsers size images without intrinsic dimensions (some SVGs) like this.
+const DEFAULT_IMAGE_SIZE = { width: 300, height: 150 }
+
+// An image centred on `center`, at its natural size unless that is bigger than the `slide`, in which
+// case it is fitted to the slide keeping its aspect ratio. It is kept inside the slide either way.
+export function imageShapeAt(assetId: string, size: { width: number; height: number }, center: { x: number; y: number }, slide: SlideSize): ImageShape {
+  const natural = size.width > 0 && size.height > 0 ? size : DEFAULT_IMAGE_SIZE
+  const k = Math.min(1, slide.width / natural.width, slide.height / natural.height)
+  const width = natural.width * k
+  const height = natural.height * k
+  const x = Math.max(0, Math.min(slide.width - width, center.x - width / 2))
+  const y = Math.max(0, Math.min(slide.height - height, center.y - height / 2))
+  return { kind: 'image', id: uid('img'), name: 'Image', x, y, width, height, assetId, rotation: 0 }
+}
+
+export function textShapeAt(text: string, center: { x: number; y: number }): TextShape {
+  const fontSize = 40
+  const width = 600
+  const height = text.split('\n').length * fontSize * DEFAULT_LINE_HEIGHT
+  return { kind: 'text', id: uid('text'), name: 'Text', x: center.x - width / 2, y: center.y - height / 2, text, fontSize, rotation: 0, fill: '#111827', width }
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import type { ConnectorShape, Deck } from './deck'
+import { applyOps, commitDeck, createReplica, isCollabOp, isPresence, materialize, receiveOps, type CollabOp, type Presence } from './collab'
+import { connector, deckOf, rect } from './testShapes'
+
+// Two replicas that both start from `deck`, as after joining a room.
+function pair(deck: Deck) {
+  const a = createReplica('a')
+  const b = createReplica('b')
+  receiveOps(b, commitDeck(a, deck))
+  return { a, b }
+}
+
+describe('collab merge', () => {
+  it('round-trips a deck through its operations', () => {
+    const deck = deckOf(rect('r1'), rect('r2', 200))
+    const { b } = pair(deck)
+    expect(materialize(b.doc)).toEqual(deck)
+  })
+
+  it('keeps concurrent edits to different fields of the same shape', () => {
+    const { a, b } = pair(deckOf(rect('r1')))
+    const fromA = commitDeck(a, deckOf({ ...rect('r1'), x: 40 }))
+    const fromB = commitDeck(b, deckOf({ ...rect('r1'), fill: '#00ff00' }))
+    receiveOps(a, fromB)
+    receiveOps(b, fromA)
+    expect(materialize(a.doc)).toEqual(materialize(b.doc))
+    expect(materialize(a.doc).slides[0].shapes[0]).toMatchObject({ x: 40, fill: '#00ff00' })
+  })
+
+  it('resolves concurrent writes to one field the same way on every replica', () => {
+    const { a, b } = pair(deckOf(rect('r1')))
+    const fromA = commitDeck(a, deckOf(rect('r1', 10)))
+    const fromB = commitDeck(b, deckOf(rect('r1', 20)))
+    receiveOps(a, fromB)
+    receiveOps(b, fromA)
+    // Same Lamport time, so the higher client id wins.
+    expect(materialize(a.doc).slides[0].shapes[0].x).toBe(20)
+    expect(materialize(b.doc).slides[0].shapes[0].x).toBe(20)
+  })
+
+  it('ends in the same state whatever order operations arrive in', () => {
+    const a = createReplica('a')
+    const ops = [
+      ...commitDeck(a, deckOf(rect('r1'))),
+      ...commitDeck(a, deckOf(rect('r1', 5))),
+      ...commitDeck(a, deckOf(rect('r1', 5), rect('r2'))),
+      ...commitDeck(a, deckOf(rect('r2'))),
+    ]
+    const forwards = new Map()
+    const backwards = new Map()
+    applyOps(forwards, ops)
+    applyOps(backwards, [...ops].reverse())
+    expect(materialize(backwards)).toEqual(materialize(forwards))
+    expect(materialize(forwards).slides[0].shapes.map((s) => s.id)).toEqual(['r2'])
+  })
+
+  it('ignores operations it has already seen', () => {
+    const { a, b } = pair(deckOf(rect('r1')))
+    const ops = commitDeck(a, deckOf(rect('r1', 99)))
+    expect(receiveOps(b, ops)).toBe(true)
+    expect(receiveOps(b, ops)).toBe(false)
+  })
+
+  it('frees a connector bound to a shape deleted at the same time', () => {
+    const bound: ConnectorShape = { ...connector('c1', 'r1'), start: { x: 10, y: 10, shapeId: 'r1', anchor: 'right' }, end: { x: 300, y: 10 } }
+    const { a, b } = pair(deckOf(rect('r1')))
+    const fromA = commitDeck(a, deckOf(rect('r1'), bound))
+    const fromB = commitDeck(b, deckOf())
+    receiveOps(a, fromB)
+    const merged = materialize(a.doc).slides[0].shapes
+    expect(merged).toHaveLength(1)
+    expect(merged[0]).toMatchObject({ id: 'c1', start: { x: 10, y: 10 } })
+    expect((merged[0] as ConnectorShape).start.shapeId).toBeUndefined()
+    receiveOps(b, fromA)
+    expect(materialize(b.doc)).toEqual(materialize(a.doc))
+  })
+})
+
+describe('isCollabOp', () => {
+  const op: CollabOp = { key: JSON.stringify(['slide_1', 'r1', 'x']), value: 3, stamp: { t: 1, c: 'a' } }
+
+  it('accepts well-formed operations, including removals', () => {
+    expect(isCollabOp(op)).toBe(true)
+    expect(isCollabOp({ key: op.key, stamp: op.stamp })).toBe(true)
+  })
+
+  it('rejects bad keys and stamps', () => {
+    expect(isCollabOp(null)).toBe(false)
+    expect(isCollabOp({ ...op, key: 'not json' })).toBe(false)
+    expect(isCollabOp({ ...op, key: JSON.stringify(['slide_1', 'x']) })).toBe(false)
+    expect(isCollabOp({ ...op, stamp: { t: -1, c: 'a' } })).toBe(false)
+    expect(isCollabOp({ ...op, stamp: { t: 1.5, c: 'a' } })).toBe(false)
+    expect(isCollabOp({ ...op, stamp: { t: 1, c: 2 } })).toBe(false)
+  })
+})
+
+describe('isPresence', () => {
+  const presence: Presence = { client: 'a', name: 'Ada', color: '#2563eb', slideId: 'slide_1', cursor: { x: 10, y: 20 }, selection: ['r1'] }
+
+  it('accepts a full presence, with or without a pointer and slide', () => {
+    expect(isPresence(presence)).toBe(true)
+    expect(isPresence({ ...presence, slideId: null, cursor: null, selection: [] })).toBe(true)
+  })
+
+  it('rejects anything an overlay could trip over', () => {
+    expect(isPresence('here')).toBe(false)
+    expect(isPresence({ ...presence, selection: undefined })).toBe(false)
+    expect(isPresence({ ...presence, selection: 'r1' })).toBe(false)
+    expect(isPresence({ ...presence, selection: [1] })).toBe(false)
+    expect(isPresence({ ...presence, cursor: { x: '10', y: 20 } })).toBe(false)
+    expect(isPresence({ ...presence, cursor: undefined })).toBe(false)
+  })
+})
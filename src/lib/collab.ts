@@ -0,0 +1,169 @@
+import type { Deck, Slide } from './deck'
+import { freeDanglingEnds } from './connectors'
+import type { Point } from './geometry'
+import { INDEX, fromRecords, sameValue, toRecords, type ShapeRecords } from './records'
+
+// ---------- Collaborative document ----------
+// For collaboration the deck becomes a map of last-writer-wins registers, one per field: every
+// field of the deck, of each slide and of each shape record (see records.ts) is written on its own.
+// Concurrent edits to different fields both survive, and edits to the same field resolve the same
+// way everywhere (higher Lamport time wins, then higher client id), so every replica that has seen
+// the same operations holds the same deck, whatever order they arrived in. Removing something
+// writes `undefined` to its fields, which stays behind as a tombstone.
+
+export type Stamp = { t: number; c: string }
+
+// `value` is absent for a removed field.
+export type CollabOp = { key: string; value?: unknown; stamp: Stamp }
+
+// The winning operation for every key seen so far.
+export type CollabDoc = Map<string, CollabOp>
+
+// Keys are [slide id, shape id, field]; slide fields have no shape id and deck fields neither.
+const keyOf = (slide: string, shape: string, field: string) => JSON.stringify([slide, shape, field])
+const parseKey = (key: string) => JSON.parse(key) as [string, string, string]
+
+export function deckFields(deck: Deck): Map<string, unknown> {
+  const out = new Map<string, unknown>()
+  const set = (slide: string, shape: string, fields: Record<string, unknown>) => {
+    for (const [field, value] of Object.entries(fields)) if (value !== undefined) out.set(keyOf(slide, shape, field), value)
+  }
+  const { slides, ...rest } = deck
+  set('', '', rest)
+  slides.forEach((slide, i) => {
+    const { shapes, ...fields } = slide
+    set(slide.id, '', { ...fields, [INDEX]: i })
+    for (const [id, record] of toRecords(shapes)) set(slide.id, id, record)
+  })
+  return out
+}
+
+// Checks an operation that came over the network before it reaches a document: a bad stamp breaks
+// the merge and a bad key breaks every replica that materializes it.
+export function isCollabOp(op: unknown): op is CollabOp {
+  if (typeof op !== 'object' || op === null) return false
+  const { key, stamp } = op as Record<string, unknown>
+  if (typeof key !== 'string' || typeof stamp !== 'object' || stamp === null) return false
+  const { t, c } = stamp as Record<string, unknown>
+  if (!Number.isSafeInteger(t) || (t as number) < 0 || typeof c !== 'string') return false
+  try {
+    const parts: unknown = JSON.parse(key)
+    return Array.isArray(parts) && parts.length === 3 && parts.every((p) => typeof p === 'string')
+  } catch {
+    return false
+  }
+}
+
+const newer = (a: Stamp, b: Stamp) => a.t > b.t || (a.t === b.t && a.c > b.c)
+
+// Merges `ops` into `doc` and returns the ones that won.
+export function applyOps(doc: CollabDoc, ops: CollabOp[]): CollabOp[] {
+  return ops.filter((op) => {
+    const current = doc.get(op.key)
+    if (current && !newer(op.stamp, current.stamp)) return false
+    doc.set(op.key, op)
+    return true
+  })
+}
+
+export function materialize(doc: CollabDoc): Deck {
+  const deck: Record<string, unknown> = {}
+  const slides = new Map<string, { fields: Record<string, unknown>; records: ShapeRecords }>()
+  for (const { key, value } of doc.values()) {
+    if (value === undefined) continue
+    const [slide, shape, field] = parseKey(key)
+    if (!slide) {
+      deck[field] = value
+      continue
+    }
+    let entry = slides.get(slide)
+    if (!entry) slides.set(slide, (entry = { fields: {}, records: new Map() }))
+    if (shape) entry.records.set(shape, { ...entry.records.get(shape), [field]: value })
+    else entry.fields[field] = value
+  }
+  const list = [...slides.entries()]
+    .filter(([id, e]) => e.fields.id === id)
+    .sort(([a, ea], [b, eb]) => Number(ea.fields[INDEX]) - Number(eb.fields[INDEX]) || a.localeCompare(b))
+  return {
+    ...deck,
+    slides: list.map(([, { fields, records }]) => {
+      const slide = { ...fields }
+      delete slide[INDEX]
+      return { ...slide, shapes: freeDanglingEnds(fromRecords(records)) } as Slide
+    }),
+  }
+}
+
+// ---------- Replica ----------
+// One client's copy of the document plus its Lamport clock.
+
+export type Replica = { client: string; clock: number; doc: CollabDoc }
+
+export function createReplica(client: string): Replica {
+  return { client, clock: 0, doc: new Map() }
+}
+
+// The operations that take the replica's document to `deck`, already applied to it.
+export function commitDeck(replica: Replica, deck: Deck): CollabOp[] {
+  const fields = deckFields(deck)
+  const stamp: Stamp = { t: replica.clock + 1, c: replica.client }
+  const ops: CollabOp[] = []
+  for (const [key, op] of replica.doc) if (op.value !== undefined && !fields.has(key)) ops.push({ key, stamp })
+  for (const [key, value] of fields) if (!sameValue(replica.doc.get(key)?.value, value)) ops.push({ key, value, stamp })
+  if (ops.length === 0) return ops
+  replica.clock = stamp.t
+  return applyOps(replica.doc, ops)
+}
+
+// Merges operations from elsewhere; returns true if the deck changed.
+export function receiveOps(replica: Replica, ops: CollabOp[]): boolean {
+  for (const op of ops) replica.clock = Math.max(replica.clock, op.stamp.t)
+  return applyOps(replica.doc, ops).length > 0
+}
+
+// ---------- Presence & messages ----------
+
+export type Presence = {
+  client: string
+  name: string
+  color: string
+  slideId: string | null
+  // Pointer position in slide coordinates, or null when it is off the canvas.
+  cursor: Point | null
+  selection: string[]
+}
+
+// Server to client, over the event stream.
+export type CollabEvent =
+  | { type: 'snapshot'; ops: CollabOp[] }
+  | { type: 'ops'; ops: CollabOp[] }
+  | { type: 'presence'; peer: Presence }
+  | { type: 'leave'; client: string }
+
+// Checks a presence update from the network before it is passed on or drawn: every peer's overlay
+// reads the cursor and walks the selection, so one malformed update would break all of them.
+export function isPresence(value: unknown): value is Presence {
+  if (typeof value !== 'object' || value === null) return false
+  const { client, name, color, slideId, cursor, selection } = value as Record<string, unknown>
+  if (typeof client !== 'string' || typeof name !== 'string' || typeof color !== 'string') return false
+  if (slideId !== null && typeof slideId !== 'string') return false
+  if (cursor !== null) {
+    if (typeof cursor !== 'object') return false
+    const { x, y } = cursor as Record<string, unknown>
+    if (!Number.isFinite(x) || !Number.isFinite(y)) return false
+  }
+  return Array.isArray(selection) && selection.every((id) => typeof id === 'string')
+}
+
+// Client to server.
+export type CollabPost = { client: string; ops?: CollabOp[]; presence?: Presence }
+
+export const ROOM_PATTERN = /^[\w-]{1,64}$/
+
+const USER_COLORS = ['#e11d48', '#ea580c', '#ca8a04', '#16a34a', '#0891b2', '#2563eb', '#7c3aed', '#c026d3']
+
+export function userColor(client: string): string {
+  let h = 0
+  for (let i = 0; i < client.length; i++) h = (h * 31 + client.charCodeAt(i)) % 997
+  return USER_COLORS[h % USER_COLORS.length]
+}
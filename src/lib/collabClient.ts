@@ -0,0 +1,187 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { downloadAssets, uploadAssets } from './assets'
+import { commitDeck, createReplica, isPresence, materialize, receiveOps, userColor, type CollabEvent, type CollabPost, type Presence, type Replica } from './collab'
+import { uid, type Deck } from './deck'
+import { validateDeck } from './document'
+
+// ---------- Collaboration client ----------
+// Keeps the editor's deck in step with a room on the sync server. Local changes are found by
+// diffing each new deck against the replica and sent as operations; remote operations are merged
+// into the replica and the result handed back as a whole deck.
+
+export type CollabStatus = 'offline' | 'connecting' | 'live'
+
+type CollabOptions = {
+  room: string | null
+  deck: Deck
+  // Replaces the editor's deck with the merged one.
+  onRemoteDeck: (deck: Deck) => void
+  // False while a gesture is in progress. Remote changes wait for it to end, since re-rendering the
+  // canvas mid-drag would drop the node being dragged.
+  canApply: () => boolean
+  // Everyone else's presence, whenever any of it changes. Pointers move many times a second, so
+  // this bypasses React state.
+  onPeers: (peers: Presence[]) => void
+}
+
+const PRESENCE_INTERVAL = 50
+const RETRY_INTERVAL = 100
+
+const roomUrl = (room: string) => `/api/collab/${encodeURIComponent(room)}`
+const roomAssetUrl = (room: string) => (id: string) => `${roomUrl(room)}/assets/${id}`
+
+export function useCollab({ room, deck, onRemoteDeck, canApply, onPeers }: CollabOptions) {
+  const [client] = useState(() => uid('user'))
+  const [status, setStatus] = useState<CollabStatus>('offline')
+  // Who else is in the room; only changes when someone joins or leaves.
+  const [people, setPeople] = useState<Presence[]>([])
+  const replicaRef = useRef<Replica>(createReplica(client))
+  // The deck the replica was last brought in line with; null until the first sync.
+  const syncedRef = useRef<Deck | null>(null)
+  const presenceRef = useRef<Presence>({ client, name: `Guest ${client.slice(-4)}`, color: userColor(client), slideId: null, cursor: null, selection: [] })
+  const presenceTimerRef = useRef<number | null>(null)
+  const sharedAssetsRef = useRef(new Set<string>())
+  const deckRef = useRef(deck)
+  const callbacksRef = useRef({ onRemoteDeck, canApply, onPeers })
+  useEffect(() => {
+    deckRef.current = deck
+    callbacksRef.current = { onRemoteDeck, canApply, onPeers }
+  })
+
+  const post = useCallback((body: Omit<CollabPost, 'client'>) => {
+    if (!room) return Promise.resolve()
+    return fetch(roomUrl(room), { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ client, ...body }) })
+      .then((res) => { if (!res.ok) setStatus('offline') }, () => setStatus('offline'))
+  }, [client, room])
+
+  const sendDeck = useCallback((next: Deck) => {
+    if (!room) return
+    const ops = commitDeck(replicaRef.current, next)
+    syncedRef.current = next
+    // Images go up first so nobody receives a shape whose image isn't there yet.
+    if (ops.length > 0) uploadAssets(next, roomAssetUrl(room), sharedAssetsRef.current).catch(() => {}).then(() => post({ ops }))
+  }, [post, room])
+
+  // ---------- Connection ----------
+  useEffect(() => {
+    if (!room) return
+    const replica = (replicaRef.current = createReplica(client))
+    syncedRef.current = null
+    const peers = new Map<string, Presence>()
+    let applyTimer: number | null = null
+    let applying = false
+
+    // The merged deck, or null if what the room holds is not a valid deck. The editor then keeps its
+    // own until later operations repair it.
+    const mergedDeck = (): Deck | null => {
+      try {
+        const merged = materialize(replica.doc)
+        return validateDeck(merged).length === 0 ? merged : null
+      } catch {
+        return null
+      }
+    }
+
+    // Hands the merged deck to the editor once it is safe to re-render and its images are here.
+    const applyRemote = async () => {
+      applyTimer = null
+      if (applying) return
+      if (!callbacksRef.current.canApply()) {
+        applyTimer = window.setTimeout(applyRemote, RETRY_INTERVAL)
+        return
+      }
+      applying = true
+      try {
+        const merged = mergedDeck()
+        if (merged) await downloadAssets(merged, roomAssetUrl(room), sharedAssetsRef.current).catch(() => {})
+      } finally {
+        applying = false
+      }
+      if (!callbacksRef.current.canApply()) {
+        applyTimer = window.setTimeout(applyRemote, RETRY_INTERVAL)
+        return
+      }
+      const next = mergedDeck()
+      if (!next) return
+      syncedRef.current = next
+      callbacksRef.current.onRemoteDeck(next)
+    }
+    const scheduleApply = () => { if (applyTimer === null) applyTimer = window.setTimeout(applyRemote, 0) }
+
+    const peersChanged = (membership: boolean) => {
+      const list = [...peers.values()]
+      callbacksRef.current.onPeers(list)
+      if (membership) setPeople(list)
+    }
+
+    const onEvent = (event: CollabEvent) => {
+      if (event.type === 'snapshot') {
+        const fresh = syncedRef.current === null
+        receiveOps(replica, event.ops)
+        if (replica.doc.size === 0) {
+          // An empty room starts from this client's deck.
+          sendDeck(deckRef.current)
+        } else {
+          // After a reconnect, resend this client's own operations in case some never arrived; the
+          // server ignores the ones it already has.
+          if (!fresh) post({ ops: [...replica.doc.values()].filter((op) => op.stamp.c === client) })
+          scheduleApply()
+        }
+        post({ presence: presenceRef.current })
+        setStatus('live')
+      } else if (event.type === 'ops') {
+        if (receiveOps(replica, event.ops)) scheduleApply()
+      } else if (event.type === 'presence') {
+        if (!isPresence(event.peer)) return
+        const joined = !peers.has(event.peer.client)
+        peers.set(event.peer.client, event.peer)
+        peersChanged(joined)
+      } else if (event.type === 'leave') {
+        if (peers.delete(event.client)) peersChanged(true)
+      }
+    }
+
+    setStatus('connecting')
+    const source = new EventSource(`${roomUrl(room)}?client=${encodeURIComponent(client)}`)
+    source.onmessage = (e) => {
+      let event: CollabEvent
+      try {
+        event = JSON.parse(e.data)
+      } catch {
+        return
+      }
+      onEvent(event)
+    }
+    // EventSource reconnects by itself; the snapshot it gets then brings everything back in step.
+    source.onerror = () => setStatus(source.readyState === EventSource.CLOSED ? 'offline' : 'connecting')
+    return () => {
+      source.close()
+      if (applyTimer !== null) window.clearTimeout(applyTimer)
+      if (presenceTimerRef.current !== null) window.clearTimeout(presenceTimerRef.current)
+      presenceTimerRef.current = null
+      syncedRef.current = null
+      callbacksRef.current.onPeers([])
+      setPeople([])
+      setStatus('offline')
+    }
+  }, [client, post, room, sendDeck])
+
+  // Local edits go out as soon as they land, once the first sync has happened.
+  useEffect(() => {
+    if (room && syncedRef.current && deck !== syncedRef.current) sendDeck(deck)
+  }, [deck, room, sendDeck])
+
+  // Merges `patch` into this client's presence and sends it, at most every PRESENCE_INTERVAL ms.
+  const updatePresence = useCallback((patch: Partial<Omit<Presence, 'client' | 'color'>>) => {
+    presenceRef.current = { ...presenceRef.current, ...patch }
+    if (!room || presenceTimerRef.current !== null) return
+    presenceTimerRef.current = window.setTimeout(() => {
+      presenceTimerRef.current = null
+      post({ presence: presenceRef.current })
+    }, PRESENCE_INTERVAL)
+  }, [post, room])
+
+  return { status, people, color: userColor(client), updatePresence }
+}
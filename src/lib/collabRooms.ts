@@ -0,0 +1,83 @@
+import { applyOps, type CollabDoc, type CollabEvent, type CollabOp, type Presence } from './collab'
+
+// ---------- Sync server rooms ----------
+// Server-side state for the collaboration routes. A room holds the merged document, the images
+// its decks use, who is connected and where their pointers are. Everything lives in memory in the
+// Next.js server process; that is enough for running the editor locally and sharing it on a
+// network. A room nobody is connected to is dropped after ROOM_GRACE_MS, so a reload or a brief
+// disconnect keeps it but abandoned rooms don't pile up.
+
+type Room = {
+  id: string
+  doc: CollabDoc
+  assets: Map<string, { bytes: ArrayBuffer; type: string }>
+  assetBytes: number
+  clients: Map<string, (event: CollabEvent) => void>
+  presence: Map<string, Presence>
+  evictTimer: ReturnType<typeof setTimeout> | null
+}
+
+const ROOM_GRACE_MS = 5 * 60 * 1000
+export const MAX_ROOM_ASSETS = 200
+export const MAX_ROOM_ASSET_BYTES = 200 * 1024 * 1024
+
+// Kept on globalThis so a dev-server reload of the route modules doesn't drop the rooms.
+const store = globalThis as typeof globalThis & { collabRooms?: Map<string, Room> }
+const rooms = (store.collabRooms ??= new Map())
+
+export function getRoom(id: string): Room {
+  let room = rooms.get(id)
+  if (!room) {
+    rooms.set(id, (room = { id, doc: new Map(), assets: new Map(), assetBytes: 0, clients: new Map(), presence: new Map(), evictTimer: null }))
+    scheduleEviction(room)
+  }
+  return room
+}
+
+function scheduleEviction(room: Room) {
+  if (room.evictTimer) clearTimeout(room.evictTimer)
+  room.evictTimer = setTimeout(() => {
+    if (room.clients.size === 0 && rooms.get(room.id) === room) rooms.delete(room.id)
+  }, ROOM_GRACE_MS)
+  // A pending eviction shouldn't keep the server process alive.
+  room.evictTimer.unref?.()
+}
+
+// Keeps a copy of an image for the room; false if the room already holds as many as it may.
+export function addAsset(room: Room, id: string, bytes: ArrayBuffer, type: string): boolean {
+  if (room.assets.has(id)) return true
+  if (room.assets.size >= MAX_ROOM_ASSETS || room.assetBytes + bytes.byteLength > MAX_ROOM_ASSET_BYTES) return false
+  room.assets.set(id, { bytes, type })
+  room.assetBytes += bytes.byteLength
+  return true
+}
+
+function broadcast(room: Room, event: CollabEvent, except: string) {
+  for (const [client, send] of room.clients) if (client !== except) send(event)
+}
+
+export function join(room: Room, client: string, send: (event: CollabEvent) => void) {
+  if (room.evictTimer) clearTimeout(room.evictTimer)
+  room.evictTimer = null
+  room.clients.set(client, send)
+  send({ type: 'snapshot', ops: [...room.doc.values()] })
+  for (const peer of room.presence.values()) if (peer.client !== client) send({ type: 'presence', peer })
+}
+
+export function leave(room: Room, client: string) {
+  room.clients.delete(client)
+  room.presence.delete(client)
+  broadcast(room, { type: 'leave', client }, client)
+  if (room.clients.size === 0) scheduleEviction(room)
+}
+
+// Merges a client's operations and forwards the ones that changed the document.
+export function publishOps(room: Room, client: string, ops: CollabOp[]) {
+  const applied = applyOps(room.doc, ops)
+  if (applied.length > 0) broadcast(room, { type: 'ops', ops: applied }, client)
+}
+
+export function publishPresence(room: Room, presence: Presence) {
+  room.presence.set(presence.client, presence)
+  broadcast(room, { type: 'presence', peer: presence }, presence.client)
+}
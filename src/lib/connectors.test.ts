@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import type { ConnectorShape } from './deck'
+import { arrowHead, connectorPath, freeDanglingEnds, modelAnchorResolver } from './connectors'
+import { connector, rect } from './testShapes'
+
+// `a` ends at (100, 25) on its right; `b`'s left anchor is (300, 225) and its top one (350, 200).
+const shapes = [rect('a'), rect('b', 300, 200)]
+
+function route(c: ConnectorShape) {
+  return connectorPath(c, modelAnchorResolver(shapes), (p) => p).points
+}
+
+describe('connectorPath', () => {
+  it('turns twice at the midpoint between anchors on the same axis', () => {
+    expect(route({ ...connector('c', 'a', 'b'), routing: 'elbow' })).toEqual([100, 25, 200, 25, 200, 225, 300, 225])
+  })
+
+  it('turns once between anchors on crossing axes, arriving along the end anchor', () => {
+    const c = connector('c', 'a', 'b')
+    expect(route({ ...c, routing: 'elbow', end: { ...c.end, anchor: 'top' } })).toEqual([100, 25, 350, 25, 350, 200])
+    expect(route({ ...c, routing: 'elbow', start: { ...c.start, anchor: 'bottom' } })).toEqual([50, 50, 50, 225, 300, 225])
+  })
+
+  it('brings a free end in along the bound end’s axis', () => {
+    const c = connector('c', undefined, 'b')
+    expect(route({ ...c, routing: 'elbow', start: { x: 340, y: 0 }, end: { ...c.end, anchor: 'top' } })).toEqual([340, 0, 340, 100, 350, 100, 350, 200])
+  })
+
+  it('uses the stored point for an end whose shape is gone', () => {
+    const c = connector('c', 'a', 'gone')
+    expect(route({ ...c, end: { ...c.end, x: 7, y: 8 } })).toEqual([100, 25, 7, 8])
+  })
+})
+
+describe('arrowHead', () => {
+  it('points a triangle back along the final segment', () => {
+    expect(arrowHead({ x: 100, y: 0 }, { x: 0, y: 0 }, 'triangle', 10)).toEqual({
+      kind: 'polygon', points: [{ x: 90, y: 5 }, { x: 100, y: 0 }, { x: 90, y: -5 }], closed: true, filled: true,
+    })
+  })
+
+  it('draws nothing for no head', () => {
+    expect(arrowHead({ x: 100, y: 0 }, { x: 0, y: 0 }, 'none', 10)).toBeNull()
+  })
+})
+
+describe('freeDanglingEnds', () => {
+  it('frees ends bound to missing shapes and keeps the rest bound', () => {
+    const [, , c] = freeDanglingEnds([...shapes, connector('c', 'a', 'gone')]) as [unknown, unknown, ConnectorShape]
+    expect(c.start).toMatchObject({ shapeId: 'a', anchor: 'right' })
+    expect(c.end).toEqual({ x: 0, y: 0 })
+  })
+})
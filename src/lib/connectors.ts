@@ -0,0 +1,265 @@
+import {
+  findPath, findShape, flattenShapes, mapShapeTree,
+  type AnchorName, type ArrowHead, type ConnectorEnd, type ConnectorShape, type Shape, type StrokeShape,
+} from './deck'
+import { IDENTITY, applyMatrix, invertMatrix, localBox, pairs, translateRotate, type Box, type Matrix, type Point } from './geometry'
+
+// ---------- Geometry for lines, arrows and connectors ----------
+
+// Maps a shape's local space into slide space, through every enclosing group.
+export function shapeMatrix(shapes: Shape[], id: string): Matrix {
+  return findPath(shapes, id).reduce<Matrix>((m, pid) => {
+    const s = findShape(shapes, pid)
+    return s ? translateRotate(m, s.x, s.y, s.rotation) : m
+  }, IDENTITY)
+}
+
+// ---------- Anchors ----------
+
+export const ANCHORS: AnchorName[] = ['top', 'right', 'bottom', 'left', 'center']
+
+// Lines and connectors cannot be connected to.
+export function canBind(s: Shape): boolean {
+  return s.kind !== 'line' && s.kind !== 'arrow' && s.kind !== 'connector'
+}
+
+export function anchorOffset(box: Box, anchor: AnchorName): Point {
+  const cx = box.x + box.width / 2
+  const cy = box.y + box.height / 2
+  if (anchor === 'top') return { x: cx, y: box.y }
+  if (anchor === 'bottom') return { x: cx, y: box.y + box.height }
+  if (anchor === 'left') return { x: box.x, y: cy }
+  if (anchor === 'right') return { x: box.x + box.width, y: cy }
+  return { x: cx, y: cy }
+}
+
+// Returns an anchor's position in slide space, or null when the shape is gone.
+export type AnchorResolver = (shapeId: string, anchor: AnchorName) => Point | null
+
+export function modelAnchorResolver(shapes: Shape[]): AnchorResolver {
+  return (shapeId, anchor) => {
+    const s = findShape(shapes, shapeId)
+    if (!s) return null
+    return applyMatrix(shapeMatrix(shapes, shapeId), anchorOffset(localBox(s), anchor))
+  }
+}
+
+// ---------- Routing ----------
+
+export type StrokePath = {
+  points: number[]
+  bezier: boolean
+}
+
+const DIRECTIONS: Record<AnchorName, Point | null> = {
+  top: { x: 0, y: -1 },
+  bottom: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+  center: null,
+}
+
+// The outward normal of a bound end's anchor; null for free ends and centre anchors.
+function anchorDirection(end: ConnectorEnd): Point | null {
+  return end.shapeId && end.anchor ? DIRECTIONS[end.anchor] : null
+}
+
+// Direction a route leaves an end in: the anchor's outward normal, or toward the other end.
+function exitDirection(end: ConnectorEnd, from: Point, to: Point): Point {
+  const dir = anchorDirection(end)
+  if (dir) return dir
+  const dx = to.x - from.x
+  const dy = to.y - from.y
+  return Math.abs(dx) >= Math.abs(dy) ? { x: Math.sign(dx) || 1, y: 0 } : { x: 0, y: Math.sign(dy) || 1 }
+}
+
+// Resolves both ends (bound ends via `resolve`, then `toLocal` into the connector's space) and routes between them.
+export function connectorPath(c: ConnectorShape, resolve: AnchorResolver, toLocal: (p: Point) => Point): StrokePath {
+  const endPoint = (e: ConnectorEnd) => {
+    const bound = e.shapeId && e.anchor ? resolve(e.shapeId, e.anchor) : null
+    return bound ? toLocal(bound) : { x: e.x, y: e.y }
+  }
+  const a = endPoint(c.start)
+  const b = endPoint(c.end)
+  if (c.routing === 'straight') return { points: [a.x, a.y, b.x, b.y], bezier: false }
+
+  if (c.routing === 'curved') {
+    const da = exitDirection(c.start, a, b)
+    const db = exitDirection(c.end, b, a)
+    const k = Math.max(40, Math.hypot(b.x - a.x, b.y - a.y) * 0.4)
+    return { points: [a.x, a.y, a.x + da.x * k, a.y + da.y * k, b.x + db.x * k, b.y + db.y * k, b.x, b.y], bezier: true }
+  }
+  // Elbow: each bound end is left or entered along its anchor's axis, and a free end takes the other
+  // end's. Ends on the same axis turn twice, at the midpoint; ends on crossing axes turn once.
+  const sa = anchorDirection(c.start)
+  const sb = anchorDirection(c.end)
+  const horizontalA = sa ? sa.x !== 0 : sb ? sb.x !== 0 : exitDirection(c.start, a, b).x !== 0
+  const horizontalB = sb ? sb.x !== 0 : horizontalA
+  if (horizontalA && horizontalB) {
+    const mx = (a.x + b.x) / 2
+    return { points: [a.x, a.y, mx, a.y, mx, b.y, b.x, b.y], bezier: false }
+  }
+  if (!horizontalA && !horizontalB) {
+    const my = (a.y + b.y) / 2
+    return { points: [a.x, a.y, a.x, my, b.x, my, b.x, b.y], bezier: false }
+  }
+  if (horizontalA) return { points: [a.x, a.y, b.x, a.y, b.x, b.y], bezier: false }
+  return { points: [a.x, a.y, a.x, b.y, b.x, b.y], bezier: false }
+}
+
+export function strokePath(s: StrokeShape, resolve: AnchorResolver, toLocal: (p: Point) => Point): StrokePath {
+  if (s.kind === 'connector') return connectorPath(s, resolve, toLocal)
+  return { points: s.points, bezier: false }
+}
+
+// ---------- Endpoints ----------
+
+export type EndpointName = 'start' | 'end'
+
+// Both path ends in slide space, with bound connector ends resolved from the model.
+export function endpointsInSlide(shapes: Shape[], s: StrokeShape): Record<EndpointName, Point> {
+  const m = shapeMatrix(shapes, s.id)
+  const inv = invertMatrix(m)
+  const { start, end } = pathEnds(strokePath(s, modelAnchorResolver(shapes), (p) => applyMatrix(inv, p)))
+  return { start: applyMatrix(m, start[0]), end: applyMatrix(m, end[0]) }
+}
+
+// Moves one end of a line or connector. `end` is in the shape's local space; line ends ignore bindings.
+export function withEndpoint(s: StrokeShape, which: EndpointName, end: ConnectorEnd): StrokeShape {
+  if (s.kind === 'connector') return { ...s, [which]: end }
+  const points = s.points.slice()
+  const i = which === 'start' ? 0 : points.length - 2
+  points[i] = end.x
+  points[i + 1] = end.y
+  return { ...s, points }
+}
+
+// The closest anchor to `p` (slide space) within `radius`, skipping hidden shapes and `excludeId`.
+export function nearestAnchor(shapes: Shape[], p: Point, radius: number, excludeId: string): { shapeId: string; anchor: AnchorName; point: Point } | null {
+  const resolve = modelAnchorResolver(shapes)
+  let best: { shapeId: string; anchor: AnchorName; point: Point } | null = null
+  let bestDist = radius
+  for (const s of flattenShapes(shapes)) {
+    if (s.id === excludeId || s.hidden || !canBind(s)) continue
+    for (const anchor of ANCHORS) {
+      const point = resolve(s.id, anchor)
+      const d = point ? Math.hypot(point.x - p.x, point.y - p.y) : Infinity
+      if (point && d <= bestDist) { best = { shapeId: s.id, anchor, point }; bestDist = d }
+    }
+  }
+  return best
+}
+
+// Frees connector ends bound to any of `ids` (or their descendants), pinning them where they currently are.
+export function detachConnectors(shapes: Shape[], ids: string[]): Shape[] {
+  const removed = new Set(flattenShapes(ids.map((id) => findShape(shapes, id)).filter((s): s is Shape => !!s)).map((s) => s.id))
+  return freeConnectorEnds(shapes, (id) => removed.has(id))
+}
+
+// Frees connector ends bound to shapes `detach` picks, pinning them where they currently are.
+export function freeConnectorEnds(shapes: Shape[], detach: (shapeId: string) => boolean): Shape[] {
+  const resolve = modelAnchorResolver(shapes)
+  return mapShapeTree(shapes, (s) => {
+    if (s.kind !== 'connector') return s
+    const inv = invertMatrix(shapeMatrix(shapes, s.id))
+    const free = (e: ConnectorEnd): ConnectorEnd => {
+      if (!e.shapeId || !e.anchor || !detach(e.shapeId)) return e
+      const p = resolve(e.shapeId, e.anchor)
+      return p ? applyMatrix(inv, p) : { x: e.x, y: e.y }
+    }
+    return { ...s, start: free(s.start), end: free(s.end) }
+  })
+}
+
+// Frees connector ends bound to shapes that are no longer there, which merging someone else's
+// changes or undoing past them can leave behind.
+export function freeDanglingEnds(shapes: Shape[]): Shape[] {
+  const ids = new Set(flattenShapes(shapes).map((s) => s.id))
+  return freeConnectorEnds(shapes, (id) => !ids.has(id))
+}
+
+// ---------- Arrowheads ----------
+
+export type HeadGeometry =
+  | { kind: 'polygon'; points: Point[]; closed: boolean; filled: boolean }
+  | { kind: 'circle'; center: Point; radius: number }
+
+export function headSize(strokeWidth: number): number {
+  return Math.max(10, strokeWidth * 4)
+}
+
+// `tip` is the path end, `from` the point the final segment (or tangent) comes from.
+export function arrowHead(tip: Point, from: Point, head: ArrowHead, size: number): HeadGeometry | null {
+  if (head === 'none') return null
+  const len = Math.hypot(tip.x - from.x, tip.y - from.y) || 1
+  const ux = (tip.x - from.x) / len
+  const uy = (tip.y - from.y) / len
+  const along = (d: number, side: number) => ({ x: tip.x - ux * d - uy * side, y: tip.y - uy * d + ux * side })
+  if (head === 'circle') return { kind: 'circle', center: along(size * 0.35, 0), radius: size * 0.35 }
+  if (head === 'diamond') {
+    return { kind: 'polygon', points: [tip, along(size / 2, size / 3), along(size, 0), along(size / 2, -size / 3)], closed: true, filled: true }
+  }
+  const wing = size * 0.5
+  return { kind: 'polygon', points: [along(size, wing), tip, along(size, -wing)], closed: head === 'triangle', filled: head === 'triangle' }
+}
+
+// The two points that define the direction at each end of a path.
+export function pathEnds(path: StrokePath): { start: [Point, Point]; end: [Point, Point] } {
+  const pts = pairs(path.points)
+  return {
+    start: [pts[0], pts[1] ?? pts[0]],
+    end: [pts[pts.length - 1], pts[pts.length - 2] ?? pts[pts.length - 1]],
+  }
+}
+
+export function pathHeads(path: StrokePath, style: { strokeWidth: number; startHead?: ArrowHead; endHead?: ArrowHead }): HeadGeometry[] {
+  const size = headSize(style.strokeWidth)
+  const { start, end } = pathEnds(path)
+  return [
+    arrowHead(start[0], start[1], style.startHead ?? 'none', size),
+    arrowHead(end[0], end[1], style.endHead ?? 'none', size),
+  ].filter((h): h is HeadGeometry => !!h)
+}
+
+// ---------- Canvas drawing ----------
+
+type PathContext = Pick<CanvasRenderingContext2D, 'moveTo' | 'lineTo' | 'bezierCurveTo'>
+
+export function tracePath(ctx: PathContext, path: StrokePath) {
+  const p = path.points
+  if (p.length < 4) return
+  ctx.moveTo(p[0], p[1])
+  if (path.bezier) {
+    for (let i = 2; i + 5 < p.length; i += 6) ctx.bezierCurveTo(p[i], p[i + 1], p[i + 2], p[i + 3], p[i + 4], p[i + 5])
+    return
+  }
+  for (let i = 2; i + 1 < p.length; i += 2) ctx.lineTo(p[i], p[i + 1])
+}
+
+// The calls heads draw with, which a plain canvas context and Konva's Context wrapper both have.
+type HeadContext = Pick<CanvasRenderingContext2D,
+  'save' | 'restore' | 'setLineDash' | 'fillStyle' | 'strokeStyle' | 'lineWidth' | 'lineJoin' | 'lineCap'
+  | 'beginPath' | 'arc' | 'moveTo' | 'lineTo' | 'closePath' | 'fill' | 'stroke'>
+
+export function drawHeads(ctx: HeadContext, heads: HeadGeometry[], color: string, strokeWidth: number) {
+  ctx.save()
+  ctx.setLineDash([])
+  ctx.fillStyle = color
+  ctx.strokeStyle = color
+  ctx.lineWidth = strokeWidth
+  ctx.lineJoin = 'round'
+  ctx.lineCap = 'round'
+  for (const h of heads) {
+    ctx.beginPath()
+    if (h.kind === 'circle') {
+      ctx.arc(h.center.x, h.center.y, h.radius, 0, Math.PI * 2)
+      ctx.fill()
+      continue
+    }
+    h.points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)))
+    if (h.closed) ctx.closePath()
+    if (h.filled) ctx.fill()
+    else ctx.stroke()
+  }
+  ctx.restore()
+}
@@ -0,0 +1,449 @@
+import { shapeBounds } from './geometry'
+
+// ---------- Shape model ----------
+
+export type BaseShape = {
+  id: string
+  x: number
+  y: number
+  rotation: number
+  name?: string
+  locked?: boolean
+  hidden?: boolean
+  // Played in order when presenting (see lib/builds).
+  builds?: BuildAnimation[]
+  // Look shared by every kind (see lib/style); unset means fully opaque, no shadow, normal blending.
+  opacity?: number
+  shadow?: Shadow
+  blendMode?: BlendMode
+  // Fields that follow the deck theme (see lib/theme); the field itself holds the resolved value.
+  themeRefs?: ThemeRefs
+}
+
+// A gradient across the shape's box. `angle` is the direction of a linear gradient in degrees,
+// clockwise from pointing right; radial gradients spread from the centre. Stop offsets run 0–1.
+export type Gradient = {
+  kind: 'linear' | 'radial'
+  angle: number
+  stops: GradientStop[]
+}
+
+export type GradientStop = { offset: number; color: string }
+
+// Offsets are in slide units and stay put as the shape rotates, like a light from above.
+export type Shadow = {
+  color: string
+  blur: number
+  offsetX: number
+  offsetY: number
+  opacity: number
+}
+
+export type DashStyle = 'solid' | 'dashed' | 'dotted'
+export const DASH_STYLES: DashStyle[] = ['solid', 'dashed', 'dotted']
+
+// Canvas composite operations, which SVG and PDF share under the same (or camel-cased) names.
+export type BlendMode =
+  | 'multiply' | 'screen' | 'overlay' | 'darken' | 'lighten' | 'color-dodge' | 'color-burn'
+  | 'hard-light' | 'soft-light' | 'difference' | 'exclusion' | 'hue' | 'saturation' | 'color' | 'luminosity'
+export const BLEND_MODES: BlendMode[] = [
+  'multiply', 'screen', 'overlay', 'darken', 'lighten', 'color-dodge', 'color-burn',
+  'hard-light', 'soft-light', 'difference', 'exclusion', 'hue', 'saturation', 'color', 'luminosity',
+]
+
+export type BuildEffect = 'fade' | 'fly' | 'scale' | 'wipe'
+export type BuildEdge = 'left' | 'right' | 'top' | 'bottom'
+export type BuildEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out'
+export type BuildTrigger = 'on-click' | 'after-previous'
+
+// Times are in milliseconds. `edge` is where fly and wipe come in from, or go out to for exits.
+export type BuildAnimation = {
+  type: 'entrance' | 'exit'
+  effect: BuildEffect
+  edge: BuildEdge
+  duration: number
+  delay: number
+  easing: BuildEasing
+  trigger: BuildTrigger
+}
+
+export type RectShape = BaseShape & {
+  kind: 'rect'
+  width: number
+  height: number
+  fill: string
+  // Drawn instead of `fill` when set; `fill` stays as the solid colour for formats without gradients.
+  fillGradient?: Gradient
+  stroke?: string
+  strokeWidth?: number
+  dash?: DashStyle
+  cornerRadius?: number
+}
+
+export type CircleShape = BaseShape & {
+  kind: 'circle'
+  radius: number
+  fill: string
+  fillGradient?: Gradient
+  stroke?: string
+  strokeWidth?: number
+  dash?: DashStyle
+}
+
+// A span of text with its own character styling; unset fields fall back to the shape's defaults.
+// Paragraphs are separated by '\n' inside run text.
+export type TextRun = {
+  text: string
+  bold?: boolean
+  italic?: boolean
+  underline?: boolean
+  color?: string
+  fontSize?: number
+}
+
+export type TextShape = BaseShape & {
+  kind: 'text'
+  // Plain-text mirror of `runs`, kept for search, layer names and older documents.
+  text: string
+  runs?: TextRun[]
+  fontSize: number
+  width?: number
+  // Box height used for vertical alignment; the content height when unset.
+  height?: number
+  fill: string
+  fontFamily?: string
+  align?: 'left' | 'center' | 'right' | 'justify'
+  verticalAlign?: 'top' | 'middle' | 'bottom'
+  lineHeight?: number
+  letterSpacing?: number
+  list?: 'bullet' | 'number'
+  // Id of the layout placeholder this box fills; an empty placeholder shows a prompt while editing.
+  placeholder?: string
+}
+
+export type ImageShape = BaseShape & {
+  kind: 'image'
+  width: number
+  height: number
+  // Content hash of the image in the asset store (see lib/assets).
+  assetId: string
+  // Part of the image shown, stretched over width × height; the whole image when unset.
+  crop?: ImageCrop
+  // Clips the image to an ellipse filling its box, or to a rectangle with `maskRadius` corners.
+  mask?: ImageMask
+  maskRadius?: number
+  // Filters, applied in this order: blur radius in slide units, brightness as a multiplier
+  // (1 leaves it unchanged), contrast from -100 to 100, then grayscale.
+  blur?: number
+  brightness?: number
+  contrast?: number
+  grayscale?: boolean
+}
+
+// Fractions (0–1) of the image's natural width and height, so a crop survives replacing the
+// asset with a bigger copy of the same picture.
+export type ImageCrop = { x: number; y: number; width: number; height: number }
+
+export type ImageMask = 'circle' | 'rounded'
+export const IMAGE_MASKS: ImageMask[] = ['circle', 'rounded']
+
+export type ArrowHead = 'none' | 'triangle' | 'open' | 'circle' | 'diamond'
+
+type StrokeStyle = {
+  stroke: string
+  strokeWidth: number
+  dash?: DashStyle
+  startHead?: ArrowHead
+  endHead?: ArrowHead
+}
+
+// Straight segment; `points` ([x1, y1, x2, y2]) are relative to the shape's x/y.
+export type LineShape = BaseShape & StrokeStyle & {
+  kind: 'line'
+  points: number[]
+}
+
+export type ArrowShape = BaseShape & StrokeStyle & {
+  kind: 'arrow'
+  points: number[]
+}
+
+export type AnchorName = 'top' | 'right' | 'bottom' | 'left' | 'center'
+
+// A connector end is either free (x/y relative to the connector) or bound to an anchor on another
+// shape, in which case x/y only hold the last known position.
+export type ConnectorEnd = {
+  x: number
+  y: number
+  shapeId?: string
+  anchor?: AnchorName
+}
+
+export type ConnectorShape = BaseShape & StrokeStyle & {
+  kind: 'connector'
+  start: ConnectorEnd
+  end: ConnectorEnd
+  routing: 'straight' | 'elbow' | 'curved'
+}
+
+// Shapes drawn as a stroked path with optional arrowheads.
+export type StrokeShape = LineShape | ArrowShape | ConnectorShape
+
+// Children are positioned in the group's own coordinate space (relative to its x/y and rotation).
+export type GroupShape = BaseShape & {
+  kind: 'group'
+  children: Shape[]
+}
+
+export type Shape = RectShape | CircleShape | TextShape | ImageShape | LineShape | ArrowShape | ConnectorShape | GroupShape
+
+export type ShapeUpdater = (prev: Shape[]) => Shape[]
+
+// ---------- Deck model ----------
+
+export type TransitionKind = 'none' | 'fade' | 'push' | 'zoom'
+
+// How a slide enters when presenting; `duration` is in milliseconds.
+export type SlideTransition = {
+  kind: TransitionKind
+  duration: number
+}
+
+export type Slide = {
+  id: string
+  background: string
+  shapes: Shape[]
+  // Speaker notes, shown under the canvas and optionally exported as notes pages.
+  notes?: string
+  transition?: SlideTransition
+  // Layout the slide was made from (see lib/theme), and the theme colour its background follows.
+  layout?: string
+  backgroundRef?: ThemeColor
+}
+
+// Theme and masters fall back to DEFAULT_THEME and DEFAULT_MASTERS (lib/theme) when unset, and
+// the size to DEFAULT_SLIDE_SIZE, which every deck had before it could be changed.
+export type Deck = {
+  slides: Slide[]
+  size?: SlideSize
+  theme?: Theme
+  masters?: MasterSlide[]
+}
+
+// Every slide of a deck has the same size, in slide units; shapes are placed in that space.
+export type SlideSize = { width: number; height: number }
+
+// ---------- Theme & masters ----------
+
+export type ThemeColor = 'background' | 'text' | 'accent1' | 'accent2' | 'accent3' | 'accent4'
+export const THEME_COLORS: ThemeColor[] = ['background', 'text', 'accent1', 'accent2', 'accent3', 'accent4']
+
+export type ThemeFont = 'heading' | 'body'
+export const THEME_FONTS: ThemeFont[] = ['heading', 'body']
+
+export type ThemeRefs = {
+  fill?: ThemeColor
+  stroke?: ThemeColor
+  fontFamily?: ThemeFont
+}
+
+// A deck's palette and fonts, and the look new shapes of each kind start with.
+export type Theme = {
+  name: string
+  colors: Record<ThemeColor, string>
+  fonts: Record<ThemeFont, string>
+  shapes: {
+    rect: { fill: ThemeColor; stroke: ThemeColor; strokeWidth: number }
+    circle: { fill: ThemeColor; stroke: ThemeColor; strokeWidth: number }
+    line: { stroke: ThemeColor; strokeWidth: number }
+    text: { fill: ThemeColor; font: ThemeFont }
+  }
+}
+
+export type PlaceholderRole = 'title' | 'subtitle' | 'body'
+
+// A text box a layout lays out. The box is in fractions (0–1) of the slide's width and height.
+export type LayoutPlaceholder = {
+  id: string
+  role: PlaceholderRole
+  x: number
+  y: number
+  width: number
+  height: number
+  fontSize: number
+  align: NonNullable<TextShape['align']>
+  verticalAlign: NonNullable<TextShape['verticalAlign']>
+}
+
+export type SlideLayout = {
+  id: string
+  name: string
+  placeholders: LayoutPlaceholder[]
+}
+
+// Layout ids are unique across a deck's masters, so a slide names its layout alone.
+export type MasterSlide = {
+  id: string
+  name: string
+  background: ThemeColor
+  layouts: SlideLayout[]
+}
+
+export const DEFAULT_SLIDE_SIZE: SlideSize = { width: 1920, height: 1080 }
+
+export function slideSize(deck: Deck): SlideSize {
+  return deck.size ?? DEFAULT_SLIDE_SIZE
+}
+
+export const DEFAULT_BACKGROUND = '#ffffff'
+
+export const TRANSITION_KINDS: TransitionKind[] = ['none', 'fade', 'push', 'zoom']
+export const DEFAULT_TRANSITION: SlideTransition = { kind: 'none', duration: 500 }
+
+export function uid(prefix = 'id'): string {
+  return `${prefix}_${Math.random().toString(36).slice(2, 9)}`
+}
+
+export function createSlide(shapes: Shape[] = []): Slide {
+  return { id: uid('slide'), background: DEFAULT_BACKGROUND, shapes }
+}
+
+export function createDeck(): Deck {
+  return { slides: [createSlide()] }
+}
+
+// Copies a slide with fresh ids for the slide and every shape on it.
+export function duplicateSlide(slide: Slide): Slide {
+  return {
+    ...createSlide(withFreshIds(structuredClone(slide.shapes))),
+    background: slide.background, notes: slide.notes, transition: slide.transition, layout: slide.layout, backgroundRef: slide.backgroundRef,
+  }
+}
+
+// Re-ids a list of shapes; connectors bound to shapes inside the list stay bound to the copies.
+export function withFreshIds(shapes: Shape[]): Shape[] {
+  const ids = new Map<string, string>()
+  const fresh = (s: Shape): Shape => {
+    const id = uid(s.kind)
+    ids.set(s.id, id)
+    return s.kind === 'group' ? { ...s, id, children: s.children.map(fresh) } : { ...s, id }
+  }
+  const rebind = (e: ConnectorEnd): ConnectorEnd => (e.shapeId && ids.has(e.shapeId) ? { ...e, shapeId: ids.get(e.shapeId) } : e)
+  return mapShapeTree(shapes.map(fresh), (s) => (s.kind === 'connector' ? { ...s, start: rebind(s.start), end: rebind(s.end) } : s))
+}
+
+export function moveItem<T>(list: T[], from: number, to: number): T[] {
+  if (from === to || from < 0 || from >= list.length) return list
+  const next = list.slice()
+  const [item] = next.splice(from, 1)
+  next.splice(clampIndex(to, next.length), 0, item)
+  return next
+}
+
+function clampIndex(i: number, length: number) {
+  return Math.max(0, Math.min(length, i))
+}
+
+// ---------- Shape tree ----------
+
+export function findShape(shapes: Shape[], id: string): Shape | undefined {
+  for (const s of shapes) {
+    if (s.id === id) return s
+    if (s.kind === 'group') {
+      const hit = findShape(s.children, id)
+      if (hit) return hit
+    }
+  }
+  return undefined
+}
+
+// Ids from the top-level shape down to `id`, or [] if it is not in the tree.
+export function findPath(shapes: Shape[], id: string): string[] {
+  for (const s of shapes) {
+    if (s.id === id) return [s.id]
+    if (s.kind === 'group') {
+      const rest = findPath(s.children, id)
+      if (rest.length) return [s.id, ...rest]
+    }
+  }
+  return []
+}
+
+export function flattenShapes(shapes: Shape[]): Shape[] {
+  return shapes.flatMap((s) => (s.kind === 'group' ? [s, ...flattenShapes(s.children)] : [s]))
+}
+
+// The sibling list that holds `id`: the top level or a group's children.
+export function siblingsOf(shapes: Shape[], id: string): Shape[] {
+  const path = findPath(shapes, id)
+  if (path.length <= 1) return shapes
+  const parent = findShape(shapes, path[path.length - 2])
+  return parent?.kind === 'group' ? parent.children : shapes
+}
+
+export function mapShapeTree(shapes: Shape[], fn: (s: Shape) => Shape): Shape[] {
+  return shapes.map((s) => {
+    const next = fn(s)
+    return next.kind === 'group' ? { ...next, children: mapShapeTree(next.children, fn) } : next
+  })
+}
+
+export function removeShapes(shapes: Shape[], ids: string[]): Shape[] {
+  return shapes
+    .filter((s) => !ids.includes(s.id))
+    .map((s) => (s.kind === 'group' ? { ...s, children: removeShapes(s.children, ids) } : s))
+    .filter((s) => s.kind !== 'group' || s.children.length > 0)
+}
+
+// Applies `fn` to every sibling list that contains at least one of `ids`.
+export function mapSiblingLists(shapes: Shape[], ids: string[], fn: (list: Shape[]) => Shape[]): Shape[] {
+  const list = shapes.some((s) => ids.includes(s.id)) ? fn(shapes) : shapes
+  return list.map((s) => (s.kind === 'group' ? { ...s, children: mapSiblingLists(s.children, ids, fn) } : s))
+}
+
+// Scales a shape's position and size, recursing into group children.
+export function scaleShape(s: Shape, sx: number, sy: number): Shape {
+  const pos = { x: s.x * sx, y: s.y * sy }
+  if (s.kind === 'rect' || s.kind === 'image') return { ...s, ...pos, width: s.width * sx, height: s.height * sy }
+  if (s.kind === 'circle') return { ...s, ...pos, radius: s.radius * sx }
+  if (s.kind === 'line' || s.kind === 'arrow') return { ...s, ...pos, points: s.points.map((v, i) => v * (i % 2 === 0 ? sx : sy)) }
+  if (s.kind === 'connector') {
+    return { ...s, ...pos, start: { ...s.start, x: s.start.x * sx, y: s.start.y * sy }, end: { ...s.end, x: s.end.x * sx, y: s.end.y * sy } }
+  }
+  if (s.kind === 'text') {
+    return {
+      ...s, ...pos,
+      width: (s.width ?? 300) * sx,
+      height: s.height !== undefined ? s.height * sy : undefined,
+      fontSize: s.fontSize * sy,
+      runs: s.runs?.map((r) => (r.fontSize ? { ...r, fontSize: r.fontSize * sy } : r)),
+    }
+  }
+  return { ...s, ...pos, children: s.children.map((c) => scaleShape(c, sx, sy)) }
+}
+
+// Wraps `members` (siblings) in a new group whose origin is their top-left corner.
+export function groupShapes(members: Shape[]): GroupShape {
+  const boxes = members.map(shapeBounds)
+  const x = Math.min(...boxes.map((b) => b.x))
+  const y = Math.min(...boxes.map((b) => b.y))
+  return {
+    kind: 'group', id: uid('group'), name: 'Group', x, y, rotation: 0,
+    children: members.map((m) => ({ ...m, x: m.x - x, y: m.y - y })),
+  }
+}
+
+// Moves a group's children into its parent's coordinate space.
+export function ungroupShape(g: GroupShape): Shape[] {
+  const rad = (g.rotation * Math.PI) / 180
+  const cos = Math.cos(rad)
+  const sin = Math.sin(rad)
+  return g.children.map((c) => ({
+    ...c,
+    x: g.x + c.x * cos - c.y * sin,
+    y: g.y + c.x * sin + c.y * cos,
+    rotation: c.rotation + g.rotation,
+    locked: c.locked || g.locked,
+    hidden: c.hidden || g.hidden,
+  }))
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { assetHeaders, assetType } from './deckStorage'
+
+const bytes = (...parts: (string | number[])[]) =>
+  new Uint8Array(parts.flatMap((p) => (typeof p === 'string' ? Array.from(p, (c) => c.charCodeAt(0)) : p)))
+
+describe('assetType', () => {
+  it('reads the type from the bytes, whatever the upload claimed', () => {
+    expect(assetType(bytes('\x89PNG\r\n\x1a\n', [0, 0, 0, 13]))).toBe('image/png')
+    expect(assetType(bytes([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg')
+    expect(assetType(bytes('GIF89a'))).toBe('image/gif')
+    expect(assetType(bytes('RIFF', [0, 0, 0, 0], 'WEBPVP8 '))).toBe('image/webp')
+    expect(assetType(bytes([0, 0, 0, 28], 'ftypavif'))).toBe('image/avif')
+    expect(assetType(bytes('BM', new Array(40).fill(0)))).toBe('image/bmp')
+  })
+
+  it('recognises SVG after a prolog or comment', () => {
+    expect(assetType(bytes([0xef, 0xbb, 0xbf], '<?xml version="1.0"?>\n<!-- logo -->\n<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBe('image/svg+xml')
+  })
+
+  it('refuses anything that is not an image', () => {
+    expect(assetType(bytes('<!doctype html><script>alert(1)</script>'))).toBeNull()
+    expect(assetType(bytes('%PDF-1.7'))).toBeNull()
+    expect(assetType(new Uint8Array())).toBeNull()
+  })
+})
+
+describe('assetHeaders', () => {
+  it('serves SVG only as a download', () => {
+    expect(assetHeaders('image/svg+xml')).toMatchObject({ 'Content-Type': 'image/svg+xml', 'Content-Disposition': 'attachment' })
+    expect(assetHeaders('image/png')['Content-Disposition']).toBeUndefined()
+  })
+})
@@ -0,0 +1,101 @@
+import type { Deck } from './deck'
+import type { NewVersion, StoredVersion, VersionMeta } from './versions'
+
+// ---------- Deck storage ----------
+// Server-side storage for decks, their saved versions and the images they use, behind one small interface so the
+// backend can change without touching the route handlers. Each save bumps a deck's revision;
+// writers pass the revision they started from and get a conflict back if someone saved in between.
+
+export type DeckMeta = {
+  id: string
+  title: string
+  // Set once the deck is given a name; until then the title follows the deck's first text.
+  customTitle?: boolean
+  // JPEG data URL of the first slide, sent along with saves that change it.
+  thumbnail?: string
+  createdAt: number
+  updatedAt: number
+  revision: number
+}
+
+// What a save says about a deck besides its content. Without a thumbnail the stored one is kept.
+export type DeckDetails = {
+  title: string
+  customTitle?: boolean
+  thumbnail?: string
+}
+
+export type StoredDeck = DeckMeta & { deck: Deck }
+
+export type UpdateResult =
+  | { ok: true; meta: DeckMeta }
+  | { ok: false; reason: 'not-found' }
+  | { ok: false; reason: 'conflict'; current: StoredDeck }
+
+export type DeckStorage = {
+  list(): Promise<DeckMeta[]>
+  get(id: string): Promise<StoredDeck | null>
+  create(deck: Deck, details: DeckDetails): Promise<DeckMeta>
+  // Without `baseRevision` the write wins regardless of what was saved in between. A deck with a
+  // custom title keeps it.
+  update(id: string, deck: Deck, details: DeckDetails, baseRevision?: number): Promise<UpdateResult>
+  // Names the deck without touching its content or revision; null if it doesn't exist.
+  rename(id: string, title: string): Promise<DeckMeta | null>
+  remove(id: string): Promise<boolean>
+  // Versions of a deck, newest first; null if the deck doesn't exist.
+  listVersions(deckId: string): Promise<VersionMeta[] | null>
+  getVersion(deckId: string, versionId: string): Promise<StoredVersion | null>
+  // Saving an automatic snapshot also drops the ones past the limit.
+  createVersion(deckId: string, version: NewVersion, deck: Deck): Promise<VersionMeta | null>
+  removeVersion(deckId: string, versionId: string): Promise<boolean>
+  getAsset(id: string): Promise<{ bytes: Uint8Array<ArrayBuffer>; type: string } | null>
+  putAsset(id: string, bytes: Uint8Array, type: string): Promise<void>
+}
+
+// Deck ids come from uid('deck'); asset ids are SHA-256 hashes of the content.
+export const DECK_ID_PATTERN = /^deck_[a-z0-9]{1,16}$/
+export const ASSET_ID_PATTERN = /^[0-9a-f]{64}$/
+
+// Image types the asset routes store: whatever the editor takes in (file pickers, drops, pastes).
+// Anything else could come back as a page on this origin, so it is refused; SVG can carry script,
+// so it is only ever sent as a download.
+const RASTER_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/avif', 'image/bmp', 'image/x-icon']
+const SVG_TYPE = 'image/svg+xml'
+
+// The type an upload is stored under, read from its bytes, or null if it is not an accepted image.
+// The declared Content-Type isn't trusted: dropped files often have none, and it says nothing
+// about what the bytes actually are.
+export function assetType(bytes: Uint8Array): string | null {
+  const ascii = (from: number, to: number) => String.fromCharCode(...bytes.subarray(from, to))
+  if (ascii(0, 8) === '\x89PNG\r\n\x1a\n') return 'image/png'
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg'
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') return 'image/gif'
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp'
+  if (ascii(4, 8) === 'ftyp' && ['avif', 'avis'].includes(ascii(8, 12))) return 'image/avif'
+  if (ascii(0, 2) === 'BM' && bytes.length > 26) return 'image/bmp'
+  if (ascii(0, 4) === '\0\0\x01\0') return 'image/x-icon'
+  const head = new TextDecoder().decode(bytes.subarray(0, 4096)).trimStart()
+  if (head.startsWith('<') && /<svg[\s>]/i.test(head)) return SVG_TYPE
+  return null
+}
+
+// Response headers for a stored asset: never sniffed, never run as a document.
+export function assetHeaders(type: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': RASTER_TYPES.includes(type) || type === SVG_TYPE ? type : 'application/octet-stream',
+    'Cache-Control': 'private, max-age=31536000, immutable',
+    'X-Content-Type-Options': 'nosniff',
+    'Content-Security-Policy': 'sandbox',
+  }
+  if (!RASTER_TYPES.includes(type)) headers['Content-Disposition'] = 'attachment'
+  return headers
+}
+
+export const MAX_TITLE_LENGTH = 100
+export const MAX_THUMBNAIL_LENGTH = 512 * 1024
+
+export function metaOf(stored: StoredDeck): DeckMeta {
+  const meta: Partial<StoredDeck> = { ...stored }
+  delete meta.deck
+  return meta as DeckMeta
+}
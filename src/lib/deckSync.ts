@@ -0,0 +1,327 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { AssetUploadError, assetIdsIn, downloadAssets, uploadAssets } from './assets'
+import type { Deck } from './deck'
+import type { DeckMeta } from './deckStorage'
+import { parseDocument, toDocument, type DeckDocument, type DocumentError } from './document'
+import { thumbnailOf, type VersionStore } from './versionStore'
+import type { VersionMeta } from './versions'
+
+// ---------- Server decks ----------
+// Decks stored through /api/decks. Every change is written to a copy in localStorage straight away
+// and sent to the server after a short pause, so editing carries on while the server is
+// unreachable and the copy goes up once it is back. Saves name the revision they were made on top
+// of; if the server has moved on since, the editor asks which version to keep.
+
+export type SaveStatus = 'saved' | 'saving' | 'offline' | 'conflict' | 'failed'
+
+// Wait this long (ms) after the last change before saving, and between retries while offline.
+export const AUTOSAVE_DELAY = 1000
+const RETRY_DELAY = 5000
+
+const CACHE_PREFIX = 'slide-deck.server.'
+
+const deckUrl = (id: string) => `/api/decks/${encodeURIComponent(id)}`
+const assetUrl = (id: string) => `/api/assets/${id}`
+
+// Asset ids the server is known to have, shared by every deck opened in this tab.
+const syncedAssets = new Set<string>()
+
+// The JSON body of a response; a body that is not JSON (a proxy's error page, a cut-off
+// response) fails like the request itself.
+async function readJson<T>(res: Response, what: string): Promise<T> {
+  try {
+    return (await res.json()) as T
+  } catch {
+    throw new Error(`${what} failed (unreadable response)`)
+  }
+}
+
+// ---------- Local copies ----------
+
+type CachedDeck = { document: DeckDocument; revision?: number; dirty: boolean }
+type LocalCopy = { deck: Deck; revision?: number; dirty: boolean }
+
+function readCache(id: string): LocalCopy | null {
+  try {
+    const cached = JSON.parse(localStorage.getItem(CACHE_PREFIX + id) ?? 'null') as CachedDeck | null
+    if (!cached) return null
+    const parsed = parseDocument(cached.document)
+    return parsed.ok ? { deck: parsed.deck, revision: cached.revision, dirty: !!cached.dirty } : null
+  } catch {
+    return null
+  }
+}
+
+function writeCache(id: string, deck: Deck, revision: number | undefined, dirty: boolean) {
+  const cached: CachedDeck = { document: toDocument(deck), revision, dirty }
+  try {
+    localStorage.setItem(CACHE_PREFIX + id, JSON.stringify(cached))
+  } catch {
+    // Out of quota: the server copy still saves; only offline edits lose their safety net.
+  }
+}
+
+// Images used by decks kept on this device, which asset garbage collection must spare.
+export function cachedDeckAssets(): Set<string> {
+  const ids = new Set<string>()
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)
+    const copy = key?.startsWith(CACHE_PREFIX) ? readCache(key.slice(CACHE_PREFIX.length)) : null
+    if (copy) for (const id of assetIdsIn(copy.deck.slides.map((sl) => sl.shapes))) ids.add(id)
+  }
+  return ids
+}
+
+// ---------- Requests ----------
+
+export type LoadedDeck = ({ ok: true } & LocalCopy) | { ok: false; error: DocumentError }
+
+const OPEN_FAILED = 'This deck could not be opened'
+
+// The server's copy, unless this device holds edits that never reached it; those are kept and
+// saved on top of the revision they started from.
+export async function loadServerDeck(id: string): Promise<LoadedDeck> {
+  const cached = readCache(id)
+  const fallback = (message: string): LoadedDeck => (cached ? { ok: true, ...cached } : { ok: false, error: { title: OPEN_FAILED, issues: [{ path: '', message }] } })
+  let res: Response
+  try {
+    res = await fetch(deckUrl(id))
+  } catch {
+    return fallback('the server could not be reached and this device has no copy of the deck')
+  }
+  if (res.status === 404) return { ok: false, error: { title: OPEN_FAILED, issues: [{ path: '', message: `there is no deck with id "${id}"` }] } }
+  if (!res.ok) return fallback(`the server responded with ${res.status}`)
+  if (cached?.dirty) return { ok: true, ...cached }
+  let body: DeckMeta & { document: unknown }
+  try {
+    body = await readJson(res, 'Opening the deck')
+  } catch {
+    return fallback('the server sent a response that could not be read')
+  }
+  const parsed = parseDocument(body.document, OPEN_FAILED)
+  if (!parsed.ok) return parsed
+  await downloadAssets(parsed.deck, assetUrl, syncedAssets).catch(() => {})
+  writeCache(id, parsed.deck, body.revision, false)
+  return { ok: true, deck: parsed.deck, revision: body.revision, dirty: false }
+}
+
+// Stores `deck` as a new server deck, named `title` if given.
+export async function createServerDeck(deck: Deck, title?: string): Promise<DeckMeta> {
+  await uploadAssets(deck, assetUrl, syncedAssets)
+  const body = JSON.stringify({ document: toDocument(deck), title, thumbnail: await thumbnailOf(deck) })
+  const res = await fetch('/api/decks', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body })
+  if (!res.ok) throw new Error(`Creating the deck failed (${res.status})`)
+  const meta = await readJson<DeckMeta>(res, 'Creating the deck')
+  writeCache(meta.id, deck, meta.revision, false)
+  return meta
+}
+
+// Server decks, most recently changed first.
+export async function listServerDecks(): Promise<DeckMeta[]> {
+  const res = await fetch('/api/decks')
+  if (!res.ok) throw new Error(`Listing decks failed (${res.status})`)
+  return (await readJson<{ decks: DeckMeta[] }>(res, 'Listing decks')).decks
+}
+
+export async function renameServerDeck(id: string, title: string): Promise<DeckMeta> {
+  const res = await fetch(deckUrl(id), { method: 'PATCH', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ title }) })
+  if (!res.ok) throw new Error(`Renaming the deck failed (${res.status})`)
+  return readJson<DeckMeta>(res, 'Renaming the deck')
+}
+
+// A copy of the stored deck, made on the server's copy; its images are already there.
+export async function duplicateServerDeck(meta: DeckMeta, title: string): Promise<DeckMeta> {
+  const source = await fetch(deckUrl(meta.id))
+  if (!source.ok) throw new Error(`Reading the deck failed (${source.status})`)
+  const { document } = await readJson<{ document: unknown }>(source, 'Reading the deck')
+  const body = JSON.stringify({ document, title, thumbnail: meta.thumbnail })
+  const res = await fetch('/api/decks', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body })
+  if (!res.ok) throw new Error(`Duplicating the deck failed (${res.status})`)
+  return readJson<DeckMeta>(res, 'Duplicating the deck')
+}
+
+// Deletes the deck and this device's copy of it.
+export async function deleteServerDeck(id: string): Promise<void> {
+  const res = await fetch(deckUrl(id), { method: 'DELETE' })
+  if (!res.ok && res.status !== 404) throw new Error(`Deleting the deck failed (${res.status})`)
+  localStorage.removeItem(CACHE_PREFIX + id)
+}
+
+// Versions of a server deck, stored beside it. Images go up first, as for the deck itself.
+export function serverVersionStore(deckId: string): VersionStore {
+  const url = `${deckUrl(deckId)}/versions`
+  const check = (res: Response, what: string) => {
+    if (!res.ok) throw new Error(`${what} failed (${res.status})`)
+    return res
+  }
+  return {
+    async list() {
+      const res = check(await fetch(url), 'Listing versions')
+      return (await readJson<{ versions: VersionMeta[] }>(res, 'Listing versions')).versions
+    },
+    async get(id) {
+      const res = await fetch(`${url}/${id}`)
+      if (!res.ok) return null
+      const body = await readJson<{ document: unknown }>(res, 'Reading the version').catch(() => null)
+      if (!body) return null
+      const parsed = parseDocument(body.document)
+      if (!parsed.ok) return null
+      await downloadAssets(parsed.deck, assetUrl, syncedAssets).catch(() => {})
+      return parsed.deck
+    },
+    async save(deck, name, auto) {
+      await uploadAssets(deck, assetUrl, syncedAssets)
+      const body = JSON.stringify({ document: toDocument(deck), name, auto, thumbnail: await thumbnailOf(deck) })
+      const res = check(await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body }), 'Saving the version')
+      return readJson<VersionMeta>(res, 'Saving the version')
+    },
+    async remove(id) {
+      check(await fetch(`${url}/${id}`, { method: 'DELETE' }), 'Deleting the version')
+    },
+  }
+}
+
+// ---------- Autosave ----------
+
+type AutosaveOptions = {
+  id: string | null
+  deck: Deck
+  // False while the deck must not be written, e.g. as a guest in someone else's session.
+  enabled: boolean
+  // Called with the deck once it has loaded, and with the server's version if the user takes it.
+  onLoad: (deck: Deck) => void
+  onError: (error: DocumentError) => void
+}
+
+export function useDeckAutosave({ id, deck, enabled, onLoad, onError }: AutosaveOptions) {
+  const [status, setStatus] = useState<SaveStatus>('saved')
+  const [ready, setReady] = useState(false)
+  const deckRef = useRef(deck)
+  const callbacksRef = useRef({ onLoad, onError })
+  // The revision local edits are based on, and the deck last known to match the server.
+  const revisionRef = useRef<number | undefined>(undefined)
+  const savedRef = useRef<Deck | null>(null)
+  const conflictRef = useRef<{ deck: Deck; revision: number } | null>(null)
+  const timerRef = useRef<number | null>(null)
+  const savingRef = useRef(false)
+  // The last refusal reported, so one that repeats on every edit is only shown once.
+  const refusalRef = useRef<string | null>(null)
+  useEffect(() => {
+    deckRef.current = deck
+    callbacksRef.current = { onLoad, onError }
+  })
+
+  const save = useCallback(async (force = false) => {
+    if (!id || savingRef.current) return
+    if (timerRef.current !== null) window.clearTimeout(timerRef.current)
+    timerRef.current = null
+    const target = deckRef.current
+    savingRef.current = true
+    let res: Response | null = null
+    let body: unknown = null
+    let refusal: string | null = null
+    try {
+      await uploadAssets(target, assetUrl, syncedAssets)
+      // The dashboard's thumbnail only needs redrawing when the first slide or the slide size changed.
+      const saved = savedRef.current
+      const thumbnail = saved && saved.slides[0] === target.slides[0] && saved.size === target.size ? undefined : await thumbnailOf(target)
+      res = await fetch(deckUrl(id), {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ document: toDocument(target), baseRevision: force ? undefined : revisionRef.current, thumbnail }),
+      })
+      // An unreadable answer counts as no answer: the save is retried.
+      if (res.ok || res.status === 409) body = await res.json()
+    } catch (err) {
+      res = null
+      if (err instanceof AssetUploadError && err.refused) refusal = err.message
+    }
+    savingRef.current = false
+    if (refusal !== null) {
+      // Retrying would only be refused again; the next edit tries once more.
+      setStatus('failed')
+      if (refusalRef.current !== refusal) callbacksRef.current.onError({ title: 'The deck could not be saved to the server', issues: [{ path: '', message: refusal }] })
+      refusalRef.current = refusal
+    } else if (res?.ok) {
+      refusalRef.current = null
+      const meta = body as DeckMeta
+      revisionRef.current = meta.revision
+      savedRef.current = target
+      conflictRef.current = null
+      const changed = deckRef.current !== target
+      writeCache(id, deckRef.current, meta.revision, changed)
+      setStatus(changed ? 'saving' : 'saved')
+      if (changed && timerRef.current === null) timerRef.current = window.setTimeout(() => save(), AUTOSAVE_DELAY)
+    } else if (res?.status === 409) {
+      const server = body as DeckMeta & { document: unknown }
+      const parsed = parseDocument(server.document)
+      if (parsed.ok) {
+        conflictRef.current = { deck: parsed.deck, revision: server.revision }
+        setStatus('conflict')
+      } else {
+        // The server's version is unreadable here, so there is nothing to offer instead of ours.
+        save(true)
+      }
+    } else {
+      setStatus('offline')
+      timerRef.current = window.setTimeout(() => save(), RETRY_DELAY)
+    }
+  }, [id])
+
+  // ---------- Loading ----------
+  useEffect(() => {
+    if (!id) return
+    let cancelled = false
+    setReady(false)
+    loadServerDeck(id).then((loaded) => {
+      if (cancelled) return
+      if (!loaded.ok) {
+        callbacksRef.current.onError(loaded.error)
+        return
+      }
+      revisionRef.current = loaded.revision
+      savedRef.current = loaded.dirty ? null : loaded.deck
+      deckRef.current = loaded.deck
+      callbacksRef.current.onLoad(loaded.deck)
+      setStatus(loaded.dirty ? 'saving' : 'saved')
+      setReady(true)
+      if (loaded.dirty) timerRef.current = window.setTimeout(() => save(), 0)
+    })
+    const onOnline = () => { if (deckRef.current !== savedRef.current) save() }
+    window.addEventListener('online', onOnline)
+    return () => {
+      cancelled = true
+      window.removeEventListener('online', onOnline)
+      if (timerRef.current !== null) window.clearTimeout(timerRef.current)
+      timerRef.current = null
+    }
+  }, [id, save])
+
+  // ---------- Saving ----------
+  useEffect(() => {
+    if (!id || !ready || !enabled || deck === savedRef.current) return
+    writeCache(id, deck, revisionRef.current, true)
+    // Held back until the user picks a version.
+    if (conflictRef.current) return
+    setStatus((s) => (s === 'offline' || s === 'failed' ? s : 'saving'))
+    if (timerRef.current !== null) window.clearTimeout(timerRef.current)
+    timerRef.current = window.setTimeout(() => save(), AUTOSAVE_DELAY)
+  }, [deck, enabled, id, ready, save])
+
+  // Resolves a conflict by overwriting the server's version, or by switching to it.
+  const keepMine = useCallback(() => save(true), [save])
+  const takeTheirs = useCallback(() => {
+    const theirs = conflictRef.current
+    if (!id || !theirs) return
+    conflictRef.current = null
+    revisionRef.current = theirs.revision
+    savedRef.current = theirs.deck
+    writeCache(id, theirs.deck, theirs.revision, false)
+    callbacksRef.current.onLoad(theirs.deck)
+    setStatus('saved')
+  }, [id])
+
+  return { status, ready, keepMine, takeTheirs }
+}
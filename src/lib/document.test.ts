@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import type { Deck } from './deck'
+import { DOCUMENT_FORMAT, DOCUMENT_VERSION, parseDocument, toDocument, validateDeck } from './document'
+import { connector, deckOf, group, rect, text } from './testShapes'
+
+describe('document migrations', () => {
+  it('reads the current format as is', () => {
+    const deck: Deck = deckOf(rect('r1'))
+    expect(parseDocument(toDocument(deck))).toEqual({ ok: true, deck })
+  })
+
+  it('upgrades a single-slide document (version 1) to one slide', () => {
+    const parsed = parseDocument({ shapes: [rect('r1')] })
+    expect(parsed.ok).toBe(true)
+    if (!parsed.ok) return
+    expect(parsed.deck.slides).toHaveLength(1)
+    expect(parsed.deck.slides[0].shapes).toEqual([rect('r1')])
+  })
+
+  it('upgrades a bare multi-slide deck (version 2), keeping image URLs for the asset store', () => {
+    const image = { kind: 'image', id: 'i1', x: 0, y: 0, rotation: 0, width: 40, height: 30, src: 'data:image/png;base64,AAAA' }
+    const parsed = parseDocument(deckOf<object>(image, { ...group('g1', []), children: [{ ...image, id: 'i2' }] }))
+    expect(parsed.ok).toBe(true)
+    if (!parsed.ok) return
+    expect(parsed.deck.slides[0].shapes[0]).toMatchObject({ assetId: '', src: image.src })
+    expect(parsed.deck.slides[0].shapes[1]).toMatchObject({ children: [{ assetId: '', src: image.src }] })
+  })
+
+  it('refuses documents from a newer editor', () => {
+    const parsed = parseDocument({ format: DOCUMENT_FORMAT, version: DOCUMENT_VERSION + 1, deck: deckOf() })
+    expect(parsed).toMatchObject({ ok: false, error: { issues: [{ path: 'version' }] } })
+  })
+
+  it('refuses things that are not decks', () => {
+    expect(parseDocument([]).ok).toBe(false)
+    expect(parseDocument({ title: 'no slides' }).ok).toBe(false)
+  })
+})
+
+describe('validateDeck', () => {
+  it('points at every bad field', () => {
+    const issues = validateDeck(deckOf<object>({ ...rect('r1'), width: 'wide' }, { ...rect('r2'), kind: 'hexagon' }))
+    expect(issues.map((i) => i.path)).toEqual(['deck.slides[0].shapes[0].width', 'deck.slides[0].shapes[1].kind'])
+  })
+
+  it('reports duplicate shape and slide ids', () => {
+    const [slide] = deckOf(rect('r1')).slides
+    const issues = validateDeck({ slides: [slide, { ...slide, shapes: [rect('r2'), rect('r2')] }] })
+    expect(issues.map((i) => i.path)).toEqual(['deck.slides[1].id', 'deck.slides[1].shapes[1].id'])
+  })
+
+  it('accepts only colour values where a colour goes', () => {
+    const runs = [{ text: 'x', color: 'red"><img src=x onerror=alert(1)>' }, { text: 'y', color: 'rgba(0, 0, 0, 0.5)' }]
+    const issues = validateDeck(deckOf({ ...text('t1', 'xy'), runs }, rect('r1', 0, 0, { fill: 'url(evil)' }), rect('r2', 0, 0, { fill: 'steelblue' })))
+    expect(issues.map((i) => i.path)).toEqual(['deck.slides[0].shapes[0].runs[0].color', 'deck.slides[0].shapes[1].fill'])
+  })
+
+  it('reports connectors bound to shapes that are not on their slide', () => {
+    const issues = validateDeck(deckOf(rect('r1'), group('g1', [connector('c1', 'r1', 'gone')])))
+    expect(issues).toEqual([{ path: 'deck.slides[0].shapes[1].children[0].end.shapeId', message: 'no shape with id "gone" on this slide' }])
+  })
+})
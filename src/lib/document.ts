@@ -0,0 +1,498 @@
+import { BLEND_MODES, DASH_STYLES, IMAGE_MASKS, THEME_COLORS, THEME_FONTS, TRANSITION_KINDS, createDeck, createSlide, flattenShapes, mapShapeTree, type Deck, type Shape } from './deck'
+import { BUILD_EASINGS, BUILD_EDGES, BUILD_EFFECTS, BUILD_TRIGGERS } from './builds'
+import { assetIdsIn, getAsset, putAsset } from './assets'
+import { MAX_SLIDE_SIDE, MIN_SLIDE_SIDE } from './slideSize'
+
+// ---------- Document format ----------
+// Decks are persisted (in localStorage and in saved files) as a versioned envelope:
+//
+//   { format: 'slide-deck', version: 3, deck: { slides: Slide[], size?, theme?, masters? } }
+//
+// Saved files add `assets`, mapping each referenced asset id to its base64-encoded bytes, so a file
+// opens on any machine. Version history:
+//   1 — `{ shapes }`: the single-slide editor's document, no envelope.
+//   2 — `{ slides }`: multi-slide deck, no envelope; images carried a `src` URL.
+//   3 — envelope; images reference the asset store by `assetId`.
+// Older documents are upgraded one version at a time by MIGRATIONS, then validated.
+
+export const DOCUMENT_FORMAT = 'slide-deck'
+export const DOCUMENT_VERSION = 3
+export const FILE_EXTENSION = '.deck.json'
+
+export type DeckDocument = {
+  format: typeof DOCUMENT_FORMAT
+  version: typeof DOCUMENT_VERSION
+  deck: Deck
+}
+
+export type EmbeddedAsset = {
+  type: string
+  data: string
+}
+
+export type DeckFile = DeckDocument & {
+  assets: Record<string, EmbeddedAsset>
+}
+
+// One problem found in a document; `path` points into the JSON, e.g. `deck.slides[2].shapes[0].width`.
+export type DocumentIssue = {
+  path: string
+  message: string
+}
+
+export type DocumentError = {
+  title: string
+  issues: DocumentIssue[]
+}
+
+export type ParseResult = { ok: true; deck: Deck } | { ok: false; error: DocumentError }
+
+// Local storage keys. The legacy key holds a bare `{ shapes }` document from the single-slide editor;
+// a main entry that fails to load is moved to the backup key rather than overwritten.
+export const LS_KEY = 'slide-deck'
+export const LEGACY_LS_KEY = 'single-slide-mvp'
+export const BACKUP_LS_KEY = 'slide-deck.unreadable'
+
+// ---------- Migrations ----------
+
+type Migration = (doc: Record<string, unknown>) => Record<string, unknown>
+
+// MIGRATIONS[n] upgrades a version-n document to version n + 1.
+const MIGRATIONS: Record<number, Migration> = {
+  1: (doc) => ({ slides: [createSlide(Array.isArray(doc.shapes) ? doc.shapes : [])] }),
+  2: (doc) => ({
+    format: DOCUMENT_FORMAT,
+    version: 3,
+    // Images keep their old `src` until the asset store imports it (see migrateImageSources).
+    deck: { ...doc, slides: mapSlides(doc.slides, (s) => (isRecord(s) && s.kind === 'image' && !('assetId' in s) ? { ...s, assetId: '' } : s)) },
+  }),
+}
+
+function mapSlides(slides: unknown, fn: (s: unknown) => unknown): unknown {
+  if (!Array.isArray(slides)) return slides
+  const mapTree = (shapes: unknown): unknown => (Array.isArray(shapes)
+    ? shapes.map((s) => {
+      const next = fn(s)
+      return isRecord(next) && Array.isArray(next.children) ? { ...next, children: mapTree(next.children) } : next
+    })
+    : shapes)
+  return slides.map((sl) => (isRecord(sl) ? { ...sl, shapes: mapTree(sl.shapes) } : sl))
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v)
+}
+
+function detectVersion(doc: Record<string, unknown>): number | null {
+  if (doc.format === DOCUMENT_FORMAT) return typeof doc.version === 'number' ? doc.version : null
+  if (Array.isArray(doc.slides)) return 2
+  if (Array.isArray(doc.shapes)) return 1
+  return null
+}
+
+// ---------- Validation ----------
+
+const SHAPE_KINDS = ['rect', 'circle', 'text', 'image', 'line', 'arrow', 'connector', 'group']
+const ARROW_HEADS = ['none', 'triangle', 'open', 'circle', 'diamond']
+const ANCHOR_NAMES = ['top', 'right', 'bottom', 'left', 'center']
+// Hex, rgb()/hsl() or a CSS colour name: the forms the editor writes and every exporter reads.
+const COLOR = /^(#[0-9a-f]{3,8}|(rgb|hsl)a?\([\d\s.,%+-]+\)|[a-z]+)$/i
+
+// Field checks that record an issue instead of throwing, so one pass reports everything wrong.
+function createChecker(issues: DocumentIssue[]) {
+  const report = (path: string, message: string) => issues.push({ path, message })
+  const field = (obj: Record<string, unknown>, key: string, path: string, type: 'number' | 'string' | 'boolean', optional = false) => {
+    const v = obj[key]
+    if (v === undefined && optional) return
+    const ok = type === 'number' ? typeof v === 'number' && Number.isFinite(v) : typeof v === type
+    if (!ok) report(`${path}.${key}`, v === undefined ? `missing ${type}` : `expected ${type}, got ${JSON.stringify(v)}`)
+  }
+  const oneOf = (obj: Record<string, unknown>, key: string, path: string, values: string[], optional = false) => {
+    const v = obj[key]
+    if (v === undefined && optional) return
+    if (typeof v !== 'string' || !values.includes(v)) report(`${path}.${key}`, `expected one of ${values.join(', ')}, got ${JSON.stringify(v)}`)
+  }
+  const color = (obj: Record<string, unknown>, key: string, path: string, optional = false) => {
+    const v = obj[key]
+    if (v === undefined && optional) return
+    if (typeof v !== 'string' || !COLOR.test(v)) report(`${path}.${key}`, v === undefined ? 'missing color' : `expected a color, got ${JSON.stringify(v)}`)
+  }
+  return { report, field, oneOf, color }
+}
+
+function validateShape(s: unknown, path: string, check: ReturnType<typeof createChecker>, ids: Set<string>) {
+  const { report, field, oneOf, color } = check
+  if (!isRecord(s)) { report(path, 'expected a shape object'); return }
+  if (typeof s.id !== 'string' || !s.id) report(`${path}.id`, 'missing id')
+  else if (ids.has(s.id)) report(`${path}.id`, `duplicate id "${s.id}"`)
+  else ids.add(s.id)
+  if (typeof s.kind !== 'string' || !SHAPE_KINDS.includes(s.kind)) {
+    report(`${path}.kind`, `unknown shape kind ${JSON.stringify(s.kind)}`)
+    return
+  }
+  field(s, 'x', path, 'number')
+  field(s, 'y', path, 'number')
+  field(s, 'rotation', path, 'number')
+  field(s, 'name', path, 'string', true)
+  field(s, 'locked', path, 'boolean', true)
+  field(s, 'hidden', path, 'boolean', true)
+  field(s, 'opacity', path, 'number', true)
+  oneOf(s, 'blendMode', path, BLEND_MODES, true)
+  if (s.themeRefs !== undefined) {
+    if (!isRecord(s.themeRefs)) report(`${path}.themeRefs`, 'expected an object of theme bindings')
+    else {
+      oneOf(s.themeRefs, 'fill', `${path}.themeRefs`, THEME_COLORS, true)
+      oneOf(s.themeRefs, 'stroke', `${path}.themeRefs`, THEME_COLORS, true)
+      oneOf(s.themeRefs, 'fontFamily', `${path}.themeRefs`, THEME_FONTS, true)
+    }
+  }
+  if (s.shadow !== undefined) {
+    if (!isRecord(s.shadow)) report(`${path}.shadow`, 'expected a shadow object')
+    else {
+      color(s.shadow, 'color', `${path}.shadow`)
+      for (const key of ['blur', 'offsetX', 'offsetY', 'opacity']) field(s.shadow, key, `${path}.shadow`, 'number')
+    }
+  }
+  if (s.builds !== undefined) {
+    if (!Array.isArray(s.builds)) report(`${path}.builds`, 'expected an array of builds')
+    else s.builds.forEach((b, i) => {
+      const bp = `${path}.builds[${i}]`
+      if (!isRecord(b)) { report(bp, 'expected a build object'); return }
+      oneOf(b, 'type', bp, ['entrance', 'exit'])
+      oneOf(b, 'effect', bp, BUILD_EFFECTS)
+      oneOf(b, 'edge', bp, BUILD_EDGES)
+      oneOf(b, 'easing', bp, BUILD_EASINGS)
+      oneOf(b, 'trigger', bp, BUILD_TRIGGERS)
+      field(b, 'duration', bp, 'number')
+      field(b, 'delay', bp, 'number')
+    })
+  }
+
+  const gradient = () => {
+    const g = s.fillGradient
+    const gp = `${path}.fillGradient`
+    if (g === undefined) return
+    if (!isRecord(g)) { report(gp, 'expected a gradient object'); return }
+    oneOf(g, 'kind', gp, ['linear', 'radial'])
+    field(g, 'angle', gp, 'number')
+    if (!Array.isArray(g.stops) || g.stops.length < 2) report(`${gp}.stops`, 'expected at least 2 gradient stops')
+    else g.stops.forEach((stop, i) => {
+      const stp = `${gp}.stops[${i}]`
+      if (!isRecord(stop)) { report(stp, 'expected a gradient stop'); return }
+      field(stop, 'offset', stp, 'number'); color(stop, 'color', stp)
+    })
+  }
+  const stroke = () => {
+    color(s, 'stroke', path)
+    field(s, 'strokeWidth', path, 'number')
+    oneOf(s, 'dash', path, DASH_STYLES, true)
+    oneOf(s, 'startHead', path, ARROW_HEADS, true)
+    oneOf(s, 'endHead', path, ARROW_HEADS, true)
+  }
+  switch (s.kind) {
+    case 'rect':
+      field(s, 'width', path, 'number'); field(s, 'height', path, 'number'); color(s, 'fill', path)
+      color(s, 'stroke', path, true); field(s, 'strokeWidth', path, 'number', true); field(s, 'cornerRadius', path, 'number', true)
+      oneOf(s, 'dash', path, DASH_STYLES, true); gradient()
+      break
+    case 'circle':
+      field(s, 'radius', path, 'number'); color(s, 'fill', path)
+      color(s, 'stroke', path, true); field(s, 'strokeWidth', path, 'number', true)
+      oneOf(s, 'dash', path, DASH_STYLES, true); gradient()
+      break
+    case 'text':
+      field(s, 'text', path, 'string'); field(s, 'fontSize', path, 'number'); color(s, 'fill', path)
+      field(s, 'width', path, 'number', true); field(s, 'height', path, 'number', true); field(s, 'fontFamily', path, 'string', true)
+      field(s, 'lineHeight', path, 'number', true); field(s, 'letterSpacing', path, 'number', true)
+      oneOf(s, 'align', path, ['left', 'center', 'right', 'justify'], true)
+      oneOf(s, 'verticalAlign', path, ['top', 'middle', 'bottom'], true)
+      oneOf(s, 'list', path, ['bullet', 'number'], true)
+      field(s, 'placeholder', path, 'string', true)
+      if (s.runs !== undefined) {
+        if (!Array.isArray(s.runs)) report(`${path}.runs`, 'expected an array of text runs')
+        else s.runs.forEach((r, i) => {
+          const rp = `${path}.runs[${i}]`
+          if (!isRecord(r)) { report(rp, 'expected a text run'); return }
+          field(r, 'text', rp, 'string'); field(r, 'bold', rp, 'boolean', true); field(r, 'italic', rp, 'boolean', true)
+          field(r, 'underline', rp, 'boolean', true); color(r, 'color', rp, true); field(r, 'fontSize', rp, 'number', true)
+        })
+      }
+      break
+    case 'image':
+      field(s, 'width', path, 'number'); field(s, 'height', path, 'number'); field(s, 'assetId', path, 'string')
+      if (s.crop !== undefined) {
+        if (!isRecord(s.crop)) report(`${path}.crop`, 'expected a crop object')
+        else for (const key of ['x', 'y', 'width', 'height']) field(s.crop, key, `${path}.crop`, 'number')
+      }
+      oneOf(s, 'mask', path, IMAGE_MASKS, true); field(s, 'maskRadius', path, 'number', true)
+      field(s, 'blur', path, 'number', true); field(s, 'brightness', path, 'number', true); field(s, 'contrast', path, 'number', true)
+      field(s, 'grayscale', path, 'boolean', true)
+      break
+    case 'line':
+    case 'arrow':
+      stroke()
+      if (!Array.isArray(s.points) || s.points.length < 4 || s.points.length % 2 !== 0 || !s.points.every((v) => typeof v === 'number' && Number.isFinite(v))) {
+        report(`${path}.points`, 'expected an even list of at least 4 numbers')
+      }
+      break
+    case 'connector':
+      stroke()
+      oneOf(s, 'routing', path, ['straight', 'elbow', 'curved'])
+      for (const key of ['start', 'end']) {
+        const e = s[key]
+        const ep = `${path}.${key}`
+        if (!isRecord(e)) { report(ep, 'expected a connector end'); continue }
+        field(e, 'x', ep, 'number'); field(e, 'y', ep, 'number'); field(e, 'shapeId', ep, 'string', true)
+        oneOf(e, 'anchor', ep, ANCHOR_NAMES, true)
+      }
+      break
+    case 'group':
+      if (!Array.isArray(s.children)) report(`${path}.children`, 'expected an array of shapes')
+      else s.children.forEach((c, i) => validateShape(c, `${path}.children[${i}]`, check, ids))
+      break
+  }
+}
+
+function validateSize(size: unknown, path: string, check: ReturnType<typeof createChecker>) {
+  if (!isRecord(size)) { check.report(path, 'expected a slide size object'); return }
+  for (const key of ['width', 'height']) {
+    const v = size[key]
+    if (typeof v !== 'number' || !(v >= MIN_SLIDE_SIDE && v <= MAX_SLIDE_SIDE)) {
+      check.report(`${path}.${key}`, `expected a number from ${MIN_SLIDE_SIDE} to ${MAX_SLIDE_SIDE}, got ${JSON.stringify(v)}`)
+    }
+  }
+}
+
+function validateTheme(theme: unknown, path: string, check: ReturnType<typeof createChecker>) {
+  const { report, field, oneOf, color } = check
+  if (!isRecord(theme)) { report(path, 'expected a theme object'); return }
+  field(theme, 'name', path, 'string')
+  if (!isRecord(theme.colors)) report(`${path}.colors`, 'expected a palette object')
+  else for (const c of THEME_COLORS) color(theme.colors, c, `${path}.colors`)
+  if (!isRecord(theme.fonts)) report(`${path}.fonts`, 'expected a fonts object')
+  else for (const f of THEME_FONTS) field(theme.fonts, f, `${path}.fonts`, 'string')
+  const shapes = theme.shapes
+  if (!isRecord(shapes)) { report(`${path}.shapes`, 'expected shape defaults'); return }
+  for (const kind of ['rect', 'circle', 'line', 'text']) {
+    const look = shapes[kind]
+    const lp = `${path}.shapes.${kind}`
+    if (!isRecord(look)) { report(lp, 'expected shape defaults'); continue }
+    if (kind !== 'line') oneOf(look, 'fill', lp, THEME_COLORS)
+    if (kind !== 'text') { oneOf(look, 'stroke', lp, THEME_COLORS); field(look, 'strokeWidth', lp, 'number') }
+    else oneOf(look, 'font', lp, THEME_FONTS)
+  }
+}
+
+function validateMasters(masters: unknown, path: string, check: ReturnType<typeof createChecker>) {
+  const { report, field, oneOf } = check
+  if (!Array.isArray(masters)) { report(path, 'expected an array of masters'); return }
+  masters.forEach((m, i) => {
+    const mp = `${path}[${i}]`
+    if (!isRecord(m)) { report(mp, 'expected a master object'); return }
+    field(m, 'id', mp, 'string'); field(m, 'name', mp, 'string'); oneOf(m, 'background', mp, THEME_COLORS)
+    if (!Array.isArray(m.layouts)) { report(`${mp}.layouts`, 'expected an array of layouts'); return }
+    m.layouts.forEach((l, j) => {
+      const lp = `${mp}.layouts[${j}]`
+      if (!isRecord(l)) { report(lp, 'expected a layout object'); return }
+      field(l, 'id', lp, 'string'); field(l, 'name', lp, 'string')
+      if (!Array.isArray(l.placeholders)) { report(`${lp}.placeholders`, 'expected an array of placeholders'); return }
+      l.placeholders.forEach((p, k) => {
+        const pp = `${lp}.placeholders[${k}]`
+        if (!isRecord(p)) { report(pp, 'expected a placeholder object'); return }
+        field(p, 'id', pp, 'string'); oneOf(p, 'role', pp, ['title', 'subtitle', 'body'])
+        for (const key of ['x', 'y', 'width', 'height', 'fontSize']) field(p, key, pp, 'number')
+        oneOf(p, 'align', pp, ['left', 'center', 'right', 'justify'])
+        oneOf(p, 'verticalAlign', pp, ['top', 'middle', 'bottom'])
+      })
+    })
+  })
+}
+
+// Connector ends can only be bound to shapes on their own slide.
+function validateBindings(shapes: unknown[], path: string, check: ReturnType<typeof createChecker>) {
+  const ids = new Set<string>()
+  const connectors: { s: Record<string, unknown>; path: string }[] = []
+  const walk = (list: unknown[], listPath: string) => list.forEach((s, i) => {
+    const sp = `${listPath}[${i}]`
+    if (!isRecord(s)) return
+    if (typeof s.id === 'string') ids.add(s.id)
+    if (s.kind === 'connector') connectors.push({ s, path: sp })
+    if (s.kind === 'group' && Array.isArray(s.children)) walk(s.children, `${sp}.children`)
+  })
+  walk(shapes, path)
+  for (const c of connectors) {
+    for (const key of ['start', 'end']) {
+      const e = c.s[key]
+      if (isRecord(e) && typeof e.shapeId === 'string' && !ids.has(e.shapeId)) check.report(`${c.path}.${key}.shapeId`, `no shape with id "${e.shapeId}" on this slide`)
+    }
+  }
+}
+
+export function validateDeck(deck: unknown, path = 'deck'): DocumentIssue[] {
+  const issues: DocumentIssue[] = []
+  const check = createChecker(issues)
+  if (!isRecord(deck)) return [{ path, message: 'expected a deck object' }]
+  if (!Array.isArray(deck.slides) || deck.slides.length === 0) return [{ path: `${path}.slides`, message: 'expected at least one slide' }]
+  if (deck.size !== undefined) validateSize(deck.size, `${path}.size`, check)
+  if (deck.theme !== undefined) validateTheme(deck.theme, `${path}.theme`, check)
+  if (deck.masters !== undefined) validateMasters(deck.masters, `${path}.masters`, check)
+  const ids = new Set<string>()
+  const slideIds = new Set<string>()
+  deck.slides.forEach((sl, i) => {
+    const sp = `${path}.slides[${i}]`
+    if (!isRecord(sl)) { check.report(sp, 'expected a slide object'); return }
+    check.field(sl, 'id', sp, 'string')
+    if (typeof sl.id === 'string') {
+      if (slideIds.has(sl.id)) check.report(`${sp}.id`, `duplicate slide id "${sl.id}"`)
+      slideIds.add(sl.id)
+    }
+    check.color(sl, 'background', sp)
+    check.field(sl, 'notes', sp, 'string', true)
+    check.field(sl, 'layout', sp, 'string', true)
+    check.oneOf(sl, 'backgroundRef', sp, THEME_COLORS, true)
+    if (sl.transition !== undefined) {
+      if (!isRecord(sl.transition)) check.report(`${sp}.transition`, 'expected a transition object')
+      else {
+        check.oneOf(sl.transition, 'kind', `${sp}.transition`, TRANSITION_KINDS)
+        check.field(sl.transition, 'duration', `${sp}.transition`, 'number')
+      }
+    }
+    if (!Array.isArray(sl.shapes)) { check.report(`${sp}.shapes`, 'expected an array of shapes'); return }
+    sl.shapes.forEach((s, j) => validateShape(s, `${sp}.shapes[${j}]`, check, ids))
+    validateBindings(sl.shapes, `${sp}.shapes`, check)
+  })
+  return issues
+}
+
+// Migrates any known version of the document to the current one and validates it.
+export function parseDocument(raw: unknown, title = 'This document could not be opened'): ParseResult {
+  const fail = (issues: DocumentIssue[]): ParseResult => ({ ok: false, error: { title, issues } })
+  if (!isRecord(raw)) return fail([{ path: '', message: 'expected a JSON object' }])
+  let doc = raw
+  let version = detectVersion(doc)
+  if (version === null) return fail([{ path: '', message: 'not a slide deck document (no format, slides or shapes field)' }])
+  if (version > DOCUMENT_VERSION) {
+    return fail([{ path: 'version', message: `saved by a newer version of the editor (format ${version}; this editor reads up to ${DOCUMENT_VERSION})` }])
+  }
+  while (version < DOCUMENT_VERSION) {
+    const migrate = MIGRATIONS[version]
+    if (!migrate) return fail([{ path: 'version', message: `no migration from format version ${version}` }])
+    doc = migrate(doc)
+    version++
+  }
+  const issues = validateDeck(doc.deck)
+  return issues.length > 0 ? fail(issues) : { ok: true, deck: doc.deck as Deck }
+}
+
+export function toDocument(deck: Deck): DeckDocument {
+  return { format: DOCUMENT_FORMAT, version: DOCUMENT_VERSION, deck }
+}
+
+// ---------- Local storage ----------
+
+export type LoadResult = { deck: Deck; error?: DocumentError }
+
+// Reads the saved deck. An unreadable entry is kept under BACKUP_LS_KEY and reported, and the editor
+// starts from a fresh deck.
+export function loadDeck(): LoadResult {
+  const raw = localStorage.getItem(LS_KEY)
+  if (raw) {
+    const result = parseJson(raw, 'Your saved deck could not be loaded')
+    if (result.ok) return { deck: result.deck }
+    localStorage.setItem(BACKUP_LS_KEY, raw)
+    const backup = { path: '', message: `The unreadable data was kept in localStorage under "${BACKUP_LS_KEY}".` }
+    return { deck: createDeck(), error: { ...result.error, issues: [...result.error.issues, backup] } }
+  }
+  const legacy = localStorage.getItem(LEGACY_LS_KEY)
+  if (legacy) {
+    const result = parseJson(legacy, 'Your saved slide could not be loaded')
+    if (!result.ok) return { deck: createDeck(), error: result.error }
+    saveDeck(result.deck)
+    localStorage.removeItem(LEGACY_LS_KEY)
+    return { deck: result.deck }
+  }
+  return { deck: createDeck() }
+}
+
+export function saveDeck(deck: Deck) {
+  localStorage.setItem(LS_KEY, JSON.stringify(toDocument(deck)))
+}
+
+function parseJson(text: string, title: string): ParseResult {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch (err) {
+    return { ok: false, error: { title, issues: [{ path: '', message: `not valid JSON: ${(err as Error).message}` }] } }
+  }
+  return parseDocument(raw, title)
+}
+
+// ---------- Files ----------
+
+async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  return btoa(binary)
+}
+
+function base64ToBlob(data: string, type: string): Blob {
+  const binary = atob(data)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return new Blob([bytes], { type })
+}
+
+// Builds a self-contained file: the document plus every image asset it references.
+export async function exportDeckFile(deck: Deck): Promise<Blob> {
+  const assets: Record<string, EmbeddedAsset> = {}
+  for (const id of assetIdsIn(deck.slides.map((sl) => sl.shapes))) {
+    const blob = await getAsset(id)
+    if (blob) assets[id] = { type: blob.type, data: await blobToBase64(blob) }
+  }
+  const file: DeckFile = { ...toDocument(deck), assets }
+  return new Blob([JSON.stringify(file)], { type: 'application/json' })
+}
+
+// Parses a saved file and loads its embedded assets into the asset store.
+export async function importDeckFile(text: string): Promise<ParseResult> {
+  const title = 'This file could not be opened'
+  const result = parseJson(text, title)
+  if (!result.ok) return result
+  const raw = JSON.parse(text) as { assets?: unknown }
+  const embedded = isRecord(raw.assets) ? raw.assets : {}
+
+  // Stored ids are content hashes, so re-hashing guards against edited files; remap if they differ.
+  const issues: DocumentIssue[] = []
+  const remap = new Map<string, string>()
+  for (const [id, asset] of Object.entries(embedded)) {
+    if (!isRecord(asset) || typeof asset.data !== 'string') {
+      issues.push({ path: `assets.${id}`, message: 'expected { type, data } with base64 data' })
+      continue
+    }
+    try {
+      remap.set(id, await putAsset(base64ToBlob(asset.data, typeof asset.type === 'string' ? asset.type : '')))
+    } catch {
+      issues.push({ path: `assets.${id}`, message: 'data is not valid base64' })
+    }
+  }
+  for (const id of assetIdsIn(result.deck.slides.map((sl) => sl.shapes))) {
+    if (!remap.has(id) && !(await getAsset(id))) issues.push({ path: `assets.${id}`, message: 'an image refers to this asset, but the file does not contain it' })
+  }
+  if (issues.length > 0) return { ok: false, error: { title, issues } }
+
+  const rebind = (s: Shape): Shape => (s.kind === 'image' && remap.has(s.assetId) ? { ...s, assetId: remap.get(s.assetId) as string } : s)
+  return { ok: true, deck: { ...result.deck, slides: result.deck.slides.map((sl) => ({ ...sl, shapes: mapShapeTree(sl.shapes, rebind) })) } }
+}
+
+// The first slide's first text, which is usually the presentation's title; '' if there is none.
+export function deckTitle(deck: Deck): string {
+  const first = flattenShapes(deck.slides[0]?.shapes ?? []).find((s) => s.kind === 'text')
+  return first?.kind === 'text' ? first.text.trim().slice(0, 40) : ''
+}
+
+export function deckFileName(deck: Deck): string {
+  const stem = deckTitle(deck).replace(/[^\w\- ]+/g, '').trim()
+  return `${stem || 'presentation'}${FILE_EXTENSION}`
+}
@@ -0,0 +1,37 @@
+// ---------- Dropped files ----------
+// Files dragged onto the canvas become shapes: images (SVG included) go into the asset store and
+// text files become a text box. Files are read with progress so large ones can show how far along
+// they are.
+
+export type DropKind = 'image' | 'text'
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|webp|avif|bmp|svg)$/i
+const TEXT_EXTENSIONS = /\.(txt|md|markdown|csv)$/i
+
+// What a file becomes when dropped, or null if the canvas can't take it. Some systems leave the
+// type empty, so the extension decides then.
+export function dropKind(file: File): DropKind | null {
+  if (file.type.startsWith('image/') || (!file.type && IMAGE_EXTENSIONS.test(file.name))) return 'image'
+  if (file.type.startsWith('text/') || TEXT_EXTENSIONS.test(file.name)) return 'text'
+  return null
+}
+
+// Whether a drag carries files (their names and contents are only readable on drop).
+export function carriesFiles(data: DataTransfer | null): boolean {
+  return !!data && Array.from(data.types).includes('Files')
+}
+
+export function readFile(file: File, onProgress: (loaded: number) => void): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onprogress = (e) => onProgress(e.loaded)
+    reader.onload = () => { onProgress(file.size); resolve(reader.result as ArrayBuffer) }
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`))
+    reader.readAsArrayBuffer(file)
+  })
+}
+
+// A dropped image's content, typed so the asset store and the browser can decode it.
+export function imageBlob(file: File, bytes: ArrayBuffer): Blob {
+  return new Blob([bytes], { type: file.type || (/\.svg$/i.test(file.name) ? 'image/svg+xml' : '') })
+}
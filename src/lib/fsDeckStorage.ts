@@ -0,0 +1,202 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { uid, type Deck } from './deck'
+import { parseDocument, toDocument, type DeckDocument } from './document'
+import { metaOf, type DeckMeta, type DeckStorage, type StoredDeck } from './deckStorage'
+import { expiredSnapshots, type StoredVersion, type VersionMeta } from './versions'
+
+// ---------- Filesystem backend ----------
+// One JSON file per deck under `<root>/decks`, holding its metadata and the same versioned document
+// envelope the editor saves locally, so stored decks migrate like any other. A deck's saved
+// versions are files of the same shape under `<root>/versions/<deck id>`. Images go under
+// `<root>/assets`, named by their hash with the content type alongside. Files are written to a
+// temporary name and renamed into place, so a crash mid-write never leaves half a deck.
+
+type DeckFileContents = { meta: DeckMeta; document: DeckDocument }
+type VersionFileContents = { meta: VersionMeta; document: DeckDocument }
+
+async function writeAtomic(file: string, data: string | Uint8Array) {
+  const tmp = `${file}.${process.pid}.${Date.now()}.tmp`
+  await fs.writeFile(tmp, data)
+  await fs.rename(tmp, file)
+}
+
+const isMissing = (err: unknown) => (err as NodeJS.ErrnoException).code === 'ENOENT'
+
+async function readJson<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as T
+  } catch (err) {
+    if (isMissing(err)) return null
+    throw err
+  }
+}
+
+function documentDeck(document: DeckDocument, what: string): Deck {
+  const parsed = parseDocument(document)
+  if (!parsed.ok) throw new Error(`${what} is unreadable: ${parsed.error.issues.map((i) => `${i.path} ${i.message}`).join('; ')}`)
+  return parsed.deck
+}
+
+export function createFsDeckStorage(root: string): DeckStorage {
+  const decksDir = path.join(root, 'decks')
+  const assetsDir = path.join(root, 'assets')
+  const deckFile = (id: string) => path.join(decksDir, `${id}.json`)
+  const versionsDir = (deckId: string) => path.join(root, 'versions', deckId)
+  const versionFile = (deckId: string, versionId: string) => path.join(versionsDir(deckId), `${versionId}.json`)
+  const ready = Promise.all([fs.mkdir(decksDir, { recursive: true }), fs.mkdir(assetsDir, { recursive: true })])
+
+  // Writes to one deck run one after another, so a revision check can't race another save.
+  const queues = new Map<string, Promise<unknown>>()
+  const serialized = <T>(id: string, task: () => Promise<T>): Promise<T> => {
+    const run = (queues.get(id) ?? Promise.resolve()).then(task, task)
+    const tail = run.catch(() => {})
+    queues.set(id, tail)
+    tail.then(() => { if (queues.get(id) === tail) queues.delete(id) })
+    return run
+  }
+
+  const read = async (id: string): Promise<StoredDeck | null> => {
+    await ready
+    const contents = await readJson<DeckFileContents>(deckFile(id))
+    return contents && { ...contents.meta, deck: documentDeck(contents.document, `Stored deck ${id}`) }
+  }
+
+  const listVersions = async (deckId: string): Promise<VersionMeta[]> => {
+    let names: string[]
+    try {
+      names = (await fs.readdir(versionsDir(deckId))).filter((n) => n.endsWith('.json'))
+    } catch (err) {
+      if (isMissing(err)) return []
+      throw err
+    }
+    const metas = await Promise.all(names.map((n) => readJson<VersionFileContents>(path.join(versionsDir(deckId), n)).catch(() => null)))
+    return metas.flatMap((c) => (c ? [c.meta] : [])).sort((a, b) => b.createdAt - a.createdAt)
+  }
+
+  const removeVersionFile = async (deckId: string, versionId: string) => {
+    try {
+      await fs.unlink(versionFile(deckId, versionId))
+      return true
+    } catch (err) {
+      if (isMissing(err)) return false
+      throw err
+    }
+  }
+
+  const write = (meta: DeckMeta, deck: Deck) => writeAtomic(deckFile(meta.id), JSON.stringify({ meta, document: toDocument(deck) } satisfies DeckFileContents))
+
+  return {
+    async list() {
+      await ready
+      const names = (await fs.readdir(decksDir)).filter((n) => n.endsWith('.json'))
+      const metas = await Promise.all(names.map(async (n) => {
+        try {
+          return (JSON.parse(await fs.readFile(path.join(decksDir, n), 'utf8')) as DeckFileContents).meta
+        } catch {
+          return null
+        }
+      }))
+      return metas.filter((m): m is DeckMeta => m !== null).sort((a, b) => b.updatedAt - a.updatedAt)
+    },
+
+    get: read,
+
+    async create(deck, details) {
+      await ready
+      const now = Date.now()
+      const meta: DeckMeta = { id: uid('deck'), ...details, createdAt: now, updatedAt: now, revision: 1 }
+      await write(meta, deck)
+      return meta
+    },
+
+    update(id, deck, details, baseRevision) {
+      return serialized(id, async () => {
+        const current = await read(id)
+        if (!current) return { ok: false, reason: 'not-found' } as const
+        if (baseRevision !== undefined && baseRevision !== current.revision) return { ok: false, reason: 'conflict', current } as const
+        const meta: DeckMeta = {
+          ...metaOf(current),
+          title: current.customTitle ? current.title : details.title,
+          thumbnail: details.thumbnail ?? current.thumbnail,
+          updatedAt: Date.now(),
+          revision: current.revision + 1,
+        }
+        await write(meta, deck)
+        return { ok: true, meta } as const
+      })
+    },
+
+    rename(id, title) {
+      return serialized(id, async () => {
+        const current = await read(id)
+        if (!current) return null
+        const meta: DeckMeta = { ...metaOf(current), title, customTitle: true }
+        await write(meta, current.deck)
+        return meta
+      })
+    },
+
+    remove(id) {
+      return serialized(id, async () => {
+        await ready
+        try {
+          await fs.unlink(deckFile(id))
+        } catch (err) {
+          if (isMissing(err)) return false
+          throw err
+        }
+        await fs.rm(versionsDir(id), { recursive: true, force: true })
+        return true
+      })
+    },
+
+    async listVersions(deckId) {
+      await ready
+      if (!(await readJson(deckFile(deckId)))) return null
+      return listVersions(deckId)
+    },
+
+    async getVersion(deckId, versionId) {
+      await ready
+      const contents = await readJson<VersionFileContents>(versionFile(deckId, versionId))
+      return contents && ({ ...contents.meta, deck: documentDeck(contents.document, `Version ${versionId}`) } satisfies StoredVersion)
+    },
+
+    createVersion(deckId, version, deck) {
+      return serialized(deckId, async () => {
+        await ready
+        if (!(await readJson(deckFile(deckId)))) return null
+        const meta: VersionMeta = { ...version, id: uid('version'), createdAt: Date.now(), slideCount: deck.slides.length }
+        await fs.mkdir(versionsDir(deckId), { recursive: true })
+        await writeAtomic(versionFile(deckId, meta.id), JSON.stringify({ meta, document: toDocument(deck) } satisfies VersionFileContents))
+        if (meta.auto) for (const old of expiredSnapshots(await listVersions(deckId))) await removeVersionFile(deckId, old.id)
+        return meta
+      })
+    },
+
+    removeVersion(deckId, versionId) {
+      return serialized(deckId, async () => {
+        await ready
+        return removeVersionFile(deckId, versionId)
+      })
+    },
+
+    async getAsset(id) {
+      await ready
+      try {
+        const [bytes, type] = await Promise.all([fs.readFile(path.join(assetsDir, id)), fs.readFile(path.join(assetsDir, `${id}.type`), 'utf8')])
+        return { bytes: new Uint8Array(bytes), type }
+      } catch (err) {
+        if (isMissing(err)) return null
+        throw err
+      }
+    },
+
+    async putAsset(id, bytes, type) {
+      await ready
+      await writeAtomic(path.join(assetsDir, `${id}.type`), type)
+      await writeAtomic(path.join(assetsDir, id), bytes)
+    },
+  }
+}
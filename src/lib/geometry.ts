@@ -0,0 +1,100 @@
+import type { Shape } from './deck'
+import { layoutRichText } from './richText'
+
+// ---------- Geometry ----------
+// Matrices and boxes shared by connectors, snapping, alignment and the exporters. A shape's local
+// space has its origin at the shape's x/y; rotation turns that space about the origin.
+
+export type Point = { x: number; y: number }
+export type Box = { x: number; y: number; width: number; height: number }
+
+// 2D affine matrix [a, b, c, d, e, f], same layout as canvas setTransform.
+export type Matrix = [number, number, number, number, number, number]
+
+export const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0]
+
+export function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ]
+}
+
+export function translateRotate(m: Matrix, x: number, y: number, degrees: number): Matrix {
+  const rad = (degrees * Math.PI) / 180
+  const cos = Math.cos(rad)
+  const sin = Math.sin(rad)
+  return multiply(m, [cos, sin, -sin, cos, x, y])
+}
+
+export function applyMatrix(m: Matrix, p: Point): Point {
+  return { x: m[0] * p.x + m[2] * p.y + m[4], y: m[1] * p.x + m[3] * p.y + m[5] }
+}
+
+export function invertMatrix(m: Matrix): Matrix {
+  const det = m[0] * m[3] - m[1] * m[2]
+  return [
+    m[3] / det,
+    -m[1] / det,
+    -m[2] / det,
+    m[0] / det,
+    (m[2] * m[5] - m[3] * m[4]) / det,
+    (m[1] * m[4] - m[0] * m[5]) / det,
+  ]
+}
+
+// Unrotated box of a shape in its own local space (origin at the shape's x/y).
+export function localBox(s: Shape): Box {
+  if (s.kind === 'rect' || s.kind === 'image') return { x: 0, y: 0, width: s.width, height: s.height }
+  if (s.kind === 'circle') return { x: -s.radius, y: -s.radius, width: s.radius * 2, height: s.radius * 2 }
+  if (s.kind === 'text') {
+    const layout = layoutRichText(s)
+    return { x: 0, y: 0, width: layout.width, height: layout.height }
+  }
+  if (s.kind === 'line' || s.kind === 'arrow') return boxOf(pairs(s.points))
+  if (s.kind === 'connector') return boxOf([s.start, s.end])
+  if (s.children.length === 0) return { x: 0, y: 0, width: 0, height: 0 }
+  return unionBox(s.children.map(shapeBounds))
+}
+
+// ---------- Bounds ----------
+
+export function corners(b: Box): Point[] {
+  return [
+    { x: b.x, y: b.y }, { x: b.x + b.width, y: b.y },
+    { x: b.x, y: b.y + b.height }, { x: b.x + b.width, y: b.y + b.height },
+  ]
+}
+
+// Axis-aligned box around `box` once `m` has moved, rotated or scaled it.
+export function transformedBox(m: Matrix, box: Box): Box {
+  return boxOf(corners(box).map((p) => applyMatrix(m, p)))
+}
+
+// Axis-aligned box around a shape, rotation included, in its parent's space.
+export function shapeBounds(s: Shape): Box {
+  return transformedBox(translateRotate(IDENTITY, s.x, s.y, s.rotation), localBox(s))
+}
+
+export function unionBox(boxes: Box[]): Box {
+  return boxOf(boxes.flatMap(corners))
+}
+
+export function pairs(points: number[]): Point[] {
+  const out: Point[] = []
+  for (let i = 0; i + 1 < points.length; i += 2) out.push({ x: points[i], y: points[i + 1] })
+  return out
+}
+
+export function boxOf(points: Point[]): Box {
+  const xs = points.map((p) => p.x)
+  const ys = points.map((p) => p.y)
+  const x = Math.min(...xs)
+  const y = Math.min(...ys)
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y }
+}
+
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import type { Shape } from './deck'
+import { COALESCE_WINDOW, EMPTY_HISTORY, HISTORY_LIMIT, applyStep, record, travel, type SlideHistory } from './history'
+import { group, rect } from './testShapes'
+
+// Records each of `states` as a step after the first, one second apart so nothing coalesces.
+function historyOf(...states: Shape[][]): SlideHistory {
+  return states.slice(1).reduce((h, shapes, i) => record(h, states[i], shapes, `Step ${i + 1}`, undefined, i * 10_000), EMPTY_HISTORY)
+}
+
+describe('undo history', () => {
+  it('undoes and redoes steps in order', () => {
+    const states = [[rect('r1')], [rect('r1', 50)], [rect('r1', 50), rect('r2')]]
+    const history = historyOf(...states)
+    const undone = travel(history, states[2], 1)
+    expect(undone.shapes).toEqual(states[1])
+    expect(travel(history, states[2], 0).shapes).toEqual(states[0])
+    expect(travel(undone.history, undone.shapes, 2).shapes).toEqual(states[2])
+  })
+
+  it('records nothing when nothing changed', () => {
+    const history = historyOf([rect('r1')])
+    expect(record(history, [rect('r1')], [rect('r1')], 'Nothing')).toBe(history)
+  })
+
+  it('drops the redo stack when a new step is recorded', () => {
+    const states = [[rect('r1')], [rect('r1', 50)]]
+    const { history, shapes } = travel(historyOf(...states), states[1], 0)
+    expect(history.future).toHaveLength(1)
+    expect(record(history, shapes, [rect('r1', 70)], 'Move').future).toEqual([])
+  })
+
+  it('leaves fields someone else changed since the step alone', () => {
+    const history = historyOf([rect('r1')], [{ ...rect('r1', 50), fill: '#00ff00' }])
+    // A collaborator moved the rectangle after our step; undo only takes back our colour.
+    const theirs = [{ ...rect('r1', 80), fill: '#00ff00' }]
+    expect(travel(history, theirs, 0).shapes).toEqual([rect('r1', 80)])
+  })
+
+  it('puts a removed shape back where it was among its siblings', () => {
+    const full = group('g1', [rect('a'), rect('b'), rect('c')])
+    const removed = group('g1', [rect('a'), rect('c')])
+    const history = historyOf([full], [removed])
+    expect(travel(history, [removed], 0).shapes).toEqual([full])
+  })
+
+  it('merges edits with the same coalesce key made close together', () => {
+    let history = record(EMPTY_HISTORY, [rect('r1')], [rect('r1', 1)], 'Nudge', 'nudge', 0)
+    history = record(history, [rect('r1', 1)], [rect('r1', 2)], 'Nudge', 'nudge', COALESCE_WINDOW / 2)
+    expect(history.past).toHaveLength(1)
+    expect(applyStep([rect('r1', 2)], history.past[0], 'undo')).toEqual([rect('r1')])
+    history = record(history, [rect('r1', 2)], [rect('r1', 3)], 'Nudge', 'nudge', COALESCE_WINDOW * 2)
+    expect(history.past).toHaveLength(2)
+  })
+
+  it('drops a coalesced step that ends where it started', () => {
+    let history = record(EMPTY_HISTORY, [rect('r1')], [rect('r1', 1)], 'Nudge', 'nudge', 0)
+    history = record(history, [rect('r1', 1)], [rect('r1')], 'Nudge', 'nudge', 10)
+    expect(history.past).toEqual([])
+  })
+
+  it(`keeps at most ${HISTORY_LIMIT} steps`, () => {
+    const states = Array.from({ length: HISTORY_LIMIT + 5 }, (_, i) => [rect('r1', i)])
+    const history = historyOf(...states)
+    expect(history.past).toHaveLength(HISTORY_LIMIT)
+    expect(travel(history, states[states.length - 1], 0).shapes).toEqual(states[4])
+  })
+})
@@ -0,0 +1,200 @@
+import type { Deck, Shape } from './deck'
+import { freeDanglingEnds } from './connectors'
+import { fromRecords, sameValue, toRecords } from './records'
+
+// ---------- Undo history ----------
+// Each slide keeps its own history. A step stores only what changed, as field-level operations on
+// the slide's shape records, and can be applied in either direction. Steps made by a continuous
+// edit (typing in a field, dragging a colour picker, nudging with the arrow keys) share a coalesce
+// key and merge into one step while they keep coming.
+//
+// Operations are addressed by shape id and field rather than by position, and one is only applied
+// while the field still holds the value the step left there. Whatever changed it since (a
+// collaborator, most often) wins, so undo never takes back somebody else's edit.
+
+// Sets `field` of shape `id`; `undefined` removes it. A shape whose fields are all removed is gone.
+export type PatchOp = { id: string; field: string; before: unknown; after: unknown }
+
+export type HistoryStep = {
+  label: string
+  ops: PatchOp[]
+  at: number
+  coalesce?: string
+}
+
+export type SlideHistory = { past: HistoryStep[]; future: HistoryStep[] }
+
+export const EMPTY_HISTORY: SlideHistory = { past: [], future: [] }
+
+export const HISTORY_LIMIT = 100
+// Edits with the same coalesce key this close together (ms) become one step.
+export const COALESCE_WINDOW = 1000
+
+export const HISTORY_LS_KEY = 'slide-deck.history'
+
+export function diffShapes(before: Shape[], after: Shape[]): PatchOp[] {
+  const a = toRecords(before)
+  const b = toRecords(after)
+  const ops: PatchOp[] = []
+  for (const id of new Set([...a.keys(), ...b.keys()])) {
+    const ra = a.get(id) ?? {}
+    const rb = b.get(id) ?? {}
+    for (const field of new Set([...Object.keys(ra), ...Object.keys(rb)])) {
+      if (!sameValue(ra[field], rb[field])) ops.push({ id, field, before: ra[field], after: rb[field] })
+    }
+  }
+  return ops
+}
+
+// Applies a step forwards (redo) or backwards (undo), skipping fields that have moved on since.
+export function applyStep(shapes: Shape[], step: HistoryStep, direction: 'undo' | 'redo'): Shape[] {
+  const records = toRecords(shapes)
+  for (const op of step.ops) {
+    const [expected, next] = direction === 'undo' ? [op.after, op.before] : [op.before, op.after]
+    const current = records.get(op.id)
+    if (!sameValue(current?.[op.field], expected)) continue
+    const copy = { ...current }
+    if (next === undefined) delete copy[op.field]
+    else copy[op.field] = structuredClone(next)
+    records.set(op.id, copy)
+  }
+  return freeDanglingEnds(fromRecords(records))
+}
+
+// Records `before` → `after` on top of `history`, merging into the latest step when it is a
+// continuation of the same edit.
+export function record(history: SlideHistory, before: Shape[], after: Shape[], label: string, coalesce?: string, now = Date.now()): SlideHistory {
+  const last = history.past[history.past.length - 1]
+  if (coalesce && last && history.future.length === 0 && last.coalesce === coalesce && now - last.at < COALESCE_WINDOW) {
+    const ops = diffShapes(applyStep(before, last, 'undo'), after)
+    const past = history.past.slice(0, -1)
+    return { past: ops.length > 0 ? [...past, { ...last, ops, at: now }] : past, future: [] }
+  }
+  const ops = diffShapes(before, after)
+  if (ops.length === 0) return history
+  return { past: [...history.past, { label, ops, at: now, coalesce }].slice(-HISTORY_LIMIT), future: [] }
+}
+
+// Undoes or redoes steps until `count` of them are applied, returning the history and shapes then.
+export function travel(history: SlideHistory, shapes: Shape[], count: number): { history: SlideHistory; shapes: Shape[] } {
+  let { past, future } = history
+  while (past.length > count) {
+    const step = past[past.length - 1]
+    shapes = applyStep(shapes, step, 'undo')
+    past = past.slice(0, -1)
+    future = [step, ...future]
+  }
+  while (past.length < count && future.length > 0) {
+    const step = future[0]
+    shapes = applyStep(shapes, step, 'redo')
+    past = [...past, step]
+    future = future.slice(1)
+  }
+  return { history: { past, future }, shapes }
+}
+
+// ---------- Persistence ----------
+// Histories are stored next to the deck (under `key`, one per deck) with a hash of the shapes they end at. A slide whose shapes
+// no longer match (the deck was replaced or edited elsewhere) starts with an empty history.
+
+type StoredHistory = SlideHistory & { head: string }
+
+function hash(text: string): string {
+  let h = 5381
+  for (let i = 0; i < text.length; i++) h = Math.imul(h, 33) ^ text.charCodeAt(i)
+  return (h >>> 0).toString(36)
+}
+
+const headOf = (shapes: Shape[]) => hash(JSON.stringify(shapes))
+
+export function saveHistories(histories: Record<string, SlideHistory>, deck: Deck, key = HISTORY_LS_KEY) {
+  const stored: Record<string, StoredHistory> = {}
+  for (const slide of deck.slides) {
+    const h = histories[slide.id]
+    if (h && (h.past.length > 0 || h.future.length > 0)) stored[slide.id] = { ...h, head: headOf(slide.shapes) }
+  }
+  try {
+    localStorage.setItem(key, JSON.stringify(stored))
+  } catch {
+    // History is a convenience; a full quota must not break editing.
+    localStorage.removeItem(key)
+  }
+}
+
+// Steps saved before operations were addressed by shape id are dropped.
+const validSteps = (steps: unknown): steps is HistoryStep[] =>
+  Array.isArray(steps) && steps.every((s) => Array.isArray(s?.ops) && s.ops.every((op: PatchOp) => typeof op?.id === 'string' && typeof op.field === 'string'))
+
+export function loadHistories(deck: Deck, key = HISTORY_LS_KEY): Record<string, SlideHistory> {
+  let stored: Record<string, StoredHistory>
+  try {
+    stored = JSON.parse(localStorage.getItem(key) ?? '{}')
+  } catch {
+    return {}
+  }
+  const out: Record<string, SlideHistory> = {}
+  for (const slide of deck.slides) {
+    const h = stored[slide.id]
+    if (h && validSteps(h.past) && validSteps(h.future) && h.head === headOf(slide.shapes)) out[slide.id] = { past: h.past, future: h.future }
+  }
+  return out
+}
+
+// Images the stored histories of every deck could bring back with an undo or redo, so they are
+// kept when nothing on a slide uses them any more.
+export function storedHistoryAssets(): Set<string> {
+  const ids = new Set<string>()
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)
+    if (!key || (key !== HISTORY_LS_KEY && !key.startsWith(`${HISTORY_LS_KEY}.`))) continue
+    let stored: Record<string, StoredHistory>
+    try {
+      stored = JSON.parse(localStorage.getItem(key) ?? '{}')
+    } catch {
+      continue
+    }
+    for (const h of Object.values(stored ?? {})) {
+      const steps = [h?.past, h?.future].filter(validSteps).flat()
+      for (const op of steps.flatMap((s) => s.ops)) {
+        if (op.field !== 'assetId') continue
+        if (typeof op.before === 'string') ids.add(op.before)
+        if (typeof op.after === 'string') ids.add(op.after)
+      }
+    }
+  }
+  return ids
+}
+
+// ---------- Labels ----------
+
+const KIND_NAMES: Record<Shape['kind'], string> = {
+  rect: 'Rectangle', circle: 'Circle', text: 'Text', image: 'Image',
+  line: 'Line', arrow: 'Arrow', connector: 'Connector', group: 'Group',
+}
+
+export function shapeLabel(s: Shape): string {
+  return s.name || KIND_NAMES[s.kind]
+}
+
+export function shapesLabel(shapes: Shape[]): string {
+  return shapes.length === 1 ? shapeLabel(shapes[0]) : `${shapes.length} shapes`
+}
+
+const FIELD_NAMES: Record<string, string> = {
+  x: 'Move', y: 'Move', rotation: 'Rotate', fill: 'Change fill', stroke: 'Change stroke', strokeWidth: 'Change stroke width',
+  width: 'Resize', height: 'Resize', radius: 'Resize', cornerRadius: 'Change corner radius', name: 'Rename',
+  locked: 'Lock', hidden: 'Hide', builds: 'Change builds', fontFamily: 'Change font', fontSize: 'Change font size',
+  lineHeight: 'Change line height', letterSpacing: 'Change letter spacing', align: 'Align text', list: 'Change list',
+  verticalAlign: 'Align text', runs: 'Edit text', text: 'Edit text', startHead: 'Change arrowheads',
+  endHead: 'Change arrowheads', routing: 'Change routing',
+  crop: 'Crop', mask: 'Change mask', maskRadius: 'Change mask corners', blur: 'Change blur', brightness: 'Change brightness',
+  contrast: 'Change contrast', grayscale: 'Change grayscale', opacity: 'Change opacity',
+  fillGradient: 'Change fill', dash: 'Change dash', shadow: 'Change shadow', blendMode: 'Change blend mode',
+  themeRefs: 'Change theme colours',
+}
+
+// "Move Rectangle", "Change fill" and so on for a partial update of `shapes`.
+export function updateLabel(shapes: Shape[], fields: string[]): string {
+  const verb = FIELD_NAMES[fields[0]] ?? 'Edit'
+  return verb.startsWith('Change') || verb === 'Edit text' || verb === 'Align text' ? verb : `${verb} ${shapesLabel(shapes)}`
+}
@@ -0,0 +1,36 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { cachedAssetImage, loadAssetImage } from './assets'
+
+export function useResizeObserver<T extends HTMLElement>() {
+  const ref = useRef<T | null>(null)
+  const [size, setSize] = useState({ width: 0, height: 0 })
+  useEffect(() => {
+    if (!ref.current) return
+    const el = ref.current
+    const ro = new ResizeObserver((entries) => {
+      const cr = entries[0].contentRect
+      setSize({ width: cr.width, height: cr.height })
+    })
+    ro.observe(el)
+    setSize({ width: el.clientWidth, height: el.clientHeight })
+    return () => ro.disconnect()
+  }, [])
+  return { ref, size }
+}
+
+// Decoded image for a stored asset; starts from the cache so remounted nodes don't flash empty.
+export function useAssetImage(assetId: string) {
+  const [img, setImg] = useState<HTMLImageElement | null>(() => (assetId ? cachedAssetImage(assetId) : null))
+  useEffect(() => {
+    if (!assetId) return
+    let cancelled = false
+    loadAssetImage(assetId).then(
+      (image) => { if (!cancelled) setImg(image) },
+      () => { if (!cancelled) setImg(null) },
+    )
+    return () => { cancelled = true }
+  }, [assetId])
+  return img
+}
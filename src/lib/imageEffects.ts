@@ -0,0 +1,139 @@
+import type { ImageCrop, ImageShape } from './deck'
+import { loadAssetImage } from './assets'
+import type { Box } from './geometry'
+
+// ---------- Image effects ----------
+// Crop, mask and filters on an image shape are settings, never edits to the stored asset.
+// The editor draws them with Konva (crop, clip and its filter pipeline); exports bake them into a
+// PNG with the same pixel maths, so every format shows what the canvas shows.
+
+export const FULL_CROP: ImageCrop = { x: 0, y: 0, width: 1, height: 1 }
+
+// Mask corner radius used until one is set.
+export const DEFAULT_MASK_RADIUS = 32
+
+// Bigger images are scaled down to this many pixels on their longer side when baked.
+const MAX_BAKED_SIZE = 4096
+
+export function hasImageFilters(s: ImageShape): boolean {
+  return !!s.blur || (s.brightness ?? 1) !== 1 || !!s.contrast || !!s.grayscale
+}
+
+export function hasImageEffects(s: ImageShape): boolean {
+  return !!s.crop || !!s.mask || hasImageFilters(s)
+}
+
+// Identifies what an image looks like once baked, so exports embed each distinct look once.
+export function imageEffectsKey(s: ImageShape): string {
+  if (!hasImageEffects(s)) return s.assetId
+  const { crop, mask, maskRadius, blur, brightness, contrast, grayscale } = s
+  return `${s.assetId}:${JSON.stringify([crop, mask, maskRadius, blur, brightness, contrast, grayscale, s.width, s.height])}`
+}
+
+// The crop in pixels of an image `width` × `height`.
+export function cropPixels(crop: ImageCrop | undefined, width: number, height: number) {
+  const c = crop ?? FULL_CROP
+  return { x: c.x * width, y: c.y * height, width: c.width * width, height: c.height * height }
+}
+
+// Keeps a crop inside the image and at least `min` of it on each side.
+export function clampCrop(c: ImageCrop, min = 0.01): ImageCrop {
+  const width = Math.max(min, Math.min(1, c.width))
+  const height = Math.max(min, Math.min(1, c.height))
+  return { x: Math.max(0, Math.min(1 - width, c.x)), y: Math.max(0, Math.min(1 - height, c.y)), width, height }
+}
+
+// The whole image's box in the shape's local space: the shown part sits at (0, 0) with the
+// shape's size, and the rest extends around it at the same scale.
+export function uncroppedBox(s: ImageShape): Box {
+  const c = s.crop ?? FULL_CROP
+  const width = s.width / c.width
+  const height = s.height / c.height
+  return { x: -c.x * width, y: -c.y * height, width, height }
+}
+
+// The shape cropped to `box`, given in its local space; the image keeps its scale and place on the
+// slide, only the visible part changes. Cropping to the whole image clears the crop.
+export function cropTo(s: ImageShape, box: Box): ImageShape {
+  const full = uncroppedBox(s)
+  const crop = clampCrop({ x: (box.x - full.x) / full.width, y: (box.y - full.y) / full.height, width: box.width / full.width, height: box.height / full.height })
+  const dx = full.x + crop.x * full.width
+  const dy = full.y + crop.y * full.height
+  const rad = (s.rotation * Math.PI) / 180
+  const whole = crop.x === 0 && crop.y === 0 && crop.width === 1 && crop.height === 1
+  return {
+    ...s,
+    x: s.x + dx * Math.cos(rad) - dy * Math.sin(rad),
+    y: s.y + dx * Math.sin(rad) + dy * Math.cos(rad),
+    width: crop.width * full.width,
+    height: crop.height * full.height,
+    crop: whole ? undefined : crop,
+  }
+}
+
+type PathContext = Pick<CanvasRenderingContext2D, 'beginPath' | 'ellipse' | 'moveTo' | 'arcTo' | 'closePath' | 'rect'>
+
+// Traces the mask's outline over a `width` × `height` box.
+export function traceMask(ctx: PathContext, s: Pick<ImageShape, 'mask' | 'maskRadius'>, width: number, height: number) {
+  ctx.beginPath()
+  if (s.mask === 'circle') {
+    ctx.ellipse(width / 2, height / 2, width / 2, height / 2, 0, 0, Math.PI * 2)
+  } else if (s.mask === 'rounded') {
+    const r = Math.max(0, Math.min(s.maskRadius ?? DEFAULT_MASK_RADIUS, width / 2, height / 2))
+    ctx.moveTo(r, 0)
+    ctx.arcTo(width, 0, width, height, r)
+    ctx.arcTo(width, height, 0, height, r)
+    ctx.arcTo(0, height, 0, 0, r)
+    ctx.arcTo(0, 0, width, 0, r)
+    ctx.closePath()
+  } else {
+    ctx.rect(0, 0, width, height)
+  }
+}
+
+// Brightness, contrast and grayscale exactly as Konva's Brightness, Contrast and Grayscale
+// filters compute them.
+export function filterPixels(data: Uint8ClampedArray, s: ImageShape) {
+  const brightness = s.brightness ?? 1
+  const adjust = Math.pow(((s.contrast ?? 0) + 100) / 100, 2)
+  const contrast = (v: number) => ((v / 255 - 0.5) * adjust + 0.5) * 255
+  for (let i = 0; i < data.length; i += 4) {
+    let r = Math.min(255, data[i] * brightness)
+    let g = Math.min(255, data[i + 1] * brightness)
+    let b = Math.min(255, data[i + 2] * brightness)
+    if (s.contrast) { r = contrast(r); g = contrast(g); b = contrast(b) }
+    if (s.grayscale) r = g = b = 0.34 * r + 0.5 * g + 0.16 * b
+    data[i] = r
+    data[i + 1] = g
+    data[i + 2] = b
+  }
+}
+
+// The image as it appears on the slide: cropped, stretched to its box, masked and filtered. Opacity
+// is left to the exporter, which applies it to every kind of shape alike.
+// Rendered at the crop's own resolution so nothing is lost; null if the asset can't be decoded.
+export async function bakeImage(s: ImageShape): Promise<HTMLCanvasElement | null> {
+  const img = await loadAssetImage(s.assetId).catch(() => null)
+  if (!img || !img.naturalWidth || !img.naturalHeight || s.width <= 0 || s.height <= 0) return null
+  const src = cropPixels(s.crop, img.naturalWidth, img.naturalHeight)
+  const density = Math.min(Math.max(src.width / s.width, src.height / s.height), MAX_BAKED_SIZE / Math.max(s.width, s.height))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(s.width * density))
+  canvas.height = Math.max(1, Math.round(s.height * density))
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return null
+  ctx.scale(canvas.width / s.width, canvas.height / s.height)
+  traceMask(ctx, s, s.width, s.height)
+  ctx.clip()
+  // Konva's stack blur spreads about as far as a Gaussian of half its radius.
+  if (s.blur) ctx.filter = `blur(${(s.blur / 2) * density}px)`
+  ctx.drawImage(img, src.x, src.y, src.width, src.height, 0, 0, s.width, s.height)
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height)
+  filterPixels(pixels.data, s)
+  ctx.putImageData(pixels, 0, 0)
+  return canvas
+}
+
+export function canvasToPng(canvas: HTMLCanvasElement): Promise<Blob | null> {
+  return new Promise((resolve) => canvas.toBlob(resolve, 'image/png'))
+}
@@ -0,0 +1,429 @@
+import { slideSize, type BlendMode, type CircleShape, type Deck, type DashStyle, type Gradient, type ImageShape, type RectShape, type Shape, type Slide, type SlideSize, type StrokeShape, type TextShape } from './deck'
+import { loadAssetImage } from './assets'
+import { bakeImage, hasImageEffects, imageEffectsKey } from './imageEffects'
+import { modelAnchorResolver, pathHeads, shapeMatrix, strokePath, type AnchorResolver, type HeadGeometry, type StrokePath } from './connectors'
+import { IDENTITY, applyMatrix, invertMatrix, localBox, translateRotate, type Box, type Matrix } from './geometry'
+import { DEFAULT_FONT_FAMILY, layoutRichText, type ResolvedStyle, type TextLayout, type TextLine } from './richText'
+import { blendModeLabel, dashArray, gradientGeometry, gradientStops, localShadowOffset } from './style'
+import { colorOp, createPdfWriter, deflate, embedTrueType, encodeText, glyphString, num, parseColor, pdfString, standardFont, type PdfWriter } from './pdfWriter'
+import { parseTrueType, type TrueTypeFont } from './trueType'
+import type { DocumentIssue } from './document'
+
+// ---------- PDF export ----------
+// One vector page per slide, drawn from the model: shapes become PDF paths, text stays selectable
+// text, images are embedded losslessly. Slide content is written once as a form XObject so notes
+// pages can reuse it. Text is set in the fonts the editor used, embedded as subsets, with the
+// closest standard font standing in (and reported) when a font cannot be read. Drawing happens in slide pixels with y pointing down; each page flips and
+// scales that into PDF points. Gradients become shadings and opacity and blend modes graphics
+// states; PDF has no blur, so shadows are drawn as a sharp, faded copy of the shape.
+
+export type PdfExportOptions = {
+  // Adds a portrait page after each slide with the slide on top and its speaker notes below.
+  notes: boolean
+}
+
+// Fonts that could not be embedded are listed rather than silently swapped.
+export type PdfExport = { blob: Blob; substituted: DocumentIssue[] }
+
+const PX_TO_PT = 0.75
+// A4 portrait, in slide pixels.
+const NOTES_W = 595.28 / PX_TO_PT
+const NOTES_H = 841.89 / PX_TO_PT
+const NOTES_MARGIN = 56
+const NOTES_FONT_SIZE = 16
+const NOTES_FACE = { fontFamily: DEFAULT_FONT_FAMILY, bold: false, italic: false }
+const KAPPA = 0.5523
+
+// A font resource and how to write text as a string operand in it.
+type PdfFont = { name: string; show: (text: string) => string }
+
+type Resources = {
+  font: (style: ResolvedStyle) => PdfFont
+  image: (s: ImageShape) => string | null
+  // Names for a graphics state dictionary and a shading dictionary, shared across pages.
+  graphicsState: (dict: string) => string
+  shading: (dict: string) => string
+}
+
+const matrixOp = (m: Matrix) => `${m.map(num).join(' ')} cm`
+
+function roundedRectPath(w: number, h: number, radius: number): string {
+  const r = Math.max(0, Math.min(radius, w / 2, h / 2))
+  if (r === 0) return `0 0 ${num(w)} ${num(h)} re`
+  const k = r * KAPPA
+  return [
+    `${num(r)} 0 m`, `${num(w - r)} 0 l`, `${num(w - r + k)} 0 ${num(w)} ${num(r - k)} ${num(w)} ${num(r)} c`,
+    `${num(w)} ${num(h - r)} l`, `${num(w)} ${num(h - r + k)} ${num(w - r + k)} ${num(h)} ${num(w - r)} ${num(h)} c`,
+    `${num(r)} ${num(h)} l`, `${num(r - k)} ${num(h)} 0 ${num(h - r + k)} 0 ${num(h - r)} c`,
+    `0 ${num(r)} l`, `0 ${num(r - k)} ${num(r - k)} 0 ${num(r)} 0 c`, 'h',
+  ].join('\n')
+}
+
+function ellipsePath(cx: number, cy: number, rx: number, ry: number): string {
+  const kx = rx * KAPPA
+  const ky = ry * KAPPA
+  return [
+    `${num(cx + rx)} ${num(cy)} m`,
+    `${num(cx + rx)} ${num(cy + ky)} ${num(cx + kx)} ${num(cy + ry)} ${num(cx)} ${num(cy + ry)} c`,
+    `${num(cx - kx)} ${num(cy + ry)} ${num(cx - rx)} ${num(cy + ky)} ${num(cx - rx)} ${num(cy)} c`,
+    `${num(cx - rx)} ${num(cy - ky)} ${num(cx - kx)} ${num(cy - ry)} ${num(cx)} ${num(cy - ry)} c`,
+    `${num(cx + kx)} ${num(cy - ry)} ${num(cx + rx)} ${num(cy - ky)} ${num(cx + rx)} ${num(cy)} c`,
+    'h',
+  ].join('\n')
+}
+
+// Fill and/or stroke the current path, the way Konva paints a shape.
+function paint(fill: string | undefined, stroke: string | undefined, strokeWidth: number | undefined, dash?: DashStyle): string {
+  const ops: string[] = []
+  const filled = !!fill && parseColor(fill).a > 0
+  if (filled) ops.push(colorOp(fill, 'rg'))
+  const stroked = !!stroke && parseColor(stroke).a > 0 && (strokeWidth ?? 1) > 0
+  if (stroked) ops.push(colorOp(stroke, 'RG'), `${num(strokeWidth ?? 1)} w`, dashOp(dash, strokeWidth ?? 1))
+  ops.push(filled && stroked ? 'B' : filled ? 'f' : stroked ? 'S' : 'n')
+  return ops.join('\n')
+}
+
+function dashOp(dash: DashStyle | undefined, strokeWidth: number): string {
+  return `[${(dashArray(dash, strokeWidth) ?? []).map(num).join(' ')}] 0 d`
+}
+
+// A rect or circle outline filled with its colour or gradient and stroked. A gradient is painted
+// as a shading clipped to the outline.
+function shapePaintOps(s: RectShape | CircleShape, path: string, res: Resources): string {
+  if (!s.fillGradient) return `${path}\n${paint(s.fill, s.stroke, s.strokeWidth, s.dash)}`
+  const shading = res.shading(shadingDict(s.fillGradient, localBox(s)))
+  return `q\n${path}\nW n\n/${shading} sh\nQ\n${path}\n${paint(undefined, s.stroke, s.strokeWidth, s.dash)}`
+}
+
+// An axial or radial shading over `box`, with one linear segment per pair of neighbouring stops.
+function shadingDict(g: Gradient, box: Box): string {
+  const stops = gradientStops(g)
+  // Shadings run over 0–1, so the end colours are held out to the ends.
+  if (stops[0].offset > 0) stops.unshift({ ...stops[0], offset: 0 })
+  if (stops[stops.length - 1].offset < 1) stops.push({ ...stops[stops.length - 1], offset: 1 })
+  const rgb = (color: string) => {
+    const { r, g, b } = parseColor(color)
+    return `[${num(r)} ${num(g)} ${num(b)}]`
+  }
+  const segments = stops.slice(1).map((stop, i) => ({ from: stops[i], to: stop })).filter((seg) => seg.to.offset > seg.from.offset)
+  const fn = (seg: (typeof segments)[number]) => `<< /FunctionType 2 /Domain [0 1] /C0 ${rgb(seg.from.color)} /C1 ${rgb(seg.to.color)} /N 1 >>`
+  const fnDict = segments.length === 1
+    ? fn(segments[0])
+    : `<< /FunctionType 3 /Domain [0 1] /Functions [${segments.map(fn).join(' ')}] /Bounds [${segments.slice(1).map((seg) => num(seg.from.offset)).join(' ')}] /Encode [${segments.map(() => '0 1').join(' ')}] >>`
+  const { start, end, radius } = gradientGeometry(g, box)
+  const coords = g.kind === 'radial'
+    ? `/ShadingType 3 /Coords [${[start.x, start.y, 0, end.x, end.y, radius].map(num).join(' ')}]`
+    : `/ShadingType 2 /Coords [${[start.x, start.y, end.x, end.y].map(num).join(' ')}]`
+  return `<< ${coords} /ColorSpace /DeviceRGB /Function ${fnDict} /Extend [true true] >>`
+}
+
+// The /gs operand for drawing at `alpha` with `blend`, or '' when neither changes anything.
+function graphicsStateOp(alpha: number, blend: BlendMode | undefined, res: Resources): string {
+  if (alpha >= 1 && !blend) return ''
+  const mode = blend ? ` /BM /${blendModeLabel(blend).replace(/ /g, '')}` : ''
+  return `/${res.graphicsState(`<< /Type /ExtGState /ca ${num(alpha)} /CA ${num(alpha)}${mode} >>`)} gs`
+}
+
+export function pathOps(path: StrokePath): string {
+  const p = path.points
+  if (p.length < 4) return ''
+  const ops = [`${num(p[0])} ${num(p[1])} m`]
+  if (path.bezier) {
+    for (let i = 2; i + 5 < p.length; i += 6) ops.push(`${p.slice(i, i + 6).map(num).join(' ')} c`)
+  } else {
+    for (let i = 2; i + 1 < p.length; i += 2) ops.push(`${num(p[i])} ${num(p[i + 1])} l`)
+  }
+  return ops.join('\n')
+}
+
+function headOps(h: HeadGeometry, color: string, strokeWidth: number): string {
+  if (h.kind === 'circle') return `${ellipsePath(h.center.x, h.center.y, h.radius, h.radius)}\n${colorOp(color, 'rg')}\nf`
+  const pts = h.points.map((p, i) => `${num(p.x)} ${num(p.y)} ${i === 0 ? 'm' : 'l'}`).join('\n')
+  if (h.filled) return `${pts}\nh\n${colorOp(color, 'rg')}\nf`
+  return `${pts}${h.closed ? '\nh' : ''}\n${colorOp(color, 'RG')}\n${num(strokeWidth)} w\nS`
+}
+
+// Text lines in the current (y-down) space. Each fragment flips its own text matrix back upright.
+// `color` overrides every fragment's own colour.
+function textLinesOps(lines: TextLine[], letterSpacing: number, dy: number, res: Resources, color?: string): string {
+  const ops: string[] = []
+  for (const line of lines) {
+    for (const f of line.fragments) {
+      const font = res.font(f.style)
+      const baseline = f.baseline + dy
+      ops.push(
+        'BT', colorOp(color ?? f.style.color, 'rg'), `/${font.name} ${num(f.style.fontSize)} Tf`, `${num(letterSpacing)} Tc`,
+        `1 0 0 -1 ${num(f.x)} ${num(baseline)} Tm`, `${font.show(f.text)} Tj`, 'ET',
+      )
+      if (f.style.underline) {
+        const thickness = Math.max(1, f.style.fontSize / 15)
+        ops.push(`${num(f.x)} ${num(baseline + f.style.fontSize * 0.1)} ${num(f.width)} ${num(thickness)} re`, 'f')
+      }
+    }
+  }
+  return ops.join('\n')
+}
+
+function textOps(s: TextShape, res: Resources, color?: string): string {
+  const layout: TextLayout = layoutRichText(s)
+  return textLinesOps(layout.lines, s.letterSpacing ?? 0, 0, res, color)
+}
+
+function strokeShapeOps(s: StrokeShape, shapes: Shape[], resolve: AnchorResolver, color = s.stroke): string {
+  const inv = invertMatrix(shapeMatrix(shapes, s.id))
+  const path = strokePath(s, resolve, (p) => applyMatrix(inv, p))
+  return [
+    '1 J', '1 j', pathOps(path), colorOp(color, 'RG'), `${num(s.strokeWidth)} w`, dashOp(s.dash, s.strokeWidth), 'S', '[] 0 d',
+    ...pathHeads(path, s).map((h) => headOps(h, color, s.strokeWidth)),
+  ].join('\n')
+}
+
+// The shape's silhouette in its shadow colour, offset and faded; nothing for images and groups.
+function shadowOps(s: Shape, shapes: Shape[], resolve: AnchorResolver, res: Resources, alpha: number): string {
+  const shadow = s.shadow
+  if (!shadow) return ''
+  const silhouette = (() => {
+    const color = shadow.color
+    if (s.kind === 'rect' || s.kind === 'circle') {
+      const path = s.kind === 'rect' ? roundedRectPath(s.width, s.height, s.cornerRadius ?? 0) : ellipsePath(0, 0, s.radius, s.radius)
+      const filled = !!s.fillGradient || parseColor(s.fill).a > 0
+      return `${path}\n${filled ? paint(color, undefined, undefined) : paint(undefined, s.stroke && color, s.strokeWidth, s.dash)}`
+    }
+    if (s.kind === 'text') return textOps(s, res, color)
+    if (s.kind === 'line' || s.kind === 'arrow' || s.kind === 'connector') return strokeShapeOps(s, shapes, resolve, color)
+    return ''
+  })()
+  if (!silhouette) return ''
+  const { x, y } = localShadowOffset(shadow, shapeMatrix(shapes, s.id))
+  const state = graphicsStateOp(alpha * shadow.opacity, s.blendMode, res)
+  return `q\n1 0 0 1 ${num(x)} ${num(y)} cm\n${state}\n${silhouette}\nQ`
+}
+
+// `alpha` is the opacity inherited from enclosing groups, which PDF does not multiply by itself.
+function shapeOps(s: Shape, shapes: Shape[], resolve: AnchorResolver, res: Resources, alpha = 1): string {
+  if (s.hidden) return ''
+  const opacity = alpha * (s.opacity ?? 1)
+  const body = (() => {
+    if (s.kind === 'rect') return shapePaintOps(s, roundedRectPath(s.width, s.height, s.cornerRadius ?? 0), res)
+    if (s.kind === 'circle') return shapePaintOps(s, ellipsePath(0, 0, s.radius, s.radius), res)
+    if (s.kind === 'text') return textOps(s, res)
+    if (s.kind === 'image') {
+      const name = res.image(s)
+      return name ? `${num(s.width)} 0 0 ${num(-s.height)} 0 ${num(s.height)} cm\n/${name} Do` : ''
+    }
+    if (s.kind === 'group') return s.children.map((c) => shapeOps(c, shapes, resolve, res, opacity)).join('\n')
+    return strokeShapeOps(s, shapes, resolve)
+  })()
+  if (!body) return ''
+  const effects = [shadowOps(s, shapes, resolve, res, opacity), graphicsStateOp(opacity, s.blendMode, res)].filter(Boolean)
+  return `q\n${matrixOp(translateRotate(IDENTITY, s.x, s.y, s.rotation))}\n${[...effects, body].join('\n')}\nQ`
+}
+
+function slideOps(slide: Slide, size: SlideSize, res: Resources): string {
+  const resolve = modelAnchorResolver(slide.shapes)
+  return [
+    `0 0 ${size.width} ${size.height} re`, colorOp(slide.background, 'rg'), 'f',
+    ...slide.shapes.map((s) => shapeOps(s, slide.shapes, resolve, res)),
+  ].join('\n')
+}
+
+// ---------- Images ----------
+
+// Decodes an image, with its crop, mask and filters baked in, and writes it as an RGB image with a
+// soft mask when it has transparency.
+async function embedImage(pdf: PdfWriter, s: ImageShape): Promise<number | null> {
+  const img = hasImageEffects(s) ? await bakeImage(s) : await loadAssetImage(s.assetId).catch(() => null)
+  const w = img instanceof HTMLImageElement ? img.naturalWidth : img?.width
+  const h = img instanceof HTMLImageElement ? img.naturalHeight : img?.height
+  if (!img || !w || !h) return null
+  const canvas = document.createElement('canvas')
+  canvas.width = w
+  canvas.height = h
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return null
+  ctx.drawImage(img, 0, 0)
+  const { data } = ctx.getImageData(0, 0, w, h)
+  const rgb = new Uint8Array(w * h * 3)
+  const alpha = new Uint8Array(w * h)
+  let opaque = true
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    rgb[p * 3] = data[i]
+    rgb[p * 3 + 1] = data[i + 1]
+    rgb[p * 3 + 2] = data[i + 2]
+    alpha[p] = data[i + 3]
+    if (data[i + 3] !== 255) opaque = false
+  }
+  const common = `/Type /XObject /Subtype /Image /Width ${w} /Height ${h} /BitsPerComponent 8 /Filter /FlateDecode`
+  const mask = opaque ? null : pdf.add(`<< ${common} /ColorSpace /DeviceGray >>`, await deflate(alpha))
+  return pdf.add(`<< ${common} /ColorSpace /DeviceRGB${mask ? ` /SMask ${mask} 0 R` : ''} >>`, await deflate(rgb))
+}
+
+// ---------- Fonts ----------
+// Fonts are read through the Local Font Access API (Chromium only), which hands over the same
+// files the browser drew the editor's text with. Only TrueType outlines can be embedded.
+
+type LocalFontData = { family: string; style: string; postscriptName: string; blob: () => Promise<Blob> }
+type Face = Pick<ResolvedStyle, 'fontFamily' | 'bold' | 'italic'>
+
+const faceKey = (f: Face) => `${f.fontFamily.toLowerCase()}|${f.bold ? 'bold' : ''}|${f.italic ? 'italic' : ''}`
+const faceLabel = (f: Face) => [f.fontFamily, f.bold && 'Bold', f.italic && 'Italic'].filter(Boolean).join(' ')
+
+// Must run before the export awaits anything: the browser only asks for permission while the
+// click that started the export still counts as a user gesture. Empty when unsupported or refused.
+function queryLocalFonts(): Promise<LocalFontData[]> {
+  const query = (window as Window & { queryLocalFonts?: () => Promise<LocalFontData[]> }).queryLocalFonts
+  return query ? query.call(window).catch(() => []) : Promise.resolve([])
+}
+
+// The installed file for `face`: the family's face with the plain style name ("Bold", "Italic")
+// first, then the other faces of the right weight and slant, shortest style name first.
+async function loadFace(available: LocalFontData[], face: Face): Promise<TrueTypeFont | null> {
+  const wanted = faceLabel({ ...face, fontFamily: '' }).toLowerCase() || 'regular'
+  const candidates = available
+    .filter((f) => f.family.toLowerCase() === face.fontFamily.toLowerCase())
+    .filter((f) => /bold|black|heavy/i.test(f.style) === face.bold && /italic|oblique/i.test(f.style) === face.italic)
+    .sort((a, b) => Number(a.style.toLowerCase() !== wanted) - Number(b.style.toLowerCase() !== wanted) || a.style.length - b.style.length)
+  for (const c of candidates) {
+    const font = parseTrueType(new Uint8Array(await (await c.blob()).arrayBuffer()), c.postscriptName)
+    if (font) return font
+  }
+  return null
+}
+
+// ---------- Document ----------
+
+export async function deckToPdf(deck: Deck, options: PdfExportOptions): Promise<PdfExport> {
+  // Hidden shapes (and everything inside hidden groups) never reach the file.
+  const visible = (list: Shape[]): Shape[] => list.filter((s) => !s.hidden).flatMap((s) => (s.kind === 'group' ? [s, ...visible(s.children)] : [s]))
+  const faces = new Map<string, Face>()
+  for (const sl of deck.slides) {
+    for (const s of visible(sl.shapes)) {
+      if (s.kind !== 'text') continue
+      for (const line of layoutRichText(s).lines) for (const f of line.fragments) faces.set(faceKey(f.style), f.style)
+    }
+  }
+  if (options.notes) faces.set(faceKey(NOTES_FACE), NOTES_FACE)
+  const available = faces.size > 0 ? await queryLocalFonts() : []
+  const loaded = new Map<string, TrueTypeFont | null>()
+  for (const [key, face] of faces) loaded.set(key, await loadFace(available, face).catch(() => null))
+
+  const pdf = createPdfWriter()
+  const pagesId = pdf.reserve()
+  const resourcesId = pdf.reserve()
+
+  // Resource names by face key for embedded fonts and by base font for standard ones, with the
+  // glyphs each embedded font has drawn.
+  const fonts = new Map<string, string>()
+  const glyphsUsed = new Map<string, Map<number, string>>()
+  const substituted = new Map<string, DocumentIssue>()
+  const images = new Map<string, { name: string; id: number }>()
+  const states = new Map<string, { name: string; id: number }>()
+  const shadings = new Map<string, { name: string; id: number }>()
+  for (const sl of deck.slides) {
+    for (const s of visible(sl.shapes)) {
+      if (s.kind !== 'image' || !s.assetId || images.has(imageEffectsKey(s))) continue
+      const id = await embedImage(pdf, s)
+      if (id) images.set(imageEffectsKey(s), { name: `Im${images.size + 1}`, id })
+    }
+  }
+  const fontName = (key: string) => {
+    if (!fonts.has(key)) fonts.set(key, `F${fonts.size + 1}`)
+    return fonts.get(key) as string
+  }
+  const res: Resources = {
+    font: (style) => {
+      const key = faceKey(style)
+      const ttf = loaded.get(key)
+      if (ttf) {
+        const used = glyphsUsed.get(key) ?? new Map<number, string>()
+        glyphsUsed.set(key, used)
+        const show = (text: string) => glyphString(Array.from(text, (ch) => {
+          const glyph = ttf.glyphFor(ch.codePointAt(0) as number)
+          if (!used.has(glyph)) used.set(glyph, ch)
+          return glyph
+        }))
+        return { name: fontName(key), show }
+      }
+      const base = standardFont(style.fontFamily, style.bold, style.italic)
+      if (!substituted.has(key)) substituted.set(key, { path: faceLabel(style), message: `could not be embedded and was replaced with ${base}` })
+      return { name: fontName(base), show: pdfString }
+    },
+    image: (s) => images.get(imageEffectsKey(s))?.name ?? null,
+    graphicsState: (dict) => {
+      if (!states.has(dict)) states.set(dict, { name: `GS${states.size + 1}`, id: pdf.add(dict) })
+      return (states.get(dict) as { name: string }).name
+    },
+    shading: (dict) => {
+      if (!shadings.has(dict)) shadings.set(dict, { name: `Sh${shadings.size + 1}`, id: pdf.add(dict) })
+      return (shadings.get(dict) as { name: string }).name
+    },
+  }
+
+  const pageIds: number[] = []
+  const addPage = async (width: number, height: number, ops: string) => {
+    const content = pdf.add('<< /Filter /FlateDecode >>', await deflate(encodeText(`${num(PX_TO_PT)} 0 0 ${num(-PX_TO_PT)} 0 ${num(height * PX_TO_PT)} cm\n${ops}`)))
+    pageIds.push(pdf.add(`<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(width * PX_TO_PT)} ${num(height * PX_TO_PT)}] /Resources ${resourcesId} 0 R /Contents ${content} 0 R >>`))
+  }
+
+  const size = slideSize(deck)
+  const slideForms: string[] = []
+  for (const [i, slide] of deck.slides.entries()) {
+    const form = `S${i + 1}`
+    slideForms.push(`/${form} ${pdf.add(`<< /Type /XObject /Subtype /Form /BBox [0 0 ${size.width} ${size.height}] /Resources ${resourcesId} 0 R /Filter /FlateDecode >>`, await deflate(encodeText(slideOps(slide, size, res))))} 0 R`)
+    await addPage(size.width, size.height, `/${form} Do`)
+    if (options.notes) {
+      for (const ops of notesPageOps(slide, size, form, res)) await addPage(NOTES_W, NOTES_H, ops)
+    }
+  }
+
+  const fontRefs: string[] = []
+  for (const [key, name] of fonts) {
+    const ttf = loaded.get(key)
+    fontRefs.push(ttf
+      ? `/${name} ${await embedTrueType(pdf, ttf, glyphsUsed.get(key) ?? new Map())} 0 R`
+      : `/${name} << /Type /Font /Subtype /Type1 /BaseFont /${key} /Encoding /WinAnsiEncoding >>`)
+  }
+  const refs = (named: Map<string, { name: string; id: number }>) => [...named.values()].map(({ name, id }) => `/${name} ${id} 0 R`).join(' ')
+  pdf.set(resourcesId, `<< /ProcSet [/PDF /Text /ImageC] /Font << ${fontRefs.join(' ')} >> /XObject << ${refs(images)} ${slideForms.join(' ')} >> /ExtGState << ${refs(states)} >> /Shading << ${refs(shadings)} >> >>`)
+  pdf.set(pagesId, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`)
+  return { blob: pdf.build(pdf.add(`<< /Type /Catalog /Pages ${pagesId} 0 R >>`)), substituted: [...substituted.values()] }
+}
+
+// The slide scaled into the top of a portrait page with its notes below, continuing onto further
+// pages when the notes do not fit. Tall slides take at most half the page, centred.
+function notesPageOps(slide: Slide, size: SlideSize, form: string, res: Resources): string[] {
+  const innerW = NOTES_W - NOTES_MARGIN * 2
+  const scale = Math.min(innerW / size.width, (NOTES_H - NOTES_MARGIN * 2) / 2 / size.height)
+  const left = NOTES_MARGIN + (innerW - size.width * scale) / 2
+  const slideBottom = NOTES_MARGIN + size.height * scale
+  const thumbnail = [
+    `q\n${num(scale)} 0 0 ${num(scale)} ${num(left)} ${NOTES_MARGIN} cm\n/${form} Do\nQ`,
+    `${num(left)} ${NOTES_MARGIN} ${num(size.width * scale)} ${num(size.height * scale)} re`, colorOp('#d1d5db', 'RG'), '1 w', 'S',
+  ].join('\n')
+
+  const notes: TextShape = {
+    kind: 'text', id: `${slide.id}-notes`, x: NOTES_MARGIN, y: 0, rotation: 0,
+    text: slide.notes ?? '', fontSize: NOTES_FONT_SIZE, width: innerW, fill: '#111827', fontFamily: NOTES_FACE.fontFamily,
+  }
+  const lines = layoutRichText(notes).lines
+  const pages: string[] = []
+  let top = slideBottom + 32
+  let chunk: TextLine[] = []
+  let chunkStart = 0
+  const flush = () => {
+    const text = textLinesOps(chunk, 0, top - chunkStart, res)
+    pages.push(pages.length === 0 ? `${thumbnail}\nq\n1 0 0 1 ${NOTES_MARGIN} 0 cm\n${text}\nQ` : `q\n1 0 0 1 ${NOTES_MARGIN} 0 cm\n${text}\nQ`)
+  }
+  for (const line of lines) {
+    if (chunk.length === 0) chunkStart = line.top
+    if (chunk.length > 0 && top + (line.top + line.height - chunkStart) > NOTES_H - NOTES_MARGIN) {
+      flush()
+      chunk = []
+      chunkStart = line.top
+      top = NOTES_MARGIN
+    }
+    chunk.push(line)
+  }
+  flush()
+  return pages
+}
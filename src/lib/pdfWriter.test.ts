@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { createPdfWriter, glyphString, parseColor, pdfString, standardFont } from './pdfWriter'
+
+describe('createPdfWriter', () => {
+  it('writes a cross-reference table that points at every object', async () => {
+    const pdf = createPdfWriter()
+    const pages = pdf.reserve()
+    const content = pdf.add('<< >>', new TextEncoder().encode('0 0 10 10 re f'))
+    pdf.set(pages, `<< /Type /Pages /Kids [] /Count 0 /Contents ${content} 0 R >>`)
+    const text = new TextDecoder('latin1').decode(await pdf.build(pdf.add(`<< /Type /Catalog /Pages ${pages} 0 R >>`)).arrayBuffer())
+
+    const offsets = [...text.matchAll(/^(\d{10}) 00000 n $/gm)].map((m) => Number(m[1]))
+    expect(offsets).toHaveLength(3)
+    offsets.forEach((offset, i) => expect(text.slice(offset)).toMatch(new RegExp(`^${i + 1} 0 obj\n`)))
+    expect(text).toContain('<< /Length 14 >>\nstream\n0 0 10 10 re f\nendstream')
+    const startxref = Number(text.match(/startxref\n(\d+)\n%%EOF\n$/)?.[1])
+    expect(text.slice(startxref)).toMatch(/^xref\n0 4\n/)
+  })
+
+  it('refuses to build with an object reserved but never written', () => {
+    const pdf = createPdfWriter()
+    pdf.reserve()
+    expect(() => pdf.build(pdf.add('<< >>'))).toThrow(/never written/)
+  })
+})
+
+describe('strings and colours', () => {
+  it('escapes delimiters and encodes WinAnsi, with ? for what it lacks', () => {
+    expect(pdfString('a(b)\\')).toBe('(a\\(b\\)\\\\)')
+    expect(pdfString('é€')).toBe('(\\351\\200)')
+    expect(pdfString('日')).toBe('(?)')
+  })
+
+  it('writes glyph ids as two-byte hex', () => {
+    expect(glyphString([3, 0x1ab, 0])).toBe('<000301ab0000>')
+  })
+
+  it('parses the colour forms the editor stores', () => {
+    expect(parseColor('#f00')).toEqual({ r: 1, g: 0, b: 0, a: 1 })
+    expect(parseColor('#00ff0080').a).toBeCloseTo(0.5, 2)
+    expect(parseColor('rgba(0, 0, 255, 0.25)')).toEqual({ r: 0, g: 0, b: 1, a: 0.25 })
+    expect(parseColor('transparent').a).toBe(0)
+  })
+
+  it('picks the closest standard font', () => {
+    expect(standardFont('Georgia', true, true)).toBe('Times-BoldItalic')
+    expect(standardFont('Courier New', false, true)).toBe('Courier-Oblique')
+    expect(standardFont('Arial', true, false)).toBe('Helvetica-Bold')
+  })
+})
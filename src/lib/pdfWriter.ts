@@ -0,0 +1,171 @@
+import type { TrueTypeFont } from './trueType'
+
+// ---------- Minimal PDF writer ----------
+// Just enough of PDF 1.4 for the deck exporter: numbered objects, deflated streams, embedded
+// TrueType subsets (or base-14 fonts with WinAnsi text), and RGB images with an alpha mask. Objects
+// may be reserved before they are written, so pages can point at a resource dictionary that is
+// only complete at the end.
+
+const encoder = new TextEncoder()
+
+export type PdfWriter = ReturnType<typeof createPdfWriter>
+
+export function createPdfWriter() {
+  const objects: (Uint8Array[] | null)[] = []
+
+  const reserve = (): number => {
+    objects.push(null)
+    return objects.length
+  }
+
+  const set = (id: number, dict: string, stream?: Uint8Array) => {
+    const chunks = stream
+      ? [encoder.encode(`${id} 0 obj\n${dict.replace(/>>\s*$/, `/Length ${stream.length} >>`)}\nstream\n`), stream, encoder.encode('\nendstream\nendobj\n')]
+      : [encoder.encode(`${id} 0 obj\n${dict}\nendobj\n`)]
+    objects[id - 1] = chunks
+  }
+
+  const add = (dict: string, stream?: Uint8Array): number => {
+    const id = reserve()
+    set(id, dict, stream)
+    return id
+  }
+
+  const build = (rootId: number): Blob => {
+    const parts: Uint8Array[] = [encoder.encode('%PDF-1.4\n%âãÏÓ\n')]
+    let offset = parts[0].length
+    const offsets: number[] = []
+    objects.forEach((chunks, i) => {
+      if (!chunks) throw new Error(`PDF object ${i + 1} was reserved but never written`)
+      offsets.push(offset)
+      for (const c of chunks) { parts.push(c); offset += c.length }
+    })
+    const xref = [`xref\n0 ${objects.length + 1}\n`, '0000000000 65535 f \n', ...offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n \n`)].join('')
+    parts.push(encoder.encode(`${xref}trailer\n<< /Size ${objects.length + 1} /Root ${rootId} 0 R >>\nstartxref\n${offset}\n%%EOF\n`))
+    return new Blob(parts as BlobPart[], { type: 'application/pdf' })
+  }
+
+  return { reserve, set, add, build }
+}
+
+export async function deflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new CompressionStream('deflate'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+export function encodeText(text: string): Uint8Array {
+  return encoder.encode(text)
+}
+
+// ---------- Numbers, colors, strings ----------
+
+export const num = (v: number) => String(Math.round(v * 1000) / 1000)
+
+// Parses #rgb, #rrggbb, #rrggbbaa, rgb()/rgba() and 'transparent' into 0–1 components; anything else is black.
+export function parseColor(color: string): { r: number; g: number; b: number; a: number } {
+  if (color.trim().toLowerCase() === 'transparent') return { r: 0, g: 0, b: 0, a: 0 }
+  const hex = color.trim().match(/^#([0-9a-f]{3,8})$/i)?.[1]
+  if (hex && (hex.length === 3 || hex.length === 6 || hex.length === 8)) {
+    const full = hex.length === 3 ? hex.split('').map((c) => c + c).join('') : hex
+    const v = (i: number) => parseInt(full.slice(i, i + 2), 16) / 255
+    return { r: v(0), g: v(2), b: v(4), a: full.length === 8 ? v(6) : 1 }
+  }
+  const rgb = color.match(/^rgba?\(([^)]+)\)$/i)?.[1].split(',').map((p) => parseFloat(p))
+  if (rgb && rgb.length >= 3) return { r: rgb[0] / 255, g: rgb[1] / 255, b: rgb[2] / 255, a: rgb[3] ?? 1 }
+  return { r: 0, g: 0, b: 0, a: 1 }
+}
+
+export function colorOp(color: string, op: 'rg' | 'RG'): string {
+  const { r, g, b } = parseColor(color)
+  return `${num(r)} ${num(g)} ${num(b)} ${op}`
+}
+
+// Characters WinAnsiEncoding places in 0x80–0x9F, where it differs from Latin-1.
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a,
+  '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+  '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+}
+
+// A PDF literal string in WinAnsi; characters the encoding lacks become '?'.
+export function pdfString(text: string): string {
+  let out = '('
+  for (const ch of text) {
+    const code = WIN_ANSI[ch] ?? ch.codePointAt(0) ?? 63
+    const byte = code < 256 && !(code >= 0x80 && code < 0xa0 && !WIN_ANSI[ch]) ? code : 63
+    if (byte === 0x28 || byte === 0x29 || byte === 0x5c) out += `\\${String.fromCharCode(byte)}`
+    else if (byte < 32 || byte > 126) out += `\\${byte.toString(8).padStart(3, '0')}`
+    else out += String.fromCharCode(byte)
+  }
+  return `${out})`
+}
+
+// ---------- Fonts ----------
+
+// Maps a CSS family and style onto the closest of the PDF standard fonts.
+export function standardFont(family: string, bold: boolean, italic: boolean): string {
+  const f = family.toLowerCase()
+  const base = /courier|mono/.test(f) ? 'Courier' : /times|georgia|serif/.test(f) && !/sans/.test(f) ? 'Times' : 'Helvetica'
+  if (base === 'Times') return bold && italic ? 'Times-BoldItalic' : bold ? 'Times-Bold' : italic ? 'Times-Italic' : 'Times-Roman'
+  if (bold && italic) return `${base}-BoldOblique`
+  if (bold) return `${base}-Bold`
+  if (italic) return `${base}-Oblique`
+  return base
+}
+
+// A glyph-id string for text set in an embedded font (2 bytes per glyph under Identity-H).
+export function glyphString(glyphs: number[]): string {
+  return `<${glyphs.map((g) => g.toString(16).padStart(4, '0')).join('')}>`
+}
+
+// Six capital letters derived from the subset, which PDF prefixes to a subset font's name.
+function subsetTag(seed: string): string {
+  let h = 2166136261
+  for (let i = 0; i < seed.length; i++) h = Math.imul(h ^ seed.charCodeAt(i), 16777619) >>> 0
+  let tag = ''
+  for (let i = 0; i < 6; i++) {
+    tag += String.fromCharCode(65 + (h % 26))
+    h = Math.floor(h / 26)
+  }
+  return tag
+}
+
+// Maps glyph ids back to the text they were set from, so the PDF's text can be selected and searched.
+function toUnicodeCMap(used: Map<number, string>): string {
+  const utf16 = (text: string) => Array.from({ length: text.length }, (_, i) => text.charCodeAt(i).toString(16).padStart(4, '0')).join('')
+  const entries = [...used].filter(([glyph]) => glyph > 0).map(([glyph, text]) => `${glyphString([glyph])} <${utf16(text)}>`)
+  const blocks: string[] = []
+  // A bfchar block holds at most 100 entries.
+  for (let i = 0; i < entries.length; i += 100) {
+    const block = entries.slice(i, i + 100)
+    blocks.push(`${block.length} beginbfchar\n${block.join('\n')}\nendbfchar`)
+  }
+  return [
+    '/CIDInit /ProcSet findresource begin', '12 dict begin', 'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def', '/CMapName /Adobe-Identity-UCS def', '/CMapType 2 def',
+    '1 begincodespacerange', '<0000> <FFFF>', 'endcodespacerange', ...blocks,
+    'endcmap', 'CMapName currentdict /CMap defineresource pop', 'end', 'end',
+  ].join('\n')
+}
+
+// Writes `font` as a Type 0 font over a CIDFontType2 with Identity-H encoding, keeping only the
+// glyphs in `used` (glyph id → the text it stands for). Returns the font's object id.
+export async function embedTrueType(pdf: PdfWriter, font: TrueTypeFont, used: Map<number, string>): Promise<number> {
+  const glyphs = [...used.keys()].sort((a, b) => a - b)
+  const program = font.subset(glyphs)
+  const file = pdf.add(`<< /Length1 ${program.length} /Filter /FlateDecode >>`, await deflate(program))
+  const scale = 1000 / font.unitsPerEm
+  const name = `${subsetTag(`${font.postscriptName}:${glyphs.join(',')}`)}+${font.postscriptName.replace(/[^!-~]|[()<>[\]{}/%#]/g, '')}`
+  const flags = 4 | (font.italicAngle !== 0 ? 64 : 0)
+  const descriptor = pdf.add(
+    `<< /Type /FontDescriptor /FontName /${name} /Flags ${flags} /FontBBox [${font.bbox.map((v) => num(v * scale)).join(' ')}] /ItalicAngle ${num(font.italicAngle)} ` +
+    `/Ascent ${num(font.ascent * scale)} /Descent ${num(font.descent * scale)} /CapHeight ${num(font.capHeight * scale)} /StemV 80 /FontFile2 ${file} 0 R >>`,
+  )
+  const widths = glyphs.map((g) => `${g} [${num(font.advance(g) * scale)}]`).join(' ')
+  const cidFont = pdf.add(
+    `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${name} /CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> ` +
+    `/FontDescriptor ${descriptor} 0 R /W [${widths}] /CIDToGIDMap /Identity >>`,
+  )
+  const toUnicode = pdf.add('<< /Filter /FlateDecode >>', await deflate(encodeText(toUnicodeCMap(used))))
+  return pdf.add(`<< /Type /Font /Subtype /Type0 /BaseFont /${name} /Encoding /Identity-H /DescendantFonts [${cidFont} 0 R] /ToUnicode ${toUnicode} 0 R >>`)
+}
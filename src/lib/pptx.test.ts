@@ -0,0 +1,50 @@
+import { JSDOM } from 'jsdom'
+import { describe, expect, it, vi } from 'vitest'
+import type { Deck } from './deck'
+import { deckToPptx, pptxToDeck } from './pptx'
+import { circle, connector, deckOf, rect, text } from './testShapes'
+
+// Node has no XML parser of its own; the importer only needs DOMParser from the browser.
+vi.stubGlobal('DOMParser', new JSDOM().window.DOMParser)
+
+async function roundTrip(deck: Deck) {
+  const { blob, skipped } = await deckToPptx(deck)
+  const result = await pptxToDeck(await blob.arrayBuffer())
+  if (!result.ok) throw new Error(result.error.issues[0].message)
+  return { deck: result.deck, skipped, dropped: result.dropped }
+}
+
+describe('PowerPoint export and import', () => {
+  it('brings shapes, text runs and the background back as they were', async () => {
+    const deck = deckOf(
+      rect('a', 10, 20, { name: 'Box', stroke: '#0000ff', strokeWidth: 4, rotation: 30 }),
+      circle('b', 300, 300),
+      text('t', 'Hi there', { width: 400, runs: [{ text: 'Hi ', bold: true }, { text: 'there', color: '#ff0000' }] }),
+    )
+    const { deck: back, dropped } = await roundTrip({ slides: [{ ...deck.slides[0], background: '#123456' }] })
+    expect(dropped).toEqual([])
+    expect(back.slides[0].background).toBe('#123456')
+    const [box, dot, label] = back.slides[0].shapes
+    expect(box).toMatchObject({ kind: 'rect', name: 'Box', width: 100, height: 50, rotation: 30, fill: '#ff0000', stroke: '#0000ff', strokeWidth: 4 })
+    expect(box.x).toBeCloseTo(10, 3)
+    expect(box.y).toBeCloseTo(20, 3)
+    expect(dot).toMatchObject({ kind: 'circle', x: 300, y: 300, radius: 50, fill: '#00ff00' })
+    expect(label).toMatchObject({ kind: 'text', text: 'Hi there', width: 400, fontSize: 24, runs: [{ text: 'Hi ', bold: true }, { text: 'there', color: '#ff0000' }] })
+  })
+
+  it('keeps the slide size', async () => {
+    const { deck } = await roundTrip({ ...deckOf(rect('a')), size: { width: 1440, height: 1080 } })
+    expect(deck.size).toEqual({ width: 1440, height: 1080 })
+  })
+
+  it('reports what it cannot export instead of dropping it silently', async () => {
+    const { deck, skipped } = await roundTrip(deckOf(rect('a'), connector('c', 'a')))
+    expect(skipped).toEqual([{ path: 'slide 1 › connector', message: 'lines, arrows and connectors are not exported to PowerPoint' }])
+    expect(deck.slides[0].shapes.map((s) => s.kind)).toEqual(['rect'])
+  })
+
+  it('refuses files that are not presentations', async () => {
+    const result = await pptxToDeck(new TextEncoder().encode('not a zip').buffer as ArrayBuffer)
+    expect(result).toMatchObject({ ok: false, error: { issues: [{ message: 'the file is not a PowerPoint presentation' }] } })
+  })
+})
@@ -0,0 +1,881 @@
+import {
+  DEFAULT_BACKGROUND, DEFAULT_SLIDE_SIZE, slideSize, uid,
+  type CircleShape, type DashStyle, type Deck, type Gradient, type GroupShape, type ImageShape, type RectShape, type Shadow, type Shape, type Slide, type TextRun, type TextShape,
+} from './deck'
+import { getAsset, loadAssetImage, putAsset } from './assets'
+import { bakeImage, canvasToPng, clampCrop, hasImageEffects, imageEffectsKey } from './imageEffects'
+import { IDENTITY, applyMatrix, localBox, translateRotate, type Box, type Matrix, type Point } from './geometry'
+import { DEFAULT_LINE_HEIGHT, LIST_INDENT, layoutRichText, normalizeRuns, resolveStyle, runsToPlainText, splitParagraphs, textRuns } from './richText'
+import { parseColor } from './pdfWriter'
+import { gradientStops } from './style'
+import { clampSlideSize } from './slideSize'
+import { createZip, readZip, type ZipEntry } from './zip'
+import type { DocumentError, DocumentIssue } from './document'
+
+// ---------- PowerPoint (.pptx) ----------
+// Rectangles, circles, text and images map onto native PowerPoint shapes, text boxes and pictures.
+// Anything else is reported rather than silently lost: the exporter lists shapes it skipped and
+// the importer lists elements it dropped, each with the slide and shape name.
+
+export type PptxExport = { blob: Blob; skipped: DocumentIssue[] }
+
+export type PptxImportResult = { ok: true; deck: Deck; dropped: DocumentIssue[] } | { ok: false; error: DocumentError }
+
+export const PPTX_EXTENSION = '.pptx'
+
+// A 16:9 PowerPoint slide is 12192000 × 6858000 EMU, so one slide unit is 6350 EMU (half a point).
+const EMU_PER_UNIT = 12192000 / DEFAULT_SLIDE_SIZE.width
+const EMU_PER_POINT = 12700
+const emu = (v: number) => Math.round(v * EMU_PER_UNIT)
+// Font sizes and letter spacing are in hundredths of a point.
+const hundredthsPt = (v: number) => Math.round(((v * EMU_PER_UNIT) / EMU_PER_POINT) * 100)
+
+const NS: Record<string, string> = {
+  a: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+  p: 'http://schemas.openxmlformats.org/presentationml/2006/main',
+  r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  mc: 'http://schemas.openxmlformats.org/markup-compatibility/2006',
+}
+const PACKAGE_RELS = 'http://schemas.openxmlformats.org/package/2006/relationships'
+const REL_TYPE = {
+  officeDocument: `${NS.r}/officeDocument`,
+  core: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties',
+  extended: `${NS.r}/extended-properties`,
+  slide: `${NS.r}/slide`,
+  slideLayout: `${NS.r}/slideLayout`,
+  slideMaster: `${NS.r}/slideMaster`,
+  theme: `${NS.r}/theme`,
+  image: `${NS.r}/image`,
+}
+
+const IMAGE_TYPES: Record<string, string> = { png: 'image/png', jpeg: 'image/jpeg', jpg: 'image/jpeg', gif: 'image/gif', bmp: 'image/bmp', svg: 'image/svg+xml' }
+const MEDIA_EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpeg', 'image/gif': 'gif', 'image/bmp': 'bmp' }
+
+const ALIGN_TO_PPTX = { left: 'l', center: 'ctr', right: 'r', justify: 'just' } as const
+const ALIGN_FROM_PPTX: Record<string, TextShape['align']> = { l: 'left', ctr: 'center', r: 'right', just: 'justify', dist: 'justify' }
+const ANCHOR_TO_PPTX = { top: 't', middle: 'ctr', bottom: 'b' } as const
+const ANCHOR_FROM_PPTX: Record<string, TextShape['verticalAlign']> = { t: 'top', ctr: 'middle', b: 'bottom' }
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+const XML_HEAD = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+const DRAWING_NS = `xmlns:a="${NS.a}" xmlns:r="${NS.r}" xmlns:p="${NS.p}"`
+
+function esc(text: string): string {
+  return text
+    .replace(/[^\t\n\r\u0020-\uffff]/g, '')
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function relsXml(rels: { id: string; type: string; target: string }[]): string {
+  return `${XML_HEAD}<Relationships xmlns="${PACKAGE_RELS}">${rels.map((r) => `<Relationship Id="${r.id}" Type="${r.type}" Target="${esc(r.target)}"/>`).join('')}</Relationships>`
+}
+
+// ---------- Export: shapes ----------
+
+// `blended` is set when the shape or a group around it has a blend mode, which PowerPoint lacks.
+type Placed = { s: Shape; m: Matrix; opacity: number; blended: boolean }
+
+// Groups are flattened: every visible leaf shape with the matrix that places it on the slide and
+// its opacity multiplied by its groups'.
+function placedShapes(shapes: Shape[], m: Matrix = IDENTITY, opacity = 1, blended = false): Placed[] {
+  return shapes.flatMap((s) => {
+    if (s.hidden) return []
+    const own = translateRotate(m, s.x, s.y, s.rotation)
+    const alpha = opacity * (s.opacity ?? 1)
+    const blend = blended || !!s.blendMode
+    return s.kind === 'group' ? placedShapes(s.children, own, alpha, blend) : [{ s, m: own, opacity: alpha, blended: blend }]
+  })
+}
+
+// PowerPoint rotates about the box centre, with `off` being the unrotated top-left corner.
+function xfrmXml(m: Matrix, box: Box): string {
+  const degrees = (((Math.atan2(m[1], m[0]) * 180) / Math.PI) % 360 + 360) % 360
+  const rot = Math.round(degrees * 60000) % 21600000
+  const c = applyMatrix(m, { x: box.x + box.width / 2, y: box.y + box.height / 2 })
+  return `<a:xfrm${rot ? ` rot="${rot}"` : ''}><a:off x="${emu(c.x - box.width / 2)}" y="${emu(c.y - box.height / 2)}"/><a:ext cx="${emu(box.width)}" cy="${emu(box.height)}"/></a:xfrm>`
+}
+
+// `opacity` scales the colour's own alpha.
+function colorXml(color: string, opacity = 1): string {
+  const { r, g, b, a: alpha } = parseColor(color)
+  const a = alpha * opacity
+  const hex = [r, g, b].map((v) => Math.round(v * 255).toString(16).padStart(2, '0')).join('').toUpperCase()
+  return `<a:srgbClr val="${hex}">${a < 1 ? `<a:alpha val="${Math.round(a * 100000)}"/>` : ''}</a:srgbClr>`
+}
+
+function fillXml(color: string | undefined, opacity = 1): string {
+  return color && parseColor(color).a > 0 ? `<a:solidFill>${colorXml(color, opacity)}</a:solidFill>` : '<a:noFill/>'
+}
+
+// PowerPoint measures linear gradient angles clockwise from pointing right, as we do; radial ones
+// spread from the centre of the shape.
+function gradientXml(g: Gradient, opacity: number): string {
+  const stops = gradientStops(g).map((stop) => `<a:gs pos="${Math.round(stop.offset * 100000)}">${colorXml(stop.color, opacity)}</a:gs>`).join('')
+  const shade = g.kind === 'radial'
+    ? '<a:path path="circle"><a:fillToRect l="50000" t="50000" r="50000" b="50000"/></a:path>'
+    : `<a:lin ang="${Math.round((((g.angle % 360) + 360) % 360) * 60000)}" scaled="0"/>`
+  return `<a:gradFill rotWithShape="1"><a:gsLst>${stops}</a:gsLst>${shade}</a:gradFill>`
+}
+
+const DASH_TO_PPTX: Record<DashStyle, string> = { solid: 'solid', dashed: 'dash', dotted: 'sysDot' }
+
+function lineXml(stroke: string | undefined, strokeWidth: number | undefined, dash: DashStyle | undefined, opacity: number): string {
+  const width = strokeWidth ?? 1
+  if (!stroke || width <= 0) return '<a:ln><a:noFill/></a:ln>'
+  return `<a:ln w="${emu(width)}">${fillXml(stroke, opacity)}${dash ? `<a:prstDash val="${DASH_TO_PPTX[dash]}"/>` : ''}</a:ln>`
+}
+
+// Shadows keep their direction on the slide as the shape rotates, as they do on the canvas.
+function effectsXml(shadow: Shadow | undefined, opacity: number): string {
+  if (!shadow) return ''
+  const dir = Math.round((((Math.atan2(shadow.offsetY, shadow.offsetX) * 180) / Math.PI + 360) % 360) * 60000)
+  const dist = emu(Math.hypot(shadow.offsetX, shadow.offsetY))
+  return `<a:effectLst><a:outerShdw blurRad="${emu(shadow.blur)}" dist="${dist}" dir="${dir}" algn="ctr" rotWithShape="0">${colorXml(shadow.color, shadow.opacity * opacity)}</a:outerShdw></a:effectLst>`
+}
+
+// Fill, outline and shadow of a rect or circle, in the order spPr expects them.
+function shapeStyleXml(s: RectShape | CircleShape, opacity: number): string {
+  const fill = s.fillGradient ? gradientXml(s.fillGradient, opacity) : fillXml(s.fill, opacity)
+  return `${fill}${lineXml(s.stroke, s.strokeWidth, s.dash, opacity)}${effectsXml(s.shadow, opacity)}`
+}
+
+function geometryXml(prst: string, adj?: number): string {
+  return `<a:prstGeom prst="${prst}"><a:avLst>${adj === undefined ? '' : `<a:gd name="adj" fmla="val ${adj}"/>`}</a:avLst></a:prstGeom>`
+}
+
+function spXml(id: number, name: string, inner: string, textBox = false): string {
+  return `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="${esc(name)}"/><p:cNvSpPr${textBox ? ' txBox="1"' : ''}/><p:nvPr/></p:nvSpPr>${inner}</p:sp>`
+}
+
+function runXml(s: TextShape, r: TextRun, opacity: number): string {
+  const style = resolveStyle(s, r)
+  const attrs = [
+    'lang="en-US"',
+    `sz="${hundredthsPt(style.fontSize)}"`,
+    style.bold ? 'b="1"' : '',
+    style.italic ? 'i="1"' : '',
+    style.underline ? 'u="sng"' : '',
+    s.letterSpacing ? `spc="${hundredthsPt(s.letterSpacing)}"` : '',
+    'dirty="0"',
+  ].filter(Boolean).join(' ')
+  return `<a:r><a:rPr ${attrs}>${fillXml(style.color, opacity)}<a:latin typeface="${esc(style.fontFamily)}"/></a:rPr><a:t>${esc(r.text)}</a:t></a:r>`
+}
+
+function textBodyXml(s: TextShape, opacity: number): string {
+  const indent = s.list ? emu(s.fontSize * LIST_INDENT) : 0
+  const spacing = Math.round(((s.lineHeight ?? DEFAULT_LINE_HEIGHT) / DEFAULT_LINE_HEIGHT) * 100000)
+  const bullet = s.list === 'bullet' ? '<a:buFont typeface="Arial"/><a:buChar char="•"/>' : s.list === 'number' ? '<a:buAutoNum type="arabicPeriod"/>' : '<a:buNone/>'
+  const pPr = `<a:pPr algn="${ALIGN_TO_PPTX[s.align ?? 'left']}"${indent ? ` marL="${indent}" indent="${-indent}"` : ''}><a:lnSpc><a:spcPct val="${spacing}"/></a:lnSpc>${bullet}</a:pPr>`
+  const end = `<a:endParaRPr lang="en-US" sz="${hundredthsPt(s.fontSize)}" dirty="0"/>`
+  const paragraphs = splitParagraphs(normalizeRuns(textRuns(s)))
+    .map((runs) => `<a:p>${pPr}${runs.map((r) => runXml(s, r, opacity)).join('')}${end}</a:p>`)
+  const bodyPr = `<a:bodyPr wrap="${s.width ? 'square' : 'none'}" lIns="0" tIns="0" rIns="0" bIns="0" anchor="${ANCHOR_TO_PPTX[s.verticalAlign ?? 'top']}" rtlCol="0"><a:noAutofit/></a:bodyPr>`
+  return `<p:txBody>${bodyPr}<a:lstStyle/>${paragraphs.join('')}</p:txBody>`
+}
+
+// Returns null for shapes PowerPoint has no counterpart for here, so the caller can report them.
+function shapeXml(placed: Placed, id: number, imageRel: (key: string) => string | null): string | null {
+  const { s, m, opacity } = placed
+  const box = localBox(s)
+  const name = s.name ?? `${s.kind} ${id}`
+  if (s.kind === 'rect') {
+    const r = s.cornerRadius ?? 0
+    const geometry = r > 0 ? geometryXml('roundRect', Math.min(50000, Math.round((r / Math.min(s.width, s.height)) * 100000))) : geometryXml('rect')
+    return spXml(id, name, `<p:spPr>${xfrmXml(m, box)}${geometry}${shapeStyleXml(s, opacity)}</p:spPr>`)
+  }
+  if (s.kind === 'circle') {
+    return spXml(id, name, `<p:spPr>${xfrmXml(m, box)}${geometryXml('ellipse')}${shapeStyleXml(s, opacity)}</p:spPr>`)
+  }
+  if (s.kind === 'text') {
+    const layout = layoutRichText(s)
+    const textBox = { x: 0, y: 0, width: layout.width, height: layout.height }
+    // Effects on a shape without fill or outline apply to its text.
+    return spXml(id, name, `<p:spPr>${xfrmXml(m, textBox)}${geometryXml('rect')}<a:noFill/>${effectsXml(s.shadow, opacity)}</p:spPr>${textBodyXml(s, opacity)}`, true)
+  }
+  if (s.kind === 'image') {
+    const rel = imageRel(imageEffectsKey(s))
+    if (!rel) return null
+    return `<p:pic><p:nvPicPr><p:cNvPr id="${id}" name="${esc(name)}"/><p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr><p:nvPr/></p:nvPicPr>`
+      + `<p:blipFill><a:blip r:embed="${rel}">${opacity < 1 ? `<a:alphaModFix amt="${Math.round(opacity * 100000)}"/>` : ''}</a:blip><a:stretch><a:fillRect/></a:stretch></p:blipFill>`
+      + `<p:spPr>${xfrmXml(m, box)}${geometryXml('rect')}</p:spPr></p:pic>`
+  }
+  return null
+}
+
+// ---------- Export: package ----------
+
+type MediaFile = { name: string; data: Uint8Array }
+
+// PowerPoint shows PNG, JPEG, GIF and BMP; anything else (WebP, SVG) is rasterised to PNG, as are
+// images with a crop, mask or filters, which are baked in.
+async function mediaFile(s: ImageShape, index: number): Promise<MediaFile | null> {
+  if (hasImageEffects(s)) {
+    const baked = await bakeImage(s)
+    const png = baked && (await canvasToPng(baked))
+    return png ? { name: `image${index}.png`, data: new Uint8Array(await png.arrayBuffer()) } : null
+  }
+  const blob = await getAsset(s.assetId)
+  if (!blob) return null
+  const ext = MEDIA_EXTENSIONS[blob.type]
+  if (ext) return { name: `image${index}.${ext}`, data: new Uint8Array(await blob.arrayBuffer()) }
+  try {
+    const img = await loadAssetImage(s.assetId)
+    const canvas = document.createElement('canvas')
+    canvas.width = img.naturalWidth
+    canvas.height = img.naturalHeight
+    canvas.getContext('2d')?.drawImage(img, 0, 0)
+    const png = await canvasToPng(canvas)
+    return png ? { name: `image${index}.png`, data: new Uint8Array(await png.arrayBuffer()) } : null
+  } catch {
+    return null
+  }
+}
+
+function slideXml(slide: Slide, index: number, media: Map<string, MediaFile>, skipped: DocumentIssue[]): { xml: string; rels: string } {
+  const rels = [{ id: 'rId1', type: REL_TYPE.slideLayout, target: '../slideLayouts/slideLayout1.xml' }]
+  const imageRels = new Map<string, string>()
+  const imageRel = (key: string) => {
+    const file = media.get(key)
+    if (!file) return null
+    if (!imageRels.has(key)) {
+      const id = `rId${rels.length + 1}`
+      rels.push({ id, type: REL_TYPE.image, target: `../media/${file.name}` })
+      imageRels.set(key, id)
+    }
+    return imageRels.get(key) as string
+  }
+
+  const body: string[] = []
+  placedShapes(slide.shapes).forEach((placed, i) => {
+    const xml = shapeXml(placed, i + 2, imageRel)
+    const s = placed.s
+    if (xml) {
+      body.push(xml)
+      if (placed.blended) skipped.push({ path: `slide ${index + 1} › ${s.name ?? s.kind}`, message: 'its blend mode has no PowerPoint equivalent and was dropped' })
+      return
+    }
+    const message = s.kind === 'image' ? 'the image data is not available in this browser' : 'lines, arrows and connectors are not exported to PowerPoint'
+    skipped.push({ path: `slide ${index + 1} › ${s.name ?? s.kind}`, message })
+  })
+
+  const group = '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>'
+  const xml = `${XML_HEAD}<p:sld ${DRAWING_NS}><p:cSld><p:bg><p:bgPr>${fillXml(slide.background)}<a:effectLst/></p:bgPr></p:bg><p:spTree>${group}${body.join('')}</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>`
+  return { xml, rels: relsXml(rels) }
+}
+
+const EMPTY_TREE = '<p:spTree><p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr/></p:spTree>'
+
+const MASTER_XML = `${XML_HEAD}<p:sldMaster ${DRAWING_NS}><p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg>${EMPTY_TREE}</p:cSld>`
+  + '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>'
+  + '<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst></p:sldMaster>'
+
+const LAYOUT_XML = `${XML_HEAD}<p:sldLayout ${DRAWING_NS} type="blank" preserve="1"><p:cSld name="Blank">${EMPTY_TREE}</p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>`
+
+const solid = (clr: string) => `<a:solidFill><a:schemeClr val="${clr}"/></a:solidFill>`
+const THEME_XML = `${XML_HEAD}<a:theme xmlns:a="${NS.a}" name="Slide Deck"><a:themeElements>`
+  + '<a:clrScheme name="Slide Deck">'
+  + '<a:dk1><a:srgbClr val="111827"/></a:dk1><a:lt1><a:srgbClr val="FFFFFF"/></a:lt1><a:dk2><a:srgbClr val="1F2937"/></a:dk2><a:lt2><a:srgbClr val="F3F4F6"/></a:lt2>'
+  + '<a:accent1><a:srgbClr val="2563EB"/></a:accent1><a:accent2><a:srgbClr val="F59E0B"/></a:accent2><a:accent3><a:srgbClr val="10B981"/></a:accent3>'
+  + '<a:accent4><a:srgbClr val="EF4444"/></a:accent4><a:accent5><a:srgbClr val="8B5CF6"/></a:accent5><a:accent6><a:srgbClr val="EC4899"/></a:accent6>'
+  + '<a:hlink><a:srgbClr val="2563EB"/></a:hlink><a:folHlink><a:srgbClr val="7C3AED"/></a:folHlink></a:clrScheme>'
+  + '<a:fontScheme name="Slide Deck"><a:majorFont><a:latin typeface="Arial"/><a:ea typeface=""/><a:cs typeface=""/></a:majorFont>'
+  + '<a:minorFont><a:latin typeface="Arial"/><a:ea typeface=""/><a:cs typeface=""/></a:minorFont></a:fontScheme>'
+  + '<a:fmtScheme name="Slide Deck">'
+  + `<a:fillStyleLst>${solid('phClr').repeat(3)}</a:fillStyleLst>`
+  + `<a:lnStyleLst>${[6350, 12700, 19050].map((w) => `<a:ln w="${w}">${solid('phClr')}</a:ln>`).join('')}</a:lnStyleLst>`
+  + `<a:effectStyleLst>${'<a:effectStyle><a:effectLst/></a:effectStyle>'.repeat(3)}</a:effectStyleLst>`
+  + `<a:bgFillStyleLst>${solid('phClr').repeat(3)}</a:bgFillStyleLst>`
+  + '</a:fmtScheme></a:themeElements></a:theme>'
+
+function contentTypesXml(slideCount: number, extensions: Set<string>): string {
+  const defaults = [['rels', 'application/vnd.openxmlformats-package.relationships+xml'], ['xml', 'application/xml'], ...[...extensions].map((ext) => [ext, IMAGE_TYPES[ext]])]
+  const pml = 'application/vnd.openxmlformats-officedocument.presentationml'
+  const overrides = [
+    ['/ppt/presentation.xml', `${pml}.presentation.main+xml`],
+    ['/ppt/slideMasters/slideMaster1.xml', `${pml}.slideMaster+xml`],
+    ['/ppt/slideLayouts/slideLayout1.xml', `${pml}.slideLayout+xml`],
+    ['/ppt/theme/theme1.xml', 'application/vnd.openxmlformats-officedocument.theme+xml'],
+    ['/docProps/core.xml', 'application/vnd.openxmlformats-package.core-properties+xml'],
+    ['/docProps/app.xml', 'application/vnd.openxmlformats-officedocument.extended-properties+xml'],
+    ...Array.from({ length: slideCount }, (_, i) => [`/ppt/slides/slide${i + 1}.xml`, `${pml}.slide+xml`]),
+  ]
+  return `${XML_HEAD}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+    + defaults.map(([ext, type]) => `<Default Extension="${ext}" ContentType="${type}"/>`).join('')
+    + overrides.map(([part, type]) => `<Override PartName="${part}" ContentType="${type}"/>`).join('')
+    + '</Types>'
+}
+
+export async function deckToPptx(deck: Deck): Promise<PptxExport> {
+  const size = slideSize(deck)
+  const media = new Map<string, MediaFile>()
+  for (const s of deck.slides.flatMap((sl) => placedShapes(sl.shapes).map((p) => p.s))) {
+    if (s.kind !== 'image' || !s.assetId || media.has(imageEffectsKey(s))) continue
+    const file = await mediaFile(s, media.size + 1)
+    if (file) media.set(imageEffectsKey(s), file)
+  }
+
+  const skipped: DocumentIssue[] = []
+  const slides = deck.slides.map((slide, i) => slideXml(slide, i, media, skipped))
+  const text = (name: string, xml: string): ZipEntry => ({ name, data: encoder.encode(xml) })
+  const created = new Date().toISOString().replace(/\.\d+Z$/, 'Z')
+  const entries: ZipEntry[] = [
+    text('[Content_Types].xml', contentTypesXml(slides.length, new Set([...media.values()].map((f) => f.name.split('.').pop() as string)))),
+    text('_rels/.rels', relsXml([
+      { id: 'rId1', type: REL_TYPE.officeDocument, target: 'ppt/presentation.xml' },
+      { id: 'rId2', type: REL_TYPE.core, target: 'docProps/core.xml' },
+      { id: 'rId3', type: REL_TYPE.extended, target: 'docProps/app.xml' },
+    ])),
+    text('docProps/core.xml', `${XML_HEAD}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created></cp:coreProperties>`),
+    text('docProps/app.xml', `${XML_HEAD}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties"><Application>Slide Deck</Application><Slides>${slides.length}</Slides></Properties>`),
+    text('ppt/presentation.xml', `${XML_HEAD}<p:presentation ${DRAWING_NS}><p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>`
+      + `<p:sldIdLst>${slides.map((_, i) => `<p:sldId id="${256 + i}" r:id="rId${i + 3}"/>`).join('')}</p:sldIdLst>`
+      + `<p:sldSz cx="${emu(size.width)}" cy="${emu(size.height)}"/><p:notesSz cx="6858000" cy="9144000"/></p:presentation>`),
+    text('ppt/_rels/presentation.xml.rels', relsXml([
+      { id: 'rId1', type: REL_TYPE.slideMaster, target: 'slideMasters/slideMaster1.xml' },
+      { id: 'rId2', type: REL_TYPE.theme, target: 'theme/theme1.xml' },
+      ...slides.map((_, i) => ({ id: `rId${i + 3}`, type: REL_TYPE.slide, target: `slides/slide${i + 1}.xml` })),
+    ])),
+    text('ppt/slideMasters/slideMaster1.xml', MASTER_XML),
+    text('ppt/slideMasters/_rels/slideMaster1.xml.rels', relsXml([
+      { id: 'rId1', type: REL_TYPE.slideLayout, target: '../slideLayouts/slideLayout1.xml' },
+      { id: 'rId2', type: REL_TYPE.theme, target: '../theme/theme1.xml' },
+    ])),
+    text('ppt/slideLayouts/slideLayout1.xml', LAYOUT_XML),
+    text('ppt/slideLayouts/_rels/slideLayout1.xml.rels', relsXml([{ id: 'rId1', type: REL_TYPE.slideMaster, target: '../slideMasters/slideMaster1.xml' }])),
+    text('ppt/theme/theme1.xml', THEME_XML),
+    ...slides.flatMap((sl, i) => [text(`ppt/slides/slide${i + 1}.xml`, sl.xml), text(`ppt/slides/_rels/slide${i + 1}.xml.rels`, sl.rels)]),
+    ...[...media.values()].map((f) => ({ name: `ppt/media/${f.name}`, data: f.data })),
+  ]
+  const zip = await createZip(entries)
+  return { blob: new Blob([zip], { type: 'application/vnd.openxmlformats-officedocument.presentationml.presentation' }), skipped }
+}
+
+// ---------- Import: XML helpers ----------
+
+function parseXml(bytes: Uint8Array | undefined): Element | null {
+  if (!bytes) return null
+  const doc = new DOMParser().parseFromString(decoder.decode(bytes), 'application/xml')
+  return doc.getElementsByTagName('parsererror').length > 0 ? null : doc.documentElement
+}
+
+// Children by prefixed name ('p:sp'), matched on namespace so files with unusual prefixes still read.
+function kids(el: Element | null | undefined, name: string): Element[] {
+  if (!el) return []
+  const [prefix, local] = name.split(':')
+  return Array.from(el.children).filter((c) => c.localName === local && c.namespaceURI === NS[prefix])
+}
+
+function kid(el: Element | null | undefined, ...names: string[]): Element | null {
+  let current = el ?? null
+  for (const name of names) current = kids(current, name)[0] ?? null
+  return current
+}
+
+const numAttr = (el: Element | null, name: string, fallback: number) => {
+  const v = Number(el?.getAttribute(name))
+  return el?.hasAttribute(name) && Number.isFinite(v) ? v : fallback
+}
+
+type Rels = Map<string, { type: string; target: string }>
+
+function resolvePart(from: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1)
+  const parts = from.split('/').slice(0, -1)
+  for (const segment of target.split('/')) {
+    if (segment === '..') parts.pop()
+    else if (segment !== '.') parts.push(segment)
+  }
+  return parts.join('/')
+}
+
+function relsOf(files: Map<string, Uint8Array>, part: string): Rels {
+  const slash = part.lastIndexOf('/')
+  const root = parseXml(files.get(`${part.slice(0, slash + 1)}_rels/${part.slice(slash + 1)}.rels`))
+  const rels: Rels = new Map()
+  for (const r of Array.from(root?.getElementsByTagNameNS(PACKAGE_RELS, 'Relationship') ?? [])) {
+    if (r.getAttribute('TargetMode') === 'External') continue
+    rels.set(r.getAttribute('Id') ?? '', { type: r.getAttribute('Type') ?? '', target: resolvePart(part, r.getAttribute('Target') ?? '') })
+  }
+  return rels
+}
+
+const relOfType = (rels: Rels, type: string) => [...rels.values()].find((r) => r.type === type)?.target
+
+// ---------- Import: theme colours ----------
+
+type Theme = { colors: Record<string, string>; majorFont: string; minorFont: string }
+
+const DEFAULT_THEME: Theme = {
+  colors: {
+    dk1: '000000', lt1: 'FFFFFF', dk2: '44546A', lt2: 'E7E6E6', accent1: '4472C4', accent2: 'ED7D31', accent3: 'A5A5A5',
+    accent4: 'FFC000', accent5: '5B9BD5', accent6: '70AD47', hlink: '0563C1', folHlink: '954F72',
+    tx1: '000000', bg1: 'FFFFFF', tx2: '44546A', bg2: 'E7E6E6',
+  },
+  majorFont: 'Arial',
+  minorFont: 'Arial',
+}
+
+const PRESET_COLORS: Record<string, string> = { black: '000000', white: 'FFFFFF', red: 'FF0000', green: '008000', blue: '0000FF', yellow: 'FFFF00', gray: '808080' }
+
+// Reads the theme palette and folds in the master's colour map (tx1 → dk1 and so on).
+function readTheme(theme: Element | null, master: Element | null): Theme {
+  const scheme = kid(theme, 'a:themeElements', 'a:clrScheme')
+  const colors = { ...DEFAULT_THEME.colors }
+  for (const c of Array.from(scheme?.children ?? [])) {
+    const value = kid(c, 'a:srgbClr')?.getAttribute('val') ?? kid(c, 'a:sysClr')?.getAttribute('lastClr')
+    if (value) colors[c.localName] = value
+  }
+  const map = kid(master, 'p:clrMap')
+  for (const [alias, fallback] of [['bg1', 'lt1'], ['tx1', 'dk1'], ['bg2', 'lt2'], ['tx2', 'dk2']]) {
+    colors[alias] = colors[map?.getAttribute(alias) ?? fallback] ?? colors[fallback]
+  }
+  const font = (name: string, fallback: string) => kid(theme, 'a:themeElements', 'a:fontScheme', name, 'a:latin')?.getAttribute('typeface') || fallback
+  return { colors, majorFont: font('a:majorFont', DEFAULT_THEME.majorFont), minorFont: font('a:minorFont', DEFAULT_THEME.minorFont) }
+}
+
+function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
+  const max = Math.max(r, g, b)
+  const min = Math.min(r, g, b)
+  const l = (max + min) / 2
+  if (max === min) return [0, 0, l]
+  const d = max - min
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min)
+  const h = max === r ? (g - b) / d + (g < b ? 6 : 0) : max === g ? (b - r) / d + 2 : (r - g) / d + 4
+  return [h / 6, s, l]
+}
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  if (s === 0) return [l, l, l]
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s
+  const p = 2 * l - q
+  const channel = (t: number) => {
+    const u = (t + 1) % 1
+    if (u < 1 / 6) return p + (q - p) * 6 * u
+    if (u < 1 / 2) return q
+    if (u < 2 / 3) return p + (q - p) * (2 / 3 - u) * 6
+    return p
+  }
+  return [channel(h + 1 / 3), channel(h), channel(h - 1 / 3)]
+}
+
+// Resolves the colour choice inside `el` (a solidFill, fillRef, gradient stop…) to #rrggbb[aa].
+function colorOf(el: Element | null, theme: Theme): string | null {
+  const c = Array.from(el?.children ?? []).find((e) => e.namespaceURI === NS.a && e.localName.endsWith('Clr'))
+  if (!c) return null
+  const val = c.getAttribute('val') ?? ''
+  const hex = c.localName === 'srgbClr' ? val
+    : c.localName === 'schemeClr' ? theme.colors[val]
+      : c.localName === 'sysClr' ? c.getAttribute('lastClr') ?? (val === 'window' ? 'FFFFFF' : '000000')
+        : c.localName === 'prstClr' ? PRESET_COLORS[val] : undefined
+  if (!hex || !/^[0-9a-f]{6}$/i.test(hex)) return null
+
+  let { r, g, b } = parseColor(`#${hex}`)
+  let a = 1
+  for (const mod of Array.from(c.children)) {
+    const v = numAttr(mod, 'val', 100000) / 100000
+    if (mod.localName === 'alpha') a = v
+    else if (mod.localName === 'shade') [r, g, b] = [r * v, g * v, b * v]
+    else if (mod.localName === 'tint') [r, g, b] = [r, g, b].map((x) => x + (1 - x) * (1 - v)) as [number, number, number]
+    else if (mod.localName === 'lumMod' || mod.localName === 'lumOff') {
+      const [h, s, l] = rgbToHsl(r, g, b)
+      ;[r, g, b] = hslToRgb(h, s, Math.min(1, Math.max(0, mod.localName === 'lumMod' ? l * v : l + v)))
+    }
+  }
+  const byte = (x: number) => Math.round(Math.min(1, Math.max(0, x)) * 255).toString(16).padStart(2, '0')
+  return `#${byte(r)}${byte(g)}${byte(b)}${a < 1 ? byte(a) : ''}`
+}
+
+// ---------- Import: shapes ----------
+
+// Maps EMU in the current container (slide or group) to slide units.
+type Frame = { sx: number; sy: number; dx: number; dy: number }
+
+type Xfrm = { x: number; y: number; w: number; h: number; rotation: number; flipped: boolean; chOff: Point; chExt: { w: number; h: number } }
+
+type SlideContext = {
+  files: Map<string, Uint8Array>
+  rels: Rels
+  theme: Theme
+  // The slide's layout and master, searched in that order for placeholder geometry and text styles.
+  layers: Element[]
+  label: string
+  issues: DocumentIssue[]
+}
+
+type Report = (message: string) => void
+
+function xfrmOf(el: Element | null): Xfrm | null {
+  const off = kid(el, 'a:off')
+  const ext = kid(el, 'a:ext')
+  if (!el || !off || !ext) return null
+  const x = numAttr(off, 'x', 0)
+  const y = numAttr(off, 'y', 0)
+  const w = numAttr(ext, 'cx', 0)
+  const h = numAttr(ext, 'cy', 0)
+  const chOff = kid(el, 'a:chOff')
+  const chExt = kid(el, 'a:chExt')
+  return {
+    x, y, w, h,
+    rotation: numAttr(el, 'rot', 0) / 60000,
+    flipped: el.getAttribute('flipH') === '1' || el.getAttribute('flipV') === '1',
+    chOff: { x: numAttr(chOff, 'x', x), y: numAttr(chOff, 'y', y) },
+    chExt: { w: numAttr(chExt, 'cx', w), h: numAttr(chExt, 'cy', h) },
+  }
+}
+
+const boxIn = (frame: Frame, xf: Xfrm): Box => ({ x: xf.x * frame.sx + frame.dx, y: xf.y * frame.sy + frame.dy, width: xf.w * frame.sx, height: xf.h * frame.sy })
+
+// Top-left corner after rotating the box about its centre, which is where our shapes rotate from.
+function cornerOf(box: Box, rotation: number): Point {
+  const rotated = applyMatrix(translateRotate(IDENTITY, 0, 0, rotation), { x: box.width / 2, y: box.height / 2 })
+  return { x: box.x + box.width / 2 - rotated.x, y: box.y + box.height / 2 - rotated.y }
+}
+
+// Positions a shape given in box-local coordinates on the box's corner and rotation.
+function placeInBox<T extends Shape>(s: T, corner: Point, rotation: number): T {
+  const p = applyMatrix(translateRotate(IDENTITY, corner.x, corner.y, rotation), { x: s.x, y: s.y })
+  return { ...s, x: p.x, y: p.y, rotation }
+}
+
+// The non-visual properties (p:nvSpPr, p:nvPicPr, p:nvGrpSpPr…) that carry name, visibility and placeholder.
+const nonVisual = (el: Element) => Array.from(el.children).find((c) => c.localName.startsWith('nv'))
+
+const nameOf = (el: Element) => kid(nonVisual(el), 'p:cNvPr')?.getAttribute('name') || el.localName
+
+const isHidden = (el: Element) => kid(nonVisual(el), 'p:cNvPr')?.getAttribute('hidden') === '1'
+
+type Placeholder = { type: string; idx: string | null }
+
+// Content placeholders may omit the type, and layouts use 'ctrTitle'/'subTitle' where masters say 'title'/'body'.
+function placeholderOf(el: Element): Placeholder | null {
+  const ph = kid(nonVisual(el), 'p:nvPr', 'p:ph')
+  if (!ph) return null
+  const type = ph.getAttribute('type') ?? 'body'
+  return { type: type === 'ctrTitle' ? 'title' : type === 'subTitle' || type === 'obj' ? 'body' : type, idx: ph.getAttribute('idx') }
+}
+
+function inheritedShapes(ctx: SlideContext, ph: Placeholder): Element[] {
+  return ctx.layers.flatMap((layer) => {
+    const candidates = Array.from(layer.getElementsByTagNameNS(NS.p, 'sp'))
+      .map((sp) => ({ sp, other: placeholderOf(sp) }))
+      .filter((c): c is { sp: Element; other: Placeholder } => c.other !== null)
+    const match = candidates.find((c) => ph.idx !== null && c.other.idx === ph.idx) ?? candidates.find((c) => c.other.type === ph.type)
+    return match ? [match.sp] : []
+  })
+}
+
+// Returns undefined when the element sets no fill, so the caller can fall back to its own default.
+// A gradient gives its first colour; shapes read the gradient itself with gradientOf, so only
+// callers that can't keep one (`keepsGradient` false) report it.
+function fillOf(spPr: Element | null, style: Element | null, theme: Theme, report: Report, keepsGradient = false): string | undefined {
+  for (const c of Array.from(spPr?.children ?? [])) {
+    if (c.namespaceURI !== NS.a) continue
+    if (c.localName === 'noFill') return 'transparent'
+    if (c.localName === 'solidFill') return colorOf(c, theme) ?? undefined
+    if (c.localName === 'gradFill') {
+      if (!keepsGradient) report('gradient fill was replaced by its first colour')
+      return colorOf(kid(c, 'a:gsLst', 'a:gs'), theme) ?? undefined
+    }
+    if (c.localName === 'blipFill' || c.localName === 'pattFill') {
+      report('picture and pattern fills are not supported')
+      return 'transparent'
+    }
+  }
+  const ref = kid(style, 'a:fillRef')
+  return ref && ref.getAttribute('idx') !== '0' ? colorOf(ref, theme) ?? undefined : undefined
+}
+
+// Linear and radial (path) gradients; the focus of a path gradient is taken to be the centre.
+function gradientOf(spPr: Element | null, theme: Theme): Gradient | undefined {
+  const grad = Array.from(spPr?.children ?? []).find((c) => c.namespaceURI === NS.a && c.localName === 'gradFill')
+  const stops = Array.from(kid(grad ?? null, 'a:gsLst')?.children ?? [])
+    .map((gs) => ({ offset: numAttr(gs, 'pos', 0) / 100000, color: colorOf(gs, theme) }))
+    .filter((stop): stop is { offset: number; color: string } => stop.color !== null)
+  if (!grad || stops.length < 2) return undefined
+  const lin = kid(grad, 'a:lin')
+  return { kind: kid(grad, 'a:path') && !lin ? 'radial' : 'linear', angle: numAttr(lin, 'ang', 0) / 60000, stops }
+}
+
+// Every dashed preset becomes a dash, the dotted ones a dot.
+function dashOf(ln: Element | null): DashStyle | undefined {
+  const val = kid(ln, 'a:prstDash')?.getAttribute('val')
+  if (!val || val === 'solid') return undefined
+  return /dot$/i.test(val) && !/dash/i.test(val) ? 'dotted' : 'dashed'
+}
+
+function lineOf(spPr: Element | null, style: Element | null, theme: Theme, frame: Frame): { stroke?: string; strokeWidth?: number; dash?: DashStyle } {
+  const ln = kid(spPr, 'a:ln')
+  if (kid(ln, 'a:noFill')) return {}
+  const ref = kid(style, 'a:lnRef')
+  const stroke = colorOf(kid(ln, 'a:solidFill'), theme) ?? (ref && ref.getAttribute('idx') !== '0' ? colorOf(ref, theme) : null)
+  if (!stroke) return {}
+  const dash = dashOf(ln)
+  return { stroke, strokeWidth: Math.max(0.5, numAttr(ln, 'w', 9525) * ((frame.sx + frame.sy) / 2)), ...(dash ? { dash } : {}) }
+}
+
+// An outer shadow; other effects (glow, reflection, soft edges) have no counterpart here.
+function shadowOf(spPr: Element | null, theme: Theme, frame: Frame, report: Report): Shadow | undefined {
+  const effects = kid(spPr, 'a:effectLst')
+  const outer = kid(effects, 'a:outerShdw')
+  if (effects && Array.from(effects.children).some((c) => c.localName !== 'outerShdw')) report('effects other than an outer shadow are not supported')
+  const color = outer && colorOf(outer, theme)
+  if (!outer || !color) return undefined
+  const scale = (frame.sx + frame.sy) / 2
+  const dist = numAttr(outer, 'dist', 0) * scale
+  const dir = (numAttr(outer, 'dir', 0) / 60000) * (Math.PI / 180)
+  const { a } = parseColor(color)
+  return { color: color.slice(0, 7), blur: numAttr(outer, 'blurRad', 0) * scale, offsetX: dist * Math.cos(dir), offsetY: dist * Math.sin(dir), opacity: a }
+}
+
+// Text styles cascade: the shape's own list style, then the matching layout and master
+// placeholders, then the master's title/body/other text style.
+function paragraphLevels(sp: Element, inherited: Element[], ctx: SlideContext, ph: Placeholder | null): Element[] {
+  const master = ctx.layers[ctx.layers.length - 1]
+  const masterStyle = kid(master, 'p:txStyles', ph ? (ph.type === 'title' ? 'p:titleStyle' : 'p:bodyStyle') : 'p:otherStyle')
+  return [sp, ...inherited]
+    .map((e) => kid(e, 'p:txBody', 'a:lstStyle', 'a:lvl1pPr'))
+    .concat(kid(masterStyle, 'a:lvl1pPr'))
+    .filter((e): e is Element => e !== null)
+}
+
+function readText(sp: Element, inherited: Element[], ctx: SlideContext, frame: Frame, ph: Placeholder | null, box: Box): TextShape | null {
+  const txBody = kid(sp, 'p:txBody')
+  const paragraphs = kids(txBody, 'a:p')
+  if (paragraphs.length === 0) return null
+
+  const levels = paragraphLevels(sp, inherited, ctx, ph)
+  const bodyPrs = [sp, ...inherited].map((e) => kid(e, 'p:txBody', 'a:bodyPr')).filter((e): e is Element => e !== null)
+  const bodyAttr = (name: string) => bodyPrs.find((e) => e.hasAttribute(name))?.getAttribute(name) ?? null
+  const fontScale = numAttr(kid(txBody, 'a:bodyPr', 'a:normAutofit'), 'fontScale', 100000) / 100000
+  const font = (typeface: string) => typeface === '+mj-lt' ? ctx.theme.majorFont : typeface === '+mn-lt' ? ctx.theme.minorFont : typeface
+
+  const runs: TextRun[] = []
+  const styles: { fontSize: number; color: string | null; fontFamily: string | null }[] = []
+  paragraphs.forEach((p, i) => {
+    if (i > 0) runs.push({ text: '\n' })
+    const defaults = [kid(p, 'a:pPr', 'a:defRPr'), ...levels.map((l) => kid(l, 'a:defRPr'))].filter((e): e is Element => e !== null)
+    for (const r of Array.from(p.children)) {
+      if (r.localName === 'br') { runs.push({ text: '\n' }); continue }
+      if (r.localName !== 'r' && r.localName !== 'fld') continue
+      const chain = [kid(r, 'a:rPr'), ...defaults].filter((e): e is Element => e !== null)
+      const get = (name: string) => chain.find((e) => e.hasAttribute(name))?.getAttribute(name) ?? null
+      const flag = (name: string) => get(name) === '1' || get(name) === 'true'
+      const fontSize = Math.round((numAttr(chain.find((e) => e.hasAttribute('sz')) ?? null, 'sz', 1800) / 100) * EMU_PER_POINT * frame.sy * fontScale * 10) / 10
+      const color = colorOf(chain.map((e) => kid(e, 'a:solidFill')).find(Boolean) ?? null, ctx.theme)
+      const typeface = chain.map((e) => kid(e, 'a:latin')?.getAttribute('typeface')).find(Boolean)
+      styles.push({ fontSize, color, fontFamily: typeface ? font(typeface) : null })
+      runs.push({ text: kid(r, 'a:t')?.textContent ?? '', bold: flag('b'), italic: flag('i'), underline: !!get('u') && get('u') !== 'none', fontSize, color: color ?? undefined })
+    }
+  })
+  const text = runsToPlainText(runs)
+  if (!text.trim()) return null
+
+  // The first run's style becomes the shape default; runs keep only what differs from it.
+  const first = styles[0]
+  const fill = first.color ?? `#${ctx.theme.colors.tx1}`
+  const fontSize = first.fontSize
+  const cleaned = normalizeRuns(runs.map((r) => ({
+    text: r.text,
+    ...(r.bold ? { bold: true } : {}),
+    ...(r.italic ? { italic: true } : {}),
+    ...(r.underline ? { underline: true } : {}),
+    ...(r.fontSize !== undefined && r.fontSize !== fontSize && r.text !== '\n' ? { fontSize: r.fontSize } : {}),
+    ...(r.color && r.color !== fill ? { color: r.color } : {}),
+  })))
+
+  const pPrs = [kid(paragraphs[0], 'a:pPr'), ...levels].filter((e): e is Element => e !== null)
+  const align = ALIGN_FROM_PPTX[pPrs.find((e) => e.hasAttribute('algn'))?.getAttribute('algn') ?? 'l']
+  const bullet = pPrs.map((e) => Array.from(e.children).find((c) => ['buNone', 'buChar', 'buAutoNum'].includes(c.localName))).find(Boolean)
+  const list = bullet?.localName === 'buChar' ? 'bullet' : bullet?.localName === 'buAutoNum' ? 'number' : undefined
+  const spacing = pPrs.map((e) => kid(e, 'a:lnSpc', 'a:spcPct')).find(Boolean) ?? null
+  const lineHeight = spacing ? (numAttr(spacing, 'val', 100000) / 100000) * DEFAULT_LINE_HEIGHT : undefined
+
+  const inset = (name: string, fallback: number, scale: number) => Number(bodyAttr(name) ?? fallback) * scale
+  const left = inset('lIns', 91440, frame.sx)
+  const top = inset('tIns', 45720, frame.sy)
+  const wrap = bodyAttr('wrap') !== 'none'
+  return {
+    kind: 'text', id: uid('text'), name: nameOf(sp), x: left, y: top, rotation: 0,
+    text: runsToPlainText(cleaned), runs: cleaned, fontSize, fill,
+    ...(first.fontFamily ? { fontFamily: first.fontFamily } : {}),
+    width: wrap ? Math.max(1, box.width - left - inset('rIns', 91440, frame.sx)) : undefined,
+    height: Math.max(1, box.height - top - inset('bIns', 45720, frame.sy)),
+    align, verticalAlign: ANCHOR_FROM_PPTX[bodyAttr('anchor') ?? 't'] ?? 'top',
+    ...(lineHeight && Math.abs(lineHeight - DEFAULT_LINE_HEIGHT) > 0.01 ? { lineHeight } : {}),
+    ...(list ? { list } : {}),
+  }
+}
+
+function readShape(sp: Element, ctx: SlideContext, frame: Frame, report: Report): Shape | null {
+  const ph = placeholderOf(sp)
+  const inherited = ph ? inheritedShapes(ctx, ph) : []
+  const xf = [sp, ...inherited].map((e) => xfrmOf(kid(e, 'p:spPr', 'a:xfrm'))).find(Boolean)
+  if (!xf) {
+    if (kid(sp, 'p:txBody', 'a:p', 'a:r')) report('its position could not be determined')
+    return null
+  }
+  const box = boxIn(frame, xf)
+  const corner = cornerOf(box, xf.rotation)
+  const spPr = kid(sp, 'p:spPr')
+  const style = kid(sp, 'p:style')
+  const text = readText(sp, inherited, ctx, frame, ph, box)
+
+  const fill = fillOf(spPr, style, ctx.theme, report, true) ?? 'transparent'
+  const line = lineOf(spPr, style, ctx.theme, frame)
+  const fillGradient = gradientOf(spPr, ctx.theme)
+  const shadow = shadowOf(spPr, ctx.theme, frame, report)
+  let geometry: RectShape | CircleShape | null = null
+  if (fill !== 'transparent' || line.stroke) {
+    const prst = kid(spPr, 'a:prstGeom')?.getAttribute('prst') ?? (kid(spPr, 'a:custGeom') ? 'custom' : 'rect')
+    const base = { name: nameOf(sp), rotation: 0, fill, ...line, ...(fillGradient ? { fillGradient } : {}), ...(shadow ? { shadow } : {}) }
+    if (prst === 'rect' || prst === 'roundRect') {
+      const adj = kid(spPr, 'a:prstGeom', 'a:avLst', 'a:gd')?.getAttribute('fmla')?.match(/^val (\d+)/)?.[1]
+      const cornerRadius = prst === 'roundRect' ? (Number(adj ?? 16667) / 100000) * Math.min(box.width, box.height) : undefined
+      geometry = { kind: 'rect', id: uid('rect'), ...base, x: 0, y: 0, width: box.width, height: box.height, ...(cornerRadius ? { cornerRadius } : {}) }
+    } else if (prst === 'ellipse' && Math.abs(box.width - box.height) <= Math.max(box.width, box.height) * 0.01) {
+      geometry = { kind: 'circle', id: uid('circle'), ...base, x: box.width / 2, y: box.height / 2, radius: (box.width + box.height) / 4 }
+    } else {
+      report(`${prst === 'ellipse' ? 'ovals' : prst === 'custom' ? 'freeform shapes' : `"${prst}" shapes`} are not supported${text ? '; the text was kept' : ''}`)
+    }
+  }
+
+  const hidden = isHidden(sp) ? { hidden: true } : {}
+  if (geometry && text) {
+    return { kind: 'group', id: uid('group'), name: nameOf(sp), x: corner.x, y: corner.y, rotation: xf.rotation, children: [geometry, text], ...hidden }
+  }
+  const single = geometry ?? (text && shadow ? { ...text, shadow } : text)
+  return single ? { ...placeInBox(single, corner, xf.rotation), ...hidden } : null
+}
+
+async function readPicture(pic: Element, ctx: SlideContext, frame: Frame, report: Report): Promise<ImageShape | null> {
+  const ph = placeholderOf(pic)
+  const xf = [pic, ...(ph ? inheritedShapes(ctx, ph) : [])].map((e) => xfrmOf(kid(e, 'p:spPr', 'a:xfrm'))).find(Boolean)
+  const rel = ctx.rels.get(kid(pic, 'p:blipFill', 'a:blip')?.getAttributeNS(NS.r, 'embed') ?? '')
+  const bytes = rel && ctx.files.get(rel.target)
+  if (!xf || !rel || !bytes) { report('the picture data is missing'); return null }
+  const ext = rel.target.split('.').pop()?.toLowerCase() ?? ''
+  const type = IMAGE_TYPES[ext]
+  if (!type) { report(`${ext.toUpperCase()} pictures are not supported`); return null }
+
+  // srcRect insets are in thousandths of a percent; negative ones (padding) are dropped.
+  const src = kid(pic, 'p:blipFill', 'a:srcRect')
+  const [l, t, r, b] = ['l', 't', 'r', 'b'].map((side) => Math.max(0, numAttr(src, side, 0)) / 100000)
+  const crop = l || t || r || b ? clampCrop({ x: l, y: t, width: 1 - l - r, height: 1 - t - b }) : undefined
+  if (xf.flipped) report('the picture was imported unflipped')
+  const box = boxIn(frame, xf)
+  const image: ImageShape = {
+    kind: 'image', id: uid('img'), name: nameOf(pic), x: 0, y: 0, rotation: 0, width: box.width, height: box.height,
+    assetId: await putAsset(new Blob([bytes as BlobPart], { type })),
+    ...(crop ? { crop } : {}),
+    ...(isHidden(pic) ? { hidden: true } : {}),
+  }
+  return placeInBox(image, cornerOf(box, xf.rotation), xf.rotation)
+}
+
+async function readGroup(grp: Element, ctx: SlideContext, frame: Frame): Promise<GroupShape | null> {
+  const xf = xfrmOf(kid(grp, 'p:grpSpPr', 'a:xfrm'))
+  const box = xf ? boxIn(frame, xf) : { x: 0, y: 0, width: 0, height: 0 }
+  // Children are laid out in the group's child space (chOff/chExt), scaled onto its box.
+  const sx = xf && xf.chExt.w ? box.width / xf.chExt.w : frame.sx
+  const sy = xf && xf.chExt.h ? box.height / xf.chExt.h : frame.sy
+  const inner: Frame = xf ? { sx, sy, dx: -xf.chOff.x * sx, dy: -xf.chOff.y * sy } : frame
+  const children = await readTree(grp, ctx, inner)
+  if (children.length === 0) return null
+  const corner = xf ? cornerOf(box, xf.rotation) : { x: 0, y: 0 }
+  return {
+    kind: 'group', id: uid('group'), name: nameOf(grp), x: corner.x, y: corner.y, rotation: xf?.rotation ?? 0, children,
+    ...(isHidden(grp) ? { hidden: true } : {}),
+  }
+}
+
+function unsupportedFrame(el: Element): string {
+  const uri = kid(el, 'a:graphic', 'a:graphicData')?.getAttribute('uri') ?? ''
+  if (uri.endsWith('/table')) return 'tables are not supported'
+  if (uri.includes('chart')) return 'charts are not supported'
+  if (uri.includes('diagram')) return 'SmartArt graphics are not supported'
+  if (uri.includes('ole')) return 'embedded objects are not supported'
+  return 'this element is not supported'
+}
+
+async function readTree(container: Element, ctx: SlideContext, frame: Frame): Promise<Shape[]> {
+  const shapes: Shape[] = []
+  for (const el of Array.from(container.children)) {
+    const report: Report = (message) => ctx.issues.push({ path: `${ctx.label} › ${nameOf(el)}`, message })
+    const ns = el.namespaceURI
+    const name = el.localName
+    let shape: Shape | null = null
+    if (ns === NS.p && name === 'sp') shape = readShape(el, ctx, frame, report)
+    else if (ns === NS.p && name === 'pic') shape = await readPicture(el, ctx, frame, report)
+    else if (ns === NS.p && name === 'grpSp') shape = await readGroup(el, ctx, frame)
+    else if (ns === NS.p && name === 'cxnSp') report('lines and connectors are not supported')
+    else if (ns === NS.p && name === 'graphicFrame') report(unsupportedFrame(el))
+    else if (ns === NS.p && name === 'contentPart') report('ink is not supported')
+    else if (ns === NS.mc && name === 'AlternateContent') shapes.push(...await readTree(kid(el, 'mc:Fallback') ?? el, ctx, frame))
+    if (shape) shapes.push(shape)
+  }
+  return shapes
+}
+
+function backgroundOf(slide: Element, ctx: SlideContext): string {
+  const report: Report = (message) => ctx.issues.push({ path: `${ctx.label} › background`, message })
+  for (const layer of [slide, ...ctx.layers]) {
+    const bg = kid(layer, 'p:cSld', 'p:bg')
+    if (!bg) continue
+    const color = kid(bg, 'p:bgPr') ? fillOf(kid(bg, 'p:bgPr'), null, ctx.theme, report) : colorOf(kid(bg, 'p:bgRef'), ctx.theme)
+    if (color && color !== 'transparent') return color
+  }
+  return DEFAULT_BACKGROUND
+}
+
+// ---------- Import ----------
+
+export async function pptxToDeck(data: ArrayBuffer): Promise<PptxImportResult> {
+  const title = 'This presentation could not be opened'
+  const fail = (message: string): PptxImportResult => ({ ok: false, error: { title, issues: [{ path: '', message }] } })
+  const files = await readZip(new Uint8Array(data))
+  if (!files) return fail('the file is not a PowerPoint presentation')
+
+  const presentationPath = relOfType(relsOf(files, ''), REL_TYPE.officeDocument) ?? 'ppt/presentation.xml'
+  const presentation = parseXml(files.get(presentationPath))
+  if (!presentation || presentation.localName !== 'presentation') return fail('the presentation part is missing or damaged')
+  const presentationRels = relsOf(files, presentationPath)
+
+  // The deck takes the presentation's slide size, so 4:3 and other formats come in unchanged.
+  const sldSz = kid(presentation, 'p:sldSz')
+  const cx = Math.max(1, numAttr(sldSz, 'cx', emu(DEFAULT_SLIDE_SIZE.width)))
+  const cy = Math.max(1, numAttr(sldSz, 'cy', emu(DEFAULT_SLIDE_SIZE.height)))
+  const size = clampSlideSize({ width: cx / EMU_PER_UNIT, height: cy / EMU_PER_UNIT })
+  const frame: Frame = { sx: size.width / cx, sy: size.height / cy, dx: 0, dy: 0 }
+
+  const issues: DocumentIssue[] = []
+  const themes = new Map<string, Theme>()
+  const slides: Slide[] = []
+  const slideIds = kids(kid(presentation, 'p:sldIdLst'), 'p:sldId')
+  for (const [i, sldId] of slideIds.entries()) {
+    const label = `slide ${i + 1}`
+    const path = presentationRels.get(sldId.getAttributeNS(NS.r, 'id') ?? '')?.target
+    const slide = path ? parseXml(files.get(path)) : null
+    const spTree = kid(slide, 'p:cSld', 'p:spTree')
+    if (!path || !slide || !spTree) { issues.push({ path: label, message: 'the slide could not be read' }); continue }
+
+    const rels = relsOf(files, path)
+    const layoutPath = relOfType(rels, REL_TYPE.slideLayout)
+    const masterPath = layoutPath ? relOfType(relsOf(files, layoutPath), REL_TYPE.slideMaster) : undefined
+    const layout = layoutPath ? parseXml(files.get(layoutPath)) : null
+    const master = masterPath ? parseXml(files.get(masterPath)) : null
+    if (masterPath && !themes.has(masterPath)) {
+      const themePath = relOfType(relsOf(files, masterPath), REL_TYPE.theme)
+      themes.set(masterPath, readTheme(themePath ? parseXml(files.get(themePath)) : null, master))
+    }
+    const ctx: SlideContext = {
+      files, rels, label, issues,
+      theme: (masterPath && themes.get(masterPath)) || DEFAULT_THEME,
+      layers: [layout, master].filter((e): e is Element => e !== null),
+    }
+    slides.push({ id: uid('slide'), background: backgroundOf(slide, ctx), shapes: await readTree(spTree, ctx, frame) })
+  }
+  if (slides.length === 0) return fail('the presentation has no slides')
+  return { ok: true, deck: { slides, size }, dropped: issues }
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import type { Shape } from './deck'
+import { INDEX, PARENT, fromRecords, toRecords, type ShapeRecords } from './records'
+import { group, rect } from './testShapes'
+
+// Records for shapes given as [shape, parent id, index], without any of their children.
+function recordsOf(...entries: [Shape, string | null, number][]): ShapeRecords {
+  return new Map(entries.map(([s, parent, index]) => {
+    const fields: Record<string, unknown> = { ...s }
+    delete fields.children
+    return [s.id, { ...fields, [PARENT]: parent, [INDEX]: index }]
+  }))
+}
+
+describe('shape records', () => {
+  it('round-trips a shape tree', () => {
+    const shapes = [rect('a'), group('g1', [rect('b'), group('g2', [rect('c')])]), rect('d')]
+    expect(fromRecords(toRecords(shapes))).toEqual(shapes)
+  })
+
+  it('orders siblings that claim the same place by id', () => {
+    expect(fromRecords(recordsOf([rect('b'), null, 0], [rect('a'), null, 0])).map((s) => s.id)).toEqual(['a', 'b'])
+  })
+
+  it('moves shapes whose group is gone to the top level', () => {
+    expect(fromRecords(recordsOf([rect('a'), 'missing', 0]))).toEqual([rect('a')])
+  })
+
+  it('puts groups whose parent links loop back on the slide with their contents', () => {
+    const shapes = fromRecords(recordsOf([rect('top'), null, 0], [group('A', []), 'B', 0], [group('B', []), 'A', 0], [rect('c'), 'A', 1]))
+    expect(shapes).toEqual([rect('top'), group('A', [group('B', []), rect('c')])])
+  })
+
+  it('puts a group that is its own parent back on the slide', () => {
+    expect(fromRecords(recordsOf([group('g', []), 'g', 0], [rect('a'), 'g', 0]))).toEqual([group('g', [rect('a')])])
+  })
+})
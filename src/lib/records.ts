@@ -0,0 +1,74 @@
+import type { Shape } from './deck'
+
+// ---------- Shape records ----------
+// A slide's shape tree as a flat map of records keyed by shape id. Each record holds the shape's
+// own fields plus where it sits: `~parent` (the enclosing group's id, or null) and `~index` (its
+// place among its siblings). Edits then become per-field changes that can be applied by id, which
+// is what undo and collaboration need: neither has to know how a list was laid out when a change
+// was made.
+
+export type ShapeRecord = Record<string, unknown>
+export type ShapeRecords = Map<string, ShapeRecord>
+
+export const PARENT = '~parent'
+export const INDEX = '~index'
+
+export function toRecords(shapes: Shape[]): ShapeRecords {
+  const out: ShapeRecords = new Map()
+  const walk = (list: Shape[], parent: string | null) => list.forEach((s, i) => {
+    const { children, ...fields } = s as Shape & { children?: Shape[] }
+    out.set(s.id, { ...fields, [PARENT]: parent, [INDEX]: i })
+    if (children) walk(children, s.id)
+  })
+  walk(shapes, null)
+  return out
+}
+
+// Siblings sort by index, then id, so records that claim the same place always come out in the
+// same order. Shapes whose group is gone move to the top level, and leftovers of a removed shape
+// (a field someone else edited while it was deleted) are dropped. Groups whose parent links loop
+// (each moved into the other by concurrent regrouping) go back on the slide too: the loop is cut at
+// the first of its groups reached from the lowest id, which keeps the rest of the loop inside it.
+export function fromRecords(records: ShapeRecords): Shape[] {
+  const isRecord = (id: unknown): id is string => typeof id === 'string' && records.get(id)?.id === id && typeof records.get(id)?.kind === 'string'
+  const parents = new Map<string, string | null>()
+  const byParent = new Map<string | null, ShapeRecord[]>()
+  for (const [id, r] of records) {
+    if (!isRecord(id)) continue
+    const parent = isRecord(r[PARENT]) && r[PARENT] !== id && records.get(r[PARENT])?.kind === 'group' ? r[PARENT] : null
+    parents.set(id, parent)
+    byParent.set(parent, [...(byParent.get(parent) ?? []), r])
+  }
+  const seen = new Set<string>()
+  const node = (r: ShapeRecord): Shape[] => {
+    const id = r.id as string
+    // A group can't end up inside itself, whatever order concurrent regrouping arrived in.
+    if (seen.has(id)) return []
+    seen.add(id)
+    const fields = { ...r }
+    delete fields[PARENT]
+    delete fields[INDEX]
+    return [(fields.kind === 'group' ? { ...fields, children: build(id) } : fields) as Shape]
+  }
+  const build = (parent: string | null): Shape[] => (byParent.get(parent) ?? [])
+    .sort((a, b) => Number(a[INDEX]) - Number(b[INDEX]) || String(a.id).localeCompare(String(b.id)))
+    .flatMap(node)
+  const shapes = build(null)
+  // Anything still unplaced hangs off a loop; walking up from it ends on a group in the loop.
+  for (const id of [...parents.keys()].sort()) {
+    if (seen.has(id)) continue
+    const path = new Set<string>()
+    let at = id
+    while (!path.has(at)) {
+      path.add(at)
+      at = parents.get(at) as string
+    }
+    shapes.push(...node(records.get(at) as ShapeRecord))
+  }
+  return shapes
+}
+
+// JSON values compare by content; records only ever hold JSON.
+export function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || (typeof a === 'object' && typeof b === 'object' && JSON.stringify(a) === JSON.stringify(b))
+}
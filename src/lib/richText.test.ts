@@ -0,0 +1,61 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import type { TextRun } from './deck'
+import { htmlToRuns, layoutRichText, normalizeRuns, runsToDom, splitParagraphs } from './richText'
+import { text } from './testShapes'
+
+// Fills an editor styled like the overlay (the shape's colour and size) and reads it back.
+function roundTrip(runs: TextRun[]) {
+  const shape = text('t1', runs.map((r) => r.text).join(''), { runs })
+  const root = document.createElement('div')
+  root.style.color = shape.fill
+  root.style.fontSize = `${shape.fontSize}px`
+  document.body.replaceChildren(root)
+  runsToDom(root, shape)
+  return { root, runs: htmlToRuns(root, shape) }
+}
+
+describe('runs and the editing overlay', () => {
+  it('round-trips styled runs and paragraphs', () => {
+    const runs: TextRun[] = [
+      { text: 'Plain ' },
+      { text: 'bold', bold: true },
+      { text: ' and ', italic: true, underline: true },
+      { text: 'red', color: '#ff0000', fontSize: 32 },
+      { text: '\n\nlast' },
+    ]
+    expect(roundTrip(runs).runs).toEqual(normalizeRuns(runs))
+  })
+
+  it('writes hostile colours as inert style, never as markup', () => {
+    const { root, runs } = roundTrip([{ text: 'x', color: 'red"><img src=x onerror=alert(1)>' }])
+    expect(root.querySelector('img')).toBeNull()
+    expect(root.innerHTML).toBe('<div>x</div>')
+    expect(runs).toEqual([{ text: 'x' }])
+  })
+
+  it('keeps markup in the text as text', () => {
+    const { root, runs } = roundTrip([{ text: '<b>not bold</b>' }])
+    expect(root.querySelector('b')).toBeNull()
+    expect(runs).toEqual([{ text: '<b>not bold</b>' }])
+  })
+})
+
+describe('layoutRichText', () => {
+  it('splits paragraphs at line breaks, keeping empty ones', () => {
+    expect(splitParagraphs([{ text: 'a\n\nb', bold: true }])).toEqual([[{ text: 'a', bold: true }], [], [{ text: 'b', bold: true }]])
+  })
+
+  it('wraps words that do not fit and stacks lines by line height', () => {
+    const layout = layoutRichText(text('t1', 'aaaa bbbb', { width: 60, fontSize: 20, lineHeight: 1.5 }))
+    expect(layout.lines.map((l) => l.fragments.map((f) => f.text).join(''))).toEqual(['aaaa', 'bbbb'])
+    expect(layout.lines.map((l) => l.top)).toEqual([0, 30])
+    expect(layout.contentHeight).toBe(60)
+  })
+
+  it('numbers list paragraphs and indents their text', () => {
+    const layout = layoutRichText(text('t1', 'one\ntwo', { list: 'number', fontSize: 20 }))
+    expect(layout.lines.map((l) => l.fragments[0].text)).toEqual(['1.', '2.'])
+    expect(layout.lines[0].fragments[1].x).toBe(30)
+  })
+})
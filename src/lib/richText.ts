@@ -0,0 +1,334 @@
+import type { TextRun, TextShape } from './deck'
+
+// ---------- Styled text layout ----------
+// Lays out a text shape's runs into positioned fragments. The canvas renderer and every exporter draw
+// from the same layout, so wrapping and styling match wherever the text ends up.
+
+export const FONT_FAMILIES = ['Arial', 'Helvetica', 'Georgia', 'Times New Roman', 'Courier New', 'Verdana', 'Trebuchet MS']
+export const DEFAULT_FONT_FAMILY = 'Arial'
+export const DEFAULT_LINE_HEIGHT = 1.2
+// List indent, in multiples of the shape's font size.
+export const LIST_INDENT = 1.5
+
+const ASCENT = 0.8
+
+export type ResolvedStyle = {
+  bold: boolean
+  italic: boolean
+  underline: boolean
+  color: string
+  fontSize: number
+  fontFamily: string
+}
+
+export type TextFragment = {
+  text: string
+  x: number
+  baseline: number
+  width: number
+  style: ResolvedStyle
+}
+
+export type TextLine = {
+  top: number
+  height: number
+  fragments: TextFragment[]
+}
+
+export type TextLayout = {
+  width: number
+  height: number
+  contentHeight: number
+  lines: TextLine[]
+}
+
+export function textRuns(s: TextShape): TextRun[] {
+  return s.runs?.length ? s.runs : [{ text: s.text }]
+}
+
+export function runsToPlainText(runs: TextRun[]): string {
+  return runs.map((r) => r.text).join('')
+}
+
+const sameStyle = (a: TextRun, b: TextRun) =>
+  !!a.bold === !!b.bold && !!a.italic === !!b.italic && !!a.underline === !!b.underline && a.color === b.color && a.fontSize === b.fontSize
+
+// Merges neighbouring runs that share a style and drops empty ones.
+export function normalizeRuns(runs: TextRun[]): TextRun[] {
+  const out: TextRun[] = []
+  for (const r of runs) {
+    if (!r.text) continue
+    const last = out[out.length - 1]
+    if (last && sameStyle(last, r)) out[out.length - 1] = { ...last, text: last.text + r.text }
+    else out.push({ ...r })
+  }
+  return out
+}
+
+export function resolveStyle(s: TextShape, r: TextRun): ResolvedStyle {
+  return {
+    bold: !!r.bold,
+    italic: !!r.italic,
+    underline: !!r.underline,
+    color: r.color ?? s.fill,
+    fontSize: r.fontSize ?? s.fontSize,
+    fontFamily: s.fontFamily ?? DEFAULT_FONT_FAMILY,
+  }
+}
+
+export function cssFont(style: ResolvedStyle): string {
+  return `${style.italic ? 'italic ' : ''}${style.bold ? 'bold ' : ''}${style.fontSize}px ${quoteFamily(style.fontFamily)}`
+}
+
+function quoteFamily(family: string) {
+  return /\s/.test(family) ? `"${family}"` : family
+}
+
+let measureContext: CanvasRenderingContext2D | null = null
+
+// Without a DOM (server render) widths fall back to an average glyph width.
+export function measureText(text: string, style: ResolvedStyle, letterSpacing: number): number {
+  if (typeof document === 'undefined') return text.length * (style.fontSize * 0.5 + letterSpacing)
+  measureContext ??= document.createElement('canvas').getContext('2d')
+  if (!measureContext) return text.length * (style.fontSize * 0.5 + letterSpacing)
+  measureContext.font = cssFont(style)
+  return measureContext.measureText(text).width + letterSpacing * text.length
+}
+
+// Splits runs into paragraphs at '\n'.
+export function splitParagraphs(runs: TextRun[]): TextRun[][] {
+  const paragraphs: TextRun[][] = [[]]
+  for (const r of runs) {
+    r.text.split('\n').forEach((part, i) => {
+      if (i > 0) paragraphs.push([])
+      if (part) paragraphs[paragraphs.length - 1].push({ ...r, text: part })
+    })
+  }
+  return paragraphs
+}
+
+type Token = { text: string; style: ResolvedStyle; width: number; space: boolean }
+
+export function listMarker(s: TextShape, index: number): string {
+  return s.list === 'number' ? `${index + 1}.` : '•'
+}
+
+export function layoutRichText(s: TextShape): TextLayout {
+  const letterSpacing = s.letterSpacing ?? 0
+  const lineHeight = s.lineHeight ?? DEFAULT_LINE_HEIGHT
+  const baseStyle = resolveStyle(s, { text: '' })
+  const indent = s.list ? s.fontSize * LIST_INDENT : 0
+  const avail = s.width !== undefined ? Math.max(1, s.width - indent) : Infinity
+
+  const lines: TextLine[] = []
+  let top = 0
+  let maxWidth = 0
+
+  splitParagraphs(textRuns(s)).forEach((para, pIndex) => {
+    const tokens: Token[] = para.flatMap((r) => {
+      const style = resolveStyle(s, r)
+      return r.text.split(/(\s+)/).filter(Boolean).flatMap((t) => breakWord(t, style, letterSpacing, avail))
+    })
+    const paraStyle = tokens[0]?.style ?? (para[0] ? resolveStyle(s, para[0]) : baseStyle)
+
+    const wrapped: Token[][] = [[]]
+    let lineWidth = 0
+    for (const tok of tokens) {
+      const line = wrapped[wrapped.length - 1]
+      if (!tok.space && line.length > 0 && lineWidth + tok.width > avail) {
+        wrapped.push([tok])
+        lineWidth = tok.width
+        continue
+      }
+      // Whitespace that caused a wrap is dropped at the start of the next line.
+      if (tok.space && line.length === 0 && wrapped.length > 1) continue
+      line.push(tok)
+      lineWidth += tok.width
+    }
+
+    wrapped.forEach((lineTokens, lineIndex) => {
+      const content = trimTrailingSpace(lineTokens)
+      const used = content.reduce((w, t) => w + t.width, 0)
+      const fontSize = Math.max(paraStyle.fontSize, ...lineTokens.map((t) => t.style.fontSize))
+      const height = fontSize * lineHeight
+      const baseline = top + (height - fontSize) / 2 + fontSize * ASCENT
+      const lastLine = lineIndex === wrapped.length - 1
+      const boxWidth = Number.isFinite(avail) ? avail : used
+      const extra = Math.max(0, boxWidth - used)
+      const gaps = content.filter((t) => t.space).length
+
+      let x = indent + (s.align === 'center' ? extra / 2 : s.align === 'right' ? extra : 0)
+      const spaceBonus = s.align === 'justify' && !lastLine && gaps > 0 ? extra / gaps : 0
+
+      const fragments: TextFragment[] = []
+      if (s.list && lineIndex === 0) {
+        const marker = listMarker(s, pIndex)
+        fragments.push({ text: marker, x: 0, baseline, width: measureText(marker, paraStyle, letterSpacing), style: paraStyle })
+      }
+      for (const t of content) {
+        const width = t.width + (t.space ? spaceBonus : 0)
+        fragments.push({ text: t.text, x, baseline, width, style: t.style })
+        x += width
+      }
+      lines.push({ top, height, fragments })
+      maxWidth = Math.max(maxWidth, indent + used)
+      top += height
+    })
+  })
+
+  const contentHeight = top
+  const width = s.width ?? maxWidth
+  const height = Math.max(s.height ?? 0, contentHeight)
+  const free = height - contentHeight
+  const shift = s.verticalAlign === 'middle' ? free / 2 : s.verticalAlign === 'bottom' ? free : 0
+  if (shift) {
+    for (const line of lines) {
+      line.top += shift
+      for (const f of line.fragments) f.baseline += shift
+    }
+  }
+  return { width, height, contentHeight, lines }
+}
+
+function trimTrailingSpace(tokens: Token[]): Token[] {
+  let end = tokens.length
+  while (end > 0 && tokens[end - 1].space) end--
+  return tokens.slice(0, end)
+}
+
+// Words wider than the box are broken between characters.
+function breakWord(text: string, style: ResolvedStyle, letterSpacing: number, avail: number): Token[] {
+  const space = /^\s+$/.test(text)
+  const width = measureText(text, style, letterSpacing)
+  if (space || width <= avail) return [{ text, style, width, space }]
+  const out: Token[] = []
+  let chunk = ''
+  for (const ch of text) {
+    if (chunk && measureText(chunk + ch, style, letterSpacing) > avail) {
+      out.push({ text: chunk, style, width: measureText(chunk, style, letterSpacing), space: false })
+      chunk = ''
+    }
+    chunk += ch
+  }
+  if (chunk) out.push({ text: chunk, style, width: measureText(chunk, style, letterSpacing), space: false })
+  return out
+}
+
+// ---------- Canvas drawing ----------
+
+// The calls text draws with, which a plain canvas context and Konva's Context wrapper both have.
+type TextContext = Pick<CanvasRenderingContext2D, 'textBaseline' | 'font' | 'fillStyle' | 'fillText' | 'measureText' | 'fillRect'>
+
+export function drawRichText(ctx: TextContext, layout: TextLayout, letterSpacing: number) {
+  ctx.textBaseline = 'alphabetic'
+  for (const line of layout.lines) {
+    for (const f of line.fragments) {
+      ctx.font = cssFont(f.style)
+      ctx.fillStyle = f.style.color
+      if (letterSpacing) {
+        let x = f.x
+        for (const ch of f.text) {
+          ctx.fillText(ch, x, f.baseline)
+          x += ctx.measureText(ch).width + letterSpacing
+        }
+      } else {
+        ctx.fillText(f.text, f.x, f.baseline)
+      }
+      if (f.style.underline) {
+        const thickness = Math.max(1, f.style.fontSize / 15)
+        ctx.fillRect(f.x, f.baseline + f.style.fontSize * 0.1, f.width, thickness)
+      }
+    }
+  }
+}
+
+// ---------- HTML conversion (editing overlay) ----------
+
+// One <div> per paragraph, with a span per styled run. Styles are set through the element's style
+// object rather than written into markup, so a stored value the browser can't parse is just dropped.
+export function runsToDom(root: HTMLElement, s: TextShape) {
+  const doc = root.ownerDocument
+  root.replaceChildren(...splitParagraphs(textRuns(s)).map((para) => {
+    const div = doc.createElement('div')
+    if (para.length === 0) div.append(doc.createElement('br'))
+    for (const r of para) {
+      const span = doc.createElement('span')
+      if (r.bold) span.style.fontWeight = 'bold'
+      if (r.italic) span.style.fontStyle = 'italic'
+      if (r.underline) span.style.textDecorationLine = 'underline'
+      if (r.color) span.style.color = r.color
+      if (r.fontSize) span.style.fontSize = `${r.fontSize}px`
+      if (span.style.length === 0) { div.append(r.text); continue }
+      span.textContent = r.text
+      div.append(span)
+    }
+    return div
+  }))
+}
+
+const BLOCK_TAGS = ['DIV', 'P', 'LI', 'UL', 'OL', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6']
+
+// Reads runs back out of the contentEditable, using computed styles so it does not depend on
+// whichever markup the browser produced while editing.
+export function htmlToRuns(root: HTMLElement, s: TextShape): TextRun[] {
+  const runs: TextRun[] = []
+  let pendingBreak = false
+  const lineHasContent = () => {
+    const last = runs[runs.length - 1]
+    return !!last && !last.text.endsWith('\n')
+  }
+  const flush = () => {
+    if (pendingBreak) runs.push({ text: '\n' })
+    pendingBreak = false
+  }
+
+  const visit = (node: Node) => {
+    node.childNodes.forEach((child) => {
+      if (child.nodeType === Node.TEXT_NODE) {
+        const text = (child.textContent ?? '').replace(/\u00a0/g, ' ')
+        if (!text) return
+        flush()
+        runs.push({ text, ...readStyle(child.parentElement as HTMLElement, root, s) })
+        return
+      }
+      if (!(child instanceof HTMLElement)) return
+      if (child.tagName === 'BR') {
+        flush()
+        // A trailing <br> inside a block only keeps an empty paragraph open.
+        const parent = child.parentElement
+        const placeholder = !child.nextSibling && !!parent && parent !== root && BLOCK_TAGS.includes(parent.tagName)
+        if (!placeholder) runs.push({ text: '\n' })
+        return
+      }
+      const block = BLOCK_TAGS.includes(child.tagName)
+      if (block && lineHasContent()) pendingBreak = true
+      visit(child)
+      if (block) pendingBreak = true
+    })
+  }
+  visit(root)
+  return normalizeRuns(runs)
+}
+
+function readStyle(el: HTMLElement, root: HTMLElement, s: TextShape): Omit<TextRun, 'text'> {
+  const cs = getComputedStyle(el)
+  let underline = false
+  for (let n: HTMLElement | null = el; n && n !== root.parentElement; n = n.parentElement) {
+    if (getComputedStyle(n).textDecorationLine.includes('underline')) { underline = true; break }
+  }
+  const color = rgbToHex(cs.color)
+  const fontSize = Math.round(parseFloat(cs.fontSize))
+  const style: Omit<TextRun, 'text'> = {}
+  if (Number(cs.fontWeight) >= 600 || cs.fontWeight === 'bold') style.bold = true
+  if (cs.fontStyle === 'italic') style.italic = true
+  if (underline) style.underline = true
+  if (color && color.toLowerCase() !== s.fill.toLowerCase()) style.color = color
+  if (Number.isFinite(fontSize) && fontSize !== Math.round(s.fontSize)) style.fontSize = fontSize
+  return style
+}
+
+function rgbToHex(rgb: string): string | null {
+  const m = rgb.match(/rgba?\((\d+),\s*(\d+),\s*(\d+)/)
+  if (!m) return rgb.startsWith('#') ? rgb : null
+  return '#' + m.slice(1, 4).map((v) => Number(v).toString(16).padStart(2, '0')).join('')
+}
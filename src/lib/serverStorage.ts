@@ -0,0 +1,12 @@
+import path from 'path'
+import type { DeckStorage } from './deckStorage'
+import { createFsDeckStorage } from './fsDeckStorage'
+
+// The storage the route handlers use. Decks live under DECK_STORAGE_DIR, or `.data` in the project
+// directory when it isn't set. Kept on globalThis so dev-server reloads share one instance and its
+// write queues.
+const store = globalThis as typeof globalThis & { deckStorage?: DeckStorage }
+
+export function deckStorage(): DeckStorage {
+  return (store.deckStorage ??= createFsDeckStorage(process.env.DECK_STORAGE_DIR ?? path.join(process.cwd(), '.data')))
+}
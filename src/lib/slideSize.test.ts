@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import type { Deck, Shape } from './deck'
+import { clampSlideSize, resizeDeck } from './slideSize'
+import { circle, deckOf, rect } from './testShapes'
+
+const box = rect('r1', 100, 100, { width: 200, height: 100 })
+
+const wideDeck = (shape: Shape): Deck => ({ ...deckOf(shape), size: { width: 1920, height: 1080 } })
+
+describe('resizeDeck', () => {
+  it('stretches upright boxes to the new size', () => {
+    const resized = resizeDeck(wideDeck(box), { width: 960, height: 1080 }, 'scale')
+    expect(resized.size).toEqual({ width: 960, height: 1080 })
+    expect(resized.slides[0].shapes[0]).toMatchObject({ x: 50, y: 100, width: 100, height: 100 })
+  })
+
+  it('keeps circles round, centred where the stretch puts them', () => {
+    const resized = resizeDeck(wideDeck(circle('c1', 960, 540, 100)), { width: 960, height: 1080 }, 'scale')
+    expect(resized.slides[0].shapes[0]).toMatchObject({ x: 480, y: 540, radius: 50 })
+  })
+
+  it('letterboxes content at one scale, centred on the new slide', () => {
+    const resized = resizeDeck(wideDeck(box), { width: 1440, height: 1080 }, 'letterbox')
+    // 1920×1080 fits 1440 wide at 0.75, leaving 135 above and below.
+    expect(resized.slides[0].shapes[0]).toMatchObject({ x: 75, y: 210, width: 150, height: 75 })
+  })
+
+  it('leaves shapes alone without a fit', () => {
+    const deck = wideDeck(box)
+    expect(resizeDeck(deck, { width: 800, height: 600 }, 'none').slides[0]).toBe(deck.slides[0])
+  })
+})
+
+describe('clampSlideSize', () => {
+  it('rounds and bounds typed-in sizes', () => {
+    expect(clampSlideSize({ width: 1280.6, height: 5 })).toEqual({ width: 1281, height: 100 })
+    expect(clampSlideSize({ width: Number.NaN, height: 1e9 })).toEqual({ width: 100, height: 10000 })
+  })
+})
@@ -0,0 +1,79 @@
+import { DEFAULT_SLIDE_SIZE, scaleShape, slideSize, type Deck, type Shape, type SlideSize, type TextShape } from './deck'
+import { shapeBounds } from './geometry'
+
+// ---------- Slide size ----------
+// A deck's slides share one size. Presets keep the short side at 1080 units, so text sizes mean
+// the same on any of them; a custom size can be anything within MIN_SLIDE_SIDE–MAX_SLIDE_SIDE.
+
+export type SlideSizePreset = { id: string; name: string; size: SlideSize }
+
+export const SLIDE_SIZE_PRESETS: SlideSizePreset[] = [
+  { id: 'wide', name: 'Widescreen 16:9', size: DEFAULT_SLIDE_SIZE },
+  { id: 'standard', name: 'Standard 4:3', size: { width: 1440, height: 1080 } },
+  { id: 'a4-landscape', name: 'A4 landscape', size: { width: 1527, height: 1080 } },
+  { id: 'a4-portrait', name: 'A4 portrait', size: { width: 1080, height: 1527 } },
+  { id: 'square', name: 'Square 1:1', size: { width: 1080, height: 1080 } },
+]
+
+export const MIN_SLIDE_SIDE = 100
+export const MAX_SLIDE_SIDE = 10000
+
+export function sizePreset(size: SlideSize): SlideSizePreset | undefined {
+  return SLIDE_SIZE_PRESETS.find((p) => p.size.width === size.width && p.size.height === size.height)
+}
+
+export function sameSize(a: SlideSize, b: SlideSize): boolean {
+  return a.width === b.width && a.height === b.height
+}
+
+// What happens to what is already on the slides when their size changes: `scale` stretches the
+// content with the slide, so something a tenth of the way in stays there (see stretchShape);
+// `letterbox` scales evenly to fit and centres, keeping shapes' proportions; `none` leaves
+// everything put.
+export type SlideFit = 'scale' | 'letterbox' | 'none'
+
+export const SLIDE_FITS: { fit: SlideFit; label: string }[] = [
+  { fit: 'scale', label: 'Scale content' },
+  { fit: 'letterbox', label: 'Letterbox' },
+  { fit: 'none', label: 'Leave as is' },
+]
+
+const STRETCHABLE = ['rect', 'image', 'line', 'arrow', 'connector']
+
+// `s` stretched by `sx` × `sy` without distorting it. Upright boxes and paths stretch; text boxes
+// stretch but keep their font size in proportion; circles, rotated shapes and groups (whose
+// children may be rotated) scale evenly by the smaller factor, centred where the stretch puts them.
+function stretchShape(s: Shape, sx: number, sy: number): Shape {
+  const k = Math.min(sx, sy)
+  const upright = s.rotation % 360 === 0
+  if (upright && STRETCHABLE.includes(s.kind)) return scaleShape(s, sx, sy)
+  if (upright && s.kind === 'text') {
+    const even = scaleShape(s, k, k) as TextShape
+    return { ...(scaleShape(s, sx, sy) as TextShape), fontSize: even.fontSize, runs: even.runs }
+  }
+  const box = shapeBounds(s)
+  const even = scaleShape(s, k, k)
+  return { ...even, x: even.x + (box.x + box.width / 2) * (sx - k), y: even.y + (box.y + box.height / 2) * (sy - k) }
+}
+
+export function resizeDeck(deck: Deck, size: SlideSize, fit: SlideFit): Deck {
+  const from = slideSize(deck)
+  const sx = size.width / from.width
+  const sy = size.height / from.height
+  const k = Math.min(sx, sy)
+  const dx = (size.width - from.width * k) / 2
+  const dy = (size.height - from.height * k) / 2
+  const place = (s: Shape): Shape => {
+    if (fit === 'scale') return stretchShape(s, sx, sy)
+    if (fit === 'none') return s
+    const scaled = scaleShape(s, k, k)
+    return { ...scaled, x: scaled.x + dx, y: scaled.y + dy }
+  }
+  return { ...deck, size, slides: deck.slides.map((sl) => (fit === 'none' ? sl : { ...sl, shapes: sl.shapes.map(place) })) }
+}
+
+// Whole units within MIN_SLIDE_SIDE–MAX_SLIDE_SIDE, for sizes typed in by hand.
+export function clampSlideSize(size: SlideSize): SlideSize {
+  const side = (v: number) => Math.min(MAX_SLIDE_SIDE, Math.max(MIN_SLIDE_SIDE, Math.round(v) || MIN_SLIDE_SIDE))
+  return { width: side(size.width), height: side(size.height) }
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import type { Box } from './geometry'
+import { snapMove, snapPoint, type SnapOptions } from './snapping'
+
+const box = (x: number, y: number, width = 100, height = 100): Box => ({ x, y, width, height })
+
+const options = (overrides: Partial<SnapOptions> = {}): SnapOptions => ({
+  targets: { grid: false, objects: true, slide: true },
+  gridSize: 20,
+  others: [],
+  threshold: 6,
+  slide: { width: 1920, height: 1080 },
+  ...overrides,
+})
+
+describe('snapMove', () => {
+  it('pulls an edge onto another shape within the threshold, with a guide', () => {
+    const result = snapMove(box(503, 300), options({ others: [box(200, 100, 300, 50)] }))
+    expect(result.dx).toBe(-3)
+    expect(result.guides).toContainEqual({ axis: 'x', at: 500, from: 100, to: 400 })
+  })
+
+  it('leaves a box alone when nothing is close enough', () => {
+    expect(snapMove(box(530, 330), options({ others: [box(200, 100, 300, 50)] }))).toMatchObject({ dx: 0, dy: 0, guides: [] })
+  })
+
+  it('centres on the slide', () => {
+    expect(snapMove(box(908, 488), options())).toMatchObject({ dx: 2, dy: 2 })
+  })
+
+  it('matches spacing already used in the row', () => {
+    // Two boxes 50 apart; the third lands 50 past the second.
+    const others = [box(0, 0), box(150, 0)]
+    const result = snapMove(box(303, 0), options({ others, targets: { grid: false, objects: true, slide: false } }))
+    expect(result.dx).toBe(-3)
+    expect(result.gaps).toContainEqual({ axis: 'x', from: 100, to: 150, at: 50 })
+  })
+
+  it('snaps the leading edge to the grid', () => {
+    const result = snapMove(box(43, 57), options({ targets: { grid: true, objects: false, slide: false } }))
+    expect(result).toMatchObject({ dx: -3, dy: 3 })
+  })
+})
+
+describe('snapPoint', () => {
+  it('only snaps the axes the handle moves along', () => {
+    const result = snapPoint({ x: 497, y: 97 }, { x: true, y: false }, options({ others: [box(200, 100, 300, 50)] }))
+    expect(result).toMatchObject({ dx: 3, dy: 0 })
+  })
+})
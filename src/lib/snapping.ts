@@ -0,0 +1,150 @@
+import type { SlideSize } from './deck'
+import type { Box, Point } from './geometry'
+
+// ---------- Smart guides ----------
+// Everything here works in slide coordinates on axis-aligned bounding boxes. A drag snaps the
+// moving box's edges and centre to the grid, to the slide's edges and centre, to other shapes'
+// edges and centres, and to the spacing already used between shapes in the same row or column.
+
+export type SnapTargets = { grid: boolean; objects: boolean; slide: boolean }
+
+export const DEFAULT_SNAP_TARGETS: SnapTargets = { grid: true, objects: true, slide: true }
+
+// Screen pixels within which a line pulls the shape onto it.
+export const SNAP_DISTANCE = 6
+
+export type SnapOptions = {
+  targets: SnapTargets
+  gridSize: number
+  // Other shapes' boxes; the moving shapes themselves must not be among them.
+  others: Box[]
+  // In slide units, i.e. SNAP_DISTANCE divided by the zoom.
+  threshold: number
+  // For the slide's edges and centre.
+  slide: SlideSize
+}
+
+type Axis = 'x' | 'y'
+
+// A line the moving box lines up with: vertical at x = `at` for the x axis, horizontal for y.
+// `from`/`to` span the boxes involved along the other axis.
+export type Guide = { axis: Axis; at: number; from: number; to: number }
+
+// A measured distance along `axis`, drawn across the other axis at `at`. Equal-spacing snaps show
+// every gap of the same size.
+export type Gap = { axis: Axis; from: number; to: number; at: number }
+
+export type SnapResult = { dx: number; dy: number; guides: Guide[]; gaps: Gap[] }
+
+const EPSILON = 0.5
+
+const start = (b: Box, axis: Axis) => (axis === 'x' ? b.x : b.y)
+const size = (b: Box, axis: Axis) => (axis === 'x' ? b.width : b.height)
+const end = (b: Box, axis: Axis) => start(b, axis) + size(b, axis)
+const cross = (axis: Axis): Axis => (axis === 'x' ? 'y' : 'x')
+const slideSide = (slide: SlideSize, axis: Axis) => (axis === 'x' ? slide.width : slide.height)
+
+const lines = (b: Box, axis: Axis) => [start(b, axis), start(b, axis) + size(b, axis) / 2, end(b, axis)]
+
+// Boxes that share some of the moving box's extent on the other axis: its row for x, its column for y.
+function inLine(box: Box, others: Box[], axis: Axis): Box[] {
+  const c = cross(axis)
+  return others.filter((o) => start(o, c) < end(box, c) && end(o, c) > start(box, c))
+}
+
+function gapBetween(a: Box, b: Box, axis: Axis): Gap {
+  const c = cross(axis)
+  const lo = Math.max(start(a, c), start(b, c))
+  const hi = Math.min(end(a, c), end(b, c))
+  return { axis, from: end(a, axis), to: start(b, axis), at: (lo + hi) / 2 }
+}
+
+type Candidate = { delta: number; gaps: (moved: Box) => Gap[] }
+
+// Positions along `axis` where the box would be as far from a neighbour as some pair in its row
+// already is, or centred between two neighbours.
+function spacingCandidates(box: Box, others: Box[], axis: Axis): Candidate[] {
+  const row = inLine(box, others, axis).sort((a, b) => start(a, axis) - start(b, axis))
+  const pairs: [Box, Box][] = []
+  for (let i = 0; i < row.length; i++) {
+    for (let j = i + 1; j < row.length; j++) {
+      if (end(row[i], axis) <= start(row[j], axis)) { pairs.push([row[i], row[j]]); break }
+    }
+  }
+  const sameGaps = (distance: number) => pairs
+    .filter(([a, b]) => Math.abs(start(b, axis) - end(a, axis) - distance) < EPSILON)
+    .map(([a, b]) => gapBetween(a, b, axis))
+
+  const out: Candidate[] = []
+  for (const [a, b] of pairs) {
+    const distance = start(b, axis) - end(a, axis)
+    for (const n of row) {
+      out.push({ delta: end(n, axis) + distance - start(box, axis), gaps: (m) => [gapBetween(n, m, axis), ...sameGaps(distance)] })
+      out.push({ delta: start(n, axis) - distance - end(box, axis), gaps: (m) => [gapBetween(m, n, axis), ...sameGaps(distance)] })
+    }
+  }
+  for (const [a, b] of pairs) {
+    if (start(b, axis) - end(a, axis) < size(box, axis)) continue
+    const centred = (end(a, axis) + start(b, axis) - size(box, axis)) / 2
+    out.push({ delta: centred - start(box, axis), gaps: (m) => [gapBetween(a, m, axis), gapBetween(m, b, axis)] })
+  }
+  return out
+}
+
+function snapAxis(box: Box, axis: Axis, options: SnapOptions, spacing: boolean): Candidate {
+  const { targets, gridSize, others, threshold, slide } = options
+  const moving = lines(box, axis)
+  const candidates: Candidate[] = []
+  const none = () => []
+  const toward = (line: number) => moving.forEach((m) => candidates.push({ delta: line - m, gaps: none }))
+  if (targets.slide) [0, slideSide(slide, axis) / 2, slideSide(slide, axis)].forEach(toward)
+  if (targets.objects) {
+    others.forEach((o) => lines(o, axis).forEach(toward))
+    if (spacing) candidates.push(...spacingCandidates(box, others, axis))
+  }
+  // The grid only pulls the leading edge, as grid snapping always has.
+  if (targets.grid && gridSize > 0) {
+    candidates.push({ delta: Math.round(moving[0] / gridSize) * gridSize - moving[0], gaps: none })
+  }
+
+  let best: Candidate | null = null
+  for (const c of candidates) {
+    if (Math.abs(c.delta) <= threshold && (!best || Math.abs(c.delta) < Math.abs(best.delta) - 1e-6)) best = c
+  }
+  return best ?? { delta: 0, gaps: none }
+}
+
+// Every slide or shape line the box now sits on, spanning the boxes it lines up with.
+function guidesFor(box: Box, axis: Axis, options: SnapOptions): Guide[] {
+  const c = cross(axis)
+  const guides: Guide[] = []
+  for (const m of new Set(lines(box, axis))) {
+    if (options.targets.slide && [0, slideSide(options.slide, axis) / 2, slideSide(options.slide, axis)].some((v) => Math.abs(v - m) < EPSILON)) {
+      guides.push({ axis, at: m, from: 0, to: slideSide(options.slide, c) })
+    }
+    if (!options.targets.objects) continue
+    const hits = options.others.filter((o) => lines(o, axis).some((v) => Math.abs(v - m) < EPSILON))
+    if (hits.length === 0) continue
+    const all = [box, ...hits]
+    guides.push({ axis, at: m, from: Math.min(...all.map((b) => start(b, c))), to: Math.max(...all.map((b) => end(b, c))) })
+  }
+  return guides
+}
+
+// Snaps a dragged selection; (dx, dy) moves `box` onto the chosen lines.
+export function snapMove(box: Box, options: SnapOptions): SnapResult {
+  const x = snapAxis(box, 'x', options, true)
+  const y = snapAxis(box, 'y', options, true)
+  const moved = { ...box, x: box.x + x.delta, y: box.y + y.delta }
+  return { dx: x.delta, dy: y.delta, guides: [...guidesFor(moved, 'x', options), ...guidesFor(moved, 'y', options)], gaps: [...x.gaps(moved), ...y.gaps(moved)] }
+}
+
+// Snaps a resize handle. Only the axes the handle moves along are snapped.
+export function snapPoint(point: Point, axes: { x: boolean; y: boolean }, options: SnapOptions): SnapResult {
+  const box = { x: point.x, y: point.y, width: 0, height: 0 }
+  const dx = axes.x ? snapAxis(box, 'x', options, false).delta : 0
+  const dy = axes.y ? snapAxis(box, 'y', options, false).delta : 0
+  const moved = { ...box, x: box.x + dx, y: box.y + dy }
+  const guides = [...(axes.x ? guidesFor(moved, 'x', options) : []), ...(axes.y ? guidesFor(moved, 'y', options) : [])]
+  return { dx, dy, guides, gaps: [] }
+}
@@ -0,0 +1,94 @@
+import type { BlendMode, DashStyle, Gradient, Shadow, Shape } from './deck'
+import { applyMatrix, invertMatrix, type Box, type Matrix, type Point } from './geometry'
+
+// ---------- Shape style ----------
+// Fill, stroke and effects that make up a shape's look, apart from its geometry and content. The
+// editor draws them with Konva; exporters read the same fields and use these helpers so every
+// format agrees on where a gradient runs and how long a dash is.
+
+export const DEFAULT_SHADOW: Shadow = { color: '#000000', blur: 16, offsetX: 0, offsetY: 8, opacity: 0.35 }
+
+// A gradient from the shape's current fill to white, the starting point when one is switched on.
+export function defaultGradient(fill: string, kind: Gradient['kind'] = 'linear'): Gradient {
+  return { kind, angle: 90, stops: [{ offset: 0, color: fill }, { offset: 1, color: '#ffffff' }] }
+}
+
+// Stops in offset order, clamped to 0–1, as every renderer expects them.
+export function gradientStops(g: Gradient): Gradient['stops'] {
+  return g.stops.map((s) => ({ ...s, offset: Math.max(0, Math.min(1, s.offset)) })).sort((a, b) => a.offset - b.offset)
+}
+
+// Where a gradient runs over `box`: a linear one along a line through the centre just long enough
+// to span the box at its angle, a radial one out from the centre to the box's farther half-side.
+export function gradientGeometry(g: Gradient, box: Box): { start: Point; end: Point; radius: number } {
+  const center = { x: box.x + box.width / 2, y: box.y + box.height / 2 }
+  if (g.kind === 'radial') return { start: center, end: center, radius: Math.max(box.width, box.height) / 2 }
+  const rad = (g.angle * Math.PI) / 180
+  const dx = Math.cos(rad)
+  const dy = Math.sin(rad)
+  const half = (Math.abs(box.width * dx) + Math.abs(box.height * dy)) / 2
+  return { start: { x: center.x - dx * half, y: center.y - dy * half }, end: { x: center.x + dx * half, y: center.y + dy * half }, radius: 0 }
+}
+
+// Dash and gap lengths for a stroke, scaled with its width so a thick dotted line still looks dotted.
+export function dashArray(dash: DashStyle | undefined, strokeWidth: number): number[] | undefined {
+  const w = Math.max(1, strokeWidth)
+  if (dash === 'dashed') return [w * 4, w * 2]
+  if (dash === 'dotted') return [w, w * 2]
+  return undefined
+}
+
+// A shadow's offset in the local space of a shape placed on the slide by `m`, for formats that draw
+// shadows in the shape's own coordinates rather than the slide's.
+export function localShadowOffset(shadow: Shadow, m: Matrix): Point {
+  return applyMatrix(invertMatrix([m[0], m[1], m[2], m[3], 0, 0]), { x: shadow.offsetX, y: shadow.offsetY })
+}
+
+export function blendModeLabel(mode: BlendMode): string {
+  return mode.split('-').map((w) => w[0].toUpperCase() + w.slice(1)).join(' ')
+}
+
+// ---------- Copy and paste style ----------
+
+export type ShapeStyle = {
+  fill?: string
+  fillGradient?: Gradient
+  stroke?: string
+  strokeWidth?: number
+  dash?: DashStyle
+  opacity?: number
+  shadow?: Shadow
+  blendMode?: BlendMode
+}
+
+const STYLE_FIELDS: Record<Shape['kind'], (keyof ShapeStyle)[]> = {
+  rect: ['fill', 'fillGradient', 'stroke', 'strokeWidth', 'dash', 'opacity', 'shadow', 'blendMode'],
+  circle: ['fill', 'fillGradient', 'stroke', 'strokeWidth', 'dash', 'opacity', 'shadow', 'blendMode'],
+  text: ['fill', 'opacity', 'shadow', 'blendMode'],
+  line: ['stroke', 'strokeWidth', 'dash', 'opacity', 'shadow', 'blendMode'],
+  arrow: ['stroke', 'strokeWidth', 'dash', 'opacity', 'shadow', 'blendMode'],
+  connector: ['stroke', 'strokeWidth', 'dash', 'opacity', 'shadow', 'blendMode'],
+  image: ['opacity', 'blendMode'],
+  group: ['opacity', 'blendMode'],
+}
+
+// The shape's look, with unset fields kept as undefined so pasting it clears them on the target.
+export function pickStyle(s: Shape): ShapeStyle {
+  const source = s as ShapeStyle
+  return Object.fromEntries(STYLE_FIELDS[s.kind].map((key) => [key, structuredClone(source[key])]))
+}
+
+// `s` restyled with whichever fields of `style` its kind supports. A text shape takes a shape's
+// fill as its colour; a rectangle pasted onto a line gives it the rectangle's outline.
+export function applyStyle<T extends Shape>(s: T, style: ShapeStyle): T {
+  const next: Record<string, unknown> = { ...s }
+  // Fields the kind must always have are left alone when the style has no value for them.
+  const required = (key: keyof ShapeStyle) => key === 'fill' || ((key === 'stroke' || key === 'strokeWidth') && s.kind !== 'rect' && s.kind !== 'circle')
+  for (const key of STYLE_FIELDS[s.kind]) {
+    if (!(key in style)) continue
+    const value = style[key]
+    if (value === undefined && required(key)) continue
+    next[key] = structuredClone(value)
+  }
+  return next as T
+}
@@ -0,0 +1,48 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import type { Shape } from './deck'
+import { slideToSvg } from './svgExport'
+import { circle, connector, deckOf, rect, text } from './testShapes'
+
+const size = { width: 800, height: 600 }
+
+async function render(...shapes: Shape[]) {
+  const svg = await slideToSvg(deckOf(...shapes).slides[0], size)
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml')
+  expect(doc.querySelector('parsererror')).toBeNull()
+  return doc.documentElement
+}
+
+describe('slideToSvg', () => {
+  it('draws the whole slide at the deck size over its background', async () => {
+    const root = await render()
+    expect(root.getAttribute('viewBox')).toBe('0 0 800 600')
+    expect(root.querySelector('rect')?.getAttribute('fill')).toBe('#ffffff')
+  })
+
+  it('places shapes by their own transform and skips hidden ones', async () => {
+    const root = await render(rect('a', 10.004, 20, { rotation: 30, cornerRadius: 4 }), { ...circle('b'), hidden: true })
+    const g = root.querySelector('g#a')
+    expect(g?.getAttribute('transform')).toBe('translate(10 20) rotate(30)')
+    expect(g?.querySelector('rect')?.getAttribute('rx')).toBe('4')
+    expect(root.querySelector('g#b')).toBeNull()
+  })
+
+  it('keeps text as text, escaped', async () => {
+    const root = await render(text('t', '<b>"A" & B</b>', { width: 1000 }))
+    expect(root.querySelector('b')).toBeNull()
+    expect(root.querySelector('g#t text')?.textContent).toBe('<b>"A" & B</b>')
+  })
+
+  it('writes gradients as defs the fill refers to', async () => {
+    const root = await render(rect('a', 0, 0, { fillGradient: { kind: 'linear', angle: 0, stops: [{ offset: 0, color: '#000000' }, { offset: 1, color: '#ffffff' }] } }))
+    expect(root.querySelector('g#a rect')?.getAttribute('fill')).toBe('url(#a-fill)')
+    expect([...root.querySelectorAll('linearGradient#a-fill stop')].map((s) => s.getAttribute('stop-color'))).toEqual(['#000000', '#ffffff'])
+  })
+
+  it('routes connectors to the shapes they are bound to and draws their heads', async () => {
+    const root = await render(rect('a'), rect('b', 300, 0), { ...connector('c', 'a', 'b'), endHead: 'triangle' })
+    expect(root.querySelector('g#c path')?.getAttribute('d')).toBe('M100 25 L300 25')
+    expect(root.querySelector('g#c polygon')?.getAttribute('fill')).toBe('#000000')
+  })
+})
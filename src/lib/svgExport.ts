@@ -0,0 +1,166 @@
+import type { CircleShape, RectShape, Shape, Slide, SlideSize, StrokeShape, TextShape } from './deck'
+import { assetDataUrl } from './assets'
+import { bakeImage, hasImageEffects } from './imageEffects'
+import { modelAnchorResolver, pathHeads, shapeMatrix, strokePath, type AnchorResolver, type HeadGeometry, type StrokePath } from './connectors'
+import { applyMatrix, invertMatrix, localBox } from './geometry'
+import { layoutRichText } from './richText'
+import { dashArray, gradientGeometry, gradientStops, localShadowOffset } from './style'
+
+// ---------- SVG export ----------
+// Builds the SVG from the slide model rather than the stage, so output is always the full slide at
+// the deck's slide size regardless of zoom, pan or grid. Text stays as <text> so it remains editable.
+
+const n = (v: number) => String(Math.round(v * 100) / 100)
+
+function esc(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function attrs(values: Record<string, string | number | undefined>): string {
+  return Object.entries(values)
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => ` ${k}="${typeof v === 'number' ? n(v) : esc(v as string)}"`)
+    .join('')
+}
+
+function placement(s: Shape): string {
+  return `translate(${n(s.x)} ${n(s.y)})${s.rotation ? ` rotate(${n(s.rotation)})` : ''}`
+}
+
+// The shape's group attributes for opacity, blending and shadow, and the <defs> they refer to.
+function effectsSvg(s: Shape, shapes: Shape[]): { defs: string; attrs: Record<string, string | number | undefined> } {
+  const opacity = s.opacity !== undefined && s.opacity < 1 ? s.opacity : undefined
+  const style = s.blendMode ? `mix-blend-mode:${s.blendMode}` : undefined
+  if (!s.shadow) return { defs: '', attrs: { opacity, style } }
+  const { x, y } = localShadowOffset(s.shadow, shapeMatrix(shapes, s.id))
+  const id = `${s.id}-shadow`
+  // A canvas shadow blur is twice the Gaussian's standard deviation.
+  const shadow = `<feDropShadow${attrs({ dx: x, dy: y, stdDeviation: s.shadow.blur / 2, 'flood-color': s.shadow.color, 'flood-opacity': s.shadow.opacity })}/>`
+  return {
+    defs: `<filter${attrs({ id, x: '-50%', y: '-50%', width: '200%', height: '200%' })}>${shadow}</filter>`,
+    attrs: { opacity, style, filter: `url(#${id})` },
+  }
+}
+
+// Fill and stroke attributes for a rect or circle, with the gradient it fills with as a def.
+function paintSvg(s: RectShape | CircleShape): { defs: string; attrs: Record<string, string | number | undefined> } {
+  const dash = dashArray(s.dash, s.strokeWidth ?? 1)
+  const stroke = { stroke: s.stroke, 'stroke-width': s.stroke ? s.strokeWidth : undefined, 'stroke-dasharray': s.stroke ? dash?.map(n).join(' ') : undefined }
+  const g = s.fillGradient
+  if (!g) return { defs: '', attrs: { fill: s.fill, ...stroke } }
+  const id = `${s.id}-fill`
+  const { start, end, radius } = gradientGeometry(g, localBox(s))
+  const stops = gradientStops(g).map((stop) => `<stop${attrs({ offset: stop.offset, 'stop-color': stop.color })}/>`).join('')
+  const defs = g.kind === 'radial'
+    ? `<radialGradient${attrs({ id, gradientUnits: 'userSpaceOnUse', cx: start.x, cy: start.y, r: radius })}>${stops}</radialGradient>`
+    : `<linearGradient${attrs({ id, gradientUnits: 'userSpaceOnUse', x1: start.x, y1: start.y, x2: end.x, y2: end.y })}>${stops}</linearGradient>`
+  return { defs, attrs: { fill: `url(#${id})`, ...stroke } }
+}
+
+function textSvg(s: TextShape): string {
+  const layout = layoutRichText(s)
+  const letterSpacing = s.letterSpacing || undefined
+  return layout.lines
+    .filter((line) => line.fragments.length > 0)
+    .map((line) => {
+      const spans = line.fragments.map((f) => `<tspan${attrs({
+        x: f.x,
+        y: f.baseline,
+        'font-family': f.style.fontFamily,
+        'font-size': f.style.fontSize,
+        'font-weight': f.style.bold ? 'bold' : undefined,
+        'font-style': f.style.italic ? 'italic' : undefined,
+        'text-decoration': f.style.underline ? 'underline' : undefined,
+        fill: f.style.color,
+      })}>${esc(f.text)}</tspan>`)
+      return `<text xml:space="preserve"${attrs({ 'letter-spacing': letterSpacing })}>${spans.join('')}</text>`
+    })
+    .join('')
+}
+
+export function pathData(path: StrokePath): string {
+  const p = path.points
+  if (p.length < 4) return ''
+  let d = `M${n(p[0])} ${n(p[1])}`
+  if (path.bezier) {
+    for (let i = 2; i + 5 < p.length; i += 6) d += ` C${n(p[i])} ${n(p[i + 1])} ${n(p[i + 2])} ${n(p[i + 3])} ${n(p[i + 4])} ${n(p[i + 5])}`
+  } else {
+    for (let i = 2; i + 1 < p.length; i += 2) d += ` L${n(p[i])} ${n(p[i + 1])}`
+  }
+  return d
+}
+
+function headSvg(h: HeadGeometry, color: string, strokeWidth: number): string {
+  if (h.kind === 'circle') return `<circle${attrs({ cx: h.center.x, cy: h.center.y, r: h.radius, fill: color })}/>`
+  const points = h.points.map((p) => `${n(p.x)},${n(p.y)}`).join(' ')
+  if (h.filled) return `<polygon${attrs({ points, fill: color })}/>`
+  return `<polyline${attrs({ points, fill: 'none', stroke: color, 'stroke-width': strokeWidth, 'stroke-linecap': 'round', 'stroke-linejoin': 'round' })}/>`
+}
+
+function strokeSvg(s: StrokeShape, shapes: Shape[], resolve: AnchorResolver): string {
+  const inv = invertMatrix(shapeMatrix(shapes, s.id))
+  const path = strokePath(s, resolve, (p) => applyMatrix(inv, p))
+  const dash = dashArray(s.dash, s.strokeWidth)?.map(n).join(' ')
+  const line = `<path${attrs({ d: pathData(path), fill: 'none', stroke: s.stroke, 'stroke-width': s.strokeWidth, 'stroke-dasharray': dash, 'stroke-linecap': 'round', 'stroke-linejoin': 'round' })}/>`
+  return line + pathHeads(path, s).map((h) => headSvg(h, s.stroke, s.strokeWidth)).join('')
+}
+
+async function shapeSvg(s: Shape, shapes: Shape[], resolve: AnchorResolver): Promise<string> {
+  if (s.hidden) return ''
+  const effects = effectsSvg(s, shapes)
+  const open = `<g${attrs({ id: s.id, transform: placement(s), ...effects.attrs })}>${effects.defs}`
+  if (s.kind === 'rect') {
+    const paint = paintSvg(s)
+    return `${open}${paint.defs}<rect${attrs({ width: s.width, height: s.height, rx: s.cornerRadius || undefined, ...paint.attrs })}/></g>`
+  }
+  if (s.kind === 'circle') {
+    const paint = paintSvg(s)
+    return `${open}${paint.defs}<circle${attrs({ r: s.radius, ...paint.attrs })}/></g>`
+  }
+  if (s.kind === 'text') return `${open}${textSvg(s)}</g>`
+  if (s.kind === 'image') {
+    const href = hasImageEffects(s) ? (await bakeImage(s))?.toDataURL('image/png') : s.assetId ? await assetDataUrl(s.assetId) : null
+    if (!href) return ''
+    return `${open}<image${attrs({ width: s.width, height: s.height, 'xlink:href': href, preserveAspectRatio: 'none' })}/></g>`
+  }
+  if (s.kind === 'group') {
+    const children = await Promise.all(s.children.map((c) => shapeSvg(c, shapes, resolve)))
+    return `${open}${children.join('')}</g>`
+  }
+  return `${open}${strokeSvg(s, shapes, resolve)}</g>`
+}
+
+export async function slideToSvg(slide: Slide, size: SlideSize): Promise<string> {
+  const { width, height } = size
+  const resolve = modelAnchorResolver(slide.shapes)
+  const body = await Promise.all(slide.shapes.map((s) => shapeSvg(s, slide.shapes, resolve)))
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"${attrs({ width, height, viewBox: `0 0 ${width} ${height}` })}>`,
+    `<rect${attrs({ width, height, fill: slide.background })}/>`,
+    ...body,
+    '</svg>',
+  ].join('\n')
+}
+
+// The slide drawn `width` pixels wide, as a JPEG (previews) or PNG data URL; '' if the browser
+// won't rasterize it.
+export async function rasterizeSlide(slide: Slide, width: number, size: SlideSize, type: 'image/jpeg' | 'image/png' = 'image/jpeg'): Promise<string> {
+  const url = URL.createObjectURL(new Blob([await slideToSvg(slide, size)], { type: 'image/svg+xml' }))
+  try {
+    const img = new Image()
+    await new Promise<void>((resolve, reject) => {
+      img.onload = () => resolve()
+      img.onerror = () => reject(new Error('Could not render the slide'))
+      img.src = url
+    })
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = Math.round((width * size.height) / size.width)
+    canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height)
+    return canvas.toDataURL(type, 0.8)
+  } catch {
+    return ''
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
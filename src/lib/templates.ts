@@ -0,0 +1,74 @@
+import type { Deck, Theme } from './deck'
+import { THEME_PRESETS, slideFromLayout } from './theme'
+
+// ---------- Starter decks ----------
+// Decks the home page offers to start from. Each is built fresh from a theme preset and the default
+// master's layouts, so it gets new ids every time and restyles like any deck when its theme changes.
+
+export type DeckTemplate = {
+  id: string
+  name: string
+  description: string
+  build: () => Deck
+}
+
+// One slide per entry: a layout id and the text for its placeholders, by placeholder id.
+type SlideOutline = [layout: string, text: Record<string, string>]
+
+function outlineDeck(themeName: string, outline: SlideOutline[]): Deck {
+  const theme: Theme = THEME_PRESETS.find((t) => t.name === themeName) ?? THEME_PRESETS[0]
+  const base: Deck = { slides: [], theme }
+  const slides = outline.map(([layout, text]) => {
+    const slide = slideFromLayout(base, layout)
+    return {
+      ...slide,
+      shapes: slide.shapes.map((s) => (s.kind === 'text' && s.placeholder && text[s.placeholder] ? { ...s, text: text[s.placeholder] } : s)),
+    }
+  })
+  return { ...base, slides }
+}
+
+export const DECK_TEMPLATES: DeckTemplate[] = [
+  {
+    id: 'blank',
+    name: 'Blank',
+    description: 'A title slide and nothing else.',
+    build: () => outlineDeck('Classic', [['title', {}]]),
+  },
+  {
+    id: 'pitch',
+    name: 'Pitch',
+    description: 'Problem, solution, market, team and the ask.',
+    build: () => outlineDeck('Midnight', [
+      ['title', { title: 'Company name', subtitle: 'What you do, in one line' }],
+      ['title-content', { title: 'The problem', body: 'Who has it\nWhat it costs them today\nWhy now' }],
+      ['title-content', { title: 'Our solution', body: 'What it is\nHow it works\nWhy it wins' }],
+      ['two-column', { title: 'Market', left: 'Total market\nServiceable market\nFirst customers', right: 'Competitors\nOur edge' }],
+      ['title-content', { title: 'Team', body: 'Founders\nKey hires\nAdvisors' }],
+      ['title', { title: 'The ask', subtitle: 'How much, and what it gets us to' }],
+    ]),
+  },
+  {
+    id: 'lecture',
+    name: 'Lecture',
+    description: 'Outline, key ideas, a comparison and a summary.',
+    build: () => outlineDeck('Paper', [
+      ['title', { title: 'Lecture title', subtitle: 'Course · Date' }],
+      ['title-content', { title: 'Outline', body: 'Where we left off\nToday’s key idea\nWorked example\nSummary' }],
+      ['title-content', { title: 'Key idea', body: 'Definition\nWhy it matters\nA first example' }],
+      ['two-column', { title: 'Compare', left: 'Approach A\nStrengths\nWeaknesses', right: 'Approach B\nStrengths\nWeaknesses' }],
+      ['title-content', { title: 'Summary', body: 'What to remember\nReading for next time' }],
+    ]),
+  },
+  {
+    id: 'update',
+    name: 'Project update',
+    description: 'Highlights, progress and risks for a status meeting.',
+    build: () => outlineDeck('Classic', [
+      ['title', { title: 'Project update', subtitle: 'Team · Week of …' }],
+      ['title-content', { title: 'Highlights', body: 'Shipped\nLearned\nDecided' }],
+      ['two-column', { title: 'Progress', left: 'Done\n…', right: 'Next\n…' }],
+      ['title-content', { title: 'Risks and asks', body: 'Risk and what we are doing about it\nWhere we need help' }],
+    ]),
+  },
+]
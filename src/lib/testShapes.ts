@@ -0,0 +1,28 @@
+import type { AnchorName, CircleShape, ConnectorEnd, ConnectorShape, GroupShape, RectShape, Shape, TextShape } from './deck'
+
+// ---------- Test fixtures ----------
+// Small shapes and decks shared by the unit tests. Only what a test cares about is an argument;
+// everything else is a fixed, valid default.
+
+export const rect = (id: string, x = 0, y = 0, fields: Partial<RectShape> = {}): RectShape =>
+  ({ kind: 'rect', id, x, y, rotation: 0, width: 100, height: 50, fill: '#ff0000', ...fields })
+
+export const circle = (id: string, x = 0, y = 0, radius = 50): CircleShape =>
+  ({ kind: 'circle', id, x, y, rotation: 0, radius, fill: '#00ff00' })
+
+export const text = (id: string, value: string, fields: Partial<TextShape> = {}): TextShape =>
+  ({ kind: 'text', id, x: 0, y: 0, rotation: 0, text: value, fontSize: 24, fill: '#000000', ...fields })
+
+export const group = (id: string, children: Shape[], x = 0, y = 0): GroupShape =>
+  ({ kind: 'group', id, x, y, rotation: 0, children })
+
+const end = (shapeId: string | undefined, anchor: AnchorName): ConnectorEnd => (shapeId ? { x: 0, y: 0, shapeId, anchor } : { x: 0, y: 0 })
+
+// A straight connector from `from`'s right anchor to `to`'s left one; a missing id leaves that end free.
+export const connector = (id: string, from?: string, to?: string): ConnectorShape => ({
+  kind: 'connector', id, x: 0, y: 0, rotation: 0, stroke: '#000000', strokeWidth: 2, routing: 'straight',
+  start: end(from, 'right'), end: end(to, 'left'),
+})
+
+// A one-slide deck. Pass a looser shape type (`deckOf<object>(…)`) to hand the validator broken shapes.
+export const deckOf = <S = Shape>(...shapes: NoInfer<S>[]) => ({ slides: [{ id: 'slide_1', background: '#ffffff', shapes }] })
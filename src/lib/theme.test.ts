@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import type { Deck, TextShape } from './deck'
+import { DEFAULT_THEME, THEME_PRESETS, applyTheme, findLayout, layoutShapes, resolveThemeRefs, slideFromLayout, unbind } from './theme'
+import { deckOf, rect, text } from './testShapes'
+
+const midnight = THEME_PRESETS[1]
+const size = { width: 1000, height: 500 }
+
+describe('theme bindings', () => {
+  it('restyles bound fields and leaves unbound ones alone', () => {
+    const bound = rect('a', 0, 0, { stroke: '#123456', themeRefs: { fill: 'accent1' } })
+    expect(resolveThemeRefs(bound, midnight)).toMatchObject({ fill: '#6366f1', stroke: '#123456' })
+  })
+
+  it('returns the same shape when nothing changes', () => {
+    const bound = rect('a', 0, 0, { fill: DEFAULT_THEME.colors.accent1, themeRefs: { fill: 'accent1' } })
+    expect(resolveThemeRefs(bound, DEFAULT_THEME)).toBe(bound)
+  })
+
+  it('ignores bindings the kind has no field for', () => {
+    const t = text('t', 'x', { themeRefs: { stroke: 'accent1', fontFamily: 'heading' } })
+    expect(resolveThemeRefs(t, midnight)).toEqual({ ...t, fontFamily: 'Trebuchet MS' })
+  })
+
+  it('applies a theme to every slide, bound backgrounds included', () => {
+    const deck: Deck = { slides: [{ ...deckOf(rect('a', 0, 0, { themeRefs: { fill: 'accent2' } })).slides[0], backgroundRef: 'background' }, deckOf(rect('b')).slides[0]] }
+    const themed = applyTheme(deck, midnight)
+    expect(themed.theme).toBe(midnight)
+    expect(themed.slides[0].background).toBe('#0f172a')
+    expect(themed.slides[0].shapes[0]).toMatchObject({ fill: '#22d3ee' })
+    expect(themed.slides[1]).toBe(deck.slides[1])
+  })
+
+  it('drops the bindings of fields set by hand', () => {
+    const bound = rect('a', 0, 0, { themeRefs: { fill: 'accent1', stroke: 'text' } })
+    expect(unbind(bound, ['fill']).themeRefs).toEqual({ stroke: 'text' })
+    expect(unbind(bound, ['fill', 'stroke']).themeRefs).toBeUndefined()
+  })
+})
+
+describe('layouts', () => {
+  const layout = (id: string) => findLayout({ slides: [] }, id)!.layout
+
+  it('starts a slide with the layout’s placeholders and the master’s background', () => {
+    const slide = slideFromLayout({ slides: [], theme: midnight }, 'title')
+    expect(slide).toMatchObject({ layout: 'title', background: '#0f172a', backgroundRef: 'background' })
+    expect(slide.shapes.map((s) => (s as TextShape).placeholder)).toEqual(['title', 'subtitle'])
+    expect(slide.shapes[0]).toMatchObject({ fontFamily: 'Trebuchet MS', x: 192, width: 1536 })
+  })
+
+  it('moves filled placeholders into the new layout’s boxes and turns left-over ones into text', () => {
+    const title = text('t', 'Hello', { placeholder: 'title' })
+    const subtitle = text('s', 'World', { placeholder: 'subtitle' })
+    const shapes = layoutShapes([title, subtitle], layout('title'), layout('title-content'), DEFAULT_THEME, size)
+    expect(shapes.map((s) => [(s as TextShape).text, (s as TextShape).placeholder])).toEqual([['', 'body'], ['Hello', 'title'], ['World', undefined]])
+    expect(shapes[1]).toMatchObject({ x: 60, y: 30, width: 880, fontSize: 64 })
+  })
+
+  it('drops empty placeholders the new layout has no box for', () => {
+    expect(layoutShapes([text('s', ' ', { placeholder: 'subtitle' })], layout('title'), layout('blank'), DEFAULT_THEME, size)).toEqual([])
+  })
+})
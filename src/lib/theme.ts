@@ -0,0 +1,253 @@
+import {
+  createSlide, mapShapeTree, slideSize, uid,
+  type Deck, type LayoutPlaceholder, type MasterSlide, type PlaceholderRole, type Shape, type Slide, type SlideLayout, type SlideSize,
+  type TextShape, type Theme, type ThemeColor, type ThemeFont, type ThemeRefs,
+} from './deck'
+
+// ---------- Themes ----------
+// A deck's theme holds its palette and fonts. Shapes bind fill, stroke or font to a theme token
+// through `themeRefs` and keep the resolved value in the field itself, so renderers and exporters
+// never need the theme. Changing the theme rewrites every bound field; editing a bound field by
+// hand unbinds it.
+
+export const DEFAULT_THEME: Theme = {
+  name: 'Classic',
+  colors: { background: '#ffffff', text: '#111827', accent1: '#ffd166', accent2: '#a7f3d0', accent3: '#3b82f6', accent4: '#ef4444' },
+  fonts: { heading: 'Arial', body: 'Arial' },
+  shapes: {
+    rect: { fill: 'accent1', stroke: 'text', strokeWidth: 2 },
+    circle: { fill: 'accent2', stroke: 'text', strokeWidth: 2 },
+    line: { stroke: 'text', strokeWidth: 4 },
+    text: { fill: 'text', font: 'body' },
+  },
+}
+
+export const THEME_PRESETS: Theme[] = [
+  DEFAULT_THEME,
+  {
+    name: 'Midnight',
+    colors: { background: '#0f172a', text: '#f8fafc', accent1: '#6366f1', accent2: '#22d3ee', accent3: '#f472b6', accent4: '#facc15' },
+    fonts: { heading: 'Trebuchet MS', body: 'Verdana' },
+    shapes: {
+      rect: { fill: 'accent1', stroke: 'text', strokeWidth: 0 },
+      circle: { fill: 'accent2', stroke: 'text', strokeWidth: 0 },
+      line: { stroke: 'accent2', strokeWidth: 4 },
+      text: { fill: 'text', font: 'body' },
+    },
+  },
+  {
+    name: 'Paper',
+    colors: { background: '#fdf6e3', text: '#3f3a32', accent1: '#c2410c', accent2: '#65a30d', accent3: '#0e7490', accent4: '#a16207' },
+    fonts: { heading: 'Georgia', body: 'Times New Roman' },
+    shapes: {
+      rect: { fill: 'accent1', stroke: 'text', strokeWidth: 2 },
+      circle: { fill: 'accent2', stroke: 'text', strokeWidth: 2 },
+      line: { stroke: 'text', strokeWidth: 3 },
+      text: { fill: 'text', font: 'body' },
+    },
+  },
+]
+
+const COLOR_LABELS: Record<ThemeColor, string> = {
+  background: 'Background', text: 'Text', accent1: 'Accent 1', accent2: 'Accent 2', accent3: 'Accent 3', accent4: 'Accent 4',
+}
+
+export function themeColorLabel(color: ThemeColor): string {
+  return COLOR_LABELS[color]
+}
+
+export function deckTheme(deck: Deck): Theme {
+  return deck.theme ?? DEFAULT_THEME
+}
+
+// Fill, outline and bindings a new rectangle or circle starts with.
+export function fillLook(theme: Theme, kind: 'rect' | 'circle'): { fill: string; stroke: string; strokeWidth: number; themeRefs: ThemeRefs } {
+  const look = theme.shapes[kind]
+  return { fill: theme.colors[look.fill], stroke: theme.colors[look.stroke], strokeWidth: look.strokeWidth, themeRefs: { fill: look.fill, stroke: look.stroke } }
+}
+
+// Outline and binding a new line, arrow or connector starts with.
+export function lineLook(theme: Theme): { stroke: string; strokeWidth: number; themeRefs: ThemeRefs } {
+  const look = theme.shapes.line
+  return { stroke: theme.colors[look.stroke], strokeWidth: look.strokeWidth, themeRefs: { stroke: look.stroke } }
+}
+
+// Colour, font and bindings a new text box starts with; `font` picks the heading font for titles.
+export function textLook(theme: Theme, font: ThemeFont = theme.shapes.text.font): { fill: string; fontFamily: string; themeRefs: ThemeRefs } {
+  const fill = theme.shapes.text.fill
+  return { fill: theme.colors[fill], fontFamily: theme.fonts[font], themeRefs: { fill, fontFamily: font } }
+}
+
+// `s` with its bound fields set from `theme`. Bindings a kind has no field for are ignored; the
+// same shape comes back when nothing changes.
+export function resolveThemeRefs<T extends Shape>(s: T, theme: Theme): T {
+  const refs = s.themeRefs
+  if (!refs) return s
+  const patch: Record<string, string> = {}
+  if (refs.fill && (s.kind === 'rect' || s.kind === 'circle' || s.kind === 'text')) patch.fill = theme.colors[refs.fill]
+  if (refs.stroke && s.kind !== 'text' && s.kind !== 'image' && s.kind !== 'group') patch.stroke = theme.colors[refs.stroke]
+  if (refs.fontFamily && s.kind === 'text') patch.fontFamily = theme.fonts[refs.fontFamily]
+  const current = s as Record<string, unknown>
+  return Object.entries(patch).some(([key, value]) => current[key] !== value) ? { ...s, ...patch } : s
+}
+
+// The deck with `theme` in place and every bound shape and slide background restyled to match.
+export function applyTheme(deck: Deck, theme: Theme): Deck {
+  return {
+    ...deck,
+    theme,
+    slides: deck.slides.map((sl) => {
+      const shapes = mapShapeTree(sl.shapes, (s) => resolveThemeRefs(s, theme))
+      const background = sl.backgroundRef ? theme.colors[sl.backgroundRef] : sl.background
+      const changed = background !== sl.background || shapes.some((s, i) => s !== sl.shapes[i])
+      return changed ? { ...sl, background, shapes } : sl
+    }),
+  }
+}
+
+// `s` with the bindings of `fields` dropped, after those fields were set by hand.
+export function unbind<T extends Shape>(s: T, fields: string[]): T {
+  const refs = s.themeRefs
+  if (!refs || !fields.some((f) => f in refs)) return s
+  const rest = Object.fromEntries(Object.entries(refs).filter(([key]) => !fields.includes(key))) as ThemeRefs
+  return { ...s, themeRefs: Object.keys(rest).length > 0 ? rest : undefined }
+}
+
+// ---------- Masters & layouts ----------
+// A master gives its slides a background colour and a set of layouts; a layout places the
+// placeholder text boxes a new slide starts with.
+
+const placeholder = (id: string, role: PlaceholderRole, box: [number, number, number, number], fontSize: number, align: LayoutPlaceholder['align'], verticalAlign: LayoutPlaceholder['verticalAlign']): LayoutPlaceholder => ({
+  id, role, x: box[0], y: box[1], width: box[2], height: box[3], fontSize, align, verticalAlign,
+})
+
+export const DEFAULT_MASTERS: MasterSlide[] = [
+  {
+    id: 'default',
+    name: 'Default',
+    background: 'background',
+    layouts: [
+      { id: 'blank', name: 'Blank', placeholders: [] },
+      {
+        id: 'title',
+        name: 'Title',
+        placeholders: [
+          placeholder('title', 'title', [0.1, 0.25, 0.8, 0.3], 96, 'center', 'bottom'),
+          placeholder('subtitle', 'subtitle', [0.1, 0.58, 0.8, 0.15], 44, 'center', 'top'),
+        ],
+      },
+      {
+        id: 'title-content',
+        name: 'Title and Content',
+        placeholders: [
+          placeholder('title', 'title', [0.06, 0.06, 0.88, 0.15], 64, 'left', 'middle'),
+          placeholder('body', 'body', [0.06, 0.26, 0.88, 0.64], 36, 'left', 'top'),
+        ],
+      },
+      {
+        id: 'two-column',
+        name: 'Two Column',
+        placeholders: [
+          placeholder('title', 'title', [0.06, 0.06, 0.88, 0.15], 64, 'left', 'middle'),
+          placeholder('left', 'body', [0.06, 0.26, 0.42, 0.64], 32, 'left', 'top'),
+          placeholder('right', 'body', [0.52, 0.26, 0.42, 0.64], 32, 'left', 'top'),
+        ],
+      },
+    ],
+  },
+]
+
+// What an empty placeholder shows while editing, by role.
+export const PLACEHOLDER_PROMPTS: Record<PlaceholderRole, string> = {
+  title: 'Double-click to add title',
+  subtitle: 'Double-click to add subtitle',
+  body: 'Double-click to add text',
+}
+
+const PLACEHOLDER_NAMES: Record<string, string> = { title: 'Title', subtitle: 'Subtitle', body: 'Body', left: 'Left column', right: 'Right column' }
+
+export function deckMasters(deck: Deck): MasterSlide[] {
+  return deck.masters ?? DEFAULT_MASTERS
+}
+
+export function findLayout(deck: Deck, id: string | undefined): { master: MasterSlide; layout: SlideLayout } | undefined {
+  for (const master of deckMasters(deck)) {
+    const layout = master.layouts.find((l) => l.id === id)
+    if (layout) return { master, layout }
+  }
+  return undefined
+}
+
+// The layout a slide added after one with `id` gets: content follows a title slide, anything else
+// repeats its own layout.
+export function followingLayout(deck: Deck, id: string | undefined): string {
+  if (id === 'title' && findLayout(deck, 'title-content')) return 'title-content'
+  return findLayout(deck, id) ? (id as string) : 'blank'
+}
+
+function placeholderShape(p: LayoutPlaceholder, theme: Theme, size: SlideSize): TextShape {
+  return {
+    kind: 'text', id: uid('text'), name: PLACEHOLDER_NAMES[p.id] ?? 'Placeholder', rotation: 0, text: '', placeholder: p.id,
+    ...placeholderBox(p, size), fontSize: p.fontSize, align: p.align, verticalAlign: p.verticalAlign,
+    ...(p.role === 'body' ? { list: 'bullet' as const } : {}),
+    ...textLook(theme, p.role === 'title' ? 'heading' : 'body'),
+  }
+}
+
+function placeholderBox(p: LayoutPlaceholder, size: SlideSize) {
+  return { x: Math.round(p.x * size.width), y: Math.round(p.y * size.height), width: Math.round(p.width * size.width), height: Math.round(p.height * size.height) }
+}
+
+// `shapes` laid out by `to` on slides of `size`. Placeholders from the previous layout `from` move into the box with the
+// same id, or else one with the same role, keeping their text; left-over empty ones are dropped and
+// left-over filled ones become ordinary text. Boxes nothing filled get new placeholders, behind
+// everything else.
+export function layoutShapes(shapes: Shape[], from: SlideLayout | undefined, to: SlideLayout, theme: Theme, size: SlideSize): Shape[] {
+  const current = shapes.filter((s): s is TextShape => s.kind === 'text' && !!s.placeholder)
+  const roleOf = (s: TextShape) => from?.placeholders.find((p) => p.id === s.placeholder)?.role
+  const matched = new Map<string, LayoutPlaceholder>()
+  const taken = new Set<string>()
+  for (const same of [(p: LayoutPlaceholder, s: TextShape) => s.placeholder === p.id, (p: LayoutPlaceholder, s: TextShape) => roleOf(s) === p.role]) {
+    for (const p of to.placeholders) {
+      if (taken.has(p.id)) continue
+      const s = current.find((c) => !matched.has(c.id) && same(p, c))
+      if (s) { matched.set(s.id, p); taken.add(p.id) }
+    }
+  }
+  const kept = shapes.flatMap((s): Shape[] => {
+    if (s.kind !== 'text' || !s.placeholder) return [s]
+    const p = matched.get(s.id)
+    if (p) return [{ ...s, ...placeholderBox(p, size), placeholder: p.id, fontSize: p.fontSize, align: p.align, verticalAlign: p.verticalAlign }]
+    return s.text.trim() ? [{ ...s, placeholder: undefined }] : []
+  })
+  return [...to.placeholders.filter((p) => !taken.has(p.id)).map((p) => placeholderShape(p, theme, size)), ...kept]
+}
+
+// A new slide made from the layout `id`, with its master's background and empty placeholders.
+export function slideFromLayout(deck: Deck, id: string): Slide {
+  const theme = deckTheme(deck)
+  const found = findLayout(deck, id)
+  if (!found) return createSlide()
+  return {
+    ...createSlide(layoutShapes([], undefined, found.layout, theme, slideSize(deck))),
+    background: theme.colors[found.master.background],
+    backgroundRef: found.master.background,
+    layout: id,
+  }
+}
+
+// An empty placeholder as the editor draws it: its prompt in a muted colour.
+export function placeholderPrompt(s: TextShape, deck: Deck): TextShape {
+  const role = findLayoutPlaceholder(deck, s.placeholder)?.role ?? 'body'
+  return { ...s, text: PLACEHOLDER_PROMPTS[role], runs: undefined, fill: '#9ca3af', list: undefined }
+}
+
+function findLayoutPlaceholder(deck: Deck, id: string | undefined): LayoutPlaceholder | undefined {
+  for (const master of deckMasters(deck)) {
+    for (const layout of master.layouts) {
+      const p = layout.placeholders.find((x) => x.id === id)
+      if (p) return p
+    }
+  }
+  return undefined
+}
@@ -0,0 +1,260 @@
+// ---------- TrueType fonts ----------
+// Just enough of the sfnt format to embed a font in a PDF: metrics, the character map and a glyph
+// subset. Subsetting keeps every glyph id where it is and empties the glyphs nobody uses, so text
+// can address glyphs by their original ids. Fonts with CFF outlines (.otf) are not handled.
+
+export type TrueTypeFont = {
+  postscriptName: string
+  unitsPerEm: number
+  numGlyphs: number
+  // In font units.
+  ascent: number
+  descent: number
+  capHeight: number
+  italicAngle: number
+  bbox: [number, number, number, number]
+  // Glyph id for a code point; 0 (.notdef) when the font has none.
+  glyphFor: (codePoint: number) => number
+  // Advance width in font units.
+  advance: (glyph: number) => number
+  // A standalone font file holding only `glyphs` (plus .notdef and composite parts).
+  subset: (glyphs: Iterable<number>) => Uint8Array
+}
+
+type Tables = Map<string, { offset: number; length: number }>
+
+const tagAt = (view: DataView, at: number) => String.fromCharCode(view.getUint8(at), view.getUint8(at + 1), view.getUint8(at + 2), view.getUint8(at + 3))
+
+function readTables(view: DataView, at: number): Tables {
+  const tables: Tables = new Map()
+  const count = view.getUint16(at + 4)
+  for (let i = 0; i < count; i++) {
+    const rec = at + 12 + i * 16
+    tables.set(tagAt(view, rec), { offset: view.getUint32(rec + 8), length: view.getUint32(rec + 12) })
+  }
+  return tables
+}
+
+// The PostScript name (name id 6), from the Windows or Mac record.
+function postscriptNameOf(view: DataView, tables: Tables): string {
+  const name = tables.get('name')
+  if (!name) return ''
+  const count = view.getUint16(name.offset + 2)
+  const strings = name.offset + view.getUint16(name.offset + 4)
+  for (let i = 0; i < count; i++) {
+    const rec = name.offset + 6 + i * 12
+    if (view.getUint16(rec + 6) !== 6) continue
+    const platform = view.getUint16(rec)
+    const length = view.getUint16(rec + 8)
+    const start = strings + view.getUint16(rec + 10)
+    let out = ''
+    if (platform === 3 || platform === 0) for (let j = 0; j + 1 < length; j += 2) out += String.fromCharCode(view.getUint16(start + j))
+    else for (let j = 0; j < length; j++) out += String.fromCharCode(view.getUint8(start + j))
+    if (out) return out
+  }
+  return ''
+}
+
+// Code point → glyph id from the best Unicode subtable: format 12 (full range) or format 4 (BMP).
+function readCmap(view: DataView, tables: Tables): (codePoint: number) => number {
+  const cmap = tables.get('cmap')
+  if (!cmap) return () => 0
+  const count = view.getUint16(cmap.offset + 2)
+  let format4 = -1
+  let format12 = -1
+  for (let i = 0; i < count; i++) {
+    const rec = cmap.offset + 4 + i * 8
+    const platform = view.getUint16(rec)
+    const encoding = view.getUint16(rec + 2)
+    if (platform !== 0 && !(platform === 3 && (encoding === 1 || encoding === 10))) continue
+    const sub = cmap.offset + view.getUint32(rec + 4)
+    const format = view.getUint16(sub)
+    if (format === 12) format12 = sub
+    else if (format === 4) format4 = sub
+  }
+  if (format12 >= 0) {
+    const groups = view.getUint32(format12 + 12)
+    return (cp) => {
+      let lo = 0
+      let hi = groups - 1
+      while (lo <= hi) {
+        const mid = (lo + hi) >> 1
+        const g = format12 + 16 + mid * 12
+        const start = view.getUint32(g)
+        if (cp < start) hi = mid - 1
+        else if (cp > view.getUint32(g + 4)) lo = mid + 1
+        else return view.getUint32(g + 8) + cp - start
+      }
+      return 0
+    }
+  }
+  if (format4 < 0) return () => 0
+  const segments = view.getUint16(format4 + 6) / 2
+  const ends = format4 + 14
+  const starts = ends + segments * 2 + 2
+  const deltas = starts + segments * 2
+  const rangeOffsets = deltas + segments * 2
+  return (cp) => {
+    if (cp > 0xffff) return 0
+    for (let i = 0; i < segments; i++) {
+      if (cp > view.getUint16(ends + i * 2)) continue
+      const start = view.getUint16(starts + i * 2)
+      if (cp < start) return 0
+      const delta = view.getInt16(deltas + i * 2)
+      const rangeOffset = view.getUint16(rangeOffsets + i * 2)
+      if (rangeOffset === 0) return (cp + delta) & 0xffff
+      const glyph = view.getUint16(rangeOffsets + i * 2 + rangeOffset + (cp - start) * 2)
+      return glyph === 0 ? 0 : (glyph + delta) & 0xffff
+    }
+    return 0
+  }
+}
+
+// Glyphs a composite glyph is built from.
+const MORE_COMPONENTS = 0x20
+function componentsOf(glyph: DataView): number[] {
+  if (glyph.byteLength < 10 || glyph.getInt16(0) >= 0) return []
+  const out: number[] = []
+  let at = 10
+  for (;;) {
+    const flags = glyph.getUint16(at)
+    out.push(glyph.getUint16(at + 2))
+    at += 4 + (flags & 0x1 ? 4 : 2) + (flags & 0x8 ? 2 : flags & 0x40 ? 4 : flags & 0x80 ? 8 : 0)
+    if (!(flags & MORE_COMPONENTS) || at + 4 > glyph.byteLength) return out
+  }
+}
+
+function checksum(bytes: Uint8Array): number {
+  const padded = new Uint8Array((bytes.length + 3) & ~3)
+  padded.set(bytes)
+  const view = new DataView(padded.buffer)
+  let sum = 0
+  for (let i = 0; i < padded.length; i += 4) sum = (sum + view.getUint32(i)) >>> 0
+  return sum
+}
+
+// Writes tables into an sfnt file, with the directory and checksums the format asks for.
+function writeSfnt(tables: Map<string, Uint8Array>): Uint8Array {
+  const tags = [...tables.keys()].sort()
+  const headerLength = 12 + tags.length * 16
+  const total = tags.reduce((n, t) => n + (((tables.get(t) as Uint8Array).length + 3) & ~3), headerLength)
+  const out = new Uint8Array(total)
+  const view = new DataView(out.buffer)
+  const power = 2 ** Math.floor(Math.log2(tags.length))
+  view.setUint32(0, 0x00010000)
+  view.setUint16(4, tags.length)
+  view.setUint16(6, power * 16)
+  view.setUint16(8, Math.log2(power))
+  view.setUint16(10, tags.length * 16 - power * 16)
+  let offset = headerLength
+  let headOffset = -1
+  tags.forEach((tag, i) => {
+    const data = tables.get(tag) as Uint8Array
+    const rec = 12 + i * 16
+    for (let j = 0; j < 4; j++) view.setUint8(rec + j, tag.charCodeAt(j))
+    view.setUint32(rec + 4, checksum(data))
+    view.setUint32(rec + 8, offset)
+    view.setUint32(rec + 12, data.length)
+    out.set(data, offset)
+    if (tag === 'head') headOffset = offset
+    offset += (data.length + 3) & ~3
+  })
+  if (headOffset >= 0) view.setUint32(headOffset + 8, (0xb1b0afba - checksum(out)) >>> 0)
+  return out
+}
+
+// Tables a TrueType font needs to render; hinting programs are kept so small sizes look the same.
+const KEPT_TABLES = ['head', 'hhea', 'maxp', 'hmtx', 'cvt ', 'fpgm', 'prep']
+
+// Parses a .ttf, or the face of a .ttc collection named `postscriptName` (the first one if none
+// matches). Null if the data is not a TrueType font.
+export function parseTrueType(data: Uint8Array, postscriptName?: string): TrueTypeFont | null {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  try {
+    let at = 0
+    if (tagAt(view, 0) === 'ttcf') {
+      const faces = Array.from({ length: view.getUint32(8) }, (_, i) => view.getUint32(12 + i * 4))
+      at = faces.find((f) => postscriptNameOf(view, readTables(view, f)) === postscriptName) ?? faces[0]
+    }
+    if (view.getUint32(at) !== 0x00010000 && tagAt(view, at) !== 'true') return null
+    const tables = readTables(view, at)
+    const table = (tag: string) => tables.get(tag)
+    const head = table('head')
+    const hhea = table('hhea')
+    const maxp = table('maxp')
+    const hmtx = table('hmtx')
+    const loca = table('loca')
+    const glyf = table('glyf')
+    if (!head || !hhea || !maxp || !hmtx || !loca || !glyf) return null
+
+    const numGlyphs = view.getUint16(maxp.offset + 4)
+    const longLoca = view.getInt16(head.offset + 50) === 1
+    const glyphRange = (g: number): [number, number] => (longLoca
+      ? [view.getUint32(loca.offset + g * 4), view.getUint32(loca.offset + g * 4 + 4)]
+      : [view.getUint16(loca.offset + g * 2) * 2, view.getUint16(loca.offset + g * 2 + 2) * 2])
+    const metrics = view.getUint16(hhea.offset + 34)
+    const advance = (g: number) => view.getUint16(hmtx.offset + Math.min(g, metrics - 1) * 4)
+    const os2 = table('OS/2')
+    const post = table('post')
+    const ascent = view.getInt16(hhea.offset + 4)
+
+    const subset = (glyphs: Iterable<number>): Uint8Array => {
+      const keep = new Set<number>([0])
+      const queue = [...glyphs].filter((g) => g > 0 && g < numGlyphs)
+      while (queue.length > 0) {
+        const g = queue.pop() as number
+        if (keep.has(g)) continue
+        keep.add(g)
+        const [start, end] = glyphRange(g)
+        if (end > start) queue.push(...componentsOf(new DataView(data.buffer, data.byteOffset + glyf.offset + start, end - start)).filter((c) => c < numGlyphs))
+      }
+      const pieces: Uint8Array[] = []
+      const offsets = new Uint32Array(numGlyphs + 1)
+      let size = 0
+      for (let g = 0; g < numGlyphs; g++) {
+        offsets[g] = size
+        if (!keep.has(g)) continue
+        const [start, end] = glyphRange(g)
+        if (end <= start) continue
+        const piece = new Uint8Array(((end - start) + 3) & ~3)
+        piece.set(data.subarray(glyf.offset + start, glyf.offset + end))
+        pieces.push(piece)
+        size += piece.length
+      }
+      offsets[numGlyphs] = size
+      const glyfOut = new Uint8Array(size)
+      let cursor = 0
+      for (const p of pieces) { glyfOut.set(p, cursor); cursor += p.length }
+      const locaOut = new Uint8Array((numGlyphs + 1) * 4)
+      const locaView = new DataView(locaOut.buffer)
+      offsets.forEach((o, i) => locaView.setUint32(i * 4, o))
+
+      const out = new Map<string, Uint8Array>([['glyf', glyfOut], ['loca', locaOut]])
+      for (const tag of KEPT_TABLES) {
+        const t = table(tag)
+        if (t) out.set(tag, data.slice(t.offset, t.offset + t.length))
+      }
+      const headOut = new DataView((out.get('head') as Uint8Array).buffer)
+      headOut.setUint32(8, 0)
+      headOut.setInt16(50, 1)
+      return writeSfnt(out)
+    }
+
+    return {
+      postscriptName: postscriptNameOf(view, tables) || postscriptName || 'Embedded',
+      unitsPerEm: view.getUint16(head.offset + 18),
+      numGlyphs,
+      ascent,
+      descent: view.getInt16(hhea.offset + 6),
+      capHeight: os2 && view.getUint16(os2.offset) >= 2 && os2.length >= 90 ? view.getInt16(os2.offset + 88) : ascent,
+      italicAngle: post ? view.getInt32(post.offset + 4) / 65536 : 0,
+      bbox: [view.getInt16(head.offset + 36), view.getInt16(head.offset + 38), view.getInt16(head.offset + 40), view.getInt16(head.offset + 42)],
+      glyphFor: readCmap(view, tables),
+      advance,
+      subset,
+    }
+  } catch {
+    // Offsets past the end of the data: a damaged or truncated file.
+    return null
+  }
+}
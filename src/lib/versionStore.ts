@@ -0,0 +1,82 @@
+import { slideSize, uid, type Deck } from './deck'
+import { assetIdsIn } from './assets'
+import { parseDocument, toDocument, type DeckDocument } from './document'
+import { rasterizeSlide } from './svgExport'
+import { expiredSnapshots, type VersionMeta } from './versions'
+
+// ---------- Version stores ----------
+// Where the editor keeps versions: next to a server deck through its API (see deckSync.ts), or in
+// localStorage for the deck that lives there.
+
+export type VersionStore = {
+  list(): Promise<VersionMeta[]>
+  get(id: string): Promise<Deck | null>
+  save(deck: Deck, name: string, auto: boolean): Promise<VersionMeta>
+  remove(id: string): Promise<void>
+}
+
+export const THUMBNAIL_WIDTH = 240
+
+export const thumbnailOf = (deck: Deck) => rasterizeSlide(deck.slides[0], THUMBNAIL_WIDTH, slideSize(deck))
+
+const VERSIONS_LS_KEY = 'slide-deck.versions'
+
+type LocalVersion = { meta: VersionMeta; document: DeckDocument }
+
+function readLocal(): LocalVersion[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(VERSIONS_LS_KEY) ?? '[]')
+    return Array.isArray(stored) ? stored : []
+  } catch {
+    return []
+  }
+}
+
+// Writes the list, giving up the oldest automatic snapshots while the quota is exceeded.
+function writeLocal(versions: LocalVersion[]) {
+  let kept = versions
+  for (;;) {
+    try {
+      localStorage.setItem(VERSIONS_LS_KEY, JSON.stringify(kept))
+      return
+    } catch {
+      const oldest = kept.filter((v) => v.meta.auto).sort((a, b) => a.meta.createdAt - b.meta.createdAt)[0]
+      if (!oldest) throw new Error('There is not enough browser storage left to save this version.')
+      kept = kept.filter((v) => v !== oldest)
+    }
+  }
+}
+
+// Images the locally saved versions use. Their documents carry only asset ids, so restoring one
+// needs these to still be in the asset store.
+export function localVersionAssets(): Set<string> {
+  const ids = new Set<string>()
+  for (const v of readLocal()) {
+    const parsed = parseDocument(v.document)
+    if (parsed.ok) for (const id of assetIdsIn(parsed.deck.slides.map((sl) => sl.shapes))) ids.add(id)
+  }
+  return ids
+}
+
+export function localVersionStore(): VersionStore {
+  return {
+    async list() {
+      return readLocal().map((v) => v.meta).sort((a, b) => b.createdAt - a.createdAt)
+    },
+    async get(id) {
+      const found = readLocal().find((v) => v.meta.id === id)
+      const parsed = found ? parseDocument(found.document) : null
+      return parsed?.ok ? parsed.deck : null
+    },
+    async save(deck, name, auto) {
+      const meta: VersionMeta = { id: uid('version'), name, auto, createdAt: Date.now(), slideCount: deck.slides.length, thumbnail: await thumbnailOf(deck) }
+      const versions = [...readLocal(), { meta, document: toDocument(deck) }]
+      const expired = new Set(expiredSnapshots(versions.map((v) => v.meta)).map((m) => m.id))
+      writeLocal(versions.filter((v) => !expired.has(v.meta.id)))
+      return meta
+    },
+    async remove(id) {
+      writeLocal(readLocal().filter((v) => v.meta.id !== id))
+    },
+  }
+}
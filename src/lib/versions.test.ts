@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import type { Deck } from './deck'
+import { AUTO_SNAPSHOT_LIMIT, diffDecks, expiredSnapshots, type VersionMeta } from './versions'
+import { deckOf, group, rect } from './testShapes'
+
+const version = (id: string, createdAt: number, auto: boolean): VersionMeta => ({ id, name: id, auto, createdAt, slideCount: 1, thumbnail: '' })
+
+describe('expiredSnapshots', () => {
+  it('drops the oldest automatic snapshots past the limit and never named versions', () => {
+    const autos = Array.from({ length: AUTO_SNAPSHOT_LIMIT + 2 }, (_, i) => version(`auto${i}`, i, true))
+    const expired = expiredSnapshots([version('named', -1, false), ...autos])
+    expect(expired.map((v) => v.id).sort()).toEqual(['auto0', 'auto1'])
+  })
+})
+
+describe('diffDecks', () => {
+  const before = deckOf(rect('a'), rect('b'), rect('c'))
+
+  it('reports an identical deck as unchanged', () => {
+    expect(diffDecks(before, before)).toEqual([expect.objectContaining({ slideId: 'slide_1', status: 'unchanged', fields: [], shapes: [] })])
+  })
+
+  it('tells moves from restyles, and reports additions and removals', () => {
+    const after = deckOf(rect('a', 10, 0), rect('b', 0, 0, { fill: '#0000ff', rotation: 45 }), rect('d'))
+    const [diff] = diffDecks(before, after)
+    expect(diff.status).toBe('changed')
+    expect(diff.shapes.map((c) => [c.id, c.kinds])).toEqual([['a', ['moved']], ['b', ['moved', 'restyled']], ['c', ['removed']], ['d', ['added']]])
+  })
+
+  it('does not count a shift in stacking order caused by a sibling as a change', () => {
+    const [diff] = diffDecks(before, deckOf(rect('b'), rect('c')))
+    expect(diff.shapes).toEqual([expect.objectContaining({ id: 'a', kinds: ['removed'] })])
+  })
+
+  it('counts moving a shape into a group as a move', () => {
+    const [diff] = diffDecks(deckOf(rect('a'), group('g', [])), deckOf(group('g', [rect('a')])))
+    expect(diff.shapes.find((c) => c.id === 'a')?.kinds).toEqual(['moved'])
+  })
+
+  it('lists changed slide fields and puts removed slides back where they were', () => {
+    const two: Deck = { slides: [before.slides[0], { id: 'slide_2', background: '#ffffff', shapes: [] }] }
+    const after: Deck = { slides: [{ ...two.slides[1], background: '#000000' }] }
+    expect(diffDecks(two, after).map((d) => [d.slideId, d.status, d.fields])).toEqual([
+      ['slide_1', 'removed', []],
+      ['slide_2', 'changed', ['background']],
+    ])
+  })
+})
@@ -0,0 +1,105 @@
+import { findShape, type Deck, type Shape, type Slide } from './deck'
+import { INDEX, PARENT, sameValue, toRecords } from './records'
+
+// ---------- Versions ----------
+// Durable checkpoints of a whole deck, kept next to the deck wherever it is saved. Users name
+// versions themselves; automatic snapshots are taken while editing and only the most recent
+// AUTO_SNAPSHOT_LIMIT of them are kept. Each version carries a small thumbnail of its first slide
+// so the list can be browsed without loading every deck.
+
+export type VersionMeta = {
+  id: string
+  name: string
+  auto: boolean
+  createdAt: number
+  slideCount: number
+  // Image data URL of the first slide.
+  thumbnail: string
+}
+
+export type StoredVersion = VersionMeta & { deck: Deck }
+
+// What a client sends to save a version; the store assigns the id and time.
+export type NewVersion = { name: string; auto: boolean; thumbnail: string }
+
+// Take an automatic snapshot this often (ms) while the deck keeps changing.
+export const AUTO_SNAPSHOT_INTERVAL = 10 * 60 * 1000
+export const AUTO_SNAPSHOT_LIMIT = 20
+
+export const VERSION_ID_PATTERN = /^version_[a-z0-9]{1,16}$/
+
+// Automatic snapshots beyond the limit, oldest first; named versions are never dropped.
+export function expiredSnapshots(versions: VersionMeta[]): VersionMeta[] {
+  return versions
+    .filter((v) => v.auto)
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(AUTO_SNAPSHOT_LIMIT)
+}
+
+// ---------- Diff ----------
+// Compares two decks slide by slide and shape by shape, matching both by id. A changed shape is
+// "moved" when its place or geometry differs and "restyled" when anything else does; it can be both.
+
+export type ShapeChangeKind = 'added' | 'removed' | 'moved' | 'restyled'
+
+export type ShapeChange = { id: string; kinds: ShapeChangeKind[]; before?: Shape; after?: Shape }
+
+export type SlideDiff = {
+  slideId: string
+  status: 'added' | 'removed' | 'changed' | 'unchanged'
+  before?: Slide
+  after?: Slide
+  // Slide-level fields (background, layout, notes, transition) that differ.
+  fields: string[]
+  shapes: ShapeChange[]
+}
+
+const GEOMETRY_FIELDS = new Set(['x', 'y', 'rotation', 'width', 'height', 'radius', 'points', 'start', 'end', PARENT])
+
+function diffShapeLists(before: Shape[], after: Shape[]): ShapeChange[] {
+  const a = toRecords(before)
+  const b = toRecords(after)
+  const out: ShapeChange[] = []
+  for (const id of new Set([...a.keys(), ...b.keys()])) {
+    const ra = a.get(id)
+    const rb = b.get(id)
+    if (!ra || !rb) {
+      out.push(ra ? { id, kinds: ['removed'], before: findShape(before, id) } : { id, kinds: ['added'], after: findShape(after, id) })
+      continue
+    }
+    const kinds = new Set<ShapeChangeKind>()
+    for (const field of new Set([...Object.keys(ra), ...Object.keys(rb)])) {
+      // Stacking positions shift whenever a sibling comes or goes, so they don't count as a change.
+      if (field === INDEX) continue
+      if (!sameValue(ra[field], rb[field])) kinds.add(GEOMETRY_FIELDS.has(field) ? 'moved' : 'restyled')
+    }
+    if (kinds.size > 0) out.push({ id, kinds: [...kinds], before: findShape(before, id), after: findShape(after, id) })
+  }
+  return out
+}
+
+export function diffDecks(before: Deck, after: Deck): SlideDiff[] {
+  const beforeById = new Map(before.slides.map((sl) => [sl.id, sl]))
+  const afterIds = new Set(after.slides.map((sl) => sl.id))
+  const out: SlideDiff[] = after.slides.map((slide) => {
+    const old = beforeById.get(slide.id)
+    if (!old) return { slideId: slide.id, status: 'added', after: slide, fields: [], shapes: diffShapeLists([], slide.shapes) }
+    const fieldsA: Partial<Slide> = { ...old }
+    const fieldsB: Partial<Slide> = { ...slide }
+    delete fieldsA.shapes
+    delete fieldsB.shapes
+    const keys = new Set([...Object.keys(fieldsA), ...Object.keys(fieldsB)]) as Set<keyof typeof fieldsA>
+    const fields = [...keys].filter((k) => !sameValue(fieldsA[k], fieldsB[k]))
+    const shapes = diffShapeLists(old.shapes, slide.shapes)
+    return { slideId: slide.id, status: fields.length > 0 || shapes.length > 0 ? 'changed' : 'unchanged', before: old, after: slide, fields, shapes }
+  })
+  // Removed slides go back where they were, after the slide that preceded them.
+  before.slides.forEach((slide, i) => {
+    if (afterIds.has(slide.id)) return
+    const removed: SlideDiff = { slideId: slide.id, status: 'removed', before: slide, fields: [], shapes: diffShapeLists(slide.shapes, []) }
+    const prev = before.slides[i - 1]
+    const at = prev ? out.findIndex((d) => d.slideId === prev.id) + 1 : 0
+    out.splice(at, 0, removed)
+  })
+  return out
+}
@@ -0,0 +1,110 @@
+// ---------- Minimal ZIP archive ----------
+// Enough of the ZIP format for Office documents: stored and deflated entries, no encryption,
+// no ZIP64. Compression uses the browser's CompressionStream with raw deflate.
+
+export type ZipEntry = {
+  name: string
+  data: Uint8Array
+}
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+let crcTable: Uint32Array | null = null
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+  let crc = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const piped = new Blob([bytes as BlobPart]).stream().pipeThrough(stream)
+  return new Uint8Array(await new Response(piped).arrayBuffer())
+}
+
+function header(size: number, write: (view: DataView) => void): Uint8Array {
+  const bytes = new Uint8Array(size)
+  write(new DataView(bytes.buffer))
+  return bytes
+}
+
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  const parts: Uint8Array[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const deflated = await transform(entry.data, new CompressionStream('deflate-raw'))
+    // Already-compressed media (PNG, JPEG) often grows when deflated again; store it as is.
+    const stored = deflated.length >= entry.data.length
+    const body = stored ? entry.data : deflated
+    const crc = crc32(entry.data)
+    const fields = (view: DataView, at: number) => {
+      view.setUint16(at, 20, true)
+      view.setUint16(at + 2, 0x0800, true) // UTF-8 names
+      view.setUint16(at + 4, stored ? 0 : 8, true)
+      view.setUint32(at + 10, crc, true)
+      view.setUint32(at + 14, body.length, true)
+      view.setUint32(at + 18, entry.data.length, true)
+      view.setUint16(at + 22, name.length, true)
+    }
+    parts.push(header(30, (v) => { v.setUint32(0, 0x04034b50, true); fields(v, 4) }), name, body)
+    central.push(header(46, (v) => {
+      v.setUint32(0, 0x02014b50, true)
+      v.setUint16(4, 20, true)
+      fields(v, 6)
+      v.setUint32(42, offset, true)
+    }), name)
+    offset += 30 + name.length + body.length
+  }
+  const centralSize = central.reduce((n, c) => n + c.length, 0)
+  const end = header(22, (v) => {
+    v.setUint32(0, 0x06054b50, true)
+    v.setUint16(8, entries.length, true)
+    v.setUint16(10, entries.length, true)
+    v.setUint32(12, centralSize, true)
+    v.setUint32(16, offset, true)
+  })
+  return new Blob([...parts, ...central, end] as BlobPart[], { type: 'application/zip' })
+}
+
+// Reads every entry through the central directory; returns null when the bytes are not a ZIP.
+export async function readZip(bytes: Uint8Array): Promise<Map<string, Uint8Array> | null> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let end = -1
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) { end = i; break }
+  }
+  if (end < 0) return null
+
+  const files = new Map<string, Uint8Array>()
+  const count = view.getUint16(end + 10, true)
+  let at = view.getUint32(end + 16, true)
+  for (let i = 0; i < count; i++) {
+    if (at + 46 > bytes.length || view.getUint32(at, true) !== 0x02014b50) return null
+    const method = view.getUint16(at + 10, true)
+    const size = view.getUint32(at + 20, true)
+    const nameLength = view.getUint16(at + 28, true)
+    const extraLength = view.getUint16(at + 30, true)
+    const commentLength = view.getUint16(at + 32, true)
+    const local = view.getUint32(at + 42, true)
+    const name = decoder.decode(bytes.subarray(at + 46, at + 46 + nameLength))
+    at += 46 + nameLength + extraLength + commentLength
+
+    if (local + 30 > bytes.length || view.getUint32(local, true) !== 0x04034b50) return null
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true)
+    const body = bytes.subarray(start, start + size)
+    if (method === 0) files.set(name, body)
+    else if (method === 8) files.set(name, await transform(body, new DecompressionStream('deflate-raw')))
+  }
+  return files
+}